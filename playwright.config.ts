@@ -10,6 +10,9 @@ import { defineConfig, devices } from '@playwright/test';
 export default defineConfig({
   testDir: './tests',
   
+  // Node-side tests run without the dev server (see playwright.unit.config.ts)
+  testIgnore: 'unit/**',
+  
   // Maximum time one test can run
   timeout: 30 * 1000,
   
@@ -0,0 +1,20 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Playwright Configuration for Node-side Tests
+ * 
+ * Runs tests/unit without a browser or dev server: offline audio renders and
+ * pure modules. Browser tests use playwright.config.ts.
+ */
+
+export default defineConfig({
+  testDir: './tests/unit',
+  
+  // Maximum time one test can run
+  timeout: 30 * 1000,
+  
+  // Fail the build on CI if you accidentally left test.only in the source code
+  forbidOnly: !!process.env.CI,
+  
+  reporter: 'list',
+});
@@ -4,6 +4,17 @@
  * Compresses GLB files using Draco compression for geometry
  * Reduces file sizes by ~60% while maintaining visual quality
  * 
+ * Produces two variants of each model:
+ * - `<name>_compressed.glb`      - Draco geometry + WebP textures (fallback)
+ * - `<name>_compressed.ktx2.glb` - Draco geometry + KTX2/Basis textures
+ *   (UASTC for normal/ORM data, ETC1S for color). Needs KTX-Software `toktx`
+ *   on PATH; skipped with a warning otherwise.
+ * 
+ * Plus simplified level-of-detail variants for progressive loading:
+ * - `<name>_compressed.low.glb` / `.medium.glb` - meshopt-simplified and
+ *   meshopt-compressed, listed in public/lod-manifest.json. The full model
+ *   above is the high level.
+ * 
  * Usage: node scripts/compress-models.js
  */
 
@@ -12,8 +23,12 @@ import { join, dirname, basename } from 'path';
 import { fileURLToPath } from 'url';
 import { Document, NodeIO } from '@gltf-transform/core';
 import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
-import { draco, dedup, prune, textureCompress } from '@gltf-transform/functions';
+import { draco, dedup, prune, textureCompress, weld, simplify, meshopt } from '@gltf-transform/functions';
+import { toktx, Mode } from '@gltf-transform/cli';
 import draco3d from 'draco3dgltf';
+import { MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+import sharp from 'sharp';
+import { isToktxAvailable, toPublicUrl, updateKTX2Manifest, PUBLIC_DIR } from './ktx2-manifest.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -33,24 +48,57 @@ const CONFIG = {
       TEX_COORD: 12,     // High precision for texture coordinates
       GENERIC: 12        // High precision for generic attributes
     }
-  }
+  },
+  webpOptions: {
+    quality: 85
+  },
+  ktx2Options: {
+    // Normal, occlusion and metal/rough maps hold data, not color -
+    // UASTC keeps them free of ETC1S block artifacts
+    uastc: {
+      slots: /^(normalTexture|occlusionTexture|metallicRoughnessTexture)$/,
+      level: 2,
+      rdo: true,
+      zstd: 18
+    },
+    // Everything else (base color, emissive) is fine at ETC1S size
+    etc1s: {
+      quality: 128,
+      compression: 2
+    }
+  },
+  // Coarsest first - the runtime streams them in this order, then the full model.
+  // Node/mesh names are kept, so wheel detection and materials match every level.
+  lodLevels: [
+    { name: 'low', ratio: 0.1, error: 0.01, textureSize: [256, 256] },
+    { name: 'medium', ratio: 0.4, error: 0.002, textureSize: [1024, 1024] }
+  ],
+  lodManifestPath: join(PUBLIC_DIR, 'lod-manifest.json')
 };
 
+/**
+ * Create a NodeIO with all extensions and the Draco codec registered
+ */
+async function createIO() {
+  return new NodeIO()
+    .registerExtensions(ALL_EXTENSIONS)
+    .registerDependencies({
+      'draco3d.decoder': await draco3d.createDecoderModule(),
+      'draco3d.encoder': await draco3d.createEncoderModule(),
+    });
+}
+
 /**
  * Compress a single GLB file
+ * 
+ * @param textureFormat - 'webp' for the fallback model, 'ktx2' for the KTX2 variant
  */
-async function compressGLB(inputPath, outputPath) {
-  console.log(`\n📦 Compressing: ${basename(inputPath)}`);
+async function compressGLB(inputPath, outputPath, textureFormat = 'webp') {
+  console.log(`\n📦 Compressing: ${basename(inputPath)} (${textureFormat} textures)`);
   
   try {
     // Read the GLB file
-    const io = new NodeIO()
-      .registerExtensions(ALL_EXTENSIONS)
-      .registerDependencies({
-        'draco3d.decoder': await draco3d.createDecoderModule(),
-        'draco3d.encoder': await draco3d.createEncoderModule(),
-      });
-    
+    const io = await createIO();
     const document = await io.read(inputPath);
     
     // Get original size
@@ -70,7 +118,20 @@ async function compressGLB(inputPath, outputPath) {
       prune()
     );
     
-    // 3. Apply Draco compression
+    // 3. Compress textures
+    if (textureFormat === 'ktx2') {
+      const { slots, ...uastcOptions } = CONFIG.ktx2Options.uastc;
+      await document.transform(
+        toktx({ encoder: sharp, mode: Mode.UASTC, slots, ...uastcOptions }),
+        toktx({ encoder: sharp, mode: Mode.ETC1S, ...CONFIG.ktx2Options.etc1s })
+      );
+    } else {
+      await document.transform(
+        textureCompress({ encoder: sharp, targetFormat: 'webp', ...CONFIG.webpOptions })
+      );
+    }
+    
+    // 4. Apply Draco compression
     await document.transform(
       draco(CONFIG.dracoOptions)
     );
@@ -96,6 +157,74 @@ async function compressGLB(inputPath, outputPath) {
   }
 }
 
+/**
+ * Build one simplified LOD variant
+ * 
+ * Meshopt instead of Draco here: it decodes much faster, which matters more
+ * than size for a stand-in model that is on screen for a few seconds.
+ */
+async function compressLOD(inputPath, outputPath, level) {
+  console.log(`\n🔻 Building ${level.name} LOD: ${basename(outputPath)}`);
+  
+  await MeshoptSimplifier.ready;
+  await MeshoptEncoder.ready;
+  
+  const io = (await createIO())
+    .registerDependencies({ 'meshopt.encoder': MeshoptEncoder });
+  const document = await io.read(inputPath);
+  
+  await document.transform(
+    dedup(),
+    prune(),
+    weld(),
+    simplify({ simplifier: MeshoptSimplifier, ratio: level.ratio, error: level.error }),
+    textureCompress({ encoder: sharp, targetFormat: 'webp', resize: level.textureSize, ...CONFIG.webpOptions }),
+    meshopt({ encoder: MeshoptEncoder, level: 'medium' })
+  );
+  
+  await io.write(outputPath, document);
+  
+  const size = readFileSync(outputPath).length;
+  console.log(`   ✅ ${level.name}: ${(size / 1024).toFixed(0)} KB`);
+}
+
+/**
+ * Record a model's LOD variants (coarsest first) for the runtime AssetLoader
+ */
+function updateLODManifest(modelFile, lodFiles) {
+  const manifest = existsSync(CONFIG.lodManifestPath)
+    ? JSON.parse(readFileSync(CONFIG.lodManifestPath, 'utf8'))
+    : { models: {} };
+  
+  manifest.models[toPublicUrl(modelFile)] = lodFiles.map(toPublicUrl);
+  
+  writeFileSync(CONFIG.lodManifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`🔻 LOD manifest updated: ${lodFiles.length} level(s) for ${basename(modelFile)}`);
+}
+
+/**
+ * Build any missing LOD variants of a model
+ */
+async function buildLODs(inputFile, outputFile) {
+  const lodFiles = CONFIG.lodLevels.map((level) =>
+    outputFile.replace(/\.glb$/, `.${level.name}.glb`)
+  );
+  
+  for (const [index, level] of CONFIG.lodLevels.entries()) {
+    if (existsSync(lodFiles[index])) {
+      console.log(`✅ ${level.name} LOD already exists:`, basename(lodFiles[index]));
+      continue;
+    }
+    if (!existsSync(inputFile)) {
+      console.log(`⚠️  Source model missing - skipping ${level.name} LOD`);
+      return;
+    }
+    await compressLOD(inputFile, lodFiles[index], level);
+  }
+  
+  updateLODManifest(outputFile, lodFiles);
+}
+
 /**
  * Main compression function
  */
@@ -111,11 +240,30 @@ async function main() {
   // Find all GLB files in input directory
   const inputFile = join(CONFIG.inputDir, 'Main_truck_updated.glb');
   const outputFile = join(CONFIG.outputDir, 'Main_truck_updated_compressed.glb');
+  const ktx2OutputFile = join(CONFIG.outputDir, 'Main_truck_updated_compressed.ktx2.glb');
+  
+  // Level-of-detail variants (independent of the full-detail files below)
+  try {
+    await buildLODs(inputFile, outputFile);
+  } catch (error) {
+    console.error('\n❌ LOD generation failed:', error);
+    process.exit(1);
+  }
   
-  // Check if compressed file already exists
-  if (existsSync(outputFile)) {
+  // Check if compressed files already exist
+  const needsFallback = !existsSync(outputFile);
+  const needsKTX2 = !existsSync(ktx2OutputFile);
+  
+  if (!needsFallback) {
     console.log('✅ Compressed file already exists:', basename(outputFile));
-    console.log('   Skipping compression (file already optimized)');
+  }
+  if (!needsKTX2) {
+    console.log('✅ KTX2 variant already exists:', basename(ktx2OutputFile));
+    updateKTX2Manifest({ [toPublicUrl(outputFile)]: toPublicUrl(ktx2OutputFile) });
+  }
+  
+  if (!needsFallback && !needsKTX2) {
+    console.log('   Skipping compression (files already optimized)');
     console.log('\n✨ Compression check complete!');
     return;
   }
@@ -126,7 +274,7 @@ async function main() {
     console.log('   If compressed file already exists, this is OK.');
     
     // Check if compressed version exists
-    if (existsSync(outputFile)) {
+    if (!needsFallback) {
       console.log('✅ Compressed file exists, skipping compression');
       return;
     }
@@ -136,16 +284,32 @@ async function main() {
   
   
   try {
-    const result = await compressGLB(inputFile, outputFile);
-    
-    console.log('\n✨ Compression complete!');
-    console.log(`\n📊 Summary:`);
-    console.log(`   Total reduction: ${result.compressionRatio}%`);
-    console.log(`   Saved: ${((result.originalSize - result.compressedSize) / 1024 / 1024).toFixed(2)} MB`);
+    if (needsFallback) {
+      const result = await compressGLB(inputFile, outputFile, 'webp');
+      
+      console.log('\n✨ Compression complete!');
+      console.log(`\n📊 Summary:`);
+      console.log(`   Total reduction: ${result.compressionRatio}%`);
+      console.log(`   Saved: ${((result.originalSize - result.compressedSize) / 1024 / 1024).toFixed(2)} MB`);
+      
+      if (result.compressionRatio < 60) {
+        console.log(`\n⚠️  Warning: Compression ratio (${result.compressionRatio}%) is below target (60%)`);
+        console.log('   This may indicate the file is already compressed or has few vertices.');
+      }
+    }
     
-    if (result.compressionRatio < 60) {
-      console.log(`\n⚠️  Warning: Compression ratio (${result.compressionRatio}%) is below target (60%)`);
-      console.log('   This may indicate the file is already compressed or has few vertices.');
+    if (needsKTX2) {
+      if (!isToktxAvailable()) {
+        console.log('\n⚠️  KTX-Software (toktx) not found on PATH - skipping KTX2 variant');
+        console.log('   Install it from https://github.com/KhronosGroup/KTX-Software/releases');
+        console.log('   The app falls back to the WebP model without it.');
+        return;
+      }
+      
+      const result = await compressGLB(inputFile, ktx2OutputFile, 'ktx2');
+      updateKTX2Manifest({ [toPublicUrl(outputFile)]: toPublicUrl(ktx2OutputFile) });
+      
+      console.log(`\n✨ KTX2 variant complete: ${result.compressionRatio}% reduction`);
     }
     
   } catch (error) {
@@ -4,13 +4,19 @@
  * Compresses textures and generates mipmaps for optimal performance
  * Reduces texture file sizes by ~50% while maintaining visual quality
  * 
+ * With `generateKTX2` enabled, a GPU-compressed `.ktx2` (Basis Universal) copy
+ * is written next to each WebP and registered in public/ktx2-manifest.json.
+ * This needs KTX-Software `toktx` on PATH; skipped with a warning otherwise.
+ * 
  * Usage: node scripts/compress-textures.js
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
 import { join, dirname, basename, extname } from 'path';
 import { fileURLToPath } from 'url';
+import { spawnSync } from 'child_process';
 import sharp from 'sharp';
+import { isToktxAvailable, toPublicUrl, updateKTX2Manifest } from './ktx2-manifest.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -22,9 +28,46 @@ const CONFIG = {
   quality: 85, // JPEG/WebP quality (0-100)
   formats: ['.png', '.jpg', '.jpeg'],
   generateWebP: true,
-  generateMipmaps: false // Mipmaps are typically handled by Three.js at runtime
+  generateMipmaps: false, // Mipmaps are typically handled by Three.js at runtime
+  generateKTX2: true,
+  // UASTC keeps logo edges sharp; 'etc1s' trades quality for ~4x smaller files
+  ktx2Mode: 'uastc'
 };
 
+/**
+ * Encode a single image to KTX2 with toktx
+ * 
+ * Compressed textures can't be flipped on upload, so the image is stored
+ * bottom-up here to match how TextureLoader (flipY = true) displays the WebP.
+ * Mipmaps are baked in for the same reason.
+ * 
+ * @returns Size of the written file in bytes
+ */
+function encodeKTX2(inputPath, ktx2Path) {
+  const modeArgs = CONFIG.ktx2Mode === 'uastc'
+    ? ['--encode', 'uastc', '--uastc_quality', '2', '--zcmp', '18']
+    : ['--encode', 'etc1s', '--qlevel', '128', '--clevel', '2'];
+  
+  const result = spawnSync('toktx', [
+    '--t2',
+    ...modeArgs,
+    '--genmipmap',
+    '--assign_oetf', 'srgb',
+    '--lower_left_maps_to_s0t0',
+    ktx2Path,
+    inputPath
+  ], { encoding: 'utf8' });
+  
+  if (result.error || result.status !== 0) {
+    throw new Error(result.stderr || result.error?.message || `toktx exited with ${result.status}`);
+  }
+  
+  return readFileSync(ktx2Path).length;
+}
+
+// Set in main() once we know whether toktx is installed
+let ktx2Enabled = false;
+
 /**
  * Compress a single image file
  */
@@ -82,10 +125,22 @@ async function compressImage(inputPath, outputPath) {
       console.log(`   WebP size: ${(webpSize / 1024).toFixed(2)} KB (${((1 - webpSize / originalSize) * 100).toFixed(1)}% reduction)`);
     }
     
+    // Generate KTX2 version (runtime picks it over the WebP when the GPU supports it)
+    let ktx2Variant = null;
+    if (CONFIG.generateKTX2 && CONFIG.generateWebP && ktx2Enabled) {
+      const webpPath = outputPath.replace(extname(outputPath), '.webp');
+      const ktx2Path = outputPath.replace(extname(outputPath), '.ktx2');
+      const ktx2Size = encodeKTX2(inputPath, ktx2Path);
+      console.log(`   KTX2 size: ${(ktx2Size / 1024).toFixed(2)} KB (${CONFIG.ktx2Mode.toUpperCase()})`);
+      
+      ktx2Variant = [toPublicUrl(webpPath), toPublicUrl(ktx2Path)];
+    }
+    
     return {
       originalSize,
       compressedSize,
-      compressionRatio: parseFloat(compressionRatio)
+      compressionRatio: parseFloat(compressionRatio),
+      ktx2Variant
     };
   } catch (error) {
     console.error(`   ❌ Error processing ${filename}:`, error.message);
@@ -140,6 +195,14 @@ async function main() {
   
   console.log(`📊 Found ${images.length} image(s) to process\n`);
   
+  if (CONFIG.generateKTX2) {
+    ktx2Enabled = isToktxAvailable();
+    if (!ktx2Enabled) {
+      console.log('⚠️  KTX-Software (toktx) not found on PATH - skipping KTX2 textures');
+      console.log('   The app falls back to the WebP textures without them.\n');
+    }
+  }
+  
   const results = [];
   let totalOriginalSize = 0;
   let totalCompressedSize = 0;
@@ -165,6 +228,14 @@ async function main() {
     }
   }
   
+  // Register KTX2 variants for the runtime loader
+  const ktx2Variants = Object.fromEntries(
+    results.filter(r => r.ktx2Variant).map(r => r.ktx2Variant)
+  );
+  if (Object.keys(ktx2Variants).length > 0) {
+    updateKTX2Manifest(ktx2Variants);
+  }
+  
   // Summary
   console.log('\n✨ Compression complete!');
   console.log(`\n📊 Summary:`);
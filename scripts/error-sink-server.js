@@ -0,0 +1,167 @@
+/**
+ * Error Sink Server
+ *
+ * Local collector for the app's error reports (HttpJsonTransport). Every
+ * received report is appended as one JSON line to a file, so reports can be
+ * inspected with `tail -f` or `jq` during development. No dependencies.
+ *
+ * Endpoints:
+ *   POST http://localhost:8788/errors   Receive a batch (JSON or beacon text/plain)
+ *   GET  http://localhost:8788/errors   Last 50 stored reports
+ *   GET  http://localhost:8788/health   Health check
+ *
+ * Usage:
+ *   node scripts/error-sink-server.js
+ *   node scripts/error-sink-server.js --out logs/errors.ndjson
+ *   PORT=9000 node scripts/error-sink-server.js
+ *
+ * Then build or serve the app with VITE_ERRORS_ENDPOINT=http://localhost:8788/errors
+ * and, in dev, open it with ?errors=json
+ */
+
+import { createServer } from 'http';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const args = process.argv.slice(2);
+const argValue = (name) => {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+// Configuration
+const CONFIG = {
+  port: parseInt(process.env.PORT || argValue('--port') || '8788', 10),
+  outFile: resolve(argValue('--out') || 'error-reports.ndjson'),
+  path: '/errors',
+  maxBodySize: 1024 * 1024, // 1MB
+  recentLimit: 50
+};
+
+let received = 0;
+
+/**
+ * Read a request body, rejecting oversized payloads
+ */
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > CONFIG.maxBodySize) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Append each report of a batch as its own line, with the batch metadata
+ */
+function storeBatch(batch) {
+  const { reports, ...meta } = batch;
+  const receivedAt = new Date().toISOString();
+  const lines = reports.map((report) => JSON.stringify({ receivedAt, ...meta, report }));
+
+  appendFileSync(CONFIG.outFile, lines.join('\n') + '\n');
+  received += reports.length;
+
+  reports.forEach((report) => {
+    const repeats = report.count > 1 ? ` ×${report.count}` : '';
+    console.log(`🚨 [${report.severity.toUpperCase()}] ${report.name}: ${report.message}${repeats}`);
+  });
+  if (batch.dropped > 0) {
+    console.log(`⚠️  Client dropped ${batch.dropped} report(s) (rate limit / queue cap)`);
+  }
+}
+
+/**
+ * Last stored reports, newest first
+ */
+function readRecent() {
+  if (!existsSync(CONFIG.outFile)) return [];
+
+  return readFileSync(CONFIG.outFile, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .slice(-CONFIG.recentLimit)
+    .map((line) => JSON.parse(line))
+    .reverse();
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (url.pathname === CONFIG.path && req.method === 'POST') {
+    try {
+      const batch = JSON.parse(await readBody(req));
+      if (!Array.isArray(batch.reports)) {
+        throw new Error('Missing reports array');
+      }
+      storeBatch(batch);
+      res.writeHead(204);
+      res.end();
+    } catch (error) {
+      console.warn(`⚠️  Rejected batch: ${error.message}`);
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end(error.message);
+    }
+    return;
+  }
+
+  if (url.pathname === CONFIG.path && req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(readRecent(), null, 2));
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok', received, outFile: CONFIG.outFile }));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not found');
+});
+
+/**
+ * Main execution
+ */
+function main() {
+  mkdirSync(dirname(CONFIG.outFile), { recursive: true });
+
+  server.listen(CONFIG.port, () => {
+    console.log(`🚀 Error sink running on port ${CONFIG.port}`);
+    console.log(`   Endpoint: http://localhost:${CONFIG.port}${CONFIG.path}`);
+    console.log(`   Writing:  ${CONFIG.outFile}`);
+    console.log(`   Set VITE_ERRORS_ENDPOINT=http://localhost:${CONFIG.port}${CONFIG.path} and open the app with ?errors=json\n`);
+  });
+
+  const shutdown = () => {
+    console.log(`\n👋 Shutting down error sink (${received} report(s) received)`);
+    server.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
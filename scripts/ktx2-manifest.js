@@ -0,0 +1,58 @@
+/**
+ * KTX2 Variant Manifest
+ * 
+ * Shared by compress-models.js and compress-textures.js. Records which assets
+ * have a KTX2 (Basis Universal) variant so the runtime AssetLoader only
+ * requests variants that were actually built.
+ * 
+ * Manifest format (public/ktx2-manifest.json):
+ * {
+ *   "variants": {
+ *     "/model/compressed/truck.glb": "/model/compressed/truck.ktx2.glb",
+ *     "/optimized/logo.webp": "/optimized/logo.ktx2"
+ *   }
+ * }
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { spawnSync } from 'child_process';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const PUBLIC_DIR = join(__dirname, '../public');
+export const MANIFEST_PATH = join(PUBLIC_DIR, 'ktx2-manifest.json');
+
+/**
+ * Check that the KTX-Software `toktx` binary is on PATH
+ * Both KTX2 encoders (gltf-transform and the texture script) shell out to it
+ */
+export function isToktxAvailable() {
+  const result = spawnSync('toktx', ['--version'], { encoding: 'utf8' });
+  return !result.error;
+}
+
+/**
+ * Convert an absolute file path inside public/ to its served URL path
+ */
+export function toPublicUrl(filePath) {
+  return filePath.replace(PUBLIC_DIR, '').split('\\').join('/');
+}
+
+/**
+ * Merge variants into the manifest, keeping entries written by the other script
+ * 
+ * @param {Record<string, string>} variants - Fallback URL → KTX2 URL
+ */
+export function updateKTX2Manifest(variants) {
+  const manifest = existsSync(MANIFEST_PATH)
+    ? JSON.parse(readFileSync(MANIFEST_PATH, 'utf8'))
+    : { variants: {} };
+  
+  manifest.variants = { ...manifest.variants, ...variants };
+  
+  writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`🗜️  KTX2 manifest updated: ${Object.keys(variants).length} variant(s)`);
+}
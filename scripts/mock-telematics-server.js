@@ -0,0 +1,284 @@
+/**
+ * Mock Telematics Server
+ *
+ * Streams fake (or recorded) truck sensor messages to the showroom demo
+ * over WebSocket and Server-Sent Events. No dependencies - the WebSocket
+ * handshake and framing are implemented on top of node:http.
+ *
+ * Endpoints:
+ *   ws://localhost:8787/telematics   WebSocket, one JSON message per frame
+ *   http://localhost:8787/events     Server-Sent Events (`telematics` event)
+ *   http://localhost:8787/health     Health check
+ *
+ * Usage:
+ *   node scripts/mock-telematics-server.js
+ *   node scripts/mock-telematics-server.js --replay public/telematics/sample-trip.json
+ *   PORT=9000 node scripts/mock-telematics-server.js --interval 250
+ *
+ * Then open the app with ?telematics=ws://localhost:8787/telematics
+ * or ?telematics=sse:http://localhost:8787/events
+ */
+
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+const args = process.argv.slice(2);
+const argValue = (name) => {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+// Configuration
+const CONFIG = {
+  port: parseInt(process.env.PORT || argValue('--port') || '8787', 10),
+  interval: parseInt(argValue('--interval') || '500', 10),
+  replayFile: argValue('--replay'),
+  vehicleId: 'TRK-DEMO-001',
+  websocketPath: '/telematics',
+  ssePath: '/events'
+};
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * Create a message generator - recorded trip or synthetic drive
+ */
+function createMessageSource() {
+  if (CONFIG.replayFile) {
+    const recording = JSON.parse(readFileSync(resolve(CONFIG.replayFile), 'utf-8'));
+    const frames = recording.frames || [];
+    if (frames.length === 0) {
+      throw new Error(`Recording has no frames: ${CONFIG.replayFile}`);
+    }
+    console.log(`📼 Replaying ${frames.length} frames from ${CONFIG.replayFile}`);
+
+    let index = 0;
+    return () => {
+      const frame = { ...frames[index] };
+      delete frame.t;
+      index = (index + 1) % frames.length;
+      return { vehicleId: recording.vehicleId, ...frame, timestamp: Date.now() };
+    };
+  }
+
+  console.log('🚚 Generating synthetic drive data (schema version 2)');
+
+  const start = Date.now();
+  let fuel = 68;
+  let refuelUntil = 0;
+  let odometer = 184230;
+  let lastTick = start;
+  // Addis Ababa, driving south-east toward Adama
+  const position = { lat: 8.9806, lon: 38.7578 };
+  const heading = 120;
+
+  return () => {
+    const now = Date.now();
+    const time = (now - start) / 1000;
+    const speed = 90 + Math.sin(time * 0.3) * 12 + Math.sin(time * 1.7) * 2;
+
+    // Drain fuel while driving, refuel to 95% once it hits 12%
+    if (refuelUntil > time) {
+      fuel = Math.min(95, fuel + 4);
+    } else {
+      fuel = Math.max(12, fuel - 0.05 - Math.max(0, speed - 80) * 0.002);
+      if (fuel <= 12) refuelUntil = time + 10;
+    }
+
+    const refueling = refuelUntil > time;
+    const speedKmh = refueling ? 0 : Math.round(speed * 10) / 10;
+
+    // Advance odometer and position by the distance since the last message
+    const distanceKm = (speedKmh * (now - lastTick)) / 3600000;
+    lastTick = now;
+    odometer += distanceKm;
+    position.lat += (Math.cos((heading * Math.PI) / 180) * distanceKm) / 111.32;
+    position.lon += (Math.sin((heading * Math.PI) / 180) * distanceKm) / 111.32;
+
+    return {
+      schemaVersion: 2,
+      vehicleId: CONFIG.vehicleId,
+      timestamp: now,
+      speedKmh,
+      fuelLevelPercent: Math.round(fuel * 100) / 100,
+      batteryPercent: 80 + Math.round(Math.sin(time * 0.05) * 5),
+      ambientTempC: 18 + Math.round(Math.sin(time * 0.01) * 4),
+      ecoMode: speed < 95,
+      rangeKm: Math.round(fuel * 6.5),
+      position: { lat: Math.round(position.lat * 1e6) / 1e6, lon: Math.round(position.lon * 1e6) / 1e6 },
+      headingDeg: heading,
+      odometerKm: Math.round(odometer * 10) / 10,
+      engineHours: Math.round((6120 + time / 3600) * 100) / 100,
+      rpm: refueling ? 0 : Math.round(speedKmh * 15),
+      coolantTempC: refueling ? 70 : 88 + Math.round(Math.sin(time * 0.05) * 3),
+      tankCapacityL: 400,
+      probeTempC: 18 + Math.round(Math.sin(time * 0.01) * 3),
+      sensorHealth: [],
+      events: refueling ? ['refuel'] : ['ignitionOn']
+    };
+  };
+}
+
+/**
+ * Encode a server-to-client WebSocket text frame (unmasked)
+ */
+function encodeFrame(payload, opcode = 0x1) {
+  const data = Buffer.from(payload);
+  let header;
+
+  if (data.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = data.length;
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+
+  header[0] = 0x80 | opcode; // FIN + opcode
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Read opcodes from client frames (only control frames matter here)
+ */
+function readOpcodes(buffer) {
+  const opcodes = [];
+  let offset = 0;
+
+  while (offset + 2 <= buffer.length) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let headerLength = 2;
+
+    if (length === 126) {
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    opcodes.push(opcode);
+    offset += headerLength + (masked ? 4 : 0) + length;
+  }
+
+  return opcodes;
+}
+
+const wsClients = new Set();
+const sseClients = new Set();
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (url.pathname === CONFIG.ssePath) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write('retry: 2000\n\n');
+    sseClients.add(res);
+    console.log(`📡 SSE client connected (${sseClients.size} total)`);
+
+    req.on('close', () => {
+      sseClients.delete(res);
+      console.log(`🔌 SSE client disconnected (${sseClients.size} total)`);
+    });
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok', websocketClients: wsClients.size, sseClients: sseClients.size }));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not found');
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const key = req.headers['sec-websocket-key'];
+
+  if (url.pathname !== CONFIG.websocketPath || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  wsClients.add(socket);
+  console.log(`📡 WebSocket client connected (${wsClients.size} total)`);
+
+  socket.on('data', (buffer) => {
+    const opcodes = readOpcodes(buffer);
+    if (opcodes.includes(0x8)) {
+      socket.end(encodeFrame('', 0x8));
+    } else if (opcodes.includes(0x9)) {
+      socket.write(encodeFrame('', 0xa));
+    }
+  });
+
+  const remove = () => {
+    if (wsClients.delete(socket)) {
+      console.log(`🔌 WebSocket client disconnected (${wsClients.size} total)`);
+    }
+  };
+  socket.on('close', remove);
+  socket.on('error', remove);
+});
+
+/**
+ * Main execution
+ */
+function main() {
+  const nextMessage = createMessageSource();
+
+  const timer = setInterval(() => {
+    if (wsClients.size === 0 && sseClients.size === 0) return;
+
+    const payload = JSON.stringify(nextMessage());
+    const frame = encodeFrame(payload);
+
+    wsClients.forEach((socket) => socket.write(frame));
+    sseClients.forEach((res) => res.write(`event: telematics\ndata: ${payload}\n\n`));
+  }, CONFIG.interval);
+
+  server.listen(CONFIG.port, () => {
+    console.log(`🚀 Mock telematics server running on port ${CONFIG.port}`);
+    console.log(`   WebSocket: ws://localhost:${CONFIG.port}${CONFIG.websocketPath}`);
+    console.log(`   SSE:       http://localhost:${CONFIG.port}${CONFIG.ssePath}`);
+    console.log(`   Open the app with ?telematics=ws://localhost:${CONFIG.port}${CONFIG.websocketPath}\n`);
+  });
+
+  const shutdown = () => {
+    console.log('\n👋 Shutting down mock telematics server');
+    clearInterval(timer);
+    wsClients.forEach((socket) => socket.destroy());
+    sseClients.forEach((res) => res.end());
+    server.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,230 @@
+/**
+ * RUM Collector
+ *
+ * Local collector for real-user performance batches (HttpRumTransport).
+ * Every batch is appended as one JSON line, so sessions can be analysed
+ * offline. No dependencies.
+ *
+ * Endpoints:
+ *   POST http://localhost:8789/rum      Receive a batch (JSON or beacon text/plain)
+ *   GET  http://localhost:8789/summary  Aggregates over the stored batches
+ *   GET  http://localhost:8789/health   Health check
+ *
+ * Usage:
+ *   node scripts/rum-collector.js
+ *   node scripts/rum-collector.js --out logs/rum.ndjson
+ *   node scripts/rum-collector.js --summarize rum-sessions.ndjson
+ *
+ * Then build or serve the app with VITE_RUM_ENDPOINT=http://localhost:8789/rum
+ * and open it with ?rumSample=1 (plus ?rum=json in dev)
+ */
+
+import { createServer } from 'http';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+const args = process.argv.slice(2);
+const argValue = (name) => {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+// Configuration
+const CONFIG = {
+  port: parseInt(process.env.PORT || argValue('--port') || '8789', 10),
+  outFile: resolve(argValue('--out') || 'rum-sessions.ndjson'),
+  summarizeFile: argValue('--summarize'),
+  path: '/rum',
+  maxBodySize: 1024 * 1024 // 1MB
+};
+
+let received = 0;
+
+/**
+ * Read a request body, rejecting oversized payloads
+ */
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > CONFIG.maxBodySize) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Read stored batches from an NDJSON file
+ */
+function readBatches(file) {
+  if (!existsSync(file)) return [];
+
+  return readFileSync(file, 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Percentile of a sorted array
+ */
+function percentile(sorted, p) {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return Number(sorted[Math.max(0, index)].toFixed(2));
+}
+
+/**
+ * Aggregate batches: metric percentiles, FPS per phase, long tasks, GPUs
+ *
+ * Phases and long tasks are session totals, so only the last batch of each
+ * session counts for them.
+ */
+function summarize(batches) {
+  const metricValues = new Map();
+  const lastBySession = new Map();
+
+  batches.forEach((batch) => {
+    batch.metrics.forEach((metric) => {
+      if (!metricValues.has(metric.name)) metricValues.set(metric.name, []);
+      metricValues.get(metric.name).push(metric.value);
+    });
+
+    const last = lastBySession.get(batch.sessionId);
+    if (!last || batch.sequence > last.sequence) {
+      lastBySession.set(batch.sessionId, batch);
+    }
+  });
+
+  const metrics = {};
+  metricValues.forEach((values, name) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    metrics[name] = {
+      count: sorted.length,
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p95: percentile(sorted, 95)
+    };
+  });
+
+  const phaseFrames = new Map();
+  const gpus = {};
+  let longTasks = 0;
+
+  lastBySession.forEach((batch) => {
+    batch.phases.forEach((phase) => {
+      const totals = phaseFrames.get(phase.phase) || { frames: 0, seconds: 0, sessions: 0 };
+      totals.frames += phase.frames;
+      totals.seconds += phase.seconds;
+      totals.sessions++;
+      phaseFrames.set(phase.phase, totals);
+    });
+    longTasks += batch.longTasks.count;
+
+    const gpu = batch.device.gpuRenderer || 'unknown';
+    gpus[gpu] = (gpus[gpu] || 0) + 1;
+  });
+
+  const phases = {};
+  phaseFrames.forEach((totals, phase) => {
+    phases[phase] = {
+      sessions: totals.sessions,
+      averageFps: totals.seconds > 0 ? Number((totals.frames / totals.seconds).toFixed(1)) : 0
+    };
+  });
+
+  return {
+    batches: batches.length,
+    sessions: lastBySession.size,
+    metrics,
+    phases,
+    longTasksPerSession: lastBySession.size > 0 ? Number((longTasks / lastBySession.size).toFixed(1)) : 0,
+    gpus
+  };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (url.pathname === CONFIG.path && req.method === 'POST') {
+    try {
+      const batch = JSON.parse(await readBody(req));
+      if (!batch.sessionId || !Array.isArray(batch.metrics)) {
+        throw new Error('Not a RUM batch');
+      }
+      appendFileSync(CONFIG.outFile, JSON.stringify({ receivedAt: new Date().toISOString(), ...batch }) + '\n');
+      received++;
+      console.log(`📈 Batch #${batch.sequence} from ${batch.sessionId}: ${batch.metrics.length} metrics, ${batch.phases.length} phases`);
+      res.writeHead(204);
+      res.end();
+    } catch (error) {
+      console.warn(`⚠️  Rejected batch: ${error.message}`);
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end(error.message);
+    }
+    return;
+  }
+
+  if (url.pathname === '/summary') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(summarize(readBatches(CONFIG.outFile)), null, 2));
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'ok', received, outFile: CONFIG.outFile }));
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not found');
+});
+
+/**
+ * Main execution
+ */
+function main() {
+  if (CONFIG.summarizeFile) {
+    console.log(JSON.stringify(summarize(readBatches(resolve(CONFIG.summarizeFile))), null, 2));
+    return;
+  }
+
+  mkdirSync(dirname(CONFIG.outFile), { recursive: true });
+
+  server.listen(CONFIG.port, () => {
+    console.log(`🚀 RUM collector running on port ${CONFIG.port}`);
+    console.log(`   Endpoint: http://localhost:${CONFIG.port}${CONFIG.path}`);
+    console.log(`   Writing:  ${CONFIG.outFile}`);
+    console.log(`   Set VITE_RUM_ENDPOINT=http://localhost:${CONFIG.port}${CONFIG.path} and open the app with ?rum=json&rumSample=1\n`);
+  });
+
+  const shutdown = () => {
+    console.log(`\n👋 Shutting down RUM collector (${received} batch(es) received)`);
+    server.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
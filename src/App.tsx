@@ -1,20 +1,59 @@
-import { useEffect, useRef, useState } from 'react';
-import { ChevronDown, Volume2, VolumeX, Radio, Zap, Cpu, BarChart3, Layers } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronDown, Volume2, VolumeX, Radio, Zap, Rotate3d } from 'lucide-react';
 import * as THREE from 'three';
-import { FuelSensor } from './components/FuelSensor';
+import { FuelSensor, updateFuelVolume, type FuelVolume } from './components/FuelSensor';
 import { TruckModel } from './components/TruckModel';
-import { TelematicsDisplay, updateTelematicsDisplay } from './components/TelematicsDisplay';
+import { TelematicsDisplay } from './components/TelematicsDisplay';
+import type { TelematicsDashboard } from './textures/TelematicsDashboard';
 import { ParticleSystem, animateParticles } from './components/ParticleSystem';
-import { AudioSystem } from './audio/AudioSystem';
+import { useAudioSystem } from './audio/useAudioSystem';
+import { useAudioStatus } from './audio/useAudioStatus';
+import { createAudioMixController } from './audio/AudioMixController';
+import { createAudioSpatializer } from './audio/AudioSpatializer';
 import { createRoadTexture } from './textures/RoadTexture';
+import { createGroundTexture } from './textures/GroundTexture';
 import { TypewriterText } from './components/TypewriterText';
 import { HUDProgress } from './components/HUDProgress';
+import { scrollTimeline } from './timeline/ScrollTimeline';
+import { createTelematicsSource, getTelematicsSpecFromURL } from './telematics/createTelematicsSource';
+import type { TelematicsSource } from './telematics/types';
+import { getScenarioSpecFromURL, loadScenario, type ScenarioEngine } from './scenarios/ScenarioEngine';
+import type { TelematicsAlert } from './textures/types';
+import { getDashboardLayoutSpecFromURL, loadDashboardLayout } from './dashboard/layout';
+import type { DashboardLayout } from './dashboard/types';
+import { HUDNotification } from './components/HUDNotification';
 import objectTransforms from './config/objectTransforms.json';
 import { waitForDocumentReady } from './utils/domHelpers';
 import { createSceneInitializer } from './utils/SceneInitializer';
 import { DiagnosticOverlay, useDebugMode, useFPS, type AssetMetric } from './components/DiagnosticOverlay';
 import { createTransformValidator, type TransformSnapshot } from './utils/TransformValidator';
 import { ThreeJSErrorBoundary } from './components/ThreeJSErrorBoundary';
+import { WebGLContextOverlay, WebGLContextFailure, type WebGLContextStatus } from './components/WebGLContextOverlay';
+import { createWebGLContextHandler, markSceneForReupload, type WebGLContextHandler } from './utils/webglContextHandler';
+import { createExploreControls, type ExploreControls } from './utils/ExploreControls';
+import { createHotspotManager, getHotspots, type HotspotManager } from './hotspots/HotspotManager';
+import type { HotspotDefinition } from './hotspots/types';
+import { HotspotPanel, HOTSPOT_ICONS } from './components/HotspotPanel';
+import { detectRenderMode, RENDER_MODE_SETTINGS } from './utils/renderMode';
+import { FallbackExperience } from './components/FallbackExperience';
+import { RequestDemoModal } from './components/RequestDemoModal';
+import { createLeadAdapter } from './leads/adapters';
+import { createLeadQueue } from './leads/LeadQueue';
+import { errorHandler } from './utils/errors';
+import { errorTracker } from './utils/errorTracking';
+import { performanceMonitor } from './utils/monitoring';
+import { rumReporter } from './rum/RumReporter';
+import { sharedAssetLoader } from './utils/sharedAssetLoader';
+import { useI18n } from './i18n/useI18n';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { QualitySwitcher } from './components/QualitySwitcher';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { createQualityManager } from './quality/QualityManager';
+import { useQualityState } from './quality/useQualityState';
+import type { QualityState } from './quality/types';
+import { LoadingStatus } from './components/LoadingStatus';
+import { useLoadingState } from './loading/useLoadingState';
+import { trackIntroAssets } from './loading/introAssets';
 
 // --- AUDIO SYSTEM EXTRACTED ---
 // AudioSystem class moved to: src/audio/AudioSystem.ts
@@ -28,21 +67,57 @@ import { ThreeJSErrorBoundary } from './components/ThreeJSErrorBoundary';
 // Telematics texture generator moved to: src/textures/TelematicsTexture.ts
 // Import added above for cleaner code organization
 
+// WebGL context restore attempts before falling back to the error boundary UI
+const WEBGL_MAX_RESTORE_ATTEMPTS = 3;
+
 export default function App() {
   const mountRef = useRef<HTMLDivElement>(null);
-  const audioSysRef = useRef<AudioSystem | null>(null);
   const glbModelRef = useRef<THREE.Group | null>(null);
   const wheelsRef = useRef<THREE.Mesh[]>([]); // Wheel references for rotation
   
-  const [isMuted, setIsMuted] = useState(true);
   const [activePhase, setActivePhase] = useState(0);
+  const [webglStatus, setWebglStatus] = useState<WebGLContextStatus>('ok');
+  // Bumped by the error boundary's "Try again" to rebuild the renderer and scene
+  const [sceneKey, setSceneKey] = useState(0);
+  
+  // Render mode from WebGL capability probe (full / low / fallback, see ?mode=)
+  const [renderMode] = useState(() => detectRenderMode());
+  const renderSettings = RENDER_MODE_SETTINGS[renderMode.mode === 'low' ? 'low' : 'full'];
+  // Adaptive quality: tier follows measured frame times unless pinned from the top bar (see src/quality)
+  const [qualityManager] = useState(() =>
+    createQualityManager({ initialTier: renderMode.mode === 'low' ? 'medium' : 'ultra' })
+  );
+  const quality = useQualityState(qualityManager);
+  // Shared audio (see src/audio/useAudioSystem.ts); lower tiers synthesize the engine instead of downloading recordings
+  const audio = useAudioSystem(quality.settings.audioEngine);
+  const { muted: isMuted } = useAudioStatus(audio);
+  const [fallbackScroll, setFallbackScroll] = useState({ progress: 0, phaseId: 'intro' });
+  
+  // Request Demo lead capture (adapter from the build config, failed submissions retried from localStorage)
+  const [showDemoForm, setShowDemoForm] = useState(false);
+  const [leadAdapter] = useState(() => createLeadAdapter());
+  const [leadQueue] = useState(() => createLeadQueue(leadAdapter));
+  // Explore mode: free orbit camera instead of the scroll narrative
+  const [exploreMode, setExploreMode] = useState(false);
+  const exploreModeRef = useRef(false);
+  // Clicked 3D hotspot (see src/config/hotspots.json)
+  const [selectedHotspot, setSelectedHotspot] = useState<HotspotDefinition | null>(null);
+  // Scenario alert (fuel theft / refuel / sensor fault, see ?scenario=)
+  const [scenarioAlert, setScenarioAlert] = useState<TelematicsAlert | null>(null);
+  // Telematics display layout (see ?dashboard=, src/config/dashboardLayout.json)
+  const [dashboardLayout, setDashboardLayout] = useState<DashboardLayout | undefined>();
   const [showIntroScreen, setShowIntroScreen] = useState(true);
   const [introFadingOut, setIntroFadingOut] = useState(false);
-  const [loadingProgress, setLoadingProgress] = useState(100); // Start at 100 for instant loading
-  const [scrollPast3, setScrollPast3] = useState(false);
+  // Intro screen progress: model, decoder and textures registered here, audio by AudioSystem
+  const [modelTracker] = useState(() =>
+    renderMode.mode === 'fallback' ? null : trackIntroAssets('Main_truck_updated_compressed.glb')
+  );
+  const loading = useLoadingState();
   const [scrollProgress, setScrollProgress] = useState(0);
   const [displayProgress, setDisplayProgress] = useState(0);
   const [sceneReady, setSceneReady] = useState(false);
+  // Overlay copy and units (language from ?lang= / switcher, see src/i18n)
+  const { t, tOr } = useI18n();
   
   // Diagnostic overlay state
   const debugMode = useDebugMode();
@@ -77,14 +152,20 @@ export default function App() {
   const cageGroupRef = useRef<THREE.Group | null>(null);
   const truckRef = useRef<THREE.Group | null>(null);
   const tankGroupRef = useRef<THREE.Group | null>(null);
+  const fuelVolumeRef = useRef<FuelVolume | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   
   // Material Refs for TruckModel
   const lightGrayMatRef = useRef<THREE.MeshStandardMaterial | null>(null);
   const edgeMatRef = useRef<THREE.LineBasicMaterial | null>(null);
   
-  // Material Ref for TelematicsDisplay
-  const telematicsMatRef = useRef<THREE.MeshBasicMaterial | null>(null);
+  // Dashboard renderer for TelematicsDisplay (fed every frame, repaints what changed)
+  const telematicsDashboardRef = useRef<TelematicsDashboard | null>(null);
+  
+  // Telematics feed (WebSocket / SSE / replay / simulated, see ?telematics=)
+  const telematicsSourceRef = useRef<TelematicsSource | null>(null);
+  // Scripted fuel events applied on top of the feed (see src/config/scenarios.json)
+  const scenarioEngineRef = useRef<ScenarioEngine | null>(null);
   
   // Ref for ParticleSystem
   const particlesRef = useRef<THREE.Points | null>(null);
@@ -92,56 +173,36 @@ export default function App() {
   // Scene initializer ref
   const sceneInitializerRef = useRef<ReturnType<typeof createSceneInitializer> | null>(null);
 
-  if (!audioSysRef.current) {
-    audioSysRef.current = new AudioSystem();
-    audioSysRef.current.init(); // Initialize immediately to load audio files
-  }
+  const [audioMix] = useState(() => createAudioMixController(audio));
+  const [audioSpatializer] = useState(() => {
+    const spatializer = createAudioSpatializer(audio);
+    spatializer.bindTarget('truck', () => truckRef.current);
+    spatializer.bindTarget('sensorHead', () => sensorHeadGroupRef.current);
+    return spatializer;
+  });
+
+  // Sound files that fail to load fall back silently (or to the procedural engine)
+  useEffect(() => {
+    return audio.onError(({ source, error }) => {
+      errorTracker.trackError(error instanceof Error ? error : new Error(String(error)), {
+        component: 'AudioSystem',
+        source
+      }, 'low');
+    });
+  }, [audio]);
 
   const toggleAudio = () => {
-    const newState = !isMuted;
-    setIsMuted(newState);
-    audioSysRef.current?.toggleMute(newState);
+    audio.toggleMute(!isMuted);
   };
 
-  // Get detailed section name based on scroll progress and phase
-  const getSectionName = (progress: number, phase: number): string => {
-    // Extended intro trigger point
-    if (progress === 50) {
-      return 'EXTENDED INTRO';
-    }
-    
-    // Determine if we're in first or second sequence
-    // Only show SEQ 2 if we're actually past 50%
-    const isSecondSequence = progress > 50;
-    const sequenceLabel = isSecondSequence ? ' (SEQ 2)' : '';
-    
-    // Return phase-specific names
-    switch (phase) {
-      case 0:
-        // Distinguish between intro (0-15%) and velocity (15-35%)
-        if (progress <= 15) {
-          return `INTRO${sequenceLabel}`;
-        }
-        return `VELOCITY${sequenceLabel}`;
-      case 1:
-        return `SENSOR HEAD${sequenceLabel}`;
-      case 2:
-        return `EXPLODED VIEW${sequenceLabel}`;
-      case 3:
-        return `TOP VIEW${sequenceLabel}`;
-      default:
-        return `INTRO${sequenceLabel}`;
-    }
-  };
 
   const dismissIntroScreen = () => {
     // Unmute audio and trigger engine start sound (only once)
-    if (audioSysRef.current && !engineStartTriggered.current) {
+    if (!engineStartTriggered.current) {
       if (isMuted) {
-        setIsMuted(false);
-        audioSysRef.current.toggleMute(false);
+        audio.toggleMute(false);
       }
-      audioSysRef.current.triggerEngineStart();
+      audio.triggerEngineStart();
       engineStartTriggered.current = true;
     }
     
@@ -161,6 +222,100 @@ export default function App() {
     };
   }, [showIntroScreen]);
 
+  // Connect telematics feed
+  useEffect(() => {
+    const source = createTelematicsSource(getTelematicsSpecFromURL());
+    telematicsSourceRef.current = source;
+    source.connect();
+
+    return () => {
+      source.disconnect();
+      telematicsSourceRef.current = null;
+    };
+  }, []);
+
+  // Load the demo scenario from ?scenario= (built-in id or JSON URL)
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    loadScenario(getScenarioSpecFromURL())
+      .then((engine) => {
+        if (cancelled || !engine) return;
+        scenarioEngineRef.current = engine;
+        unsubscribe = engine.onEvent((event) => {
+          setScenarioAlert(event.alert);
+          audio.triggerChirp(event.alert.severity === 'critical' ? 'alarm' : 'chirp');
+        });
+        console.log(`🎬 Scenario loaded: ${engine.getScenario().name}`);
+      })
+      .catch((error) => errorHandler.handle(error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      scenarioEngineRef.current = null;
+    };
+  }, []);
+
+  // Load the telematics display layout from ?dashboard= (built-in id or JSON URL)
+  useEffect(() => {
+    let cancelled = false;
+
+    loadDashboardLayout(getDashboardLayoutSpecFromURL())
+      .then((layout) => {
+        if (cancelled || !layout) return;
+        setDashboardLayout(layout);
+        console.log(`📟 Dashboard layout loaded: ${layout.name ?? layout.id}`);
+      })
+      .catch((error) => errorHandler.handle(error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const dismissScenarioAlert = useCallback(() => setScenarioAlert(null), []);
+  const closeHotspotPanel = useCallback(() => setSelectedHotspot(null), []);
+
+  // Explore mode: the animation loop hands the camera over via exploreModeRef;
+  // page scroll is locked so the wheel zooms instead of moving the narrative
+  useEffect(() => {
+    exploreModeRef.current = exploreMode;
+    if (!exploreMode) return;
+
+    document.body.style.overflow = 'hidden';
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setExploreMode(false);
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.body.style.overflow = '';
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [exploreMode]);
+
+  // Retry queued Request Demo submissions
+  useEffect(() => leadQueue.start(), [leadQueue]);
+
+  const closeDemoForm = useCallback(() => setShowDemoForm(false), []);
+
+  // Real-user performance telemetry for sampled sessions (see src/rum/transports.ts)
+  useEffect(() => {
+    rumReporter.setTag('renderMode', renderMode.mode);
+    return rumReporter.start();
+  }, [renderMode.mode]);
+
+  useEffect(() => {
+    rumReporter.setTag('quality', quality.tier);
+  }, [quality.tier]);
+
+  // Frame times behind the intro screen say nothing about the scene
+  useEffect(() => {
+    qualityManager.setPaused(showIntroScreen);
+  }, [qualityManager, showIntroScreen]);
+
   // Reset scroll position to 0 on page load
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -192,12 +347,40 @@ export default function App() {
 
 
 
+  // Fallback mode: drive phases and sections from scroll without the 3D loop
+  useEffect(() => {
+    if (renderMode.mode !== 'fallback') return;
+
+    const handleFallbackScroll = () => {
+      const total = document.documentElement.scrollHeight - window.innerHeight;
+      const rawScroll = total > 0 ? Math.min(Math.max(window.scrollY / total, 0), 1) : 0;
+      const { t } = scrollTimeline.toSequenceScroll(rawScroll);
+      const phase = scrollTimeline.getPhaseAt(t);
+
+      setScrollProgress(Math.round(rawScroll * 100));
+      setActivePhase(phase.phase);
+      setFallbackScroll({ progress: t, phaseId: phase.id });
+    };
+
+    handleFallbackScroll();
+    window.addEventListener('scroll', handleFallbackScroll);
+    return () => window.removeEventListener('scroll', handleFallbackScroll);
+  }, [renderMode.mode]);
+
   useEffect(() => {
     if (!mountRef.current) return;
+    
+    // No WebGL - FallbackExperience renders instead of the 3D scene
+    if (renderMode.mode === 'fallback') return;
 
     let mounted = true;
     let animationFrameId: number;
     let renderer: THREE.WebGLRenderer | null = null;
+    let contextHandler: WebGLContextHandler | null = null;
+    let exploreControls: ExploreControls | null = null;
+    let hotspotManager: HotspotManager | null = null;
+    let renderingPaused = false;
+    let unsubscribeQuality: (() => void) | null = null;
     
     // Store event handlers for cleanup
     let handleScroll: (() => void) | null = null;
@@ -206,6 +389,8 @@ export default function App() {
 
     // Async initialization to wait for CSS
     async function initScene() {
+      performanceMonitor.startMark('scene-init');
+
       // Create scene initializer
       const sceneInitializer = createSceneInitializer({
         transformsPath: '/config/objectTransforms.json',
@@ -248,16 +433,21 @@ export default function App() {
     
     // Renderer with shadow support
     renderer = new THREE.WebGLRenderer({ 
-      antialias: true,
+      antialias: renderSettings.antialias,
       alpha: false
     });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    const qualitySettings = qualityManager.getState().settings;
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, qualitySettings.maxPixelRatio));
     renderer.outputColorSpace = THREE.SRGBColorSpace;
     renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    renderer.shadowMap.type = renderSettings.softShadows ? THREE.PCFSoftShadowMap : THREE.PCFShadowMap;
+    renderer.localClippingEnabled = true; // Fuel volume X-ray cross-section
     mountRef.current!.appendChild(renderer.domElement);
 
+    // Pick KTX2 or WebP textures for this GPU - model/logo loads wait on this
+    sharedAssetLoader.configureTextureSupport(renderer);
+
     // === STUDIO LIGHTING SETUP ===
     // Ambient light (high for overall brightness)
     const ambientLight = new THREE.AmbientLight(0xffffff, 1.0); // Increased to 1.0 for better overall brightness
@@ -266,11 +456,11 @@ export default function App() {
     // Main directional light (Key Light) - from top-right-BACK (matching target image)
     const mainLight = new THREE.DirectionalLight(0xffffff, 2.5); // Increased to 2.5
     mainLight.position.set(25, 35, -15); // Right, high, BEHIND truck (negative Z)
-    mainLight.castShadow = true;
+    mainLight.castShadow = qualitySettings.shadows;
     
     // Optimized shadow settings
-    mainLight.shadow.mapSize.width = 2048;
-    mainLight.shadow.mapSize.height = 2048;
+    mainLight.shadow.mapSize.width = qualitySettings.shadowMapSize;
+    mainLight.shadow.mapSize.height = qualitySettings.shadowMapSize;
     mainLight.shadow.camera.left = -30;
     mainLight.shadow.camera.right = 30;
     mainLight.shadow.camera.top = 30;
@@ -309,25 +499,8 @@ export default function App() {
     edgeMatRef.current = edgeMat;
 
     // === CLEAN GROUND PLANE (Studio Floor) with Gradient ===
-    // Create gradient texture for seamless horizon blend
-    const canvas = document.createElement('canvas');
-    canvas.width = 512;
-    canvas.height = 512;
-    const ctx = canvas.getContext('2d')!;
-    
-    // Radial gradient derived from base ground color #e8e4dc
-    const gradient = ctx.createRadialGradient(256, 256, 0, 256, 256, 256);
-    gradient.addColorStop(0, '#e0dcd4');    // Slightly darker center (base ground -3%)
-    gradient.addColorStop(0.3, '#e8e4dc');  // Original ground color
-    gradient.addColorStop(0.6, '#ece9e2');  // Mid-transition (+3%)
-    gradient.addColorStop(1, '#f0ede8');    // Matches lighter background (+5%)
-    
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, 512, 512);
-    
-    const groundTexture = new THREE.CanvasTexture(canvas);
-    groundTexture.wrapS = THREE.RepeatWrapping;
-    groundTexture.wrapT = THREE.RepeatWrapping;
+    // Gradient texture for seamless horizon blend (see src/textures/GroundTexture.ts)
+    const groundTexture = createGroundTexture();
     
     const ground = new THREE.Mesh(
       new THREE.PlaneGeometry(300, 300), // Even larger for seamless fade
@@ -431,12 +604,18 @@ export default function App() {
     const clock = new THREE.Clock();
     const scrollRef = { current: 0 };
     let currentPhase = 0;
+    const currentPos = new THREE.Vector3();
+    const currentLook = new THREE.Vector3();
+    let firstFrameRendered = false;
     
     // Intro fade system
     let introProgress = 0;
     const INTRO_DURATION = 2.5;
 
     const animate = () => {
+      // Paused while the WebGL context is lost (resumed by onContextRestored)
+      if (renderingPaused) return;
+
       const delta = clock.getDelta();
       const time = clock.getElapsedTime();
       
@@ -456,8 +635,8 @@ export default function App() {
         }
       }
       
-      // --- EXTENDED INTRO ANIMATION (Triggered at 50% scroll) ---
-      const EXTENDED_INTRO_DURATION = 3.5;
+      // --- EXTENDED INTRO ANIMATION (Triggered at timeline extendedIntro.triggerAt) ---
+      const EXTENDED_INTRO_DURATION = scrollTimeline.getExtendedIntro().duration;
       let isExtendedIntro = false;
       
       if (extendedModeRef.current && !extendedIntroFinishedRef.current) {
@@ -477,8 +656,8 @@ export default function App() {
           
           // Horn Trigger at 2.0s
           if (extendedIntroElapsed > 2.0 && extendedIntroElapsed < 2.02) {
-            if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-              audioSysRef.current.triggerHorn();
+            if (audio.masterGain && audio.masterGain.gain.value > 0) {
+              audio.triggerHorn();
             }
           }
           
@@ -542,90 +721,63 @@ export default function App() {
         });
       }
 
+      // === SCENARIO (scripted theft / refuel / sensor fault on top of the feed) ===
+      const latestTelematics = telematicsSourceRef.current?.getLatest() ?? null;
+      const scenarioFrame = latestTelematics && scenarioEngineRef.current
+        ? scenarioEngineRef.current.apply(latestTelematics, time)
+        : null;
+
       // === UPDATE TELEMATICS DISPLAY ===
-      // Update every 0.5 seconds for performance
-      if (Math.floor(time * 2) !== Math.floor((time - delta) * 2)) {
-        const baseSpeed = 96;
-        const speedVariation = Math.sin(time * 0.5) * 10;
-        const currentSpeed = baseSpeed + speedVariation;
-        
-        const fuelConsumption = time * 0.002;
-        const currentFuel = Math.max(0.15, 0.65 - fuelConsumption);
-        
-        // Update telematics display using helper function
-        if (telematicsMatRef.current) {
-          updateTelematicsDisplay(telematicsMatRef.current, {
-            speed: currentSpeed,
-            fuelLevel: currentFuel
-          });
+      // Gauges ease between readings; the texture is re-uploaded only when pixels change
+      const telematicsData = scenarioFrame?.data ?? latestTelematics;
+      if (telematicsDashboardRef.current) {
+        if (telematicsData) {
+          telematicsDashboardRef.current.setData(telematicsData);
         }
+        telematicsDashboardRef.current.update(delta);
       }
 
-      // === SCROLL-BASED CAMERA SYSTEM (4 PHASES) ===
+      // === SCROLL-BASED CAMERA SYSTEM (see src/config/scrollTimeline.json) ===
       // Clamp scroll value to prevent camera from going beyond boundaries
       const t = Math.min(Math.max(scrollRef.current, 0), 1);
-      
-      // Camera positions for different phases (optimized for better viewing angles)
-      const pIntro = { pos: new THREE.Vector3(0, 3, -20), look: new THREE.Vector3(0, 2, 0) };
-      const pChase = { pos: new THREE.Vector3(-18, 5, 22), look: new THREE.Vector3(0, 1.5, -5) }; // Lower, more back-left
-      const pExtendedIntroChase = { pos: new THREE.Vector3(-22, 8, 45), look: new THREE.Vector3(0, 2, -10) };
-      const pScan  = { pos: new THREE.Vector3(12, 4, -5), look: new THREE.Vector3(3.1, 1.5, -5) };
-      const pXray  = { pos: new THREE.Vector3(7, 2.5, -5), look: new THREE.Vector3(3.1, 1.0, -5) };
-      const pTop   = { pos: new THREE.Vector3(3.1, 8, -5), look: new THREE.Vector3(3.1, 0, -5) };
-
-      const currentPos = new THREE.Vector3();
-      const currentLook = new THREE.Vector3();
-      let nextPhase = 0;
+
+      let nextPhase: number;
+      let phaseId: string;
+      let fuelCrossSection = false;
 
       if (isExtendedIntro) {
-        // EXTENDED INTRO: Camera at chase position
-        currentPos.copy(pExtendedIntroChase.pos);
-        currentLook.copy(pExtendedIntroChase.look);
-        nextPhase = 0;
-      } else if (extendedModeRef.current && extendedIntroFinishedRef.current && t < 0.15) {
-        // TRANSITION FROM EXTENDED INTRO TO SECOND SEQUENCE
-        const localT = Math.min(t / 0.15, 1);
-        const easeT = localT * localT * (3 - 2 * localT);
-        currentPos.lerpVectors(pExtendedIntroChase.pos, pChase.pos, easeT);
-        currentLook.lerpVectors(pExtendedIntroChase.look, pChase.look, easeT);
-        nextPhase = 0;
-      } else if (t < 0.15) {
-        // INTRO: Slow dolly forward from darkness (first sequence only)
-        const localT = Math.min(t / 0.15, 1);
-        const easeT = localT * localT * (3 - 2 * localT);
-        currentPos.lerpVectors(pIntro.pos, pChase.pos, easeT);
-        currentLook.lerpVectors(pIntro.look, pChase.look, easeT);
+        // EXTENDED INTRO: Hold camera at chase position while truck drives in
+        const hold = scrollTimeline.getExtendedIntroCamera();
+        currentPos.copy(hold.position);
+        currentLook.copy(hold.lookAt);
         nextPhase = 0;
-      } else if (t < 0.35) {
-        // VELOCITY: Hold hero angle
-        const localT = Math.min((t - 0.15) / 0.20, 1);
-        currentPos.lerpVectors(pChase.pos, pScan.pos, localT * 0.3);
-        currentLook.lerpVectors(pChase.look, pScan.look, localT * 0.3);
-        nextPhase = 0;
-      } else if (t < 0.55) {
-        // SENSOR HEAD: Move to side view (PHASE 1 - 3D Card)
-        const localT = Math.min((t - 0.35) / 0.20, 1);
-        const easeT = localT * localT * (3 - 2 * localT);
-        currentPos.lerpVectors(pScan.pos, pXray.pos, easeT * 0.5);
-        currentLook.lerpVectors(pScan.look, pXray.look, easeT * 0.5);
-        nextPhase = 1;
-      } else if (t < 0.75) {
-        // EXPLODED VIEW: Close-up detail (PHASE 2 - SVG)
-        const localT = Math.min((t - 0.55) / 0.20, 1);
-        const easeT = localT * localT * (3 - 2 * localT);
-        currentPos.lerpVectors(pXray.pos, pXray.pos, easeT);
-        currentLook.lerpVectors(pXray.look, pXray.look, easeT);
-        nextPhase = 2;
+        phaseId = 'extendedIntro';
       } else {
-        // TOP VIEW: Final reveal (PHASE 3)
-        // Clamp to ensure we stay at final position when t >= 1.0
-        const localT = Math.min((t - 0.75) / 0.25, 1);
-        const easeT = localT * localT * (3 - 2 * localT);
-        currentPos.lerpVectors(pXray.pos, pTop.pos, easeT);
-        currentLook.lerpVectors(pXray.look, pTop.look, easeT);
-        nextPhase = 3;
+        // Second sequence starts from the extended intro camera instead of the intro dolly
+        const sample = scrollTimeline.sampleCamera(t, {
+          secondSequence: extendedModeRef.current && extendedIntroFinishedRef.current
+        });
+        currentPos.copy(sample.position);
+        currentLook.copy(sample.lookAt);
+        nextPhase = sample.phase.phase;
+        phaseId = sample.phase.id;
+        fuelCrossSection = sample.phase.fuelCrossSection === true;
+      }
+
+      // === FUEL VOLUME (level, slosh, X-ray cross-section) ===
+      if (fuelVolumeRef.current) {
+        updateFuelVolume(fuelVolumeRef.current, {
+          fuelLevel: scenarioFrame?.actualFuelLevel ?? latestTelematics?.fuelLevel,
+          bounce: truck.position.y,
+          delta,
+          time,
+          crossSection: fuelCrossSection
+        });
       }
 
+      // === AUDIO MIX (per-phase scenes crossfaded by scroll, see src/config/audioMix.json) ===
+      audioMix.update({ t, phaseId, time, delta });
+
       if (nextPhase !== currentPhase) {
         setActivePhase(nextPhase);
         currentPhase = nextPhase;
@@ -634,8 +786,24 @@ export default function App() {
       // Smooth camera interpolation with breathing
       const breathe = Math.sin(time * 0.5) * 0.15;
       currentPos.y += breathe;
-      camera.position.lerp(currentPos, 0.08);
-      camera.lookAt(currentLook);
+      if (exploreControls && exploreModeRef.current !== exploreControls.isActive()) {
+        if (exploreModeRef.current) {
+          exploreControls.enter(currentLook);
+        } else {
+          exploreControls.exit();
+        }
+      }
+
+      if (exploreControls?.isActive()) {
+        exploreControls.update(delta);
+      } else {
+        camera.position.lerp(currentPos, 0.08);
+        camera.lookAt(exploreControls ? exploreControls.blendReturn(currentLook, delta) : currentLook);
+      }
+
+      // Hotspot hover picking and spatial audio listener (after the camera moved)
+      hotspotManager?.update();
+      audioSpatializer.update(camera);
       
       // === UPDATE 3D CARD POSITION (Phase 1 only) ===
       if (currentPhase === 1 && tankGroupRef.current) {
@@ -691,13 +859,18 @@ export default function App() {
 
       if (renderer) {
         renderer.render(scene, camera);
+
+        // RUM: time to first frame (since navigation start) and FPS per phase
+        if (!firstFrameRendered) {
+          firstFrameRendered = true;
+          performanceMonitor.recordMetric('first-frame', performance.now());
+        }
+        performanceMonitor.trackFrame(exploreControls?.isActive() ? 'explore' : phaseId, delta);
+        qualityManager.sample(delta);
       }
       animationFrameId = requestAnimationFrame(animate);
     };
 
-    let airBrakeTriggered = false;
-    let hornTriggered = false;
-
     handleScroll = () => {
       const total = document.documentElement.scrollHeight - window.innerHeight;
       const rawScroll = Math.min(Math.max(window.scrollY / total, 0), 1);
@@ -705,51 +878,34 @@ export default function App() {
       // Update scroll progress percentage for UI
       setScrollProgress(Math.round(rawScroll * 100));
       
-      // Track if scrolled past 3%
-      setScrollPast3(rawScroll > 0.03);
-      
       // Store previous scroll value BEFORE updating
       const prevScroll = scrollRef.current;
       
-      // Reset extended mode if scrolling back below 50%
-      if (rawScroll < 0.5 && extendedModeRef.current) {
+      // Reset extended mode if scrolling back before the sequence break
+      const { triggerAt } = scrollTimeline.getExtendedIntro();
+      if (rawScroll < triggerAt && extendedModeRef.current) {
         extendedModeRef.current = false;
         extendedIntroFinishedRef.current = false;
         extendedIntroStartTimeRef.current = null;
       }
       
-      // Check if we've reached 50% of page (trigger extended intro)
-      if (rawScroll >= 0.5 && !extendedModeRef.current) {
+      // Check if we've reached the sequence break (trigger extended intro)
+      const sequence = scrollTimeline.toSequenceScroll(rawScroll);
+      if (rawScroll >= triggerAt && !extendedModeRef.current) {
         // Trigger extended mode (intro phase + cloned sequence)
         extendedModeRef.current = true;
         scrollRef.current = 0;
       } else if (!extendedModeRef.current) {
-        // First half of scroll (0-50% = original sequence)
-        scrollRef.current = rawScroll * 2; // Map 0-0.5 to 0-1
+        // First part of scroll = original sequence (mapped to 0-1)
+        scrollRef.current = sequence.t;
       } else if (extendedIntroFinishedRef.current) {
-        // After extended intro, map second half (50-100%) to cloned sequence (0-1)
-        scrollRef.current = (rawScroll - 0.5) * 2; // Map 0.5-1 to 0-1
+        // After extended intro, map remaining scroll to cloned sequence (0-1)
+        scrollRef.current = sequence.t;
       } else {
         // During extended intro, keep scroll at 0
         scrollRef.current = 0;
       }
-      
-      // Trigger air brake at first scroll (0%)
-      if (!airBrakeTriggered && scrollRef.current > 0) {
-        if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-          audioSysRef.current.triggerAirBrake();
-          airBrakeTriggered = true;
-        }
-      }
-
-      // Trigger horn after 6% scroll and reduce engine volume
-      if (!hornTriggered && scrollRef.current > 0.06) {
-        if (audioSysRef.current?.masterGain && audioSysRef.current.masterGain.gain.value > 0) {
-          audioSysRef.current.triggerHornOnly();
-          audioSysRef.current.reduceEngineVolume();
-          hornTriggered = true;
-        }
-      }
+      // Air brake / horn cues fire from the audio mix in the render loop and re-arm on scroll back
     };
 
     handleResize = () => {
@@ -762,19 +918,25 @@ export default function App() {
     window.addEventListener('scroll', handleScroll);
     window.addEventListener('resize', handleResize);
 
+    // Explore mode orbit controls (double-click focuses sensor parts)
+    exploreControls = createExploreControls(camera, renderer.domElement, {
+      focusTargets: () => [sensorHeadGroupRef.current, probeTubeRef.current, cageGroupRef.current]
+        .filter((object): object is THREE.Group | THREE.Mesh => object !== null)
+    });
+
+    // Hover / click picking on sensor parts, truck parts and the display
+    hotspotManager = createHotspotManager(camera, renderer.domElement, {
+      roots: () => [truck]
+    });
+    hotspotManager.onSelect((hotspot) => setSelectedHotspot(hotspot));
+
     // Enable audio on first click anywhere on the page
     let audioActivated = false;
     handleViewportClick = () => {
-        if (!audioActivated && audioSysRef.current) {
-            // Initialize audio if not already initialized
-            if (!audioSysRef.current.initialized) {
-                audioSysRef.current.init();
-            }
-            
+        if (!audioActivated) {
             // Check if audio is currently off by checking masterGain
-            if (audioSysRef.current.masterGain && audioSysRef.current.masterGain.gain.value === 0) {
-                audioSysRef.current.toggleMute(false);
-                setIsMuted(false);
+            if (audio.masterGain && audio.masterGain.gain.value === 0) {
+                audio.toggleMute(false);
                 audioActivated = true;
             }
         }
@@ -782,6 +944,61 @@ export default function App() {
     // Attach to document to catch clicks anywhere (including through overlays)
     document.addEventListener('click', handleViewportClick);
 
+    // === WEBGL CONTEXT LOSS RECOVERY ===
+    contextHandler = createWebGLContextHandler(renderer, {
+      maxRestoreAttempts: WEBGL_MAX_RESTORE_ATTEMPTS,
+      onContextLost: () => {
+        // Pause the loop - rendering into a lost context only produces a frozen black canvas
+        renderingPaused = true;
+        cancelAnimationFrame(animationFrameId);
+        setWebglStatus('lost');
+      },
+      onContextRestored: () => {
+        if (!mounted) return;
+        setWebglStatus('restoring');
+
+        // Rebuild canvas textures
+        const groundMaterial = ground.material as THREE.MeshStandardMaterial;
+        groundMaterial.map?.dispose();
+        groundMaterial.map = createGroundTexture();
+
+        telematicsDashboardRef.current?.invalidate();
+
+        // Re-upload GLB materials and any remaining textures
+        const materialCount = markSceneForReupload(scene);
+        console.log(`🔄 Scene resources flagged for re-upload (${materialCount} materials)`);
+
+        // Resume at the current scroll position, dropping the time spent paused
+        clock.getDelta();
+        handleScroll?.();
+        renderingPaused = false;
+        animate();
+        setWebglStatus('ok');
+      },
+      onRestoreFailed: () => {
+        if (!mounted) return;
+        setWebglStatus('failed');
+      }
+    });
+
+    // === ADAPTIVE QUALITY (see src/quality/QualityManager.ts) ===
+    // Particles and truck edges follow the tier through React props
+    unsubscribeQuality = qualityManager.subscribe(({ settings }: QualityState) => {
+      if (!renderer) return;
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, settings.maxPixelRatio));
+      mainLight.castShadow = settings.shadows;
+
+      if (mainLight.shadow.mapSize.width !== settings.shadowMapSize) {
+        mainLight.shadow.mapSize.set(settings.shadowMapSize, settings.shadowMapSize);
+        // Reallocated at the new size on the next shadow pass
+        mainLight.shadow.map?.dispose();
+        mainLight.shadow.map = null;
+      }
+
+      telematicsDashboardRef.current?.setScale(settings.telematicsScale);
+    });
+
+    performanceMonitor.endMark('scene-init');
     animate();
     }
 
@@ -791,6 +1008,8 @@ export default function App() {
     // Cleanup function
     return () => {
       mounted = false;
+      // Scene-bound children (truck model, particles, display) remount with the next scene
+      setSceneReady(false);
       if (handleScroll) {
         window.removeEventListener('scroll', handleScroll);
       }
@@ -803,19 +1022,30 @@ export default function App() {
       if (animationFrameId) {
         cancelAnimationFrame(animationFrameId);
       }
+      if (contextHandler) {
+        contextHandler.dispose();
+      }
+      if (exploreControls) {
+        exploreControls.dispose();
+      }
+      if (hotspotManager) {
+        hotspotManager.dispose();
+      }
+      unsubscribeQuality?.();
       if (renderer) {
-        if (mountRef.current && renderer.domElement) {
-          mountRef.current.removeChild(renderer.domElement);
-        }
+        // mountRef may already point at the remounted container (see sceneKey)
+        renderer.domElement.remove();
         renderer.dispose();
       }
-      // Don't close AudioContext in cleanup - it causes issues with React StrictMode
-      // AudioContext will be garbage collected when page unloads
+      // The AudioContext is released by useAudioSystem
     };
-  }, []);
+  }, [sceneKey]);
+
+  // Accent span sits where {accent} is in the translated sentence
+  const [introDescriptionBefore, introDescriptionAfter = ''] = t('introSection.description').split('{accent}');
 
   return (
-    <div className="app-container">
+    <div className={`app-container ${exploreMode ? 'explore-mode' : ''}`}>
       {/* Intro Screen - Loading Overlay */}
       {showIntroScreen && (
         <div 
@@ -829,24 +1059,21 @@ export default function App() {
             
             {/* Center - Button */}
             <div className="intro-center">
-              {loadingProgress === 100 ? (
+              {loading.complete ? (
                 <button
                   onClick={dismissIntroScreen}
                   className="intro-enter-button"
                 >
-                  ENTER EXPERIENCE
+                  {t('intro.enter')}
                 </button>
               ) : (
-                <div className="loading-indicator">
-                  <div className="loading-spinner" />
-                  <p className="loading-text">Loading 3D Experience...</p>
-                </div>
+                <LoadingStatus state={loading} />
               )}
             </div>
             
             {/* Footer - Fleet Telematics Text */}
             <div className="intro-footer">
-              <p className="intro-subtitle">FLEET TELEMATICS</p>
+              <p className="intro-subtitle">{t('intro.subtitle')}</p>
             </div>
           </div>
         </div>
@@ -855,21 +1082,37 @@ export default function App() {
       {/* Wrap 3D scene in error boundary */}
       <ThreeJSErrorBoundary
         onError={(error, errorInfo) => {
-          console.error('3D Scene Error:', error, errorInfo);
+          errorTracker.trackError(error, {
+            component: 'ThreeJSErrorBoundary',
+            componentStack: errorInfo.componentStack
+          }, 'critical');
         }}
         onReset={() => {
-          console.log('Resetting 3D scene...');
-          // Scene will reinitialize on component remount
+          // The boundary remounts a fresh container; build a new renderer and scene into it
+          setWebglStatus('ok');
+          setSceneKey((key) => key + 1);
         }}
       >
+        {webglStatus === 'failed' && <WebGLContextFailure attempts={WEBGL_MAX_RESTORE_ATTEMPTS} />}
         <div ref={mountRef} className="canvas-container" />
+        {renderMode.mode === 'fallback' && (
+          <FallbackExperience progress={fallbackScroll.progress} phaseId={fallbackScroll.phaseId} />
+        )}
+        <WebGLContextOverlay status={webglStatus} />
+        <HUDNotification alert={scenarioAlert} onDismiss={dismissScenarioAlert} />
+        <HotspotPanel hotspot={selectedHotspot} onClose={closeHotspotPanel} />
+        {exploreMode && (
+          <div className="explore-hint">
+            {t('explore.hint')}
+          </div>
+        )}
 
         {/* HUD Progress Indicator */}
         {!showIntroScreen && (
           <HUDProgress 
             scrollProgress={displayProgress}
             activePhase={activePhase}
-            sectionName={getSectionName(scrollProgress, activePhase)}
+            sectionName={scrollTimeline.getSectionName(scrollProgress)}
           />
         )}
       </ThreeJSErrorBoundary>
@@ -894,10 +1137,27 @@ export default function App() {
             ) : (
               <Volume2 className="audio-button-icon active" size={16} />
             )}
-            <span className="audio-button-text">AUDIO {isMuted ? 'OFF' : 'ON'}</span>
+            <span className="audio-button-text">{t(isMuted ? 'topBar.audioOff' : 'topBar.audioOn')}</span>
           </button>
 
+          <AudioSettingsPanel audio={audio} />
+
+          {renderMode.mode !== 'fallback' && !showIntroScreen && (
+            <button
+              onClick={() => setExploreMode((prev) => !prev)}
+              className={`audio-button explore-button ${exploreMode ? 'active' : ''}`}
+              aria-pressed={exploreMode}
+            >
+              <Rotate3d className="audio-button-icon" size={16} />
+              <span className="audio-button-text">{t(exploreMode ? 'topBar.exitExplore' : 'topBar.explore')}</span>
+            </button>
+          )}
+
+          {renderMode.mode !== 'fallback' && (
+            <QualitySwitcher manager={qualityManager} state={quality} />
+          )}
 
+          <LanguageSwitcher />
         </div>
       </div>
 
@@ -908,9 +1168,9 @@ export default function App() {
             <div className="bottom-card-indicator"></div>
             <div>
               <h1 className="bottom-card-title">
-                FUEL LEVEL <span className="bottom-card-title-accent">SENSOR PRO</span>
+                {t('bottomCard.title')} <span className="bottom-card-title-accent">{t('bottomCard.titleAccent')}</span>
               </h1>
-              <p className="bottom-card-subtitle">TRANSLINK FUEL TELEMATICS</p>
+              <p className="bottom-card-subtitle">{t('bottomCard.subtitle')}</p>
             </div>
           </div>
         </div>
@@ -919,44 +1179,46 @@ export default function App() {
       {/* Content Sections */}
       <div className="content-wrapper">
         {/* Phase 0: Intro - Enhanced (Hidden after 3% scroll) */}
-        <section className={`section intro-section ${activePhase === 0 && !scrollPast3 ? 'visible' : 'hidden'}`}>
+        <section className={`section intro-section ${scrollTimeline.isSectionVisible('intro', activePhase, scrollProgress) ? 'visible' : 'hidden'}`}>
           <div className="intro-section-content">
             <div className="intro-section-badge">
               <div className="intro-section-icon-wrapper">
                 <Radio className="intro-section-icon" size={24} />
               </div>
-              <span className="intro-section-badge-text">TRANSLINK SOLUTIONS</span>
+              <span className="intro-section-badge-text">{t('introSection.badge')}</span>
             </div>
             
             <h2 className="intro-section-heading">
-              REAL-TIME
+              {t('introSection.heading')}
             </h2>
             <h3 className="intro-section-subheading">
-              FUEL MONITORING
+              {t('introSection.subheading')}
             </h3>
             
             <div className="intro-section-divider"></div>
             
             <div className="intro-section-description">
               <p className="intro-section-description-main">
-                High-precision fuel level monitoring with <span className="intro-section-description-accent">±1% static accuracy</span>.
+                {introDescriptionBefore}
+                <span className="intro-section-description-accent">{t('introSection.descriptionAccent')}</span>
+                {introDescriptionAfter}
               </p>
               <p className="intro-section-description-secondary">
-                Real-time tracking, theft detection, and seamless fleet integration for comprehensive fuel management.
+                {t('introSection.secondary')}
               </p>
             </div>
             
             <div className="intro-section-stats">
               <div className="intro-section-stat">
-                <div className="intro-section-stat-label">Accuracy</div>
+                <div className="intro-section-stat-label">{t('introSection.accuracy')}</div>
                 <div className="intro-section-stat-value">±1%</div>
               </div>
               <div className="intro-section-stat">
-                <div className="intro-section-stat-label">Resolution</div>
+                <div className="intro-section-stat-label">{t('introSection.resolution')}</div>
                 <div className="intro-section-stat-value">&lt;0.5mm</div>
               </div>
               <div className="intro-section-stat">
-                <div className="intro-section-stat-label">Rating</div>
+                <div className="intro-section-stat-label">{t('introSection.rating')}</div>
                 <div className="intro-section-stat-value">IP67</div>
               </div>
             </div>
@@ -966,7 +1228,7 @@ export default function App() {
         {/* Phase 1: Card removed - using PhaseText overlay instead */}
 
         {/* Phase 2: EXPLODED VIEW / COMPONENT BREAKDOWN (SVG OVERLAY) */}
-        <div className={`svg-overlay ${activePhase === 2 ? 'visible' : 'hidden'}`}>
+        <div className={`svg-overlay ${scrollTimeline.isSectionVisible('explodedView', activePhase, scrollProgress) ? 'visible' : 'hidden'}`}>
           
           {/* DYNAMIC SVG LAYER */}
           <svg className="svg-canvas">
@@ -996,126 +1258,58 @@ export default function App() {
               <circle ref={filterDotRef} r="5" className="svg-connector-dot" />
           </svg>
 
-          {/* INFO CARDS - MODERN REDESIGN */}
-          
-          {/* 1. SENSOR HEAD Card - Floating Text Design (LEFT SIDE) */}
-          <div className="info-card info-card-sensor-head">
-              <div className="info-card-container">
-                  <div className="info-card-top-bar"></div>
-                  
-                  <div className="info-card-content">
-                      <div className="info-card-header">
-                          <div className="info-card-header-left">
-                              <div className="info-card-icon-wrapper">
-                                  <Cpu className="info-card-icon" size={24} />
-                              </div>
-                              <div className="info-card-header-text">
-                                  <div className="info-card-component-label">COMPONENT 01</div>
-                                  <h3 className="info-card-title">SENSOR HEAD</h3>
-                              </div>
-                          </div>
-                          <div className="info-card-header-right">
-                              <div className="info-card-status-dot"></div>
-                              <div className="info-card-status-text">ACTIVE</div>
-                          </div>
-                      </div>
-                      
-                      <p className="info-card-description">
-                          <TypewriterText 
-                            text="Advanced MCU with remote calibration, self-diagnostics, and real-time data feed. Supports CAN, RS232, and Modbus interfaces."
-                            delay={800}
-                            speed={25}
-                          />
-                      </p>
+          {/* INFO CARDS - from src/config/hotspots.json (explodedCard entries) */}
+          {getHotspots().filter((hotspot) => hotspot.explodedCard).map((hotspot) => {
+            const Icon = HOTSPOT_ICONS[hotspot.icon];
+            return (
+              <div key={hotspot.id} className={`info-card ${hotspot.explodedCard!.className}`}>
+                  <div className="info-card-container">
+                      <div className="info-card-top-bar"></div>
                       
-                      <div className="info-card-tags">
-                          <span className="info-card-tag">REMOTE CAL</span>
-                          <span className="info-card-tag">MULTI-IF</span>
-                      </div>
-                  </div>
-              </div>
-          </div>
-
-          {/* 2. FUEL PROBE Card - Floating Text Design */}
-          <div className="info-card info-card-fuel-probe">
-              <div className="info-card-container">
-                  <div className="info-card-top-bar"></div>
-                  
-                  <div className="info-card-content">
-                      <div className="info-card-header">
-                          <div className="info-card-header-left">
-                              <div className="info-card-icon-wrapper">
-                                  <BarChart3 className="info-card-icon" size={24} />
+                      <div className="info-card-content">
+                          <div className="info-card-header">
+                              <div className="info-card-header-left">
+                                  <div className="info-card-icon-wrapper">
+                                      <Icon className="info-card-icon" size={24} />
+                                  </div>
+                                  <div className="info-card-header-text">
+                                      <div className="info-card-component-label">
+                                        {tOr(`hotspots.${hotspot.id}.label`, hotspot.label)}
+                                      </div>
+                                      <h3 className="info-card-title">
+                                        {tOr(`hotspots.${hotspot.id}.title`, hotspot.title).toUpperCase()}
+                                      </h3>
+                                  </div>
                               </div>
-                              <div className="info-card-header-text">
-                                  <div className="info-card-component-label">COMPONENT 02</div>
-                                  <h3 className="info-card-title">FUEL PROBE</h3>
+                              <div className="info-card-header-right">
+                                  <div className="info-card-status-dot"></div>
+                                  <div className="info-card-status-text">{t('explodedView.active')}</div>
                               </div>
                           </div>
-                          <div className="info-card-header-right">
-                              <div className="info-card-status-dot"></div>
-                              <div className="info-card-status-text">ACTIVE</div>
+                          
+                          <p className="info-card-description">
+                              <TypewriterText 
+                                text={tOr(`hotspots.${hotspot.id}.copy`, hotspot.copy)}
+                                delay={hotspot.explodedCard!.typewriterDelay}
+                                speed={25}
+                              />
+                          </p>
+                          
+                          <div className="info-card-tags">
+                              {hotspot.tags.map((tag) => (
+                                <span key={tag} className="info-card-tag">{tag}</span>
+                              ))}
                           </div>
                       </div>
-                      
-                      <p className="info-card-description">
-                          <TypewriterText 
-                            text="High-precision capacitive probe with <0.5mm resolution. Features inclinometer for tilt compensation and anti-slosh technology for stable readings."
-                            delay={1400}
-                            speed={25}
-                          />
-                      </p>
-                      
-                      <div className="info-card-tags">
-                          <span className="info-card-tag">±1% ACCURACY</span>
-                          <span className="info-card-tag">ANTI-SLOSH</span>
-                      </div>
                   </div>
               </div>
-          </div>
-
-          {/* 3. PROTECTION CAGE Card - Floating Text Design */}
-          <div className="info-card info-card-protection-cage">
-              <div className="info-card-container">
-                  <div className="info-card-top-bar"></div>
-                  
-                  <div className="info-card-content">
-                      <div className="info-card-header">
-                          <div className="info-card-header-left">
-                              <div className="info-card-icon-wrapper">
-                                  <Layers className="info-card-icon" size={24} />
-                              </div>
-                              <div className="info-card-header-text">
-                                  <div className="info-card-component-label">COMPONENT 03</div>
-                                  <h3 className="info-card-title">PROTECTION CAGE</h3>
-                              </div>
-                          </div>
-                          <div className="info-card-header-right">
-                              <div className="info-card-status-dot"></div>
-                              <div className="info-card-status-text">ACTIVE</div>
-                          </div>
-                      </div>
-                      
-                      <p className="info-card-description">
-                          <TypewriterText 
-                            text="Corrosion-resistant protective cage with chemical-resistant materials. Shock-resistant design ensures durability in harsh environments."
-                            delay={2000}
-                            speed={25}
-                          />
-                      </p>
-                      
-                      <div className="info-card-tags">
-                          <span className="info-card-tag">IP67</span>
-                          <span className="info-card-tag">SHOCK-PROOF</span>
-                      </div>
-                  </div>
-              </div>
-          </div>
+            );
+          })}
 
       </div>
 
         {/* Phase 3: Top View - Enhanced (Only visible at 96-100%) */}
-        <section className={`section final-section ${activePhase === 3 && scrollProgress >= 96 ? 'visible' : 'hidden'}`}>
+        <section className={`section final-section ${scrollTimeline.isSectionVisible('final', activePhase, scrollProgress) ? 'visible' : 'hidden'}`}>
           <div className="final-section-content">
             <div className="final-section-icon-wrapper">
               <div className="final-section-icon-box">
@@ -1124,38 +1318,38 @@ export default function App() {
             </div>
             
             <h3 className="final-section-heading">
-              FLEET READY
+              {t('final.heading')}
             </h3>
             
             <p className="final-section-description">
-              Seamless integration with your existing fleet management system
+              {t('final.description')}
             </p>
             
             <div className="final-section-stats">
               <div className="final-section-stat">
                 <div className="final-section-stat-value">24/7</div>
-                <div className="final-section-stat-label">Monitoring</div>
+                <div className="final-section-stat-label">{t('final.monitoring')}</div>
               </div>
               <div className="final-section-divider"></div>
               <div className="final-section-stat">
                 <div className="final-section-stat-value">±1%</div>
-                <div className="final-section-stat-label">Accuracy</div>
+                <div className="final-section-stat-label">{t('final.accuracy')}</div>
               </div>
               <div className="final-section-divider"></div>
               <div className="final-section-stat">
                 <div className="final-section-stat-value">IP67</div>
-                <div className="final-section-stat-label">Rated</div>
+                <div className="final-section-stat-label">{t('final.rated')}</div>
               </div>
             </div>
             
-            <button className="final-section-cta group">
+            <button className="final-section-cta group" onClick={() => setShowDemoForm(true)}>
               <span className="final-section-cta-content">
-                Request Demo
+                {t('final.cta')}
                 <ChevronDown className="final-section-cta-icon" size={20} />
               </span>
             </button>
             
-            <p className="final-section-footer">Fleet Integration Ready</p>
+            <p className="final-section-footer">{t('final.footer')}</p>
           </div>
         </section>
 
@@ -1163,12 +1357,20 @@ export default function App() {
         <section className="spacer-section"></section>
       </div>
 
+      {/* Request Demo Lead Capture */}
+      <RequestDemoModal
+        isOpen={showDemoForm}
+        onClose={closeDemoForm}
+        adapter={leadAdapter}
+        queue={leadQueue}
+      />
+
       {/* Scroll Indicator - Enhanced */}
-      <div className={`scroll-indicator ${activePhase === 3 ? 'hidden' : 'visible'}`}>
+      <div className={`scroll-indicator ${scrollTimeline.isSectionVisible('scrollIndicator', activePhase, scrollProgress) ? 'visible' : 'hidden'}`}>
         <div className="scroll-indicator-icon-wrapper">
           <ChevronDown className="scroll-indicator-icon" size={20} />
         </div>
-        <span className="scroll-indicator-text">Scroll to Explore</span>
+        <span className="scroll-indicator-text">{t('scrollIndicator')}</span>
       </div>
 
       {/* Truck Model Component */}
@@ -1181,8 +1383,12 @@ export default function App() {
           scale={objectTransforms.truck.scale[0]}
           lightGrayMaterial={lightGrayMatRef.current}
           edgeMaterial={edgeMatRef.current}
-          onProgress={(progress) => {
-            setLoadingProgress(progress);
+          edges={quality.settings.edges}
+          onProgress={(_, detail) => {
+            modelTracker?.progress(detail.loaded, detail.total);
+          }}
+          onError={(error) => {
+            modelTracker?.fail(error);
           }}
           onLoad={async (model, wheels) => {
             glbModelRef.current = model;
@@ -1197,7 +1403,7 @@ export default function App() {
               }
             }
             
-            setLoadingProgress(100);
+            modelTracker?.done();
           }}
           onLogoCreated={(logoPlane) => {
             logoPlaneRef.current = logoPlane;
@@ -1235,8 +1441,10 @@ export default function App() {
           rotation={objectTransforms.telematicsDisplay.rotation as [number, number, number]}
           size={objectTransforms.telematicsDisplay.size as [number, number]}
           initialData={{ speed: 85, fuelLevel: 0.65 }}
-          onMaterialCreated={(material) => {
-            telematicsMatRef.current = material;
+          textureScale={quality.settings.telematicsScale}
+          layout={dashboardLayout}
+          onDashboardCreated={(dashboard) => {
+            telematicsDashboardRef.current = dashboard;
           }}
           onGroupCreated={(group) => {
             telematicsDisplayRef.current = group;
@@ -1248,7 +1456,7 @@ export default function App() {
       {sceneReady && sceneRef.current && (
         <ParticleSystem
           scene={sceneRef.current}
-          count={400}
+          count={quality.settings.particleCount}
           color={0xc0c0c0}
           onParticlesCreated={(particles) => {
             particlesRef.current = particles;
@@ -1285,6 +1493,9 @@ export default function App() {
               }
             }
           }}
+          onFuelVolumeCreated={(fuelVolume) => {
+            fuelVolumeRef.current = fuelVolume;
+          }}
         />
       )}
 
@@ -0,0 +1,328 @@
+/**
+ * AudioMixController - Scroll-synchronized adaptive mix
+ *
+ * Drives AudioSystem from the render loop with per-phase audio scenes
+ * (src/config/audioMix.json):
+ * - Engine RPM and filter follow a virtual speed (scene speed plus a boost while scrolling quickly)
+ * - Scanner flutter during the sensor scan
+ * - Muffled interior audio during the X-ray cross-section
+ * - Scenes crossfade around each phase boundary as you scroll
+ * - One-shot cues (air brake, horn) re-arm when you scroll back past them
+ *
+ * @example
+ * ```typescript
+ * const audioMix = createAudioMixController(audioSystem);
+ *
+ * // In the animation loop
+ * audioMix.update({ t: scrollRef.current, phaseId, time, delta });
+ * ```
+ */
+
+import { ConfigurationError } from '../utils/errors';
+import { scrollTimeline } from '../timeline/ScrollTimeline';
+import type { TimelinePhase } from '../timeline/types';
+import audioMixConfig from '../config/audioMix.json';
+import type { AudioSystem } from './AudioSystem';
+import type { AudioCue, AudioCueSound, AudioMixConfig, AudioMixState, AudioScene } from './types';
+
+/** Scene used while the extended intro (truck drive-in) plays */
+export const EXTENDED_INTRO_SCENE = 'extendedIntro';
+
+/** Lowpass cutoff that leaves the mix unfiltered */
+const UNFILTERED_HZ = 20000;
+
+/** Default distance below `at` that re-arms a cue */
+const REARM_DISTANCE = 0.02;
+
+/** How quickly the scroll boost follows scroll velocity (1/s) */
+const BOOST_RESPONSE = 3;
+
+const CUE_SOUNDS: AudioCueSound[] = ['airBrake', 'horn', 'hornOnly', 'chirp'];
+
+/**
+ * Render loop input for one frame
+ */
+export interface AudioMixFrame {
+  /** Sequence-local scroll (0.0-1.0) */
+  t: number;
+  /** Active timeline phase id, or `extendedIntro` during the drive-in */
+  phaseId: string;
+  /** Elapsed time in seconds */
+  time: number;
+  /** Frame time in seconds */
+  delta: number;
+}
+
+export class AudioMixController {
+  private audio: AudioSystem;
+  private config: AudioMixConfig;
+  private phases: TimelinePhase[];
+  private fired: Set<string> = new Set();
+  private lastT: number | null = null;
+  private boostKmh = 0;
+  private state: AudioMixState = {
+    engineLevel: 1,
+    engineLoad: 0,
+    engineRate: 1,
+    engineFilterHz: UNFILTERED_HZ,
+    ambience: 0,
+    scanner: 0,
+    muffleHz: UNFILTERED_HZ
+  };
+
+  constructor(
+    audio: AudioSystem,
+    config: AudioMixConfig,
+    phases: TimelinePhase[],
+    configPath: string = 'src/config/audioMix.json'
+  ) {
+    AudioMixController.validate(config, phases, configPath);
+
+    this.audio = audio;
+    this.config = config;
+    this.phases = [...phases].sort((a, b) => a.range[0] - b.range[0]);
+  }
+
+  /**
+   * Validate a mix configuration against the timeline phases
+   * @throws ConfigurationError when a scene or cue is missing or out of range
+   */
+  static validate(config: AudioMixConfig, phases: TimelinePhase[], configPath?: string): void {
+    const fail = (message: string, details: Record<string, any> = {}): never => {
+      throw new ConfigurationError(`Invalid audio mix: ${message}`, {
+        configType: 'audio',
+        configPath,
+        ...details
+      });
+    };
+    const isLevel = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+    if (!config || !config.scenes || !Array.isArray(config.cues)) {
+      fail('scenes and cues are required');
+    }
+
+    if (!(config.crossfade >= 0 && config.crossfade < 0.5)) {
+      fail('crossfade must be from 0 to 0.5', { crossfade: config.crossfade });
+    }
+
+    const { maxSpeedKmh, idleRate, maxRate, idleFilterHz, maxFilterHz } = config.engine ?? {};
+    if (![maxSpeedKmh, idleRate, maxRate, idleFilterHz, maxFilterHz].every((value) => typeof value === 'number' && value > 0)) {
+      fail('engine needs positive maxSpeedKmh, idleRate, maxRate, idleFilterHz and maxFilterHz');
+    }
+
+    const { kmhPerScroll, maxKmh } = config.scrollBoost ?? {};
+    if (!(kmhPerScroll >= 0 && maxKmh >= 0)) {
+      fail('scrollBoost needs kmhPerScroll and maxKmh >= 0');
+    }
+
+    [...phases.map((phase) => phase.id), EXTENDED_INTRO_SCENE].forEach((id) => {
+      const scene = config.scenes[id];
+      if (!scene) {
+        fail(`no scene for phase "${id}"`, { phaseId: id });
+      }
+      if (!(scene.speedKmh >= 0) || !isLevel(scene.engine) || !isLevel(scene.ambience) || !isLevel(scene.scanner)) {
+        fail(`scene "${id}" needs speedKmh >= 0 and engine / ambience / scanner levels from 0 to 1`, { phaseId: id });
+      }
+      if (scene.muffleHz !== undefined && !(scene.muffleHz >= 20 && scene.muffleHz <= UNFILTERED_HZ)) {
+        fail(`scene "${id}" muffleHz must be from 20 to ${UNFILTERED_HZ}`, { phaseId: id, muffleHz: scene.muffleHz });
+      }
+    });
+
+    const ids = new Set<string>();
+    config.cues.forEach((cue) => {
+      if (ids.has(cue.id)) {
+        fail(`duplicate cue id "${cue.id}"`, { cueId: cue.id });
+      }
+      ids.add(cue.id);
+
+      if (!(cue.at >= 0 && cue.at < 1)) {
+        fail(`cue "${cue.id}" needs at from 0 to 1`, { cueId: cue.id, at: cue.at });
+      }
+      if (cue.rearmAt !== undefined && !(cue.rearmAt >= 0 && cue.rearmAt <= cue.at)) {
+        fail(`cue "${cue.id}" rearmAt must be from 0 to at`, { cueId: cue.id, rearmAt: cue.rearmAt });
+      }
+      if (!CUE_SOUNDS.includes(cue.sound)) {
+        fail(`cue "${cue.id}" plays unknown sound "${cue.sound}"`, { cueId: cue.id, sound: cue.sound });
+      }
+      if (cue.duckEngine !== undefined && !isLevel(cue.duckEngine)) {
+        fail(`cue "${cue.id}" duckEngine must be from 0 to 1`, { cueId: cue.id });
+      }
+    });
+  }
+
+  /**
+   * Update the mix for the current frame
+   * Call this in the animation loop after the timeline phase is known
+   *
+   * @param frame - Scroll position, phase and timing of this frame
+   */
+  update(frame: AudioMixFrame): void {
+    const { time, delta } = frame;
+    const t = Math.min(Math.max(frame.t, 0), 1);
+    const extendedIntro = frame.phaseId === EXTENDED_INTRO_SCENE;
+
+    // Scroll velocity revs the engine; jumps (sequence break) are capped by maxKmh
+    const velocity = this.lastT === null || delta <= 0 ? 0 : Math.abs(t - this.lastT) / delta;
+    const targetBoost = extendedIntro ? 0 : Math.min(velocity * this.config.scrollBoost.kmhPerScroll, this.config.scrollBoost.maxKmh);
+    this.boostKmh += (targetBoost - this.boostKmh) * Math.min(1, delta * BOOST_RESPONSE);
+    this.lastT = t;
+
+    this.updateCues(t);
+
+    const scene = extendedIntro ? this.config.scenes[EXTENDED_INTRO_SCENE] : this.sampleScene(t);
+    const { engine } = this.config;
+    const speed = Math.min((scene.speedKmh + this.boostKmh) / engine.maxSpeedKmh, 1);
+    const duck = this.config.cues.reduce(
+      (level, cue) => (this.fired.has(cue.id) ? level * (cue.duckEngine ?? 1) : level),
+      1
+    );
+
+    this.state.engineLevel = scene.engine * duck;
+    this.state.engineLoad = speed;
+    this.state.engineRate = lerp(engine.idleRate, engine.maxRate, speed);
+    this.state.engineFilterHz = lerpExp(engine.idleFilterHz, engine.maxFilterHz, speed);
+    this.state.ambience = scene.ambience * (0.5 + speed * 0.5);
+    this.state.scanner = scene.scanner;
+    this.state.muffleHz = scene.muffleHz ?? UNFILTERED_HZ;
+
+    this.audio.applyMix(this.state);
+    this.audio.update(time);
+    this.audio.updateScannerVolume(this.state.scanner > 0.01, time, this.state.scanner);
+  }
+
+  /**
+   * Current resolved mix levels
+   */
+  getState(): AudioMixState {
+    return { ...this.state };
+  }
+
+  /**
+   * Re-arm every cue and drop the scroll boost
+   */
+  reset(): void {
+    this.fired.clear();
+    this.lastT = null;
+    this.boostKmh = 0;
+  }
+
+  /**
+   * Fire cues passed going forward, re-arm cues scrolled back past
+   * A cue stays armed while audio is muted so it plays on the next pass
+   * @private
+   */
+  private updateCues(t: number): void {
+    const audible = (this.audio.masterGain?.gain.value ?? 0) > 0;
+
+    this.config.cues.forEach((cue) => {
+      if (this.fired.has(cue.id)) {
+        if (t <= (cue.rearmAt ?? Math.max(0, cue.at - REARM_DISTANCE))) {
+          this.fired.delete(cue.id);
+        }
+        return;
+      }
+
+      if (t > cue.at && audible) {
+        this.playCue(cue);
+        this.fired.add(cue.id);
+      }
+    });
+  }
+
+  /**
+   * @private
+   */
+  private playCue(cue: AudioCue): void {
+    switch (cue.sound) {
+      case 'airBrake':
+        this.audio.triggerAirBrake();
+        break;
+      case 'horn':
+        this.audio.triggerHorn();
+        break;
+      case 'hornOnly':
+        this.audio.triggerHornOnly();
+        break;
+      case 'chirp':
+        this.audio.triggerChirp();
+        break;
+    }
+  }
+
+  /**
+   * Scene at a scroll position, crossfaded with the neighbouring phase
+   * within half the crossfade width of a boundary
+   * @private
+   */
+  private sampleScene(t: number): AudioScene {
+    const found = this.phases.findIndex((phase) => t < phase.range[1]);
+    const position = found === -1 ? this.phases.length - 1 : found;
+    const current = this.phases[position];
+    const scene = this.config.scenes[current.id];
+    const width = this.config.crossfade;
+    if (width <= 0) return scene;
+
+    const [start, end] = current.range;
+    if (position > 0 && t < start + width / 2) {
+      const previous = this.config.scenes[this.phases[position - 1].id];
+      return blendScenes(previous, scene, smoothstep((t - (start - width / 2)) / width));
+    }
+    if (position < this.phases.length - 1 && t > end - width / 2) {
+      const next = this.config.scenes[this.phases[position + 1].id];
+      return blendScenes(scene, next, smoothstep((t - (end - width / 2)) / width));
+    }
+    return scene;
+  }
+}
+
+/**
+ * @private
+ */
+function blendScenes(from: AudioScene, to: AudioScene, amount: number): AudioScene {
+  return {
+    speedKmh: lerp(from.speedKmh, to.speedKmh, amount),
+    engine: lerp(from.engine, to.engine, amount),
+    ambience: lerp(from.ambience, to.ambience, amount),
+    scanner: lerp(from.scanner, to.scanner, amount),
+    muffleHz: lerpExp(from.muffleHz ?? UNFILTERED_HZ, to.muffleHz ?? UNFILTERED_HZ, amount)
+  };
+}
+
+/**
+ * @private
+ */
+function lerp(from: number, to: number, amount: number): number {
+  return from + (to - from) * amount;
+}
+
+/**
+ * Interpolate frequencies on a log scale so sweeps sound even
+ * @private
+ */
+function lerpExp(from: number, to: number, amount: number): number {
+  return Math.exp(lerp(Math.log(from), Math.log(to), amount));
+}
+
+/**
+ * @private
+ */
+function smoothstep(t: number): number {
+  const clamped = Math.min(Math.max(t, 0), 1);
+  return clamped * clamped * (3 - 2 * clamped);
+}
+
+/**
+ * Create a mix controller for an audio system
+ *
+ * @param audio - Audio system to drive
+ * @param config - Mix configuration (default: audioMix.json)
+ * @param phases - Timeline phases the scenes belong to (default: scrollTimeline.json)
+ * @returns Validated AudioMixController
+ */
+export function createAudioMixController(
+  audio: AudioSystem,
+  config: AudioMixConfig = audioMixConfig as unknown as AudioMixConfig,
+  phases: TimelinePhase[] = scrollTimeline.getPhases()
+): AudioMixController {
+  return new AudioMixController(audio, config, phases);
+}
@@ -0,0 +1,124 @@
+/**
+ * AudioSpatializer - Binds AudioSystem emitters to scene objects
+ *
+ * Places each emitter at its anchor from src/config/audioSpatial.json
+ * (engine at the cab, horn at the front, air brake at the axles, scanner
+ * and chirp at the sensor head) and keeps the Web Audio listener on the
+ * camera, so moving between phases or orbiting in explore mode changes
+ * what you hear. Does nothing while AudioSystem plays stereo or mono.
+ *
+ * @example
+ * ```typescript
+ * const spatializer = createAudioSpatializer(audioSystem);
+ * spatializer.bindTarget('truck', () => truckRef.current);
+ * spatializer.bindTarget('sensorHead', () => sensorHeadGroupRef.current);
+ *
+ * // In the animation loop, after the camera moved
+ * spatializer.update(camera);
+ * ```
+ */
+
+import * as THREE from 'three';
+import { ConfigurationError } from '../utils/errors';
+import audioSpatialConfig from '../config/audioSpatial.json';
+import { AUDIO_EMITTERS, type AudioSystem } from './AudioSystem';
+import type { AudioSpatialConfig } from './types';
+
+export class AudioSpatializer {
+  private audio: AudioSystem;
+  private config: AudioSpatialConfig;
+  private targets: Map<string, () => THREE.Object3D | null> = new Map();
+  private position = new THREE.Vector3();
+  private forward = new THREE.Vector3();
+  private up = new THREE.Vector3();
+
+  constructor(audio: AudioSystem, config: AudioSpatialConfig, configPath: string = 'src/config/audioSpatial.json') {
+    AudioSpatializer.validate(config, configPath);
+
+    this.audio = audio;
+    this.config = config;
+    audio.configurePanners(config);
+  }
+
+  /**
+   * Validate a spatial configuration
+   * @throws ConfigurationError when an emitter or distance setting is missing
+   */
+  static validate(config: AudioSpatialConfig, configPath?: string): void {
+    const fail = (message: string, details: Record<string, any> = {}): never => {
+      throw new ConfigurationError(`Invalid spatial audio: ${message}`, {
+        configType: 'audio',
+        configPath,
+        ...details
+      });
+    };
+
+    if (!config || !config.emitters) {
+      fail('emitters are required');
+    }
+
+    if (!(config.refDistance > 0 && config.rolloffFactor >= 0 && config.maxDistance > config.refDistance)) {
+      fail('needs refDistance > 0, rolloffFactor >= 0 and maxDistance > refDistance');
+    }
+
+    AUDIO_EMITTERS.forEach((id) => {
+      const emitter = config.emitters[id];
+      if (!emitter || typeof emitter.target !== 'string') {
+        fail(`emitter "${id}" needs a target`, { emitter: id });
+      }
+      const { offset } = emitter;
+      if (offset !== undefined && !(Array.isArray(offset) && offset.length === 3 && offset.every(Number.isFinite))) {
+        fail(`emitter "${id}" offset must be [x, y, z]`, { emitter: id, offset });
+      }
+    });
+  }
+
+  /**
+   * Bind a target name used in the configuration to a scene object
+   * The getter is read every frame, so objects may appear after the model loads
+   *
+   * @param name - Target name (e.g. 'truck')
+   * @param target - Returns the object, or null while it does not exist
+   */
+  bindTarget(name: string, target: () => THREE.Object3D | null): void {
+    this.targets.set(name, target);
+  }
+
+  /**
+   * Move the listener to the camera and every emitter to its anchor
+   * @param camera - Active camera
+   */
+  update(camera: THREE.Camera): void {
+    if (this.audio.outputMode !== 'spatial') return;
+
+    camera.getWorldPosition(this.position);
+    camera.getWorldDirection(this.forward);
+    this.up.copy(camera.up).applyQuaternion(camera.quaternion);
+    this.audio.setListener(this.position, this.forward, this.up);
+
+    AUDIO_EMITTERS.forEach((id) => {
+      const { target, offset } = this.config.emitters[id];
+      const object = this.targets.get(target)?.();
+      if (!object) return;
+
+      object.updateWorldMatrix(true, false);
+      this.position.set(...(offset ?? [0, 0, 0]));
+      object.localToWorld(this.position);
+      this.audio.setEmitterPosition(id, this.position);
+    });
+  }
+}
+
+/**
+ * Create a spatializer for an audio system
+ *
+ * @param audio - Audio system whose emitters to place
+ * @param config - Spatial configuration (default: audioSpatial.json)
+ * @returns Validated AudioSpatializer
+ */
+export function createAudioSpatializer(
+  audio: AudioSystem,
+  config: AudioSpatialConfig = audioSpatialConfig as unknown as AudioSpatialConfig
+): AudioSpatializer {
+  return new AudioSpatializer(audio, config);
+}
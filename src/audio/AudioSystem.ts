@@ -1,31 +1,152 @@
-import type { EngineRefs, WindRefs, NoiseType } from './types';
+import type {
+  AudioBufferId,
+  AudioBufferListener,
+  AudioBusId,
+  AudioEmitterId,
+  AudioEngineMode,
+  AudioErrorListener,
+  AudioLifecycleState,
+  AudioMixState,
+  AudioOutputMode,
+  AudioPannerOptions,
+  AudioSettings,
+  AudioSettingsListener,
+  AudioStatus,
+  AudioStatusListener,
+  AudioSystemConfig,
+  NoiseType,
+  Vector3Like,
+  WindRefs
+} from './types';
+import { loadingManager } from '../loading/LoadingManager';
+import { createProceduralEngine, type ProceduralEngine } from './ProceduralEngine';
+
+/** Positioned sources */
+export const AUDIO_EMITTERS: AudioEmitterId[] = ['engine', 'horn', 'airBrake', 'scanner', 'chirp'];
+
+export const AUDIO_OUTPUT_MODES: AudioOutputMode[] = ['spatial', 'stereo', 'mono'];
+
+/** Buses in mixer order; the UI bus skips the mix bus so alerts are never muffled */
+export const AUDIO_BUSES: AudioBusId[] = ['engine', 'ambience', 'effects', 'ui'];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 1,
+  engineVolume: 1,
+  ambienceVolume: 1,
+  effectsVolume: 1,
+  uiVolume: 1,
+  reducedAudio: false,
+  outputMode: 'spatial'
+};
+
+const SETTINGS_STORAGE_KEY = 'translink:audio-settings';
+
+/** Master gain at full masterVolume */
+const MASTER_LEVEL = 0.25;
+
+/** Engine run gain once the engine has started */
+const ENGINE_RUN_LEVEL = 0.25;
+
+/** Seconds from crank to a settled procedural idle */
+const PROCEDURAL_CRANK_TIME = 2.5;
+
+/** Grace period before the last release() closes the context (ms) */
+const DISPOSE_DELAY = 1000;
+
+/** Gestures that may resume a suspended context (autoplay policy) */
+const INTERACTION_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const;
+
+const BUS_VOLUMES: Record<AudioBusId, keyof AudioSettings> = {
+  engine: 'engineVolume',
+  ambience: 'ambienceVolume',
+  effects: 'effectsVolume',
+  ui: 'uiVolume'
+};
+
+const EMITTER_BUSES: Record<AudioEmitterId, AudioBusId> = {
+  engine: 'engine',
+  horn: 'effects',
+  airBrake: 'effects',
+  scanner: 'effects',
+  chirp: 'ui'
+};
+
+interface AudioEmitter {
+  input: GainNode;
+  panner: PannerNode;
+  output: AudioNode;
+}
 
 /**
  * AudioSystem - Enhanced Truck Audio Engine
  * 
  * Provides realistic truck audio simulation including:
- * - Deep diesel engine rumble (brown noise)
- * - Piston firing rhythm (AM synthesis)
+ * - Diesel engine from recorded loops or procedural synthesis
+ *   (see src/audio/ProceduralEngine.ts)
  * - Road and wind ambience (pink noise)
  * - Dual-tone air horn
  * - Scanner/radio effects
  * - UI chirp sounds
+ * - Mix bus with engine filter and muffle lowpass, driven per frame by
+ *   AudioMixController (see src/audio/AudioMixController.ts)
+ * - Positioned emitters (engine, horn, air brake, scanner, chirp) heard from
+ *   the camera, placed by AudioSpatializer (see src/audio/AudioSpatializer.ts),
+ *   with stereo and mono output for listeners who need them
+ * - Engine, ambience, effects and UI buses with saved volumes and a reduced
+ *   audio mode that skips the horn and air brake
+ * 
+ * The AudioContext starts suspended (autoplay policy) and is only resumed by
+ * toggleMute, which must be called from a user gesture. It is suspended while
+ * the tab is hidden and resumed when the tab comes back (or on the next
+ * gesture if the browser refuses) unless muted.
+ * 
+ * The app shares one instance (getAudioSystem, used through useAudioSystem):
+ * retain() creates the context, and it closes shortly after the last
+ * release(), so StrictMode remounts keep it. onStateChange, onBufferLoaded
+ * and onError report the lifecycle to the HUD and loading screen.
  * 
  * @example
  * ```typescript
- * const audioSystem = new AudioSystem();
+ * const audioSystem = createAudioSystem({ ambienceVolume: 0.5 });
  * audioSystem.init();
  * audioSystem.toggleMute(false);
  * audioSystem.triggerHorn();
+ * audioSystem.updateSettings({ reducedAudio: true });
  * ```
  */
 export class AudioSystem {
   ctx: AudioContext | null = null;
   masterGain: GainNode | null = null;
+
+  muted = true;
+
+  // Buses: engine / ambience / effects → mix bus → muffle lowpass → master, ui → master
+  buses: Partial<Record<AudioBusId, GainNode>> = {};
+  mixBus: GainNode | null = null;
+  muffleFilter: BiquadFilterNode | null = null;
+  mixState: AudioMixState | null = null;
+
+  // Settings (bus volumes, reduced audio, output mode), saved for the next visit
+  settings: AudioSettings;
+  private settingsListeners = new Set<AudioSettingsListener>();
+
+  // Lifecycle: shared by retain() / release(), events for the HUD and loading screen
+  private users = 0;
+  private disposeTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+  private statusListeners = new Set<AudioStatusListener>();
+  private bufferListeners = new Set<AudioBufferListener>();
+  private errorListeners = new Set<AudioErrorListener>();
+
+  // Spatial Layer: emitter input → panner (spatial mode only) → bus
+  emitters: Partial<Record<AudioEmitterId, AudioEmitter>> = {};
+  pannerOptions: AudioPannerOptions = { refDistance: 8, rolloffFactor: 1, maxDistance: 120 };
   
-  // Engine Components
-  engineRefs: EngineRefs = {};
-  engineRumbleGain: GainNode | null = null;
+  // Engine source: recorded loops or procedural synthesis (see setEngineMode)
+  engineMode: AudioEngineMode = 'sample';
+  engineRunning = false;
+  proceduralEngine: ProceduralEngine | null = null;
+  private engineCrankUntil = 0;
 
   // Ambience Components
   windRefs: WindRefs = {};
@@ -46,9 +167,26 @@ export class AudioSystem {
   engineRunBuffer: AudioBuffer | null = null;
   engineRunSource: AudioBufferSourceNode | null = null;
   engineRunGain: GainNode | null = null;
+  engineRunFilter: BiquadFilterNode | null = null;
+  engineMixGain: GainNode | null = null;
+  private engineSamplesRequested = false;
 
   initialized = false;
 
+  /**
+   * @param config - Default settings; choices saved by the listener take precedence
+   */
+  constructor(config: AudioSystemConfig = {}) {
+    this.settings = { ...DEFAULT_AUDIO_SETTINGS, ...config, ...loadSettings() };
+  }
+
+  /**
+   * Current speaker output (see updateSettings)
+   */
+  get outputMode(): AudioOutputMode {
+    return this.settings.outputMode;
+  }
+
   /**
    * Initialize the audio system
    * Creates AudioContext and sets up all audio nodes
@@ -59,19 +197,128 @@ export class AudioSystem {
     // Create Context
     const AC = window.AudioContext || (window as any).webkitAudioContext;
     this.ctx = new AC();
+    this.ctx.addEventListener('statechange', this.emitStatus);
+    this.disposed = false;
     
     // Master Gain (Volume Control)
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = 0; // Start muted
     this.masterGain.connect(this.ctx.destination);
 
+    this.setupMix();
+    this.setupAmbience();
     this.setupScanner();
     this.setupHorn();
     this.loadAirBrake();
-    this.loadEngineStart();
-    this.loadEngineRun();
+    if (this.engineMode === 'sample') {
+      this.loadEngineSamples();
+    }
+    this.applySettings();
+    
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    INTERACTION_EVENTS.forEach((type) => document.addEventListener(type, this.handleInteraction, true));
     
     this.initialized = true;
+    this.emitStatus();
+  }
+
+  /**
+   * Start using the shared audio system, creating its context if needed
+   * Pair every call with release(). The context closes shortly after the
+   * last release, so an immediate remount (React StrictMode) keeps it.
+   */
+  retain(): void {
+    if (this.disposeTimer !== null) {
+      clearTimeout(this.disposeTimer);
+      this.disposeTimer = null;
+    }
+    this.users++;
+
+    if (this.ctx?.state === 'closed') {
+      this.initialized = false;
+    }
+    this.init();
+  }
+
+  /**
+   * Stop using the shared audio system (see retain)
+   */
+  release(): void {
+    this.users = Math.max(0, this.users - 1);
+    if (this.users > 0 || this.disposeTimer !== null) return;
+
+    this.disposeTimer = setTimeout(() => {
+      this.disposeTimer = null;
+      if (this.users === 0) this.dispose();
+    }, DISPOSE_DELAY);
+  }
+
+  /**
+   * Context state and mute
+   */
+  getStatus(): AudioStatus {
+    let state: AudioLifecycleState = this.disposed ? 'closed' : 'uninitialized';
+    if (this.ctx) {
+      // Browser-specific states (Safari's 'interrupted') count as suspended
+      state = this.ctx.state === 'running' || this.ctx.state === 'closed' ? this.ctx.state : 'suspended';
+    }
+    return { state, muted: this.muted };
+  }
+
+  /**
+   * Listen for context state and mute changes
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: AudioStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for decoded sound files
+   * @returns Unsubscribe function
+   */
+  onBufferLoaded(listener: AudioBufferListener): () => void {
+    this.bufferListeners.add(listener);
+    return () => {
+      this.bufferListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for sound files that failed to load and contexts that failed to resume
+   * @returns Unsubscribe function
+   */
+  onError(listener: AudioErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => {
+      this.errorListeners.delete(listener);
+    };
+  }
+
+  /**
+   * @private
+   */
+  private emitStatus = (): void => {
+    const status = this.getStatus();
+    this.statusListeners.forEach((listener) => listener(status));
+  };
+
+  /**
+   * @private
+   */
+  private emitError(source: AudioBufferId | 'context', error: unknown): void {
+    this.errorListeners.forEach((listener) => listener({ source, error }));
+  }
+
+  /**
+   * Resume the context, reporting a refused resume as an error
+   * @private
+   */
+  private resume(): void {
+    this.ctx?.resume().catch((error) => this.emitError('context', error));
   }
 
   /**
@@ -88,16 +335,98 @@ export class AudioSystem {
     if (!this.initialized) this.init();
     
     if (this.ctx?.state === 'suspended') {
-      this.ctx.resume();
+      this.resume();
     }
     
-    if (this.masterGain && this.ctx) {
-      const now = this.ctx.currentTime;
-      const targetGain = isMuted ? 0 : 0.25;
-      this.masterGain.gain.setTargetAtTime(targetGain, now, 0.3);
-    }
+    this.muted = isMuted;
+    this.applyMasterLevel(0.3);
+    this.emitStatus();
+  }
+
+  /**
+   * Current settings
+   */
+  getSettings(): AudioSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change settings, apply them and save them for the next visit
+   * @param changes - Settings to change
+   */
+  updateSettings(changes: Partial<AudioSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    saveSettings(this.settings);
+    this.applySettings();
+
+    const settings = this.getSettings();
+    this.settingsListeners.forEach((listener) => listener(settings));
+  }
+
+  /**
+   * Listen for settings changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: AudioSettingsListener): () => void {
+    this.settingsListeners.add(listener);
+    return () => {
+      this.settingsListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Apply bus volumes, master volume and output routing
+   * @private
+   */
+  private applySettings(): void {
+    if (!this.ctx) return;
+
+    const now = this.ctx.currentTime;
+    AUDIO_BUSES.forEach((id) => {
+      this.buses[id]?.gain.setTargetAtTime(this.settings[BUS_VOLUMES[id]] as number, now, 0.1);
+    });
+    this.applyMasterLevel(0.1);
+    this.routeOutput();
   }
 
+  /**
+   * Fade the master gain to the muted or master volume level
+   * @private
+   */
+  private applyMasterLevel(timeConstant: number): void {
+    if (!this.masterGain || !this.ctx) return;
+
+    const targetGain = this.muted ? 0 : MASTER_LEVEL * this.settings.masterVolume;
+    this.masterGain.gain.setTargetAtTime(targetGain, this.ctx.currentTime, timeConstant);
+  }
+
+  /**
+   * Suspend while the tab is hidden, resume on return unless muted
+   * Resuming here is allowed because the page already had a user gesture (toggleMute)
+   * @private
+   */
+  private handleVisibilityChange = (): void => {
+    if (!this.ctx) return;
+
+    if (document.hidden) {
+      if (this.ctx.state === 'running') this.ctx.suspend();
+    } else if (!this.muted && this.ctx.state === 'suspended') {
+      this.resume();
+    }
+  };
+
+  /**
+   * Resume on the next gesture when the browser refused to resume without one
+   * (autoplay policy, or a tab returning from the background on iOS)
+   * @private
+   */
+  private handleInteraction = (): void => {
+    if (!this.ctx || this.muted || document.hidden) return;
+    if (this.ctx.state !== 'running' && this.ctx.state !== 'closed') {
+      this.resume();
+    }
+  };
+
   /**
    * Create noise buffer for audio synthesis
    * @param type - Type of noise ('pink' or 'brown')
@@ -138,68 +467,173 @@ export class AudioSystem {
   }
 
   /**
-   * Setup engine audio (rumble + piston firing)
+   * Setup buses, mix bus, muffle lowpass and the engine loop's filter and level
+   * Engine run: engineRunGain (start envelope) → engineRunFilter → engineMixGain → engine emitter
    * @private
    */
-  private setupEngine(): void {
+  private setupMix(): void {
     if (!this.ctx || !this.masterGain) return;
-    
-    // 1. DEEP RUMBLE (Brown Noise)
-    // Simulates the physical vibration of heavy diesel chassis
-    const brownNoise = this.createNoiseBuffer('brown');
-    if (brownNoise) {
-      const src = this.ctx.createBufferSource();
-      src.buffer = brownNoise;
-      src.loop = true;
-      
-      const filter = this.ctx.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.frequency.value = 100; // Very low sub-bass
 
-      const gain = this.ctx.createGain();
-      gain.gain.value = 0; // Start at 0, will be set by engine start
+    const muffle = this.ctx.createBiquadFilter();
+    muffle.type = 'lowpass';
+    muffle.frequency.value = 20000; // Unfiltered until a scene muffles it
+    muffle.Q.value = 0.7;
+    muffle.connect(this.masterGain);
 
-      src.connect(filter);
-      filter.connect(gain);
-      gain.connect(this.masterGain);
-      src.start();
-      
-      this.engineRefs.rumbleFilter = filter;
-      this.engineRumbleGain = gain;
-    }
+    const bus = this.ctx.createGain();
+    bus.gain.value = 1;
+    bus.connect(muffle);
+    this.mixBus = bus;
+    this.muffleFilter = muffle;
 
-    // 2. PISTON CHUG (Sawtooth + AM Synthesis)
-    // Simulates rhythmic firing of cylinders
-    const pistonOsc = this.ctx.createOscillator();
-    pistonOsc.type = 'sawtooth';
-    pistonOsc.frequency.value = 60; // Base Engine Tone
+    AUDIO_BUSES.forEach((id) => {
+      const gain = this.ctx!.createGain();
+      gain.gain.value = this.settings[BUS_VOLUMES[id]] as number;
+      gain.connect(id === 'ui' ? this.masterGain! : bus);
+      this.buses[id] = gain;
+    });
 
-    const pistonGain = this.ctx.createGain();
-    pistonGain.gain.value = 0; // Controlled by LFO
+    this.setupSpatial();
 
-    const pistonLFO = this.ctx.createOscillator();
-    pistonLFO.type = 'sine';
-    pistonLFO.frequency.value = 12; // Firing rate (approx 12Hz)
+    const engineFilter = this.ctx.createBiquadFilter();
+    engineFilter.type = 'lowpass';
+    engineFilter.frequency.value = 5000;
 
-    // Connect LFO to Gain (AM Synthesis for piston chug effect)
-    const lfoScaler = this.ctx.createGain();
-    lfoScaler.gain.value = 0.15; // Modulation depth
-    pistonLFO.connect(lfoScaler);
-    lfoScaler.connect(pistonGain.gain);
-    
-    const pistonFilter = this.ctx.createBiquadFilter();
-    pistonFilter.type = 'lowpass';
-    pistonFilter.frequency.value = 400;
+    const engineMix = this.ctx.createGain();
+    engineMix.gain.value = 1;
+
+    // Start envelope, shared by the recorded loop and the procedural engine
+    const engineRun = this.ctx.createGain();
+    engineRun.gain.value = 0;
+
+    engineRun.connect(engineFilter);
+    engineFilter.connect(engineMix);
+    engineMix.connect(this.emitterInput('engine'));
+
+    this.engineRunGain = engineRun;
+    this.engineRunFilter = engineFilter;
+    this.engineMixGain = engineMix;
+  }
+
+  /**
+   * Setup one panner per emitter and route for the current output mode
+   * @private
+   */
+  private setupSpatial(): void {
+    if (!this.ctx) return;
+
+    AUDIO_EMITTERS.forEach((id) => {
+      const input = this.ctx!.createGain();
+      const panner = this.ctx!.createPanner();
+      panner.panningModel = 'HRTF';
+      panner.distanceModel = 'inverse';
+
+      this.emitters[id] = { input, panner, output: this.buses[EMITTER_BUSES[id]]! };
+    });
+
+    this.applyPannerOptions();
+    this.routeOutput();
+  }
+
+  /**
+   * Input node of an emitter
+   * @private
+   */
+  private emitterInput(id: AudioEmitterId): AudioNode {
+    return this.emitters[id]!.input;
+  }
+
+  /**
+   * Connect emitters through their panners (spatial) or straight to their
+   * output (stereo / mono), and sum the master to one channel in mono
+   * @private
+   */
+  private routeOutput(): void {
+    if (!this.masterGain) return;
+
+    const spatial = this.outputMode === 'spatial';
+    Object.values(this.emitters).forEach(({ input, panner, output }) => {
+      input.disconnect();
+      panner.disconnect();
+      if (spatial) {
+        input.connect(panner);
+        panner.connect(output);
+      } else {
+        input.connect(output);
+      }
+    });
+
+    // 'speakers' down-mixes stereo to (L + R) / 2; the destination plays it on both sides
+    this.masterGain.channelCountMode = 'explicit';
+    this.masterGain.channelInterpretation = 'speakers';
+    this.masterGain.channelCount = this.outputMode === 'mono' ? 1 : 2;
+  }
 
-    pistonOsc.connect(pistonFilter);
-    pistonFilter.connect(pistonGain);
-    pistonGain.connect(this.masterGain);
+  /**
+   * @private
+   */
+  private applyPannerOptions(): void {
+    Object.values(this.emitters).forEach(({ panner }) => {
+      panner.refDistance = this.pannerOptions.refDistance;
+      panner.rolloffFactor = this.pannerOptions.rolloffFactor;
+      panner.maxDistance = this.pannerOptions.maxDistance;
+    });
+  }
+
+  /**
+   * Set the distance model of every emitter (see src/config/audioSpatial.json)
+   * @param options - Reference distance, rolloff and maximum distance in scene units
+   */
+  configurePanners(options: AudioPannerOptions): void {
+    this.pannerOptions = { ...options };
+    this.applyPannerOptions();
+  }
 
-    pistonOsc.start();
-    pistonLFO.start();
+  /**
+   * Move the listener (call every frame with the camera pose)
+   * @param position - Camera world position
+   * @param forward - Camera viewing direction
+   * @param up - Camera up direction
+   */
+  setListener(position: Vector3Like, forward: Vector3Like, up: Vector3Like): void {
+    if (!this.ctx || this.outputMode !== 'spatial') return;
 
-    this.engineRefs.pistonOsc = pistonOsc;
-    this.engineRefs.pistonLFO = pistonLFO;
+    const listener = this.ctx.listener;
+    const now = this.ctx.currentTime;
+    if (listener.positionX) {
+      listener.positionX.setTargetAtTime(position.x, now, 0.05);
+      listener.positionY.setTargetAtTime(position.y, now, 0.05);
+      listener.positionZ.setTargetAtTime(position.z, now, 0.05);
+      listener.forwardX.setTargetAtTime(forward.x, now, 0.05);
+      listener.forwardY.setTargetAtTime(forward.y, now, 0.05);
+      listener.forwardZ.setTargetAtTime(forward.z, now, 0.05);
+      listener.upX.setTargetAtTime(up.x, now, 0.05);
+      listener.upY.setTargetAtTime(up.y, now, 0.05);
+      listener.upZ.setTargetAtTime(up.z, now, 0.05);
+    } else {
+      // Firefox: AudioParams not available on the listener
+      listener.setPosition(position.x, position.y, position.z);
+      listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+    }
+  }
+
+  /**
+   * Move an emitter (call every frame with its scene anchor)
+   * @param id - Emitter
+   * @param position - World position
+   */
+  setEmitterPosition(id: AudioEmitterId, position: Vector3Like): void {
+    const panner = this.emitters[id]?.panner;
+    if (!this.ctx || !panner || this.outputMode !== 'spatial') return;
+
+    const now = this.ctx.currentTime;
+    if (panner.positionX) {
+      panner.positionX.setTargetAtTime(position.x, now, 0.05);
+      panner.positionY.setTargetAtTime(position.y, now, 0.05);
+      panner.positionZ.setTargetAtTime(position.z, now, 0.05);
+    } else {
+      panner.setPosition(position.x, position.y, position.z);
+    }
   }
 
   /**
@@ -207,7 +641,7 @@ export class AudioSystem {
    * @private
    */
   private setupAmbience(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.buses.ambience) return;
     
     const pinkNoise = this.createNoiseBuffer('pink');
     if (!pinkNoise) return;
@@ -226,7 +660,7 @@ export class AudioSystem {
 
     roadSrc.connect(roadFilter);
     roadFilter.connect(roadGain);
-    roadGain.connect(this.masterGain);
+    roadGain.connect(this.buses.ambience);
     roadSrc.start();
     
     this.windRefs.roadGain = roadGain;
@@ -246,7 +680,7 @@ export class AudioSystem {
 
     windSrc.connect(windFilter);
     windFilter.connect(windGain);
-    windGain.connect(this.masterGain);
+    windGain.connect(this.buses.ambience);
     windSrc.start();
 
     this.windRefs.windGain = windGain;
@@ -257,7 +691,7 @@ export class AudioSystem {
    * @private
    */
   private setupScanner(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.emitters.scanner) return;
     
     const bufferSize = this.ctx.sampleRate * 0.5;
     const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
@@ -280,7 +714,7 @@ export class AudioSystem {
 
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.emitterInput('scanner'));
     noise.start();
     
     this.scannerNode = noise;
@@ -292,7 +726,7 @@ export class AudioSystem {
    * @private
    */
   private setupHorn(): void {
-    if (!this.ctx || !this.masterGain) return;
+    if (!this.ctx || !this.emitters.horn) return;
     
     // Dual-tone truck horn (realistic frequencies)
     const osc1 = this.ctx.createOscillator();
@@ -308,7 +742,7 @@ export class AudioSystem {
 
     osc1.connect(gain);
     osc2.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.emitterInput('horn'));
     
     osc1.start();
     osc2.start();
@@ -319,39 +753,80 @@ export class AudioSystem {
   }
 
   /**
-   * Load air brake sound from MP3 file
+   * Download and decode a sound file
+   * Bytes are reported to the intro screen's loading manager, and the result
+   * to onBufferLoaded or onError listeners
+   * @returns Decoded audio, or null if the download or decoding failed
    * @private
    */
-  private async loadAirBrake(): Promise<void> {
-    if (!this.ctx || !this.masterGain) return;
+  private async loadBuffer(id: AudioBufferId, url: string): Promise<AudioBuffer | null> {
+    const ctx = this.ctx;
+    if (!ctx) return null;
+
+    const tracker = loadingManager.track(`audio:${url}`, {
+      kind: 'audio',
+      name: url.split('/').pop() ?? url
+    });
     
     try {
-      const response = await fetch('/audio/Truck-Recycling-Air_Brake-Foot_Pedal.mp3');
-      if (!response.ok) return;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} for ${url}`);
+      }
       
-      const arrayBuffer = await response.arrayBuffer();
-      this.airBrakeBuffer = await this.ctx.decodeAudioData(arrayBuffer);
+      const total = Number(response.headers.get('Content-Length')) || 0;
+      let data: ArrayBuffer;
+      if (!response.body) {
+        data = await response.arrayBuffer();
+      } else {
+        // Stream the body so progress arrives while downloading
+        const reader = response.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let loaded = 0;
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(value);
+          loaded += value.byteLength;
+          tracker.progress(loaded, total);
+        }
+        
+        const bytes = new Uint8Array(loaded);
+        let offset = 0;
+        chunks.forEach((chunk) => {
+          bytes.set(chunk, offset);
+          offset += chunk.byteLength;
+        });
+        data = bytes.buffer;
+      }
+      
+      const buffer = await ctx.decodeAudioData(data);
+      tracker.done();
+      this.bufferListeners.forEach((listener) => listener({ id, duration: buffer.duration }));
+      return buffer;
     } catch (error) {
-      // Silent fail
+      tracker.fail(error);
+      this.emitError(id, error);
+      return null;
     }
   }
 
+  /**
+   * Load air brake sound from MP3 file
+   * @private
+   */
+  private async loadAirBrake(): Promise<void> {
+    if (this.airBrakeBuffer) return;
+    this.airBrakeBuffer = await this.loadBuffer('airBrake', '/audio/Truck-Recycling-Air_Brake-Foot_Pedal.mp3');
+  }
+
   /**
    * Load engine start sound from MP3 file
    * @private
    */
   private async loadEngineStart(): Promise<void> {
-    if (!this.ctx || !this.masterGain) return;
-    
-    try {
-      const response = await fetch('/audio/Truck-Engine-Start.mp3');
-      if (!response.ok) return;
-      
-      const arrayBuffer = await response.arrayBuffer();
-      this.engineStartBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-    } catch (error) {
-      // Silent fail
-    }
+    if (this.engineStartBuffer) return;
+    this.engineStartBuffer = await this.loadBuffer('engineStart', '/audio/Truck-Engine-Start.mp3');
   }
 
   /**
@@ -359,22 +834,125 @@ export class AudioSystem {
    * @private
    */
   private async loadEngineRun(): Promise<void> {
-    if (!this.ctx || !this.masterGain) return;
-    
-    try {
-      const response = await fetch('/audio/Truck-Engine-Run2.mp3');
-      if (!response.ok) return;
-      
-      const arrayBuffer = await response.arrayBuffer();
-      this.engineRunBuffer = await this.ctx.decodeAudioData(arrayBuffer);
-      
-      // Create gain node for engine run
-      this.engineRunGain = this.ctx.createGain();
-      this.engineRunGain.gain.value = 0;
-      this.engineRunGain.connect(this.masterGain);
-    } catch (error) {
-      // Silent fail
+    if (this.engineRunBuffer) return;
+    this.engineRunBuffer = await this.loadBuffer('engineRun', '/audio/Truck-Engine-Run2.mp3');
+
+    // Switched to recordings while the procedural engine was running
+    if (this.engineRunBuffer && this.engineRunning && this.engineMode === 'sample' && this.proceduralEngine) {
+      this.swapEngineSource();
+    }
+  }
+
+  /**
+   * Download the engine start and run recordings once
+   * @private
+   */
+  private loadEngineSamples(): void {
+    if (this.engineSamplesRequested) return;
+    this.engineSamplesRequested = true;
+    this.loadEngineStart();
+    this.loadEngineRun();
+  }
+
+  /**
+   * Choose the engine sound source
+   * Procedural mode needs no downloads; switching while the engine runs
+   * swaps sources behind a short dip in the engine level. Recordings are
+   * downloaded on the first switch to sample mode and used once decoded.
+   *
+   * @param mode - 'sample' (recorded loops) or 'procedural' (synthesized)
+   */
+  setEngineMode(mode: AudioEngineMode): void {
+    if (mode === this.engineMode) return;
+    this.engineMode = mode;
+
+    if (!this.ctx) return;
+    if (mode === 'sample') {
+      this.loadEngineSamples();
+    }
+    if (this.engineRunning && (mode === 'procedural' || this.engineRunBuffer)) {
+      this.swapEngineSource();
+    }
+  }
+
+  /**
+   * Crossfade the running engine to the current engine mode
+   * @private
+   */
+  private swapEngineSource(): void {
+    if (!this.ctx || !this.engineRunGain) return;
+
+    const now = this.ctx.currentTime;
+    const swapAt = now + 0.15;
+    const gain = this.engineRunGain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setTargetAtTime(0, now, 0.04);
+    gain.setTargetAtTime(ENGINE_RUN_LEVEL, swapAt, 0.1);
+
+    if (this.engineMode === 'procedural') {
+      this.engineRunSource?.stop(swapAt);
+      this.engineRunSource = null;
+      this.startProceduralEngine(swapAt);
+    } else {
+      this.stopProceduralEngine(swapAt);
+      this.startEngineLoop(swapAt);
     }
+    this.engineCrankUntil = 0;
+  }
+
+  /**
+   * Start the recorded idle loop into the engine run gain
+   * @private
+   */
+  private startEngineLoop(when: number): void {
+    if (!this.ctx || !this.engineRunBuffer || !this.engineRunGain) return;
+
+    this.engineRunSource = this.ctx.createBufferSource();
+    this.engineRunSource.buffer = this.engineRunBuffer;
+    this.engineRunSource.loop = true;
+    this.engineRunSource.playbackRate.value = this.mixState?.engineRate ?? 1;
+    this.engineRunSource.connect(this.engineRunGain);
+    this.engineRunSource.start(when);
+  }
+
+  /**
+   * Start the procedural engine into the engine run gain, at the mix RPM
+   * @private
+   */
+  private startProceduralEngine(when: number): ProceduralEngine | null {
+    if (!this.ctx || !this.engineRunGain) return null;
+
+    this.stopProceduralEngine(when);
+    const engine = createProceduralEngine(this.ctx);
+    engine.connect(this.engineRunGain);
+    if (this.mixState) {
+      this.applyProceduralMix(engine, this.mixState, when, 0);
+    }
+    engine.start(when);
+    this.proceduralEngine = engine;
+    return engine;
+  }
+
+  /**
+   * @private
+   */
+  private stopProceduralEngine(when: number): void {
+    const engine = this.proceduralEngine;
+    if (!engine) return;
+
+    engine.stop(when);
+    this.proceduralEngine = null;
+  }
+
+  /**
+   * Map the mix speed to engine RPM and load
+   * Load follows speed so the turbo spools up with the truck
+   * @private
+   */
+  private applyProceduralMix(engine: ProceduralEngine, state: AudioMixState, when: number, timeConstant: number): void {
+    const idle = engine.getIdleRpm();
+    engine.setRpm(idle + (engine.getMaxRpm() * 0.75 - idle) * state.engineLoad, when, timeConstant);
+    engine.setLoad(0.15 + state.engineLoad * 0.85, when, timeConstant);
   }
 
   /**
@@ -386,9 +964,15 @@ export class AudioSystem {
    * - 2.0s: Idle engine starts at 10% and fades up to 40%
    * - 2.0s: Engine start MP3 starts fading out
    * - 4.5s: Engine start MP3 ends, idle engine continues at 40%
+   * Procedural mode (or recordings that failed to load) cranks the
+   * synthesized engine instead (see triggerProceduralStart)
    */
   triggerEngineStart(): void {
-    if (!this.ctx || !this.engineStartBuffer) return;
+    if (!this.ctx || this.engineRunning) return;
+    if (this.engineMode === 'procedural' || !this.engineStartBuffer || !this.engineRunBuffer) {
+      this.triggerProceduralStart();
+      return;
+    }
     if (this.engineStartPlaying) return;
     
     const now = this.ctx.currentTime;
@@ -397,15 +981,10 @@ export class AudioSystem {
     const crossfadeDuration = duration - idleStartTime; // ~2.5s crossfade
     
     this.engineStartPlaying = true;
+    this.engineRunning = true;
     
     // Start engine run MP3 loop at 2 seconds
-    if (this.engineRunBuffer && this.engineRunGain) {
-      // Create looping source for engine run
-      this.engineRunSource = this.ctx.createBufferSource();
-      this.engineRunSource.buffer = this.engineRunBuffer;
-      this.engineRunSource.loop = true;
-      this.engineRunSource.connect(this.engineRunGain);
-      
+    if (this.engineRunGain) {
       // Keep at 0 until 2 seconds
       this.engineRunGain.gain.cancelScheduledValues(now);
       this.engineRunGain.gain.setValueAtTime(0, now);
@@ -413,10 +992,10 @@ export class AudioSystem {
       // At 2 seconds, fade in quickly - Reduced by 50%
       this.engineRunGain.gain.linearRampToValueAtTime(0.15, now + idleStartTime + 0.3);
       // Then fade up to full volume by the end - Reduced by 50%
-      this.engineRunGain.gain.linearRampToValueAtTime(0.25, now + duration);
+      this.engineRunGain.gain.linearRampToValueAtTime(ENGINE_RUN_LEVEL, now + duration);
       
       // Start playing immediately (but silent until 2s)
-      this.engineRunSource.start(now);
+      this.startEngineLoop(now);
     }
     
     // Create buffer source for engine start MP3
@@ -435,7 +1014,7 @@ export class AudioSystem {
     
     // Connect and play
     source.connect(gain);
-    gain.connect(this.masterGain!);
+    gain.connect(this.emitterInput('engine'));
     source.start(now);
     source.stop(now + duration);
     
@@ -445,12 +1024,41 @@ export class AudioSystem {
     };
   }
 
+  /**
+   * Crank the procedural engine: starter, catch, flare, settle to idle
+   * The mix takes over the RPM once the engine has settled (PROCEDURAL_CRANK_TIME)
+   * @private
+   */
+  private triggerProceduralStart(): void {
+    if (!this.ctx || !this.engineRunGain) return;
+
+    const now = this.ctx.currentTime;
+    const engine = this.startProceduralEngine(now);
+    if (!engine) return;
+
+    this.engineRunning = true;
+    this.engineCrankUntil = now + PROCEDURAL_CRANK_TIME;
+
+    // Starter motor turns it over, the engine catches and flares, then settles
+    engine.setRpm(180, now, 0);
+    engine.setLoad(0.5, now, 0);
+    engine.setRpm(1100, now + 0.8, 0.12);
+    engine.setRpm(engine.getIdleRpm(), now + 1.5, 0.35);
+    engine.setLoad(0.15, now + 1.5, 0.35);
+
+    const gain = this.engineRunGain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(0, now);
+    gain.linearRampToValueAtTime(0.15, now + 0.3);
+    gain.linearRampToValueAtTime(ENGINE_RUN_LEVEL, now + PROCEDURAL_CRANK_TIME);
+  }
+
   /**
    * Trigger air brake sound (realistic MP3 sample)
    * Duration: Uses actual file duration
    */
   triggerAirBrake(): void {
-    if (!this.ctx || !this.airBrakeBuffer) return;
+    if (!this.ctx || !this.airBrakeBuffer || this.settings.reducedAudio) return;
     
     const now = this.ctx.currentTime;
     const duration = this.airBrakeBuffer.duration;
@@ -470,7 +1078,7 @@ export class AudioSystem {
     
     // Connect and play
     source.connect(gain);
-    gain.connect(this.masterGain!);
+    gain.connect(this.emitterInput('airBrake'));
     source.start(now);
     source.stop(now + duration);
   }
@@ -483,7 +1091,7 @@ export class AudioSystem {
    * - Horn short blast: 1.2-1.8s
    */
   triggerHornOnly(): void {
-    if (!this.ctx || !this.hornGain) return;
+    if (!this.ctx || !this.hornGain || this.settings.reducedAudio) return;
     const now = this.ctx.currentTime;
     
     // Horn starts immediately
@@ -510,7 +1118,7 @@ export class AudioSystem {
    * - Horn short blast: 1.5-2.1s
    */
   triggerHorn(): void {
-    if (!this.ctx || !this.hornGain) return;
+    if (!this.ctx || !this.hornGain || this.settings.reducedAudio) return;
     const now = this.ctx.currentTime;
     
     // Trigger air brake first (0.0-0.7s)
@@ -532,38 +1140,66 @@ export class AudioSystem {
   }
 
   /**
-   * Trigger UI chirp sound (for phase transitions)
+   * Trigger UI chirp sound (for phase transitions and scenario alerts)
+   * @param pattern - 'chirp' for a single chirp, 'alarm' for a repeating two-tone alarm (theft alerts)
    */
-  triggerChirp(): void {
+  triggerChirp(pattern: 'chirp' | 'alarm' = 'chirp'): void {
     if (!this.ctx || !this.masterGain || this.masterGain.gain.value < 0.01) return;
-    const t = this.ctx.currentTime;
+    const now = this.ctx.currentTime;
+
+    if (pattern === 'chirp') {
+      this.playChirpTone(now, 2000, 1000, 0.1, 0.05);
+      return;
+    }
+
+    // Alarm: 3 pairs of high/low pulses
+    for (let i = 0; i < 3; i++) {
+      const t = now + i * 0.5;
+      this.playChirpTone(t, 1800, 1600, 0.2, 0.08);
+      this.playChirpTone(t + 0.25, 1200, 1000, 0.2, 0.08);
+    }
+  }
+
+  /**
+   * Play a single falling sine tone
+   * @private
+   */
+  private playChirpTone(t: number, fromFreq: number, toFreq: number, duration: number, volume: number): void {
+    if (!this.ctx || !this.masterGain) return;
 
     const osc = this.ctx.createOscillator();
     osc.type = 'sine';
-    osc.frequency.setValueAtTime(2000, t);
-    osc.frequency.exponentialRampToValueAtTime(1000, t + 0.1);
+    osc.frequency.setValueAtTime(fromFreq, t);
+    osc.frequency.exponentialRampToValueAtTime(toFreq, t + duration);
 
     const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.05, t);
-    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
+    gain.gain.setValueAtTime(volume, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
 
     osc.connect(gain);
-    gain.connect(this.masterGain);
+    gain.connect(this.emitterInput('chirp'));
     osc.start(t);
-    osc.stop(t + 0.2);
+    osc.stop(t + duration + 0.1);
   }
 
   /**
-   * Reduce engine volume to background level (15%)
-   * Called after 6% scroll to make engine less prominent
+   * Apply mix levels for the current frame (see AudioMixController)
+   * Targets are smoothed so scrubbing the scroll never clicks
+   * @param state - Engine level, RPM (playback rate), filters and ambience
    */
-  reduceEngineVolume(): void {
-    if (!this.ctx || !this.engineRunGain) return;
+  applyMix(state: AudioMixState): void {
+    if (!this.ctx || this.ctx.state === 'suspended') return;
     
     const now = this.ctx.currentTime;
-    this.engineRunGain.gain.cancelScheduledValues(now);
-    this.engineRunGain.gain.setValueAtTime(this.engineRunGain.gain.value, now);
-    this.engineRunGain.gain.linearRampToValueAtTime(0.15, now + 1.0);
+    this.mixState = { ...state };
+    
+    this.engineMixGain?.gain.setTargetAtTime(state.engineLevel, now, 0.15);
+    this.engineRunFilter?.frequency.setTargetAtTime(state.engineFilterHz, now, 0.15);
+    this.engineRunSource?.playbackRate.setTargetAtTime(state.engineRate, now, 0.3);
+    if (this.proceduralEngine && now >= this.engineCrankUntil) {
+      this.applyProceduralMix(this.proceduralEngine, state, now, 0.3);
+    }
+    this.muffleFilter?.frequency.setTargetAtTime(state.muffleHz, now, 0.2);
   }
 
   /**
@@ -574,19 +1210,14 @@ export class AudioSystem {
   update(time: number): void {
     if (!this.ctx || this.ctx.state === 'suspended') return;
     
-    // Modulate Engine Components - REDUCED for smoother sound
-    if (this.engineRefs.pistonLFO) {
-      // Very subtle rev variation
-      this.engineRefs.pistonLFO.frequency.value = 12 + Math.sin(time * 0.3) * 0.5;
-    }
-    if (this.engineRefs.rumbleFilter) {
-      // Minimal rumble variation
-      this.engineRefs.rumbleFilter.frequency.value = 100 + Math.sin(time * 0.15) * 5;
-    }
+    const ambience = this.mixState?.ambience ?? 1;
 
-    // Minimal Wind/Road Noise modulation
+    // Minimal Wind/Road Noise modulation, scaled by the mix ambience level
     if (this.windRefs.windGain) {
-      this.windRefs.windGain.gain.value = 0.10 + Math.sin(time * 0.2) * 0.02;
+      this.windRefs.windGain.gain.value = (0.10 + Math.sin(time * 0.2) * 0.02) * ambience;
+    }
+    if (this.windRefs.roadGain) {
+      this.windRefs.roadGain.gain.value = 0.12 * ambience;
     }
   }
 
@@ -594,12 +1225,13 @@ export class AudioSystem {
    * Update scanner volume (for radio/scanner effects)
    * @param isScanning - Whether scanner is active
    * @param time - Current elapsed time
+   * @param level - Flutter level (0-1, default: 1) for crossfading in and out
    */
-  updateScannerVolume(isScanning: boolean, time: number): void {
+  updateScannerVolume(isScanning: boolean, time: number, level: number = 1): void {
     if (!this.ctx || !this.scannerGain) return;
     
     if (isScanning) {
-      const flutter = 0.06 + Math.sin(time * 60) * 0.02; 
+      const flutter = (0.06 + Math.sin(time * 60) * 0.02) * level;
       this.scannerGain.gain.setTargetAtTime(flutter, this.ctx.currentTime, 0.05);
     } else {
       this.scannerGain.gain.setTargetAtTime(0, this.ctx.currentTime, 0.1);
@@ -608,12 +1240,91 @@ export class AudioSystem {
 
   /**
    * Cleanup and dispose audio resources
+   * Decoded sounds and settings are kept, so init() can start again without downloads
    */
   dispose(): void {
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    INTERACTION_EVENTS.forEach((type) => document.removeEventListener(type, this.handleInteraction, true));
     if (this.ctx) {
+      this.ctx.removeEventListener('statechange', this.emitStatus);
       this.ctx.close();
       this.ctx = null;
     }
+    this.masterGain = null;
+    this.mixBus = null;
+    this.muffleFilter = null;
+    this.engineRunFilter = null;
+    this.engineMixGain = null;
+    this.mixState = null;
+    this.engineRunGain = null;
+    this.engineRunSource = null;
+    this.proceduralEngine = null;
+    this.engineRunning = false;
+    this.engineStartPlaying = false;
+    this.engineSamplesRequested = false;
+    this.emitters = {};
+    this.buses = {};
     this.initialized = false;
+    this.disposed = true;
+    // A new context needs a new gesture before it can play
+    this.muted = true;
+    this.emitStatus();
+  }
+}
+
+/**
+ * Saved settings, keeping only known keys with valid values
+ * @private
+ */
+function loadSettings(): Partial<AudioSettings> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}');
+    const settings: Partial<AudioSettings> = {};
+    (Object.keys(DEFAULT_AUDIO_SETTINGS) as (keyof AudioSettings)[]).forEach((key) => {
+      const value = stored?.[key];
+      const valid = key === 'outputMode'
+        ? AUDIO_OUTPUT_MODES.includes(value)
+        : key === 'reducedAudio'
+          ? typeof value === 'boolean'
+          : typeof value === 'number' && value >= 0 && value <= 1;
+      if (valid) (settings as Record<string, unknown>)[key] = value;
+    });
+    return settings;
+  } catch (e) {
+    return {};
+  }
+}
+
+/**
+ * @private
+ */
+function saveSettings(settings: AudioSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // Private mode - the settings last for this page load only
+  }
+}
+
+/**
+ * Create an audio system
+ *
+ * @param config - Default settings; choices saved by the listener take precedence
+ * @returns AudioSystem without a context (call init() or retain())
+ */
+export function createAudioSystem(config: AudioSystemConfig = {}): AudioSystem {
+  return new AudioSystem(config);
+}
+
+let sharedAudioSystem: AudioSystem | null = null;
+
+/**
+ * The app's shared audio system, created on first use
+ * Components get it through useAudioSystem, which retains and releases it
+ */
+export function getAudioSystem(): AudioSystem {
+  if (!sharedAudioSystem) {
+    sharedAudioSystem = createAudioSystem();
   }
+  return sharedAudioSystem;
 }
@@ -0,0 +1,264 @@
+/**
+ * ProceduralEngine - Synthesized diesel engine
+ *
+ * Needs no downloads and runs on any BaseAudioContext, so the same graph
+ * plays live (AudioSystem) and renders offline (see src/audio/engineCheck.ts):
+ * - Firing pulses at RPM / 60 × cylinders / 2 (four-stroke), brighter under load
+ * - Low chassis rumble (brown noise)
+ * - Turbo whine that spools up with RPM and load, with lag
+ * - Exhaust resonance (peaking filter over the firing and rumble mix)
+ *
+ * @example
+ * ```typescript
+ * const engine = createProceduralEngine(ctx);
+ * engine.connect(engineGain);
+ * engine.start();
+ * engine.setRpm(1400);
+ * engine.setLoad(0.6);
+ * ```
+ */
+
+import type { ProceduralEngineOptions } from './types';
+
+/** Turbo whine pitch at zero and full boost (Hz) */
+const TURBO_MIN_HZ = 1800;
+const TURBO_MAX_HZ = 6000;
+
+/** Turbo spool lag (time constant in seconds) */
+const TURBO_LAG = 0.6;
+
+export class ProceduralEngine {
+  /** Engine output - connect it to a gain or the destination */
+  readonly output: GainNode;
+
+  private ctx: BaseAudioContext;
+  private options: Required<ProceduralEngineOptions>;
+  private firing: OscillatorNode;
+  private combustion: BiquadFilterNode;
+  private firingGain: GainNode;
+  private rumble: AudioBufferSourceNode;
+  private rumbleGain: GainNode;
+  private turbo: OscillatorNode;
+  private turboGain: GainNode;
+  private rpm: number;
+  private load = 0;
+
+  constructor(ctx: BaseAudioContext, options: ProceduralEngineOptions = {}) {
+    this.ctx = ctx;
+    this.options = {
+      cylinders: options.cylinders ?? 6,
+      idleRpm: options.idleRpm ?? 650,
+      maxRpm: options.maxRpm ?? 2400,
+      exhaustResonanceHz: options.exhaustResonanceHz ?? 110,
+      level: options.level ?? 0.3,
+      seed: options.seed ?? 1
+    };
+    this.rpm = this.options.idleRpm;
+
+    // 1. FIRING PULSES (sawtooth at firing frequency, lowpass opens with load)
+    this.firing = ctx.createOscillator();
+    this.firing.type = 'sawtooth';
+    this.combustion = ctx.createBiquadFilter();
+    this.combustion.type = 'lowpass';
+    this.combustion.Q.value = 1;
+    this.firingGain = ctx.createGain();
+    this.firing.connect(this.combustion);
+    this.combustion.connect(this.firingGain);
+
+    // 2. RUMBLE (brown noise, sub-bass only)
+    this.rumble = ctx.createBufferSource();
+    this.rumble.buffer = createBrownNoise(ctx, this.options.seed);
+    this.rumble.loop = true;
+    const rumbleFilter = ctx.createBiquadFilter();
+    rumbleFilter.type = 'lowpass';
+    rumbleFilter.frequency.value = 140;
+    this.rumbleGain = ctx.createGain();
+    this.rumble.connect(rumbleFilter);
+    rumbleFilter.connect(this.rumbleGain);
+
+    // 3. EXHAUST RESONANCE (pipe resonance over firing + rumble)
+    const exhaust = ctx.createBiquadFilter();
+    exhaust.type = 'peaking';
+    exhaust.frequency.value = this.options.exhaustResonanceHz;
+    exhaust.Q.value = 2.5;
+    exhaust.gain.value = 6;
+    this.firingGain.connect(exhaust);
+    this.rumbleGain.connect(exhaust);
+
+    // 4. TURBO WHINE (bypasses the exhaust)
+    this.turbo = ctx.createOscillator();
+    this.turbo.type = 'sine';
+    this.turboGain = ctx.createGain();
+    this.turbo.connect(this.turboGain);
+
+    this.output = ctx.createGain();
+    this.output.gain.value = this.options.level;
+    exhaust.connect(this.output);
+    this.turboGain.connect(this.output);
+
+    this.apply(0, 0);
+  }
+
+  /**
+   * Firing frequency of a four-stroke engine
+   * @param rpm - Crankshaft speed
+   * @param cylinders - Cylinder count (default: 6)
+   * @returns Firing pulses per second (Hz)
+   */
+  static firingFrequency(rpm: number, cylinders: number = 6): number {
+    return (rpm / 60) * (cylinders / 2);
+  }
+
+  /**
+   * Turbo boost (0-1) for an RPM and load
+   */
+  boost(rpm: number, load: number): number {
+    const { idleRpm, maxRpm } = this.options;
+    const revs = Math.min(Math.max((rpm - idleRpm) / (maxRpm - idleRpm), 0), 1);
+    return revs * (0.3 + 0.7 * load);
+  }
+
+  /**
+   * Turbo whine pitch (Hz) for an RPM and load
+   */
+  turboFrequency(rpm: number, load: number): number {
+    return TURBO_MIN_HZ + this.boost(rpm, load) * (TURBO_MAX_HZ - TURBO_MIN_HZ);
+  }
+
+  /**
+   * Change engine speed
+   * @param rpm - Crankshaft speed (clamped to 0 - maxRpm)
+   * @param when - Context time to start the change (default: now)
+   * @param timeConstant - Smoothing in seconds, 0 to jump (default: 0.15)
+   */
+  setRpm(rpm: number, when: number = this.ctx.currentTime, timeConstant: number = 0.15): void {
+    this.rpm = Math.min(Math.max(rpm, 0), this.options.maxRpm);
+    this.apply(when, timeConstant);
+  }
+
+  /**
+   * Change engine load (throttle)
+   * @param load - 0 (coasting) to 1 (full load)
+   * @param when - Context time to start the change (default: now)
+   * @param timeConstant - Smoothing in seconds, 0 to jump (default: 0.15)
+   */
+  setLoad(load: number, when: number = this.ctx.currentTime, timeConstant: number = 0.15): void {
+    this.load = Math.min(Math.max(load, 0), 1);
+    this.apply(when, timeConstant);
+  }
+
+  /**
+   * Idle speed from the options
+   */
+  getIdleRpm(): number {
+    return this.options.idleRpm;
+  }
+
+  /**
+   * Maximum speed from the options
+   */
+  getMaxRpm(): number {
+    return this.options.maxRpm;
+  }
+
+  /**
+   * Connect the engine output
+   */
+  connect(destination: AudioNode): void {
+    this.output.connect(destination);
+  }
+
+  /**
+   * Disconnect the engine output
+   */
+  disconnect(): void {
+    this.output.disconnect();
+  }
+
+  /**
+   * Start all sources
+   * @param when - Context time (default: now)
+   */
+  start(when: number = this.ctx.currentTime): void {
+    this.firing.start(when);
+    this.rumble.start(when);
+    this.turbo.start(when);
+  }
+
+  /**
+   * Stop all sources (the engine cannot be restarted)
+   * @param when - Context time (default: now)
+   */
+  stop(when: number = this.ctx.currentTime): void {
+    this.firing.stop(when);
+    this.rumble.stop(when);
+    this.turbo.stop(when);
+  }
+
+  /**
+   * Set every parameter from the current RPM and load
+   * @private
+   */
+  private apply(when: number, timeConstant: number): void {
+    const { rpm, load } = this;
+    const boost = this.boost(rpm, load);
+    const set = (param: AudioParam, value: number, lag: number = timeConstant) => {
+      if (lag <= 0) {
+        param.setValueAtTime(value, when);
+      } else {
+        param.setTargetAtTime(value, when, lag);
+      }
+    };
+
+    set(this.firing.frequency, Math.max(ProceduralEngine.firingFrequency(rpm, this.options.cylinders), 1));
+    set(this.combustion.frequency, 250 + load * 900);
+    set(this.firingGain.gain, rpm > 0 ? 0.4 + load * 0.4 : 0);
+    set(this.rumbleGain.gain, rpm > 0 ? 0.3 + load * 0.3 : 0);
+    set(this.turbo.frequency, this.turboFrequency(rpm, load), timeConstant > 0 ? TURBO_LAG : 0);
+    set(this.turboGain.gain, boost * 0.05, timeConstant > 0 ? TURBO_LAG : 0);
+  }
+}
+
+/**
+ * Two seconds of brown noise, normalized to ±1
+ * Seeded so offline renders are repeatable
+ * @private
+ */
+function createBrownNoise(ctx: BaseAudioContext, seed: number): AudioBuffer {
+  const length = ctx.sampleRate * 2;
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // Mulberry32 PRNG
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  let lastOut = 0;
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    lastOut = (lastOut + 0.02 * (random() * 2 - 1)) / 1.02;
+    data[i] = lastOut;
+    peak = Math.max(peak, Math.abs(lastOut));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < length; i++) data[i] /= peak;
+  }
+  return buffer;
+}
+
+/**
+ * Create a procedural engine
+ *
+ * @param ctx - Live or offline audio context
+ * @param options - Engine layout and output level
+ * @returns ProceduralEngine at idle, not started
+ */
+export function createProceduralEngine(ctx: BaseAudioContext, options: ProceduralEngineOptions = {}): ProceduralEngine {
+  return new ProceduralEngine(ctx, options);
+}
@@ -0,0 +1,195 @@
+/**
+ * Procedural engine offline checks
+ *
+ * Renders ProceduralEngine into an OfflineAudioContext and checks its levels
+ * and frequency content, so the synthesis can be verified without a browser
+ * or speakers (see tests/unit/engine-audio.spec.ts):
+ * - No clipping at full RPM and load
+ * - Audible at idle
+ * - A spectral peak at the firing frequency, tracking RPM
+ * - Turbo whine that appears under load
+ * - Louder under load than coasting at the same RPM
+ *
+ * In Node, pass an OfflineAudioContext implementation such as node-web-audio-api's.
+ *
+ * @example
+ * ```typescript
+ * import { OfflineAudioContext } from 'node-web-audio-api';
+ *
+ * const results = await checkProceduralEngine(OfflineAudioContext);
+ * results.filter((r) => !r.passed).forEach((r) => console.error(r.name, r.detail));
+ * ```
+ */
+
+import { createProceduralEngine, ProceduralEngine } from './ProceduralEngine';
+import type { ProceduralEngineOptions } from './types';
+
+export type OfflineContextConstructor = new (
+  numberOfChannels: number,
+  length: number,
+  sampleRate: number
+) => OfflineAudioContext;
+
+/**
+ * What to render
+ */
+export interface EngineRenderOptions {
+  rpm: number;
+  /** Engine load (0-1) */
+  load: number;
+  /** Seconds to render (default: 1.5) */
+  duration?: number;
+  /** Default: 44100 */
+  sampleRate?: number;
+  /** OfflineAudioContext implementation (default: the global one) */
+  OfflineContext?: OfflineContextConstructor;
+  /** Engine layout (default: ProceduralEngine defaults) */
+  engine?: ProceduralEngineOptions;
+}
+
+/**
+ * Rendered mono output plus the frequencies expected in it
+ */
+export interface EngineRender {
+  samples: Float32Array;
+  sampleRate: number;
+  firingHz: number;
+  turboHz: number;
+}
+
+export interface EngineCheckResult {
+  name: string;
+  passed: boolean;
+  /** Measured values, for failure messages */
+  detail: string;
+}
+
+/** Seconds skipped before analysis while filters settle */
+const SETTLE_TIME = 0.5;
+
+/**
+ * Render the procedural engine at a fixed RPM and load
+ * @throws Error when no OfflineAudioContext is available
+ */
+export async function renderProceduralEngine(options: EngineRenderOptions): Promise<EngineRender> {
+  const {
+    rpm,
+    load,
+    duration = 1.5,
+    sampleRate = 44100,
+    OfflineContext = (globalThis as { OfflineAudioContext?: OfflineContextConstructor }).OfflineAudioContext
+  } = options;
+  if (!OfflineContext) {
+    throw new Error('OfflineAudioContext is not available; pass OfflineContext (e.g. from node-web-audio-api)');
+  }
+
+  const ctx = new OfflineContext(1, Math.round(duration * sampleRate), sampleRate);
+  const engine = createProceduralEngine(ctx, options.engine);
+  engine.connect(ctx.destination);
+  engine.setRpm(rpm, 0, 0);
+  engine.setLoad(load, 0, 0);
+  engine.start(0);
+
+  const rendered = await ctx.startRendering();
+  return {
+    samples: rendered.getChannelData(0).slice(Math.round(SETTLE_TIME * sampleRate)),
+    sampleRate,
+    firingHz: ProceduralEngine.firingFrequency(rpm, options.engine?.cylinders),
+    turboHz: engine.turboFrequency(rpm, load)
+  };
+}
+
+/**
+ * Peak and RMS level
+ * @returns Peak (linear) and RMS in dBFS
+ */
+export function measureLevel(samples: Float32Array): { peak: number; rmsDb: number } {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    sum += samples[i] * samples[i];
+  }
+  return { peak, rmsDb: toDb(Math.sqrt(sum / Math.max(samples.length, 1))) };
+}
+
+/**
+ * Level of one frequency (Goertzel over a Hann window)
+ * A full-scale sine at that frequency measures 0 dBFS
+ * @returns Amplitude in dBFS
+ */
+export function measureTone(samples: Float32Array, sampleRate: number, hz: number): number {
+  const n = samples.length;
+  const omega = (2 * Math.PI * hz) / sampleRate;
+  const coeff = 2 * Math.cos(omega);
+  let s1 = 0;
+  let s2 = 0;
+  let windowSum = 0;
+  for (let i = 0; i < n; i++) {
+    const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    const s0 = samples[i] * w + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+    windowSum += w;
+  }
+  const re = s1 - s2 * Math.cos(omega);
+  const im = s2 * Math.sin(omega);
+  return toDb((2 * Math.sqrt(re * re + im * im)) / windowSum);
+}
+
+/**
+ * Render the engine at several operating points and check the result
+ * @param OfflineContext - OfflineAudioContext implementation (default: the global one)
+ */
+export async function checkProceduralEngine(OfflineContext?: OfflineContextConstructor): Promise<EngineCheckResult[]> {
+  const render = (rpm: number, load: number) => renderProceduralEngine({ rpm, load, OfflineContext });
+  const results: EngineCheckResult[] = [];
+  const check = (name: string, passed: boolean, detail: string) => results.push({ name, passed, detail });
+
+  const idle = await render(650, 0.15);
+  const coasting = await render(1800, 0);
+  const loaded = await render(1800, 1);
+  const flatOut = await render(2400, 1);
+
+  const flatOutLevel = measureLevel(flatOut.samples);
+  check('no clipping at full RPM and load', flatOutLevel.peak < 0.99, `peak ${flatOutLevel.peak.toFixed(3)}`);
+
+  const idleLevel = measureLevel(idle.samples);
+  check('audible at idle', idleLevel.rmsDb > -40, `RMS ${idleLevel.rmsDb.toFixed(1)} dBFS`);
+
+  // Firing pulses are harmonic, so halfway between harmonics stays quiet
+  [idle, loaded, flatOut].forEach(({ samples, sampleRate, firingHz }) => {
+    const firing = measureTone(samples, sampleRate, firingHz);
+    const between = measureTone(samples, sampleRate, firingHz * 1.5);
+    check(
+      `firing peak at ${firingHz.toFixed(1)} Hz`,
+      firing - between > 10,
+      `${firing.toFixed(1)} dBFS at firing, ${between.toFixed(1)} dBFS at 1.5×`
+    );
+  });
+
+  const turboLoaded = measureTone(loaded.samples, loaded.sampleRate, loaded.turboHz);
+  const turboCoasting = measureTone(coasting.samples, coasting.sampleRate, loaded.turboHz);
+  check(
+    'turbo whine under load',
+    turboLoaded - turboCoasting > 12,
+    `${turboLoaded.toFixed(1)} dBFS loaded, ${turboCoasting.toFixed(1)} dBFS coasting at ${loaded.turboHz.toFixed(0)} Hz`
+  );
+
+  const loadedRms = measureLevel(loaded.samples).rmsDb;
+  const coastingRms = measureLevel(coasting.samples).rmsDb;
+  check(
+    'louder under load',
+    loadedRms - coastingRms > 2,
+    `RMS ${loadedRms.toFixed(1)} dBFS loaded, ${coastingRms.toFixed(1)} dBFS coasting`
+  );
+
+  return results;
+}
+
+/**
+ * @private
+ */
+function toDb(amplitude: number): number {
+  return 20 * Math.log10(Math.max(amplitude, 1e-10));
+}
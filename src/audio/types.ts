@@ -4,10 +4,29 @@
  * Type definitions for the Translink audio engine system
  */
 
-export interface EngineRefs {
-  rumbleFilter?: BiquadFilterNode;
-  pistonOsc?: OscillatorNode;
-  pistonLFO?: OscillatorNode;
+/**
+ * Engine sound source
+ * - sample: recorded start and run loops (MP3 downloads)
+ * - procedural: synthesized diesel engine, no downloads (see src/audio/ProceduralEngine.ts)
+ */
+export type AudioEngineMode = 'sample' | 'procedural';
+
+/**
+ * Procedural engine layout
+ */
+export interface ProceduralEngineOptions {
+  /** Cylinder count (default: 6) */
+  cylinders?: number;
+  /** Idle speed (default: 650 RPM) */
+  idleRpm?: number;
+  /** Governed maximum speed (default: 2400 RPM) */
+  maxRpm?: number;
+  /** Exhaust pipe resonance (default: 110 Hz) */
+  exhaustResonanceHz?: number;
+  /** Output gain (default: 0.3) */
+  level?: number;
+  /** Noise seed, for repeatable offline renders (default: 1) */
+  seed?: number;
 }
 
 export interface WindRefs {
@@ -17,8 +36,201 @@ export interface WindRefs {
 
 export type NoiseType = 'pink' | 'brown';
 
+/**
+ * Mixer buses, each with its own volume
+ * - engine: engine start and run loop
+ * - ambience: road and wind noise
+ * - effects: horn, air brake, scanner
+ * - ui: chirps and alarms
+ */
+export type AudioBusId = 'engine' | 'ambience' | 'effects' | 'ui';
+
+/**
+ * Listener settings (defaults for new AudioSystem instances; saved choices win)
+ */
 export interface AudioSystemConfig {
+  /** Overall volume (0-1, default: 1) */
   masterVolume?: number;
+  /** Engine bus volume (0-1, default: 1) */
   engineVolume?: number;
+  /** Ambience bus volume (0-1, default: 1) */
   ambienceVolume?: number;
+  /** Effects bus volume (0-1, default: 1) */
+  effectsVolume?: number;
+  /** UI bus volume (0-1, default: 1) */
+  uiVolume?: number;
+  /** Skip the horn and air brake (default: false) */
+  reducedAudio?: boolean;
+  /** Speaker output (default: 'spatial') */
+  outputMode?: AudioOutputMode;
+}
+
+export type AudioSettings = Required<AudioSystemConfig>;
+
+export type AudioSettingsListener = (settings: AudioSettings) => void;
+
+/**
+ * Mix targets for one scroll phase (see src/config/audioMix.json)
+ */
+export interface AudioScene {
+  /** Virtual truck speed in KM/H - drives engine RPM, engine filter and road noise */
+  speedKmh: number;
+  /** Engine loop level (0-1, scales the idle level) */
+  engine: number;
+  /** Road and wind noise level (0-1) */
+  ambience: number;
+  /** Scanner flutter level (0-1) */
+  scanner: number;
+  /** Lowpass cutoff over the whole mix in Hz (muffled interior audio) - optional, default unfiltered */
+  muffleHz?: number;
 }
+
+export type AudioCueSound = 'airBrake' | 'horn' | 'hornOnly' | 'chirp';
+
+/**
+ * One-shot sound fired when scrolling forward past a point
+ * Scrolling back re-arms it so it fires again on the next pass
+ */
+export interface AudioCue {
+  /** Unique cue identifier */
+  id: string;
+  /** Sequence-local scroll (0.0-1.0) the cue fires after */
+  at: number;
+  /** Re-arm once scroll is back at or below this value (default: 0.02 before `at`) */
+  rearmAt?: number;
+  /** Sound to play */
+  sound: AudioCueSound;
+  /** Engine level multiplier while the cue is fired - optional */
+  duckEngine?: number;
+}
+
+/**
+ * Engine response to virtual speed
+ */
+export interface AudioEngineCurve {
+  /** Speed at which the engine reaches maxRate and maxFilterHz */
+  maxSpeedKmh: number;
+  /** Engine loop playback rate at standstill */
+  idleRate: number;
+  /** Engine loop playback rate at maxSpeedKmh */
+  maxRate: number;
+  /** Engine lowpass cutoff at standstill */
+  idleFilterHz: number;
+  /** Engine lowpass cutoff at maxSpeedKmh */
+  maxFilterHz: number;
+}
+
+/**
+ * Scroll-synchronized mix (src/config/audioMix.json)
+ */
+export interface AudioMixConfig {
+  version: number;
+  /** Crossfade width around each phase boundary (sequence-local scroll) */
+  crossfade: number;
+  engine: AudioEngineCurve;
+  /** Extra virtual speed while scrolling quickly */
+  scrollBoost: {
+    /** KM/H added per unit of sequence scroll per second */
+    kmhPerScroll: number;
+    /** Upper limit of the boost */
+    maxKmh: number;
+  };
+  /** Scene per timeline phase id, plus `extendedIntro` for the drive-in */
+  scenes: Record<string, AudioScene>;
+  cues: AudioCue[];
+}
+
+/**
+ * Resolved mix levels applied by AudioSystem.applyMix
+ */
+export interface AudioMixState {
+  engineLevel: number;
+  /** Virtual speed as a fraction of the engine curve's maxSpeedKmh (0-1) */
+  engineLoad: number;
+  engineRate: number;
+  engineFilterHz: number;
+  ambience: number;
+  scanner: number;
+  muffleHz: number;
+}
+
+/**
+ * How the mix reaches the speakers
+ * - spatial: sounds are positioned around the camera (HRTF panning)
+ * - stereo: no positioning
+ * - mono: no positioning, both channels summed (single-sided hearing, one earbud)
+ */
+export type AudioOutputMode = 'spatial' | 'stereo' | 'mono';
+
+/** Positioned sound sources */
+export type AudioEmitterId = 'engine' | 'horn' | 'airBrake' | 'scanner' | 'chirp';
+
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Scene anchor of one emitter
+ */
+export interface AudioEmitterConfig {
+  /** Scene object the emitter follows, bound by the app (`truck`, `sensorHead`) */
+  target: string;
+  /** Offset in the target's local space - optional */
+  offset?: [number, number, number];
+}
+
+/**
+ * Spatial audio layout (src/config/audioSpatial.json)
+ */
+export interface AudioSpatialConfig {
+  version: number;
+  /** Distance at which emitters play at full level (scene units) */
+  refDistance: number;
+  /** How quickly emitters fade beyond refDistance */
+  rolloffFactor: number;
+  /** Distance beyond which emitters stop fading */
+  maxDistance: number;
+  emitters: Record<AudioEmitterId, AudioEmitterConfig>;
+}
+
+/**
+ * Distance model shared by all emitter panners
+ */
+export type AudioPannerOptions = Pick<AudioSpatialConfig, 'refDistance' | 'rolloffFactor' | 'maxDistance'>;
+
+/**
+ * Audio context lifecycle
+ * - uninitialized: no context yet (see AudioSystem.retain)
+ * - suspended: created, waiting for a gesture, or the tab is hidden
+ * - running: playing (possibly muted)
+ * - closed: disposed after the last release
+ */
+export type AudioLifecycleState = 'uninitialized' | 'suspended' | 'running' | 'closed';
+
+export interface AudioStatus {
+  state: AudioLifecycleState;
+  muted: boolean;
+}
+
+export type AudioStatusListener = (status: AudioStatus) => void;
+
+/** Downloaded sound files */
+export type AudioBufferId = 'airBrake' | 'engineStart' | 'engineRun';
+
+export interface AudioBufferEvent {
+  id: AudioBufferId;
+  /** Seconds */
+  duration: number;
+}
+
+export type AudioBufferListener = (event: AudioBufferEvent) => void;
+
+export interface AudioErrorEvent {
+  /** Sound file that failed to load, or 'context' when resuming was refused */
+  source: AudioBufferId | 'context';
+  error: unknown;
+}
+
+export type AudioErrorListener = (event: AudioErrorEvent) => void;
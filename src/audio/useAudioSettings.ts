@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { AudioSystem } from './AudioSystem';
+import type { AudioSettings } from './types';
+
+/**
+ * Hook to re-render when audio settings change
+ *
+ * @example
+ * ```typescript
+ * const settings = useAudioSettings(audioSystem);
+ * return <input type="checkbox" checked={settings.reducedAudio} />;
+ * ```
+ */
+export function useAudioSettings(audio: AudioSystem): AudioSettings {
+  const [settings, setSettings] = useState<AudioSettings>(() => audio.getSettings());
+
+  useEffect(() => {
+    // Catch changes made between the first render and this effect
+    setSettings(audio.getSettings());
+    return audio.subscribe(setSettings);
+  }, [audio]);
+
+  return settings;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { AudioSystem } from './AudioSystem';
+import type { AudioStatus } from './types';
+
+/**
+ * Hook to re-render when the audio context state or mute changes
+ *
+ * @example
+ * ```typescript
+ * const { muted } = useAudioStatus(audioSystem);
+ * return <span>{muted ? 'Audio off' : 'Audio on'}</span>;
+ * ```
+ */
+export function useAudioStatus(audio: AudioSystem): AudioStatus {
+  const [status, setStatus] = useState<AudioStatus>(() => audio.getStatus());
+
+  useEffect(() => {
+    // Catch changes made between the first render and this effect
+    setStatus(audio.getStatus());
+    return audio.onStateChange(setStatus);
+  }, [audio]);
+
+  return status;
+}
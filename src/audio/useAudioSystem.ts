@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { getAudioSystem, type AudioSystem } from './AudioSystem';
+import type { AudioEngineMode } from './types';
+
+/**
+ * Hook for the app's shared audio system
+ *
+ * Retains the shared AudioSystem while mounted and releases it on unmount.
+ * The context is closed shortly after the last release, so a StrictMode or
+ * hot-reload remount keeps the same context and decoded sounds.
+ *
+ * @param engineMode - Engine sound source, applied before the context starts (see setEngineMode)
+ *
+ * @example
+ * ```typescript
+ * const audio = useAudioSystem(quality.settings.audioEngine);
+ * return <AudioSettingsPanel audio={audio} />;
+ * ```
+ */
+export function useAudioSystem(engineMode?: AudioEngineMode): AudioSystem {
+  const [audio] = useState(getAudioSystem);
+
+  // Declared first so the mode is set before retain() downloads recordings
+  useEffect(() => {
+    if (engineMode) audio.setEngineMode(engineMode);
+  }, [audio, engineMode]);
+
+  useEffect(() => {
+    audio.retain();
+    return () => audio.release();
+  }, [audio]);
+
+  return audio;
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+import { AUDIO_OUTPUT_MODES, type AudioSystem } from '../audio/AudioSystem';
+import { useAudioSettings } from '../audio/useAudioSettings';
+import type { AudioOutputMode, AudioSettings } from '../audio/types';
+
+interface AudioSettingsPanelProps {
+  audio: AudioSystem;
+}
+
+type VolumeKey = 'masterVolume' | 'engineVolume' | 'ambienceVolume' | 'effectsVolume' | 'uiVolume';
+
+const VOLUME_SLIDERS: { key: VolumeKey; label: string }[] = [
+  { key: 'masterVolume', label: 'audioSettings.master' },
+  { key: 'engineVolume', label: 'audioSettings.engine' },
+  { key: 'ambienceVolume', label: 'audioSettings.ambience' },
+  { key: 'effectsVolume', label: 'audioSettings.effects' },
+  { key: 'uiVolume', label: 'audioSettings.ui' }
+];
+
+/**
+ * AudioSettingsPanel - Top bar audio settings popover
+ *
+ * Volume sliders for the master and each bus (engine, ambience, effects, UI),
+ * the reduced audio mode (no horn or air brake) and the spatial / stereo / mono
+ * output. Changes apply immediately and are saved for the next visit
+ * (see src/audio/AudioSystem.ts). Closes on Escape or a click outside.
+ *
+ * @example
+ * ```typescript
+ * <AudioSettingsPanel audio={audioSystem} />
+ * ```
+ */
+export const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ audio }) => {
+  const { t } = useI18n();
+  const settings = useAudioSettings(audio);
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const closeOutside = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', closeOutside);
+    document.addEventListener('keydown', closeOnEscape);
+    return () => {
+      document.removeEventListener('mousedown', closeOutside);
+      document.removeEventListener('keydown', closeOnEscape);
+    };
+  }, [open]);
+
+  const update = (changes: Partial<AudioSettings>) => audio.updateSettings(changes);
+
+  return (
+    <div className="audio-settings" ref={rootRef}>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className={`audio-button audio-settings-button ${open ? 'active' : ''}`}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+      >
+        <SlidersHorizontal className="audio-button-icon" size={16} />
+        <span className="audio-button-text">{t('topBar.audioSettings')}</span>
+      </button>
+
+      {open && (
+        <div className="audio-settings-panel" role="dialog" aria-label={t('topBar.audioSettings')}>
+          {VOLUME_SLIDERS.map(({ key, label }) => {
+            const percent = Math.round(settings[key] * 100);
+            return (
+              <label key={key} className="audio-settings-row">
+                <span className="audio-settings-label">{t(label)}</span>
+                <input
+                  type="range"
+                  className="audio-settings-slider"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={percent}
+                  onChange={(e) => update({ [key]: Number(e.target.value) / 100 })}
+                />
+                <span className="audio-settings-value">{percent}%</span>
+              </label>
+            );
+          })}
+
+          <label className="audio-settings-row audio-settings-toggle">
+            <input
+              type="checkbox"
+              checked={settings.reducedAudio}
+              onChange={(e) => update({ reducedAudio: e.target.checked })}
+            />
+            <span className="audio-settings-label">
+              {t('audioSettings.reducedAudio')}
+              <small className="audio-settings-hint">{t('audioSettings.reducedAudioHint')}</small>
+            </span>
+          </label>
+
+          <label className="audio-settings-row">
+            <span className="audio-settings-label">{t('topBar.audioOutput')}</span>
+            <select
+              className="audio-settings-select"
+              value={settings.outputMode}
+              onChange={(e) => update({ outputMode: e.target.value as AudioOutputMode })}
+            >
+              {AUDIO_OUTPUT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {t(`audioOutput.${mode}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+/**
+ * FallbackExperience - Non-3D experience for devices without WebGL
+ *
+ * Replaces the Three.js canvas with pre-rendered media driven by the same
+ * scroll phases as the 3D scene (see src/config/scrollTimeline.json):
+ * - Phases with a `still` image crossfade between stills
+ * - Other phases scrub the fallback video by scroll position
+ * - Poster image if the video cannot be played
+ *
+ * Section overlays, info cards and the CTA are rendered by App as usual.
+ *
+ * @param progress - Sequence-local scroll progress (0.0-1.0)
+ * @param phaseId - Active timeline phase id
+ *
+ * @example
+ * ```typescript
+ * {renderMode.mode === 'fallback' && (
+ *   <FallbackExperience progress={fallbackProgress} phaseId={fallbackPhaseId} />
+ * )}
+ * ```
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { scrollTimeline } from '../timeline/ScrollTimeline';
+
+interface FallbackExperienceProps {
+  progress: number;
+  phaseId: string;
+}
+
+// Seek only when the video is at least one frame away from the target
+const SEEK_THRESHOLD = 1 / 30;
+
+export const FallbackExperience: React.FC<FallbackExperienceProps> = ({ progress, phaseId }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const targetTimeRef = useRef(0);
+  const [videoFailed, setVideoFailed] = useState(false);
+
+  const media = scrollTimeline.getFallbackMedia();
+  const phases = scrollTimeline.getPhases();
+  const activeStill = phases.find((phase) => phase.id === phaseId)?.still;
+
+  // Map scroll progress to a video timestamp
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !video.duration || isNaN(video.duration)) return;
+    targetTimeRef.current = Math.min(Math.max(progress, 0), 1) * video.duration;
+  }, [progress]);
+
+  // Seek loop - avoids queuing a seek on every scroll event
+  useEffect(() => {
+    let frameId: number;
+
+    const update = () => {
+      const video = videoRef.current;
+      if (video && !video.seeking && video.readyState >= 1) {
+        if (Math.abs(video.currentTime - targetTimeRef.current) > SEEK_THRESHOLD) {
+          video.currentTime = targetTimeRef.current;
+        }
+      }
+      frameId = requestAnimationFrame(update);
+    };
+
+    frameId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    targetTimeRef.current = Math.min(Math.max(progress, 0), 1) * video.duration;
+    console.log(`🎞️ Fallback video ready (${video.duration.toFixed(1)}s)`);
+  };
+
+  return (
+    <div className="fallback-experience" aria-hidden="true">
+      {!videoFailed ? (
+        <video
+          ref={videoRef}
+          className={`fallback-media ${activeStill ? 'hidden' : 'visible'}`}
+          src={media.video}
+          poster={media.poster}
+          muted
+          playsInline
+          preload="auto"
+          onLoadedMetadata={handleLoadedMetadata}
+          onError={() => {
+            console.warn('⚠️ Fallback video unavailable, showing poster image');
+            setVideoFailed(true);
+          }}
+        />
+      ) : (
+        media.poster && (
+          <img
+            className={`fallback-media fallback-poster ${activeStill ? 'hidden' : 'visible'}`}
+            src={media.poster}
+            alt=""
+          />
+        )
+      )}
+
+      {phases.filter((phase) => phase.still).map((phase) => (
+        <img
+          key={phase.id}
+          className={`fallback-media ${phase.id === phaseId ? 'visible' : 'hidden'}`}
+          src={phase.still}
+          alt=""
+          loading="lazy"
+        />
+      ))}
+    </div>
+  );
+};
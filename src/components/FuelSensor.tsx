@@ -9,14 +9,60 @@ interface FuelSensorProps {
   rotation?: [number, number, number];
   scale?: number;
   probeLength?: number;
+  /** Initial fill level (0.0-1.0, default: 0.65) */
+  fuelLevel?: number;
   onComponentsCreated?: (components: {
     sensorHeadGroup: THREE.Group;
     probeTube: THREE.Mesh;
     cageGroup: THREE.Group;
     tankGroup: THREE.Group;
   }) => void;
+  /** Callback with the fuel volume (drive it each frame with updateFuelVolume) */
+  onFuelVolumeCreated?: (fuelVolume: FuelVolume) => void;
 }
 
+/**
+ * Fuel volume inside the tank plus the probe's measurement-zone highlight
+ */
+export interface FuelVolume {
+  group: THREE.Group;
+  /** Fuel body - top vertices follow the sloshing surface */
+  fuel: THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>;
+  /** Glowing band on the probe at the measured level */
+  measurementZone: THREE.Group;
+  /** World-space plane used for the X-ray cross-section */
+  clipPlane: THREE.Plane;
+  tankHeight: number;
+  tankBottom: number;
+  /** Slosh / filter state (internal) */
+  state: {
+    level: number;
+    measuredLevel: number;
+    tiltX: number;
+    tiltXVelocity: number;
+    tiltZ: number;
+    tiltZVelocity: number;
+    previousBounce: number | null;
+    previousBounceVelocity: number;
+    crossSection: boolean;
+  };
+}
+
+// Tank interior around the probe [width (x), height (y), depth (z)]
+const TANK_SIZE: [number, number, number] = [0.6, 1.2, 1.2];
+// Probe tube spans y -0.6 → 0.7, the tank floor sits at the probe tip
+const TANK_BOTTOM = -0.6;
+// ±1% accuracy band drawn around the measured level
+const MEASUREMENT_ACCURACY = 0.01;
+// Anti-slosh filter time constant of the measured level (seconds)
+const MEASUREMENT_SMOOTHING = 1.5;
+// Slosh spring (rad/s), damping ratio and bounce → tilt gain
+const SLOSH_FREQUENCY = 6;
+const SLOSH_DAMPING = 0.15;
+const SLOSH_GAIN = 3;
+const MAX_SURFACE_SLOPE = 0.12;
+const probeAxisWorld = new THREE.Vector3();
+
 /**
  * Fuel Level Sensor Component
  * 
@@ -25,10 +71,16 @@ interface FuelSensorProps {
  * 2. Probe Tube (WHITE) - Metallic measurement probe
  * 3. Cage/Filter (GREEN) - Protective cage with rings
  * 
+ * Plus the fuel inside the tank: a translucent volume whose height tracks
+ * the telematics fuel level, sloshing with the truck's bounce, and a glowing
+ * band on the probe showing the filtered (anti-slosh) measured level ±1%.
+ * 
  * @param scene - Three.js scene
  * @param truckGroup - Parent truck group to attach sensor to
  * @param position - Position relative to truck [x, y, z] (default: [3.1, 0.6, -5])
+ * @param fuelLevel - Initial fill level 0.0-1.0 (default: 0.65)
  * @param onComponentsCreated - Callback with references to sensor components (for SVG paths)
+ * @param onFuelVolumeCreated - Callback with the fuel volume (see updateFuelVolume)
  */
 export const FuelSensor = ({ 
   scene, 
@@ -37,7 +89,9 @@ export const FuelSensor = ({
   rotation = [0, 0, 0],
   scale = 1,
   probeLength = 1.3,
-  onComponentsCreated 
+  fuelLevel = 0.65,
+  onComponentsCreated,
+  onFuelVolumeCreated
 }: FuelSensorProps) => {
   const tankGroupRef = useRef<THREE.Group | null>(null);
   const sensorHeadGroupRef = useRef<THREE.Group | null>(null);
@@ -58,6 +112,7 @@ export const FuelSensor = ({
 
     // --- SENSOR HEAD GROUP (RED) ---
     const sensorHeadGroup = new THREE.Group();
+    sensorHeadGroup.name = 'SensorHead';
     sensorHeadGroup.position.set(0, 0.70, 0);
     tankGroup.add(sensorHeadGroup);
     sensorHeadGroupRef.current = sensorHeadGroup;
@@ -159,6 +214,7 @@ export const FuelSensor = ({
         metalness: 0.7
       })
     );
+    probeTube.name = 'ProbeTube';
     probeTube.position.set(0, 0.05, 0);
     probeTube.castShadow = true;
     probeTube.receiveShadow = true;
@@ -167,6 +223,7 @@ export const FuelSensor = ({
 
     // --- CAGE/FILTER GROUP (GREEN) ---
     const cageGroup = new THREE.Group();
+    cageGroup.name = 'Cage';
     cageGroup.position.set(0, -0.5, 0);
     probeGroup.add(cageGroup);
     cageGroupRef.current = cageGroup;
@@ -203,6 +260,10 @@ export const FuelSensor = ({
       cageGroup.add(ring);
     }
 
+    // --- FUEL VOLUME + MEASUREMENT ZONE ---
+    const fuelVolume = createFuelVolume(fuelLevel);
+    tankGroup.add(fuelVolume.group);
+
     // Callback with component references (for SVG path connections)
     if (onComponentsCreated) {
       onComponentsCreated({
@@ -212,6 +273,7 @@ export const FuelSensor = ({
         tankGroup
       });
     }
+    onFuelVolumeCreated?.(fuelVolume);
 
     // Cleanup
     return () => {
@@ -220,7 +282,7 @@ export const FuelSensor = ({
         
         // Dispose geometries and materials
         tankGroupRef.current.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
+          if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
             child.geometry?.dispose();
             if (Array.isArray(child.material)) {
               child.material.forEach(mat => mat.dispose());
@@ -237,3 +299,205 @@ export const FuelSensor = ({
 
   return null; // This is a Three.js component, no DOM rendering
 };
+
+/**
+ * Build the fuel body, tank outline and probe measurement zone
+ */
+function createFuelVolume(initialLevel: number): FuelVolume {
+  const [width, height, depth] = TANK_SIZE;
+  const level = THREE.MathUtils.clamp(initialLevel, 0, 1);
+
+  const group = new THREE.Group();
+  group.name = 'FuelVolume';
+  group.userData.hotspotIgnore = true; // Don't block picking of the probe inside
+
+  // Unit-height box with its base at y = 0; the top vertices are moved to
+  // the fuel surface every frame so the volume can tilt and ripple
+  const fuelGeo = new THREE.BoxGeometry(width, 1, depth, 6, 1, 12);
+  fuelGeo.translate(0, 0.5, 0);
+  const basePosition = fuelGeo.attributes.position;
+  const isTop: boolean[] = [];
+  for (let i = 0; i < basePosition.count; i++) {
+    isTop.push(basePosition.getY(i) > 0.5);
+  }
+  fuelGeo.userData.isTop = isTop;
+
+  const clipPlane = new THREE.Plane(new THREE.Vector3(-1, 0, 0), 0);
+  const fuel = new THREE.Mesh(
+    fuelGeo,
+    new THREE.MeshStandardMaterial({
+      color: 0xd4a017, // Diesel amber
+      emissive: 0x3a2a00,
+      transparent: true,
+      opacity: 0.55,
+      roughness: 0.15,
+      metalness: 0.0,
+      side: THREE.DoubleSide,
+      depthWrite: false,
+      clipShadows: true
+    })
+  );
+  fuel.position.y = TANK_BOTTOM;
+  fuel.renderOrder = 1;
+  group.add(fuel);
+
+  // Faint tank outline so the fuel reads as "inside" the tank
+  const outline = new THREE.LineSegments(
+    new THREE.EdgesGeometry(new THREE.BoxGeometry(width, height, depth)),
+    new THREE.LineBasicMaterial({ color: 0x9ca3af, transparent: true, opacity: 0.35 })
+  );
+  outline.position.y = TANK_BOTTOM + height / 2;
+  group.add(outline);
+
+  // Capacitive measurement zone: ±1% band + ring on the probe
+  const measurementZone = new THREE.Group();
+  const band = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.06, 0.06, height * MEASUREMENT_ACCURACY * 2, 24, 1, true),
+    new THREE.MeshBasicMaterial({
+      color: 0x34d399,
+      transparent: true,
+      opacity: 0.6,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    })
+  );
+  measurementZone.add(band);
+
+  const ring = new THREE.Mesh(
+    new THREE.TorusGeometry(0.07, 0.005, 8, 32),
+    new THREE.MeshBasicMaterial({ color: 0x6ee7b7, transparent: true, opacity: 0.9 })
+  );
+  ring.rotation.x = Math.PI / 2;
+  measurementZone.add(ring);
+  measurementZone.position.y = TANK_BOTTOM + level * height;
+  measurementZone.renderOrder = 2;
+  group.add(measurementZone);
+
+  const fuelVolume: FuelVolume = {
+    group,
+    fuel,
+    measurementZone,
+    clipPlane,
+    tankHeight: height,
+    tankBottom: TANK_BOTTOM,
+    state: {
+      level,
+      measuredLevel: level,
+      tiltX: 0,
+      tiltXVelocity: 0,
+      tiltZ: 0,
+      tiltZVelocity: 0,
+      previousBounce: null,
+      previousBounceVelocity: 0,
+      crossSection: false
+    }
+  };
+
+  updateFuelSurface(fuelVolume, 0, 0);
+  return fuelVolume;
+}
+
+/**
+ * Move the top vertices of the fuel body onto the sloshing surface
+ */
+function updateFuelSurface(fuelVolume: FuelVolume, time: number, ripple: number): void {
+  const { fuel, state, tankHeight } = fuelVolume;
+  const position = fuel.geometry.attributes.position as THREE.BufferAttribute;
+  const isTop = fuel.geometry.userData.isTop as boolean[];
+  const surface = state.level * tankHeight;
+
+  for (let i = 0; i < position.count; i++) {
+    if (!isTop[i]) continue;
+
+    const x = position.getX(i);
+    const z = position.getZ(i);
+    const wave = Math.sin(z * 9 + time * 7) * Math.cos(x * 7 - time * 5) * ripple;
+    const y = surface + z * state.tiltX + x * state.tiltZ + wave;
+    position.setY(i, THREE.MathUtils.clamp(y, 0.002, tankHeight));
+  }
+
+  position.needsUpdate = true;
+  fuel.geometry.computeVertexNormals();
+}
+
+/**
+ * Update the fuel volume for the current frame
+ *
+ * - Surface height follows `fuelLevel`
+ * - Truck bounce excites a damped slosh (tilt + ripples)
+ * - The measurement zone follows a low-pass filtered level, so it stays
+ *   steady while the surface sloshes (the sensor's anti-slosh filtering)
+ * - `crossSection` clips the near half of the fuel away (X-ray view)
+ *
+ * @param fuelVolume - Fuel volume from onFuelVolumeCreated
+ * @param params.fuelLevel - Fill level 0.0-1.0 (keeps the last level when undefined)
+ * @param params.bounce - Current truck bounce offset (truck.position.y)
+ * @param params.delta - Frame delta in seconds
+ * @param params.time - Elapsed time in seconds
+ * @param params.crossSection - Clip the fuel open for the X-ray phase
+ *
+ * @example
+ * ```typescript
+ * updateFuelVolume(fuelVolumeRef.current, {
+ *   fuelLevel: telematicsSource.getLatest()?.fuelLevel,
+ *   bounce: truck.position.y,
+ *   delta,
+ *   time,
+ *   crossSection: phase.fuelCrossSection === true
+ * });
+ * ```
+ */
+export function updateFuelVolume(
+  fuelVolume: FuelVolume,
+  params: { fuelLevel?: number; bounce: number; delta: number; time: number; crossSection?: boolean }
+): void {
+  const { state, fuel, measurementZone, clipPlane, tankHeight, tankBottom } = fuelVolume;
+  const { bounce, time } = params;
+  // Clamp delta so a long pause (tab hidden, context loss) doesn't explode the spring
+  const delta = Math.min(Math.max(params.delta, 0), 0.05);
+
+  if (params.fuelLevel !== undefined) {
+    state.level = THREE.MathUtils.clamp(params.fuelLevel, 0, 1);
+  }
+
+  // --- SLOSH: damped spring excited by the bounce acceleration ---
+  let bounceAcceleration = 0;
+  let bounceVelocity = 0;
+  if (state.previousBounce !== null && delta > 0) {
+    bounceVelocity = (bounce - state.previousBounce) / delta;
+    bounceAcceleration = (bounceVelocity - state.previousBounceVelocity) / delta;
+  }
+  state.previousBounce = bounce;
+  state.previousBounceVelocity = bounceVelocity;
+
+  const stiffness = SLOSH_FREQUENCY * SLOSH_FREQUENCY;
+  const damping = 2 * SLOSH_DAMPING * SLOSH_FREQUENCY;
+
+  state.tiltXVelocity += (-stiffness * state.tiltX - damping * state.tiltXVelocity - bounceAcceleration * SLOSH_GAIN) * delta;
+  state.tiltX = THREE.MathUtils.clamp(state.tiltX + state.tiltXVelocity * delta, -MAX_SURFACE_SLOPE, MAX_SURFACE_SLOPE);
+  state.tiltZVelocity += (-stiffness * state.tiltZ - damping * state.tiltZVelocity + bounceAcceleration * SLOSH_GAIN * 0.4) * delta;
+  state.tiltZ = THREE.MathUtils.clamp(state.tiltZ + state.tiltZVelocity * delta, -MAX_SURFACE_SLOPE, MAX_SURFACE_SLOPE);
+
+  const ripple = 0.004 + Math.min(Math.abs(bounceVelocity) * 0.05, 0.012);
+  updateFuelSurface(fuelVolume, time, ripple);
+
+  // --- MEASUREMENT ZONE: filtered level ---
+  const smoothing = 1 - Math.exp(-delta / MEASUREMENT_SMOOTHING);
+  state.measuredLevel += (state.level - state.measuredLevel) * smoothing;
+  measurementZone.position.y = tankBottom + state.measuredLevel * tankHeight;
+  const pulse = 0.45 + Math.sin(time * 4) * 0.15;
+  ((measurementZone.children[0] as THREE.Mesh).material as THREE.MeshBasicMaterial).opacity = pulse;
+
+  // --- X-RAY CROSS-SECTION ---
+  const crossSection = params.crossSection === true;
+  if (crossSection) {
+    // Clipping planes are in world space - keep the cut through the probe axis
+    measurementZone.getWorldPosition(probeAxisWorld);
+    clipPlane.setFromNormalAndCoplanarPoint(clipPlane.normal, probeAxisWorld);
+  }
+  if (crossSection !== state.crossSection) {
+    fuel.material.clippingPlanes = crossSection ? [clipPlane] : null;
+    fuel.material.needsUpdate = true;
+    state.crossSection = crossSection;
+  }
+}
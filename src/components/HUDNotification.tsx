@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, Fuel, X } from 'lucide-react';
+import type { TelematicsAlert } from '../textures/types';
+import { i18n } from '../i18n/I18n';
+import { useI18n } from '../i18n/useI18n';
+
+interface HUDNotificationProps {
+  alert: TelematicsAlert | null;
+  onDismiss: () => void;
+  /** Auto-dismiss after this many ms (default: 8000) */
+  duration?: number;
+}
+
+/**
+ * HUDNotification - Toast for scenario alerts (fuel theft, refuel, sensor fault)
+ *
+ * @example
+ * ```typescript
+ * <HUDNotification alert={scenarioAlert} onDismiss={() => setScenarioAlert(null)} />
+ * ```
+ */
+export const HUDNotification: React.FC<HUDNotificationProps> = ({
+  alert,
+  onDismiss,
+  duration = 8000
+}) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!alert) return;
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [alert, onDismiss, duration]);
+
+  if (!alert) return null;
+
+  const Icon = alert.severity === 'info' ? Fuel : AlertTriangle;
+  const { title, message } = i18n.localizeAlert(alert);
+
+  return (
+    <div
+      className={`hud-notification hud-notification-${alert.severity}`}
+      role={alert.severity === 'critical' ? 'alert' : 'status'}
+    >
+      <Icon className="hud-notification-icon" size={22} />
+      <div className="hud-notification-body">
+        <div className="hud-notification-title">{title}</div>
+        <div className="hud-notification-message">{message}</div>
+      </div>
+      <button className="hud-notification-close" onClick={onDismiss} aria-label={t('common.dismiss')}>
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React from 'react';
+import { scrollTimeline } from '../timeline/ScrollTimeline';
+import { useI18n } from '../i18n/useI18n';
 
 interface HUDProgressProps {
   scrollProgress: number;
@@ -11,15 +13,8 @@ export const HUDProgress: React.FC<HUDProgressProps> = ({
   activePhase,
   sectionName 
 }) => {
-  const milestones = [
-    { position: 0, label: 'START', sublabel: 'Intro Phase', range: [0, 14] },
-    { position: 15, label: 'VELOCITY', sublabel: 'Real-Time Tracking', range: [15, 34] },
-    { position: 35, label: 'SENSOR HEAD', sublabel: 'Fuel Detection', range: [35, 49] },
-    { position: 50, label: 'SEQ 2 START', sublabel: 'Second Sequence', range: [50, 64] },
-    { position: 65, label: 'VELOCITY', sublabel: 'Performance Data', range: [65, 84] },
-    { position: 85, label: 'SENSOR HEAD', sublabel: 'Component Details', range: [85, 99] },
-    { position: 100, label: 'COMPLETE', sublabel: 'Journey End', range: [100, 100] }
-  ];
+  const { tOr } = useI18n();
+  const milestones = scrollTimeline.getMilestones();
 
   return (
     <div className="hud-progress">
@@ -41,8 +36,12 @@ export const HUDProgress: React.FC<HUDProgressProps> = ({
               style={{ top: `${milestone.position}%` }}
             >
               <div className="hud-marker-text">
-                <div className="hud-marker-label">{scrollProgress}% {milestone.label}</div>
-                <div className="hud-marker-sublabel">{milestone.sublabel}</div>
+                <div className="hud-marker-label">
+                  {scrollProgress}% {tOr(`timeline.milestones.${milestone.id}.label`, milestone.label)}
+                </div>
+                <div className="hud-marker-sublabel">
+                  {tOr(`timeline.milestones.${milestone.id}.sublabel`, milestone.sublabel)}
+                </div>
               </div>
             </div>
           );
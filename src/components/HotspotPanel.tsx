@@ -0,0 +1,80 @@
+import React, { useEffect } from 'react';
+import { BarChart3, Cpu, Fuel, Layers, Monitor, Radio, Truck, X, type LucideIcon } from 'lucide-react';
+import type { HotspotDefinition, HotspotIcon } from '../hotspots/types';
+import { useI18n } from '../i18n/useI18n';
+
+/**
+ * Lucide icons for hotspot icon keys (src/config/hotspots.json)
+ */
+export const HOTSPOT_ICONS: Record<HotspotIcon, LucideIcon> = {
+  'cpu': Cpu,
+  'bar-chart': BarChart3,
+  'layers': Layers,
+  'monitor': Monitor,
+  'fuel': Fuel,
+  'truck': Truck,
+  'radio': Radio
+};
+
+interface HotspotPanelProps {
+  hotspot: HotspotDefinition | null;
+  onClose: () => void;
+}
+
+/**
+ * HotspotPanel - Detail panel for a clicked 3D hotspot
+ *
+ * @param hotspot - Selected hotspot (null hides the panel)
+ * @param onClose - Close callback (also on Escape)
+ *
+ * @example
+ * ```typescript
+ * <HotspotPanel hotspot={selectedHotspot} onClose={() => setSelectedHotspot(null)} />
+ * ```
+ */
+export const HotspotPanel: React.FC<HotspotPanelProps> = ({ hotspot, onClose }) => {
+  const { t, tOr } = useI18n();
+
+  useEffect(() => {
+    if (!hotspot) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [hotspot, onClose]);
+
+  if (!hotspot) return null;
+
+  const Icon = HOTSPOT_ICONS[hotspot.icon] ?? Cpu;
+
+  return (
+    <aside className="hotspot-panel" role="dialog" aria-labelledby="hotspot-panel-title">
+      <div className="hotspot-panel-top-bar"></div>
+      <button className="hotspot-panel-close" onClick={onClose} aria-label={t('common.close')}>
+        <X size={18} />
+      </button>
+
+      <div className="hotspot-panel-header">
+        <div className="info-card-icon-wrapper">
+          <Icon className="info-card-icon" size={24} />
+        </div>
+        <div>
+          <div className="info-card-component-label">{tOr(`hotspots.${hotspot.id}.label`, hotspot.label)}</div>
+          <h3 id="hotspot-panel-title" className="info-card-title">
+            {tOr(`hotspots.${hotspot.id}.title`, hotspot.title).toUpperCase()}
+          </h3>
+        </div>
+      </div>
+
+      <p className="hotspot-panel-copy">{tOr(`hotspots.${hotspot.id}.copy`, hotspot.copy)}</p>
+
+      <div className="info-card-tags">
+        {hotspot.tags.map((tag) => (
+          <span key={tag} className="info-card-tag">{tag}</span>
+        ))}
+      </div>
+    </aside>
+  );
+};
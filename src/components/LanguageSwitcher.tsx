@@ -0,0 +1,50 @@
+import React from 'react';
+import { Globe, Ruler } from 'lucide-react';
+import { i18n, LOCALES } from '../i18n/I18n';
+import { useI18n } from '../i18n/useI18n';
+import type { Locale } from '../i18n/types';
+
+/**
+ * LanguageSwitcher - Top bar language picker and metric / imperial toggle
+ *
+ * Choices are saved for the next visit (see src/i18n/I18n.ts).
+ *
+ * @example
+ * ```typescript
+ * <div className="top-bar-controls">
+ *   <LanguageSwitcher />
+ * </div>
+ * ```
+ */
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, units, t } = useI18n();
+
+  return (
+    <>
+      <label className="audio-button language-switcher">
+        <Globe className="audio-button-icon" size={16} />
+        <select
+          className="language-switcher-select audio-button-text"
+          value={locale}
+          onChange={(e) => i18n.setLocale(e.target.value as Locale)}
+          aria-label={t('topBar.language')}
+        >
+          {Object.values(LOCALES).map((info) => (
+            <option key={info.id} value={info.id} lang={info.id}>
+              {info.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        onClick={() => i18n.setUnits(units === 'metric' ? 'imperial' : 'metric')}
+        className="audio-button units-button"
+        aria-label={t('topBar.units')}
+      >
+        <Ruler className="audio-button-icon" size={16} />
+        <span className="audio-button-text">{t(`topBar.${units}`)}</span>
+      </button>
+    </>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useI18n } from '../i18n/useI18n';
+import type { LoadingState } from '../loading/types';
+
+interface LoadingStatusProps {
+  state: LoadingState;
+}
+
+/**
+ * LoadingStatus - Intro screen progress bar with per-asset status
+ *
+ * @example
+ * ```typescript
+ * const loading = useLoadingState();
+ * {!loading.complete && <LoadingStatus state={loading} />}
+ * ```
+ */
+export const LoadingStatus: React.FC<LoadingStatusProps> = ({ state }) => {
+  const { t } = useI18n();
+  const percent = Math.floor(state.progress);
+
+  return (
+    <div className="loading-indicator">
+      <div
+        className="loading-progress"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label={t('intro.loading')}
+      >
+        <div className="loading-progress-fill" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="loading-text">
+        {t('intro.loading')} <span className="loading-percent">{percent}%</span>
+      </p>
+
+      <ul className="loading-assets">
+        {state.assets.map((asset) => (
+          <li key={asset.id} className={`loading-asset loading-asset-${asset.status}`}>
+            <span className="loading-asset-dot" />
+            <span className="loading-asset-kind">{t(`loading.kinds.${asset.kind}`)}</span>
+            <span className="loading-asset-name">{asset.name}</span>
+            <span className="loading-asset-status">{t(`loading.status.${asset.status}`)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -24,7 +24,7 @@ interface ParticleSystemProps {
  * - Customizable spread and size ranges
  * 
  * @param scene - Three.js scene
- * @param count - Number of particles (default: 400)
+ * @param count - Number of particles (default: 400); changing it rebuilds the system
  * @param color - Particle color (default: 0xc0c0c0)
  * @param size - Base particle size (default: 0.06)
  * @param opacity - Particle opacity (default: 0.4)
@@ -111,7 +111,7 @@ export const ParticleSystem = ({
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [scene]);
+  }, [scene, count]);
 
   return null; // This is a Three.js component, no DOM rendering
 };
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { useI18n } from '../i18n/useI18n';
+import { QUALITY_TIERS, type QualityManager } from '../quality/QualityManager';
+import type { QualityState, QualityTier } from '../quality/types';
+
+interface QualitySwitcherProps {
+  manager: QualityManager;
+  state: QualityState;
+}
+
+/**
+ * QualitySwitcher - Top bar rendering quality picker
+ *
+ * "Auto" lets the governor pick the tier from measured frame times; any other
+ * choice pins that tier and is saved for the next visit (see src/quality/QualityManager.ts).
+ *
+ * @example
+ * ```typescript
+ * <QualitySwitcher manager={qualityManager} state={quality} />
+ * ```
+ */
+export const QualitySwitcher: React.FC<QualitySwitcherProps> = ({ manager, state }) => {
+  const { t } = useI18n();
+
+  return (
+    <label className="audio-button language-switcher" title={t(`quality.${state.tier}`)}>
+      <Gauge className="audio-button-icon" size={16} />
+      <select
+        className="language-switcher-select audio-button-text"
+        value={state.auto ? 'auto' : state.tier}
+        onChange={(e) => manager.setOverride(e.target.value as QualityTier | 'auto')}
+        aria-label={t('topBar.quality')}
+      >
+        <option value="auto">{t('quality.auto')}</option>
+        {[...QUALITY_TIERS].reverse().map((tier) => (
+          <option key={tier} value={tier}>
+            {t(`quality.${tier}`)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,303 @@
+/**
+ * RequestDemoModal - Lead capture form for the "Request Demo" CTA
+ *
+ * Features:
+ * - Name, company, fleet size, tank types and contact fields
+ * - Client-side validation with inline field errors
+ * - Spam protection: hidden honeypot field + minimum fill time
+ * - Pluggable submission adapter (Netlify Forms / JSON POST / mock)
+ * - Retryable failures are queued in localStorage and sent later
+ *
+ * @param isOpen - Whether the modal is visible
+ * @param onClose - Close callback
+ * @param adapter - Submission adapter
+ * @param queue - Retry queue for failed submissions
+ *
+ * @example
+ * ```typescript
+ * <RequestDemoModal
+ *   isOpen={showDemoForm}
+ *   onClose={() => setShowDemoForm(false)}
+ *   adapter={leadAdapterRef.current}
+ *   queue={leadQueueRef.current}
+ * />
+ * ```
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { LeadSubmissionError, errorHandler } from '../utils/errors';
+import {
+  FLEET_SIZES,
+  TANK_TYPES,
+  createEmptyLead,
+  createLeadSubmission,
+  isLikelySpam,
+  validateLead
+} from '../leads/validation';
+import type { LeadQueue } from '../leads/LeadQueue';
+import type { LeadFormData, LeadSubmissionAdapter, LeadValidationErrors, TankType } from '../leads/types';
+import { useI18n } from '../i18n/useI18n';
+
+interface RequestDemoModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  adapter: LeadSubmissionAdapter;
+  queue: LeadQueue;
+}
+
+type SubmitStatus = 'idle' | 'submitting' | 'success' | 'queued' | 'error';
+
+export const RequestDemoModal: React.FC<RequestDemoModalProps> = ({
+  isOpen,
+  onClose,
+  adapter,
+  queue
+}) => {
+  const [form, setForm] = useState<LeadFormData>(createEmptyLead);
+  const [errors, setErrors] = useState<LeadValidationErrors>({});
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+  const [honeypot, setHoneypot] = useState('');
+  const openedAtRef = useRef(Date.now());
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+  const { t, tOr } = useI18n();
+
+  // Reset timing, focus first field and close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    openedAtRef.current = Date.now();
+    const previousFocus = document.activeElement as HTMLElement | null;
+    firstFieldRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previousFocus?.focus?.();
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const updateField = <K extends keyof LeadFormData>(field: K, value: LeadFormData[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const toggleTankType = (tankType: TankType) => {
+    const tankTypes = form.tankTypes.includes(tankType)
+      ? form.tankTypes.filter((t) => t !== tankType)
+      : [...form.tankTypes, tankType];
+    updateField('tankTypes', tankTypes);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validateLead(form);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    // Bots get the normal success screen so they don't retry
+    if (isLikelySpam(honeypot, openedAtRef.current)) {
+      console.warn('🤖 Lead submission flagged as spam, discarded');
+      setStatus('success');
+      return;
+    }
+
+    const submission = createLeadSubmission(form);
+    setStatus('submitting');
+
+    try {
+      await adapter.submit(submission);
+      setStatus('success');
+      setForm(createEmptyLead());
+    } catch (error) {
+      if (error instanceof LeadSubmissionError && error.context.retryable) {
+        queue.enqueue(submission);
+        setStatus('queued');
+        setForm(createEmptyLead());
+      } else {
+        errorHandler.handle(error as Error);
+        setStatus('error');
+      }
+    }
+  };
+
+  const handleClose = () => {
+    if (status === 'success' || status === 'queued') {
+      setStatus('idle');
+    }
+    onClose();
+  };
+
+  const fieldClass = (field: keyof LeadFormData) =>
+    `demo-form-field ${errors[field] ? 'has-error' : ''}`;
+
+  // validateLead returns English messages - show the catalog text for the field
+  const fieldError = (field: keyof LeadFormData) =>
+    errors[field] && <span className="demo-form-error">{tOr(`demo.errors.${field}`, errors[field]!)}</span>;
+
+  return (
+    <div className="demo-modal-backdrop" onClick={handleClose}>
+      <div
+        className="demo-modal"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="demo-modal-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button className="demo-modal-close" onClick={handleClose} aria-label={t('common.close')}>
+          <X size={20} />
+        </button>
+
+        <h2 id="demo-modal-title" className="demo-modal-title">{t('demo.title')}</h2>
+
+        {status === 'success' || status === 'queued' ? (
+          <div className="demo-modal-result" role="status">
+            <p className="demo-modal-result-title">{t('demo.thankYou')}</p>
+            <p className="demo-modal-result-text">
+              {t(status === 'success' ? 'demo.success' : 'demo.queued')}
+            </p>
+            <button className="demo-form-submit" onClick={handleClose}>{t('common.close')}</button>
+          </div>
+        ) : (
+          <form className="demo-form" onSubmit={handleSubmit} noValidate>
+            <p className="demo-modal-subtitle">
+              {t('demo.subtitle')}
+            </p>
+
+            {/* Honeypot - hidden from humans, filled by bots */}
+            <div className="demo-form-honeypot" aria-hidden="true">
+              <label>
+                Leave this field empty
+                <input
+                  type="text"
+                  name="bot-field"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={honeypot}
+                  onChange={(e) => setHoneypot(e.target.value)}
+                />
+              </label>
+            </div>
+
+            <div className="demo-form-row">
+              <label className={fieldClass('name')}>
+                <span className="demo-form-label">{t('demo.fields.name')}</span>
+                <input
+                  ref={firstFieldRef}
+                  type="text"
+                  name="name"
+                  autoComplete="name"
+                  value={form.name}
+                  onChange={(e) => updateField('name', e.target.value)}
+                />
+                {fieldError('name')}
+              </label>
+
+              <label className={fieldClass('company')}>
+                <span className="demo-form-label">{t('demo.fields.company')}</span>
+                <input
+                  type="text"
+                  name="company"
+                  autoComplete="organization"
+                  value={form.company}
+                  onChange={(e) => updateField('company', e.target.value)}
+                />
+                {fieldError('company')}
+              </label>
+            </div>
+
+            <label className={fieldClass('fleetSize')}>
+              <span className="demo-form-label">{t('demo.fields.fleetSize')}</span>
+              <select
+                name="fleet-size"
+                value={form.fleetSize}
+                onChange={(e) => updateField('fleetSize', e.target.value as LeadFormData['fleetSize'])}
+              >
+                <option value="">{t('demo.fleetSizePlaceholder')}</option>
+                {FLEET_SIZES.map((size) => (
+                  <option key={size} value={size}>{t('demo.fleetSizeOption', { size })}</option>
+                ))}
+              </select>
+              {fieldError('fleetSize')}
+            </label>
+
+            <fieldset className={fieldClass('tankTypes')}>
+              <legend className="demo-form-label">{t('demo.fields.tankTypes')}</legend>
+              <div className="demo-form-options">
+                {TANK_TYPES.map((tank) => (
+                  <label key={tank.value} className="demo-form-option">
+                    <input
+                      type="checkbox"
+                      name="tank-types"
+                      value={tank.value}
+                      checked={form.tankTypes.includes(tank.value)}
+                      onChange={() => toggleTankType(tank.value)}
+                    />
+                    <span>{tOr(`demo.tanks.${tank.value}`, tank.label)}</span>
+                  </label>
+                ))}
+              </div>
+              {fieldError('tankTypes')}
+            </fieldset>
+
+            <div className="demo-form-row">
+              <label className={fieldClass('email')}>
+                <span className="demo-form-label">{t('demo.fields.email')}</span>
+                <input
+                  type="email"
+                  name="email"
+                  autoComplete="email"
+                  value={form.email}
+                  onChange={(e) => updateField('email', e.target.value)}
+                />
+                {fieldError('email')}
+              </label>
+
+              <label className={fieldClass('phone')}>
+                <span className="demo-form-label">{t('demo.fields.phone')}</span>
+                <input
+                  type="tel"
+                  name="phone"
+                  autoComplete="tel"
+                  value={form.phone}
+                  onChange={(e) => updateField('phone', e.target.value)}
+                />
+                {fieldError('phone')}
+              </label>
+            </div>
+
+            <label className={fieldClass('message')}>
+              <span className="demo-form-label">{t('demo.fields.message')}</span>
+              <textarea
+                name="message"
+                rows={3}
+                value={form.message}
+                onChange={(e) => updateField('message', e.target.value)}
+              />
+              {fieldError('message')}
+            </label>
+
+            {status === 'error' && (
+              <p className="demo-form-error demo-form-error-banner" role="alert">
+                {t('demo.error')}
+              </p>
+            )}
+
+            <button type="submit" className="demo-form-submit" disabled={status === 'submitting'}>
+              {t(status === 'submitting' ? 'demo.sending' : 'demo.submit')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
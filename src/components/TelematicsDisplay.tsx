@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import { createTelematicsTexture } from '../textures/TelematicsTexture';
+import type { DashboardLayout } from '../dashboard/types';
+import { createTelematicsDashboard, type TelematicsDashboard } from '../textures/TelematicsDashboard';
 import type { TelematicsData } from '../textures/types';
 
 interface TelematicsDisplayProps {
@@ -10,7 +11,12 @@ interface TelematicsDisplayProps {
   rotation?: [number, number, number];
   size?: [number, number];
   initialData?: TelematicsData;
+  /** Canvas resolution scale (see TelematicsDashboard) */
+  textureScale?: number;
+  /** Widget layout (see src/dashboard/layout.ts) */
+  layout?: DashboardLayout;
   onMaterialCreated?: (material: THREE.MeshBasicMaterial) => void;
+  onDashboardCreated?: (dashboard: TelematicsDashboard) => void;
   onMeshCreated?: (mesh: THREE.Mesh) => void;
   onGroupCreated?: (group: THREE.Group) => void;
 }
@@ -20,7 +26,7 @@ interface TelematicsDisplayProps {
  * 
  * Creates a 3D display screen showing telematics data with:
  * - Configurable position, rotation, and size
- * - Dynamic texture updates
+ * - Persistent dashboard texture, repainted incrementally (see src/textures/TelematicsDashboard.ts)
  * - Proper material settings for display screens
  * - Material reference for external updates
  * 
@@ -30,7 +36,10 @@ interface TelematicsDisplayProps {
  * @param rotation - Display rotation [x, y, z] (default: [0, -Math.PI/2, 0])
  * @param size - Display size [width, height] (default: [9, 5])
  * @param initialData - Initial telematics data to display
- * @param onMaterialCreated - Callback with material reference for updates
+ * @param textureScale - Canvas resolution scale (default: 1 = 2048x1024)
+ * @param layout - Widget layout (default: src/config/dashboardLayout.json)
+ * @param onMaterialCreated - Callback with material reference
+ * @param onDashboardCreated - Callback with the dashboard renderer to feed data to
  * 
  * @example
  * ```typescript
@@ -39,8 +48,8 @@ interface TelematicsDisplayProps {
  *   truckGroup={truckRef.current}
  *   position={[-3.5, 1.5, 7]}
  *   initialData={{ speed: 85, fuelLevel: 0.65 }}
- *   onMaterialCreated={(material) => {
- *     telematicsMatRef.current = material;
+ *   onDashboardCreated={(dashboard) => {
+ *     dashboardRef.current = dashboard;
  *   }}
  * />
  * ```
@@ -52,26 +61,34 @@ export const TelematicsDisplay = ({
   rotation = [1.5707963267948966, -1.5707963267948966, 0],
   size = [7.5, 4],
   initialData = { speed: 85, fuelLevel: 0.65 },
+  textureScale = 1,
+  layout,
   onMaterialCreated,
+  onDashboardCreated,
   onMeshCreated,
   onGroupCreated
 }: TelematicsDisplayProps) => {
   const displayGroupRef = useRef<THREE.Group | null>(null);
   const materialRef = useRef<THREE.MeshBasicMaterial | null>(null);
+  const dashboardRef = useRef<TelematicsDashboard | null>(null);
 
   useEffect(() => {
     if (!scene || !truckGroup) return;
 
     // Create display group
     const telematicsGroup = new THREE.Group();
+    telematicsGroup.name = 'TelematicsDisplay';
     displayGroupRef.current = telematicsGroup;
     
-    // Create initial texture
-    const telematicsTex = createTelematicsTexture(initialData);
+    // Create the dashboard renderer and paint the initial data
+    const dashboard = createTelematicsDashboard({ scale: textureScale, layout });
+    dashboard.setData(initialData);
+    dashboard.update(0);
+    dashboardRef.current = dashboard;
     
     // Create material with display-optimized settings
     const telematicsMat = new THREE.MeshBasicMaterial({ 
-      map: telematicsTex,
+      map: dashboard.texture,
       transparent: true,
       opacity: 1.0,
       side: THREE.DoubleSide
@@ -103,6 +120,11 @@ export const TelematicsDisplay = ({
       onMaterialCreated(telematicsMat);
     }
     
+    // Callback with dashboard reference for updates
+    if (onDashboardCreated) {
+      onDashboardCreated(dashboard);
+    }
+    
     // Callback with mesh reference
     if (onMeshCreated) {
       onMeshCreated(displayScreen);
@@ -130,43 +152,18 @@ export const TelematicsDisplay = ({
           }
         });
       }
+      dashboard.dispose();
+      dashboardRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scene, truckGroup]);
 
+  // Swap the layout without re-creating the display
+  useEffect(() => {
+    if (layout) {
+      dashboardRef.current?.setLayout(layout);
+    }
+  }, [layout]);
+
   return null; // This is a Three.js component, no DOM rendering
 };
-
-/**
- * Update telematics display with new data
- * Helper function to update the display material
- * 
- * @param material - The display material to update
- * @param data - New telematics data
- * 
- * @example
- * ```typescript
- * // In animation loop
- * if (telematicsMatRef.current) {
- *   updateTelematicsDisplay(telematicsMatRef.current, {
- *     speed: currentSpeed,
- *     fuelLevel: currentFuel
- *   });
- * }
- * ```
- */
-export function updateTelematicsDisplay(
-  material: THREE.MeshBasicMaterial,
-  data: TelematicsData
-): void {
-  const newTexture = createTelematicsTexture(data);
-  
-  // Dispose old texture
-  if (material.map) {
-    material.map.dispose();
-  }
-  
-  // Apply new texture
-  material.map = newTexture;
-  material.needsUpdate = true;
-}
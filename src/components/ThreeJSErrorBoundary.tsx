@@ -23,6 +23,7 @@ import { errorHandler, getUserFriendlyMessage, isRecoverableError } from '../uti
 interface ThreeJSErrorBoundaryProps {
   children: ReactNode;
   fallback?: ReactNode;
+  /** Report the error - replaces the default errorHandler reporting */
   onError?: (error: Error, errorInfo: ErrorInfo) => void;
   onReset?: () => void;
 }
@@ -66,12 +67,11 @@ export class ThreeJSErrorBoundary extends Component<
       errorCount: prevState.errorCount + 1
     }));
 
-    // Log to error handler
-    errorHandler.handle(error);
-
-    // Call custom error handler if provided
+    // Report through the custom handler if provided, else the error handler
     if (this.props.onError) {
       this.props.onError(error, errorInfo);
+    } else {
+      errorHandler.handle(error, undefined, 'critical');
     }
   }
 
@@ -1,7 +1,11 @@
 import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { sharedAssetLoader } from '../utils/sharedAssetLoader';
-import { loadAssetWithRetry } from '../utils/AssetLoader';
+import { performanceMonitor } from '../utils/monitoring';
+import type { LODLevel, LoadProgress } from '../utils/AssetLoader';
+
+/** Crossfade between LOD levels (ms) - long enough to hide the detail change */
+const LOD_FADE_DURATION = 600;
 
 interface TruckModelProps {
   scene: THREE.Scene;
@@ -12,8 +16,9 @@ interface TruckModelProps {
   scale?: number;
   lightGrayMaterial: THREE.MeshStandardMaterial;
   edgeMaterial: THREE.LineBasicMaterial;
+  edges?: boolean;
   onLoad?: (model: THREE.Group, wheels: THREE.Mesh[]) => void;
-  onProgress?: (progress: number) => void;
+  onProgress?: (progress: number, detail: LoadProgress) => void;
   onError?: (error: Error) => void;
   onLogoCreated?: (logoPlane: THREE.Mesh) => void;
 }
@@ -23,6 +28,7 @@ interface TruckModelProps {
  * 
  * Loads and processes a GLB truck model with:
  * - DRACO compression support
+ * - Progressive LOD streaming (low → medium → high, crossfaded swaps)
  * - Automatic wheel detection and centering
  * - Material application (glass, logo, fuel tank, etc.)
  * - Edge line rendering
@@ -36,7 +42,10 @@ interface TruckModelProps {
  * @param scale - Model scale (default: 1.50)
  * @param lightGrayMaterial - Material for truck body
  * @param edgeMaterial - Material for edge lines
- * @param onLoad - Callback when model loads (receives model and wheels array)
+ * @param edges - Render edge lines (default: true); can change at runtime
+ * @param onLoad - Callback when model loads (receives model and wheels array);
+ *   called again for each finer LOD level that replaces it
+ * @param onProgress - Download progress of the first level (percentage, plus bytes)
  * @param onError - Callback on loading error
  */
 export const TruckModel = ({
@@ -48,6 +57,7 @@ export const TruckModel = ({
   scale = 1.50,
   lightGrayMaterial,
   edgeMaterial,
+  edges = true,
   onLoad,
   onProgress,
   onError,
@@ -57,6 +67,7 @@ export const TruckModel = ({
   const wheelsRef = useRef<THREE.Mesh[]>([]);
   const loadedRef = useRef(false); // Prevent double-loading in React Strict Mode
   const logoPlaneRef = useRef<THREE.Mesh | null>(null);
+  const cancelFadeRef = useRef<(() => void) | null>(null); // Finishes an in-progress LOD crossfade
 
   useEffect(() => {
     console.log('🔧 TruckModel useEffect triggered');
@@ -75,125 +86,140 @@ export const TruckModel = ({
     loadedRef.current = true;
 
     let mounted = true;
+    const loadStart = performance.now();
 
     console.log('🚀 Loading GLB model with AssetLoader:', modelPath);
     console.log('   - Position:', position);
     console.log('   - Rotation:', rotation);
     console.log('   - Scale:', scale);
 
-    // Load model using shared AssetLoader with retry logic
+    // Mesh processing shared by every LOD level, so wheels and materials match
+    const prepareModel = (model: THREE.Group): THREE.Mesh[] => {
+      // Apply transformations AFTER model is fully loaded
+      console.log('🔄 Applying transformations...');
+      model.rotation.set(...rotation);
+      model.position.set(...position);
+      model.scale.set(scale, scale, scale);
+      console.log('✓ Transformations applied');
+      
+      // Process all meshes
+      console.log('🔍 Processing meshes...');
+      const wheels: THREE.Mesh[] = [];
+      let meshCount = 0;
+      
+      model.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          meshCount++;
+          const nameLower = child.name.toLowerCase();
+          
+          // CENTER ALL WHEEL MESHES for proper rotation
+          if (nameLower.includes('wheel')) {
+            child.geometry.computeBoundingBox();
+            const bbox = child.geometry.boundingBox;
+            if (bbox) {
+              const center = new THREE.Vector3();
+              bbox.getCenter(center);
+              
+              // Translate geometry to center it at origin
+              child.geometry.translate(-center.x, -center.y, -center.z);
+              
+              // Adjust mesh position to compensate
+              child.position.add(center);
+              
+              // Add to wheels array for rotation
+              wheels.push(child);
+            }
+          }
+          
+          // Dispose old materials
+          if (child.material) {
+            if (Array.isArray(child.material)) {
+              child.material.forEach(mat => mat.dispose());
+            } else {
+              child.material.dispose();
+            }
+          }
+          
+          // Apply materials based on mesh type
+          applyMaterialToMesh(child, lightGrayMaterial, edgeMaterial, (logoPlane) => {
+            // A coarser level's logo may finish after the swap - only report the live one
+            if (modelRef.current !== model) return;
+            logoPlaneRef.current = logoPlane;
+            if (onLogoCreated) {
+              onLogoCreated(logoPlane);
+            }
+          });
+        }
+      });
+      
+      console.log(`✓ Processed ${meshCount} meshes, found ${wheels.length} wheels`);
+      return wheels;
+    };
+    
+    // Show a level: first one is added directly, later ones crossfade in
+    const handleLevel = ({ model, level, levelCount, isFinal, path }: LODLevel) => {
+      // RUM: time to first visible truck and to full detail
+      const elapsed = performance.now() - loadStart;
+      if (level === 0) {
+        performanceMonitor.recordMetric('glb-first-level', elapsed);
+      }
+      if (isFinal) {
+        performanceMonitor.recordMetric('glb-load', elapsed);
+        performanceMonitor.trackResourceLoad(path, elapsed);
+      }
+
+      if (!mounted) {
+        console.warn('⚠️ Component unmounted, discarding LOD', level);
+        disposeModel(model, lightGrayMaterial, edgeMaterial);
+        return;
+      }
+      
+      console.log(`📦 GLB level ${level + 1}/${levelCount} loaded`);
+      console.log('   - Model children count:', model.children.length);
+      
+      const wheels = prepareModel(model);
+      const previous = modelRef.current;
+      const previousWheels = wheelsRef.current;
+      
+      // Store references before the logo texture resolves (see prepareModel)
+      wheelsRef.current = wheels;
+      modelRef.current = model;
+      
+      // Add to truck group
+      console.log('➕ Adding model to truck group...');
+      truckGroup.add(model);
+      
+      if (previous) {
+        cancelFadeRef.current?.();
+        cancelFadeRef.current = crossfadeModels(previous, previousWheels, wheels, () => {
+          truckGroup.remove(previous);
+          disposeModel(previous, lightGrayMaterial, edgeMaterial);
+          cancelFadeRef.current = null;
+        });
+      }
+      
+      console.log('✅ Model loaded and added to scene successfully!');
+      
+      // Callback (again for every finer level, so wheel/model refs follow the swap)
+      if (onLoad) {
+        console.log('📞 Calling onLoad callback');
+        onLoad(model, wheels);
+      }
+    };
+    
+    // Stream the model coarse-to-fine using the shared AssetLoader
     const loadModel = async () => {
       try {
-        const model = await loadAssetWithRetry(
-          () => sharedAssetLoader.loadGLB(
-            modelPath,
-            (progress) => {
-              if (onProgress) {
-                onProgress(progress.percentage);
-              }
-              console.log(`📥 Loading progress: ${progress.percentage.toFixed(1)}% (${progress.loaded}/${progress.total} bytes)`);
-            }
-          ),
+        await sharedAssetLoader.loadGLBProgressive(
           modelPath,
-          3
-        );
-        
-        // Check if component is still mounted
-        if (!mounted) {
-          console.warn('⚠️ Component unmounted, aborting');
-          return;
-        }
-        
-        console.log('📦 GLB file loaded successfully');
-        console.log('   - Model children count:', model.children.length);
-        console.log('   - Model children count:', model.children.length);
-        console.log('   - Model bounding box:', model);
-        
-        // Apply transformations AFTER model is fully loaded
-        console.log('🔄 Applying transformations...');
-        model.rotation.set(...rotation);
-        model.position.set(...position);
-        model.scale.set(scale, scale, scale);
-        console.log('✓ Transformations applied');
-        
-        // Process all meshes
-        console.log('🔍 Processing meshes...');
-        const wheels: THREE.Mesh[] = [];
-        let meshCount = 0;
-        
-        model.traverse((child) => {
-          if (child instanceof THREE.Mesh) {
-            meshCount++;
-            const nameLower = child.name.toLowerCase();
-            
-            // CENTER ALL WHEEL MESHES for proper rotation
-            if (nameLower.includes('wheel')) {
-              child.geometry.computeBoundingBox();
-              const bbox = child.geometry.boundingBox;
-              if (bbox) {
-                const center = new THREE.Vector3();
-                bbox.getCenter(center);
-                
-                // Translate geometry to center it at origin
-                child.geometry.translate(-center.x, -center.y, -center.z);
-                
-                // Adjust mesh position to compensate
-                child.position.add(center);
-                
-                // Add to wheels array for rotation
-                wheels.push(child);
-              }
-            }
-            
-            // Dispose old materials
-            if (child.material) {
-              if (Array.isArray(child.material)) {
-                child.material.forEach(mat => mat.dispose());
-              } else {
-                child.material.dispose();
-              }
+          handleLevel,
+          (progress) => {
+            if (onProgress) {
+              onProgress(progress.percentage, progress);
             }
-            
-            // Apply materials based on mesh type
-            applyMaterialToMesh(child, lightGrayMaterial, edgeMaterial, (logoPlane) => {
-              logoPlaneRef.current = logoPlane;
-              if (onLogoCreated) {
-                onLogoCreated(logoPlane);
-              }
-            });
+            console.log(`📥 Loading progress: ${progress.percentage.toFixed(1)}% (${progress.loaded}/${progress.total} bytes)`);
           }
-        });
-        
-        console.log(`✓ Processed ${meshCount} meshes, found ${wheels.length} wheels`);
-        
-        // Check if still mounted before adding to scene
-        if (!mounted) {
-          console.warn('⚠️ Component unmounted before adding to scene');
-          return;
-        }
-        
-        // Store wheels reference
-        wheelsRef.current = wheels;
-        console.log('✓ Wheels stored in ref');
-        
-        // Store model reference
-        modelRef.current = model;
-        console.log('✓ Model stored in ref');
-        
-        // Add to truck group
-        console.log('➕ Adding model to truck group...');
-        console.log('   - Truck group children before:', truckGroup.children.length);
-        truckGroup.add(model);
-        console.log('   - Truck group children after:', truckGroup.children.length);
-        console.log('   - Model world position:', model.getWorldPosition(new THREE.Vector3()));
-        
-        console.log('✅ Model loaded and added to scene successfully!');
-        
-        // Callback
-        if (onLoad) {
-          console.log('📞 Calling onLoad callback');
-          onLoad(model, wheels);
-        }
+        );
       } catch (error) {
         const err = error as Error;
         console.error('❌ Failed to load model:', err);
@@ -215,6 +241,9 @@ export const TruckModel = ({
       mounted = false;
       loadedRef.current = false; // Reset so it can load again if remounted
       
+      // Finishing the fade removes and disposes the outgoing level
+      cancelFadeRef.current?.();
+      
       if (modelRef.current) {
         console.log('   - Removing model from truck group');
         truckGroup.remove(modelRef.current);
@@ -230,6 +259,7 @@ export const TruckModel = ({
             }
           }
         });
+        modelRef.current = null;
       }
       
       console.log('✓ Cleanup complete (shared AssetLoader remains active)');
@@ -237,9 +267,111 @@ export const TruckModel = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scene, truckGroup, modelPath]);
 
+  // Every LOD level's edge lines share edgeMaterial, so hiding it covers
+  // the live level, one still fading out and any level streamed in later
+  useEffect(() => {
+    edgeMaterial.visible = edges;
+  }, [edgeMaterial, edges]);
+
   return null; // This is a Three.js component, no DOM rendering
 };
 
+/**
+ * Fade out the previous LOD level over the new one, then call `onDone`
+ * 
+ * The incoming level is already in place (opaque), so fading the outgoing
+ * one on top hides the geometry change. Outgoing meshes get transparent
+ * copies of their materials, since the body material is shared with the
+ * incoming level. Outgoing wheels follow the incoming ones while visible.
+ * 
+ * @returns Function that ends the fade immediately (calls `onDone`)
+ * @private
+ */
+function crossfadeModels(
+  outgoing: THREE.Group,
+  outgoingWheels: THREE.Mesh[],
+  incomingWheels: THREE.Mesh[],
+  onDone: () => void
+): () => void {
+  const fading: { material: THREE.Material; opacity: number }[] = [];
+  const originals = new Map<THREE.Mesh | THREE.LineSegments, THREE.Material | THREE.Material[]>();
+  
+  outgoing.traverse((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.LineSegments)) return;
+    
+    originals.set(child, child.material);
+    const fade = (material: THREE.Material) => {
+      const copy = material.clone();
+      copy.transparent = true;
+      copy.depthWrite = false;
+      fading.push({ material: copy, opacity: material.opacity });
+      return copy;
+    };
+    child.material = Array.isArray(child.material) ? child.material.map(fade) : fade(child.material);
+  });
+  
+  // Match wheels by name so the outgoing ones keep turning with the new ones
+  const wheelPairs = outgoingWheels
+    .map((wheel) => [wheel, incomingWheels.find((w) => w.name === wheel.name)] as const)
+    .filter((pair): pair is readonly [THREE.Mesh, THREE.Mesh] => pair[1] !== undefined);
+  wheelPairs.forEach(([from, to]) => to.rotation.copy(from.rotation));
+  
+  const start = performance.now();
+  let frameId = 0;
+  let finished = false;
+  
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    cancelAnimationFrame(frameId);
+    
+    // Put the real materials back so onDone can dispose them
+    originals.forEach((material, child) => {
+      child.material = material;
+    });
+    fading.forEach(({ material }) => material.dispose());
+    onDone();
+  };
+  
+  const tick = () => {
+    const t = Math.min((performance.now() - start) / LOD_FADE_DURATION, 1);
+    fading.forEach((entry) => {
+      entry.material.opacity = entry.opacity * (1 - t);
+    });
+    wheelPairs.forEach(([from, to]) => from.rotation.copy(to.rotation));
+    
+    if (t < 1) {
+      frameId = requestAnimationFrame(tick);
+    } else {
+      finish();
+    }
+  };
+  frameId = requestAnimationFrame(tick);
+  
+  return finish;
+}
+
+/**
+ * Dispose a replaced LOD level
+ * Shared body/edge materials and cached textures stay alive for the live level
+ * @private
+ */
+function disposeModel(
+  model: THREE.Group,
+  lightGrayMat: THREE.MeshStandardMaterial,
+  edgeMat: THREE.LineBasicMaterial
+): void {
+  model.traverse((child) => {
+    if (!(child instanceof THREE.Mesh || child instanceof THREE.LineSegments)) return;
+    
+    child.geometry?.dispose();
+    const materials = Array.isArray(child.material) ? child.material : [child.material];
+    materials
+      .filter((mat) => mat !== lightGrayMat && mat !== edgeMat)
+      .forEach((mat) => mat.dispose());
+  });
+}
+
 /**
  * Apply material to mesh based on its type
  * @private
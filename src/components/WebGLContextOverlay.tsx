@@ -0,0 +1,62 @@
+/**
+ * WebGLContextOverlay - Status overlay shown while the WebGL context is lost
+ *
+ * Displayed over the paused canvas while WebGLContextHandler waits for the
+ * browser to restore the context. Once the handler gives up, render
+ * `WebGLContextFailure` inside `ThreeJSErrorBoundary` to hand over to the
+ * boundary's fallback UI.
+ *
+ * @example
+ * ```typescript
+ * <ThreeJSErrorBoundary>
+ *   {webglStatus === 'failed' && <WebGLContextFailure attempts={3} />}
+ *   <WebGLContextOverlay status={webglStatus} />
+ * </ThreeJSErrorBoundary>
+ * ```
+ */
+
+import { WebGLContextError } from '../utils/errors';
+import { useI18n } from '../i18n/useI18n';
+
+export type WebGLContextStatus = 'ok' | 'lost' | 'restoring' | 'failed';
+
+interface WebGLContextOverlayProps {
+  status: WebGLContextStatus;
+}
+
+export const WebGLContextOverlay: React.FC<WebGLContextOverlayProps> = ({ status }) => {
+  const { t } = useI18n();
+
+  if (status !== 'lost' && status !== 'restoring') {
+    return null;
+  }
+
+  return (
+    <div className="webgl-context-overlay" role="status" aria-live="polite">
+      <div className="webgl-context-overlay-content">
+        <div className="loading-spinner" />
+        <p className="webgl-context-overlay-title">
+          {t(status === 'lost' ? 'webgl.lostTitle' : 'webgl.restoringTitle')}
+        </p>
+        <p className="webgl-context-overlay-text">
+          {t(status === 'lost' ? 'webgl.lostText' : 'webgl.restoringText')}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface WebGLContextFailureProps {
+  attempts: number;
+}
+
+/**
+ * Throws during render so the surrounding ThreeJSErrorBoundary shows its fallback
+ */
+export const WebGLContextFailure: React.FC<WebGLContextFailureProps> = ({ attempts }) => {
+  throw new WebGLContextError('WebGL context could not be restored', {
+    contextType: 'lost',
+    canRecover: false,
+    restoreAttempts: attempts
+  });
+};
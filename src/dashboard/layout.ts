@@ -0,0 +1,240 @@
+/**
+ * Dashboard Layout
+ *
+ * Loads and validates telematics display layouts and turns them into widgets.
+ * A layout divides the display below the header into a grid; each widget
+ * names its slot, type, bound TelematicsData field, thresholds and colors.
+ *
+ * Layouts are picked with the `?dashboard=` URL parameter:
+ * - `?dashboard=default` - built-in layout (src/config/dashboardLayout.json)
+ * - `?dashboard=/layouts/compact.json` - layout JSON file
+ *
+ * @example
+ * ```typescript
+ * const layout = await loadDashboardLayout(getDashboardLayoutSpecFromURL());
+ * if (layout) telematicsDashboard.setLayout(layout);
+ * ```
+ */
+
+import defaultLayoutJson from '../config/dashboardLayout.json';
+import type { DashboardRect, DashboardWidget } from '../textures/types';
+import { ConfigurationError } from '../utils/errors';
+import type { DashboardLayout, DashboardThreshold, ScaleValue, WidgetConfig } from './types';
+import { createHeaderWidget, createWidget } from './widgets';
+
+const defaultLayout = defaultLayoutJson as unknown as DashboardLayout;
+
+/** Dashboard layout size - widgets draw in these units at any canvas resolution */
+export const DASHBOARD_WIDTH = 2048;
+export const DASHBOARD_HEIGHT = 1024;
+
+/** Header strip; the grid starts just below it */
+const HEADER_BOUNDS: DashboardRect = { x: 0, y: 0, width: DASHBOARD_WIDTH, height: 204 };
+const GRID_TOP_WITH_HEADER = 210;
+
+const WIDGET_TYPES = ['gauge', 'bar', 'sparkline', 'status', 'alert'];
+const NUMERIC_FIELDS = [
+  'speed',
+  'fuelLevel',
+  'batteryLevel',
+  'temperature',
+  'range',
+  'heading',
+  'odometer',
+  'engineHours',
+  'rpm',
+  'coolantTemperature',
+  'tankCapacity',
+  'probeTemperature',
+  'fuelVolume'
+];
+const BOOLEAN_FIELDS = ['ecoMode', 'sensorFault', 'gpsFix', 'ignition'];
+const FIELDS = [...NUMERIC_FIELDS, ...BOOLEAN_FIELDS, 'time'];
+const FORMATS = ['percent', 'number', 'speed', 'distance', 'volume', 'temperature', 'pressure'];
+
+/**
+ * Validate a layout
+ *
+ * @param layout - Parsed layout JSON
+ * @param configPath - Where the layout came from (for error context)
+ * @throws ConfigurationError describing the first problem found
+ */
+export function validateDashboardLayout(layout: DashboardLayout, configPath?: string): void {
+  const fail = (message: string, details: Record<string, any> = {}): never => {
+    throw new ConfigurationError(`Invalid dashboard layout: ${message}`, {
+      configType: 'dashboard',
+      configPath,
+      ...details
+    });
+  };
+
+  if (!layout || typeof layout.id !== 'string' || !Array.isArray(layout.widgets)) {
+    fail('id and widgets are required');
+  }
+
+  const { columns, rows } = layout.grid ?? {};
+  if (!Number.isInteger(columns) || !Number.isInteger(rows) || columns < 1 || rows < 1) {
+    fail('grid needs whole columns and rows >= 1', { layoutId: layout.id });
+  }
+
+  const ids = new Set<string>();
+
+  layout.widgets.forEach((widget: WidgetConfig, index) => {
+    const at = (message: string) => fail(`widget ${index} ${message}`, { layoutId: layout.id, index });
+
+    if (!widget || typeof widget.id !== 'string' || !widget.id) at('needs an id');
+    if (ids.has(widget.id)) at(`reuses id "${widget.id}"`);
+    ids.add(widget.id);
+
+    if (!WIDGET_TYPES.includes(widget.type)) at(`has unknown type "${widget.type}"`);
+
+    const { column, row, columnSpan = 1, rowSpan = 1 } = widget.slot ?? {};
+    if (
+      ![column, row, columnSpan, rowSpan].every(Number.isInteger) ||
+      column < 0 || row < 0 || columnSpan < 1 || rowSpan < 1 ||
+      column + columnSpan > columns || row + rowSpan > rows
+    ) {
+      at(`slot is outside the ${columns}x${rows} grid`);
+    }
+
+    if (widget.color !== undefined && typeof widget.color !== 'string') at('color must be a string');
+
+    switch (widget.type) {
+      case 'gauge':
+      case 'bar':
+      case 'sparkline':
+        if (!NUMERIC_FIELDS.includes(widget.field)) at(`binds unknown numeric field "${widget.field}"`);
+        if (widget.format !== undefined && !FORMATS.includes(widget.format)) at(`has unknown format "${widget.format}"`);
+        if (widget.type !== 'sparkline' && widget.max === undefined) at('needs max');
+        if (!isScaleValue(widget.min) || !isScaleValue(widget.max)) at('min / max must be numbers or { metric, imperial }');
+        if (!areThresholds(widget.thresholds)) at('thresholds need a color and above / below numbers');
+        if (widget.type !== 'gauge' && typeof widget.label !== 'string') at('needs a label');
+        break;
+      case 'status':
+        if (!Array.isArray(widget.items) || widget.items.length === 0) at('needs items');
+        widget.items.forEach((item, itemIndex) => {
+          const sources = [item.text, item.field, item.value].filter((source) => source !== undefined);
+          if (typeof item.label !== 'string' || sources.length !== 1) {
+            at(`item ${itemIndex} needs a label and one of text / field / value`);
+          }
+          if (item.field !== undefined && !FIELDS.includes(item.field)) at(`item ${itemIndex} binds unknown field "${item.field}"`);
+          if (item.field !== undefined && BOOLEAN_FIELDS.includes(item.field) && !(item.states?.true?.text && item.states?.false?.text)) {
+            at(`item ${itemIndex} needs true / false states for "${item.field}"`);
+          }
+          if (item.format !== undefined && !FORMATS.includes(item.format)) at(`item ${itemIndex} has unknown format "${item.format}"`);
+          if (!areThresholds(item.thresholds)) at(`item ${itemIndex} thresholds need a color and above / below numbers`);
+        });
+        break;
+    }
+
+    if (widget.type === 'gauge' && widget.caption) {
+      if (typeof widget.caption.label !== 'string' || !NUMERIC_FIELDS.includes(widget.caption.field)) {
+        at('caption needs a label and a numeric field');
+      }
+    }
+    if (widget.type === 'sparkline' && (!((widget.interval ?? 1) > 0) || !((widget.points ?? 60) >= 2))) {
+      at('needs interval > 0 and points >= 2');
+    }
+  });
+}
+
+/**
+ * Read the requested layout from the URL (`?dashboard=`)
+ */
+export function getDashboardLayoutSpecFromURL(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('dashboard');
+}
+
+/**
+ * Built-in layout (src/config/dashboardLayout.json)
+ */
+export function getDefaultDashboardLayout(): DashboardLayout {
+  return defaultLayout;
+}
+
+/**
+ * Load a layout from a spec
+ *
+ * @param spec - Built-in layout id or URL of a layout JSON file
+ * @returns Layout, or null when none is requested
+ * @throws ConfigurationError for unknown ids or invalid JSON
+ */
+export async function loadDashboardLayout(spec: string | null | undefined): Promise<DashboardLayout | null> {
+  const value = spec?.trim();
+  if (!value) return null;
+
+  if (value.endsWith('.json')) {
+    let layout: DashboardLayout;
+    try {
+      const response = await fetch(value);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      layout = await response.json();
+    } catch (error) {
+      throw new ConfigurationError(`Failed to load dashboard layout from ${value}`, {
+        configType: 'dashboard',
+        configPath: value,
+        originalError: error as Error
+      });
+    }
+
+    validateDashboardLayout(layout, value);
+    return layout;
+  }
+
+  if (value !== defaultLayout.id) {
+    throw new ConfigurationError(`Unknown dashboard layout "${value}"`, {
+      configType: 'dashboard',
+      configPath: 'src/config/dashboardLayout.json',
+      available: [defaultLayout.id]
+    });
+  }
+
+  return defaultLayout;
+}
+
+/**
+ * Build the widgets of a layout in paint order (header first)
+ *
+ * @param layout - Validated layout
+ */
+export function createDashboardWidgets(layout: DashboardLayout): DashboardWidget[] {
+  const header = layout.header ?? true;
+  const top = header ? GRID_TOP_WITH_HEADER : 0;
+  const cellWidth = DASHBOARD_WIDTH / layout.grid.columns;
+  const cellHeight = (DASHBOARD_HEIGHT - top) / layout.grid.rows;
+
+  const widgets = layout.widgets.map((config) => {
+    const { column, row, columnSpan = 1, rowSpan = 1 } = config.slot;
+    return createWidget(config, {
+      x: column * cellWidth,
+      y: top + row * cellHeight,
+      width: columnSpan * cellWidth,
+      height: rowSpan * cellHeight
+    });
+  });
+
+  return header ? [createHeaderWidget(HEADER_BOUNDS), ...widgets] : widgets;
+}
+
+/**
+ * @private
+ */
+function isScaleValue(value: ScaleValue | undefined): boolean {
+  if (value === undefined || typeof value === 'number') return true;
+  return typeof value === 'object' && typeof value.metric === 'number' && typeof value.imperial === 'number';
+}
+
+/**
+ * @private
+ */
+function areThresholds(thresholds: DashboardThreshold[] | undefined): boolean {
+  if (thresholds === undefined) return true;
+  return Array.isArray(thresholds) && thresholds.every((threshold) =>
+    typeof threshold.color === 'string' &&
+    (threshold.above === undefined || typeof threshold.above === 'number') &&
+    (threshold.below === undefined || typeof threshold.below === 'number')
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Dashboard Type Definitions
+ *
+ * Type definitions for the telematics display layout
+ * (see src/config/dashboardLayout.json)
+ */
+
+import type { UnitKind, UnitSystem } from '../i18n/types';
+
+/**
+ * Numeric dashboard values (gauges, bars, sparklines) - TelematicsData
+ * fields plus the derived fuelVolume (see DashboardValues)
+ */
+export type NumericField =
+  | 'speed'
+  | 'fuelLevel'
+  | 'batteryLevel'
+  | 'temperature'
+  | 'range'
+  | 'heading'
+  | 'odometer'
+  | 'engineHours'
+  | 'rpm'
+  | 'coolantTemperature'
+  | 'tankCapacity'
+  | 'probeTemperature'
+  | 'fuelVolume';
+
+/**
+ * Dashboard values a status row can bind to (booleans include the derived gpsFix and ignition)
+ */
+export type DashboardField = NumericField | 'time' | 'ecoMode' | 'sensorFault' | 'gpsFix' | 'ignition';
+
+/**
+ * How a numeric value is shown
+ * - percent: 0-1 value as "65%"
+ * - number:  plain number
+ * - speed / distance / volume / temperature / pressure: converted to the
+ *   visitor's units with the unit label (see src/i18n/units.ts)
+ */
+export type ValueFormat = 'percent' | 'number' | UnitKind;
+
+/**
+ * Scale end: a metric value (converted for display), or display values per unit system
+ */
+export type ScaleValue = number | Record<UnitSystem, number>;
+
+/**
+ * Color override when the bound value is above / below a limit (metric units)
+ * The first matching threshold wins.
+ */
+export interface DashboardThreshold {
+  above?: number;
+  below?: number;
+  color: string;
+}
+
+/**
+ * Grid cell(s) a widget occupies, zero-based
+ */
+export interface GridSlot {
+  column: number;
+  row: number;
+  /** Columns covered (default: 1) */
+  columnSpan?: number;
+  /** Rows covered (default: 1) */
+  rowSpan?: number;
+}
+
+interface BaseWidgetConfig {
+  /** Unique widget id */
+  id: string;
+  slot: GridSlot;
+  /** Accent color (default: Translink crimson #be202e) */
+  color?: string;
+}
+
+/**
+ * Secondary line under a gauge, e.g. "RANGE 443 KM"
+ */
+export interface GaugeCaption {
+  /** Catalog key with a {value} placeholder */
+  label: string;
+  field: NumericField;
+  format?: ValueFormat;
+}
+
+/**
+ * Gauge
+ * - arc:  segmented 290° arc with ticks and a large readout (speedometer)
+ * - ring: circular progress ring with the value in the middle (fuel gauge)
+ */
+export interface GaugeWidgetConfig extends BaseWidgetConfig {
+  type: 'gauge';
+  /** Look (default: 'ring') */
+  style?: 'arc' | 'ring';
+  field: NumericField;
+  /** Scale start (default: 0) */
+  min?: ScaleValue;
+  max: ScaleValue;
+  /** Value format (default: 'number') */
+  format?: ValueFormat;
+  /** Catalog key of the label */
+  label?: string;
+  caption?: GaugeCaption;
+  thresholds?: DashboardThreshold[];
+}
+
+/**
+ * Horizontal bar with label and value
+ */
+export interface BarWidgetConfig extends BaseWidgetConfig {
+  type: 'bar';
+  field: NumericField;
+  min?: ScaleValue;
+  max: ScaleValue;
+  format?: ValueFormat;
+  label: string;
+  thresholds?: DashboardThreshold[];
+}
+
+/**
+ * Line chart of a field's recent history
+ */
+export interface SparklineWidgetConfig extends BaseWidgetConfig {
+  type: 'sparkline';
+  field: NumericField;
+  label: string;
+  format?: ValueFormat;
+  /** Seconds between samples (default: 1) */
+  interval?: number;
+  /** Samples kept (default: 60) */
+  points?: number;
+  /** Fixed vertical scale (default: fitted to the samples) */
+  min?: ScaleValue;
+  max?: ScaleValue;
+  /** Colors the line by the latest value */
+  thresholds?: DashboardThreshold[];
+}
+
+/**
+ * Value shown for a boolean field
+ */
+export interface StatusState {
+  /** Catalog key */
+  text: string;
+  color?: string;
+}
+
+/**
+ * One row of a status list: a label and exactly one of text / field / value
+ */
+export interface StatusItemConfig {
+  /** Catalog key of the label */
+  label: string;
+  /** Fixed value text (catalog key) */
+  text?: string;
+  /** Bound field - booleans use `states`, numbers `format` */
+  field?: DashboardField;
+  /** Fixed number (metric units) */
+  value?: number;
+  format?: ValueFormat;
+  /** Fraction digits for numbers (default: 0) */
+  decimals?: number;
+  /** Text per boolean value (required for boolean fields) */
+  states?: { true: StatusState; false: StatusState };
+  thresholds?: DashboardThreshold[];
+  /** Value color (default: white for numbers, accent for text) */
+  color?: string;
+}
+
+/**
+ * Framed list of label / value rows
+ */
+export interface StatusWidgetConfig extends BaseWidgetConfig {
+  type: 'status';
+  /** Catalog key of the title */
+  title?: string;
+  items: StatusItemConfig[];
+}
+
+/**
+ * Banner for the current TelematicsData alert (hidden when there is none)
+ */
+export interface AlertWidgetConfig extends BaseWidgetConfig {
+  type: 'alert';
+}
+
+export type WidgetConfig =
+  | GaugeWidgetConfig
+  | BarWidgetConfig
+  | SparklineWidgetConfig
+  | StatusWidgetConfig
+  | AlertWidgetConfig;
+
+export type WidgetType = WidgetConfig['type'];
+
+/**
+ * Telematics display layout
+ *
+ * The grid fills the display below the header. Slots may overlap; later
+ * widgets paint over earlier ones (e.g. an alert banner over sparklines).
+ */
+export interface DashboardLayout {
+  /** Unique layout identifier */
+  id: string;
+  /** Display name - optional */
+  name?: string;
+  grid: {
+    columns: number;
+    rows: number;
+  };
+  /** Branding, time and ambient temperature across the top (default: true) */
+  header?: boolean;
+  widgets: WidgetConfig[];
+}
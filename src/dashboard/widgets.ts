@@ -0,0 +1,878 @@
+/**
+ * Dashboard Widgets
+ *
+ * Canvas renderers for the widget types in a dashboard layout. Each config
+ * becomes a DashboardWidget (see src/textures/types.ts) that draws inside its
+ * grid slot and reports a key of what it shows, so TelematicsDashboard only
+ * repaints widgets whose pixels changed.
+ *
+ * Gauges, status lists and the alert banner are drawn at a fixed design size
+ * and scaled to fit their slot; bars and sparklines stretch to fill it.
+ *
+ * @example
+ * ```typescript
+ * const widget = createWidget(
+ *   { id: 'fuel', type: 'gauge', field: 'fuelLevel', max: 1, format: 'percent', slot },
+ *   { x: 0, y: 210, width: 512, height: 407 }
+ * );
+ * widget.draw(ctx, values, false);
+ * ```
+ */
+
+import { i18n } from '../i18n/I18n';
+import type { DashboardRect, DashboardValues, DashboardWidget, TelematicsAlert } from '../textures/types';
+import type {
+  AlertWidgetConfig,
+  BarWidgetConfig,
+  DashboardThreshold,
+  GaugeWidgetConfig,
+  ScaleValue,
+  SparklineWidgetConfig,
+  StatusItemConfig,
+  StatusWidgetConfig,
+  ValueFormat,
+  WidgetConfig
+} from './types';
+
+/** Translink crimson */
+const ACCENT = '#be202e';
+const MUTED = '#6c6c6c';
+
+/**
+ * Alert banner colors by severity
+ */
+const ALERT_COLORS: Record<TelematicsAlert['severity'], string> = {
+  info: '#209771',
+  warning: '#f59e0b',
+  critical: '#be202e'
+};
+
+/** Segments in the arc gauge */
+const ARC_SEGMENTS = 20;
+
+/** Ring / bar redraw resolution (steps over the full scale, ~1px) */
+const RING_STEPS = 1000;
+const BAR_STEPS = 500;
+
+/**
+ * Create the renderer for one layout widget
+ *
+ * @param config - Validated widget config
+ * @param bounds - Grid slot in layout units
+ */
+export function createWidget(config: WidgetConfig, bounds: DashboardRect): DashboardWidget {
+  switch (config.type) {
+    case 'gauge':
+      return config.style === 'arc' ? createArcGauge(config, bounds) : createRingGauge(config, bounds);
+    case 'bar':
+      return createBar(config, bounds);
+    case 'sparkline':
+      return createSparkline(config, bounds);
+    case 'status':
+      return createStatusList(config, bounds);
+    case 'alert':
+      return createAlertBanner(config, bounds);
+  }
+}
+
+/**
+ * Header bar: branding, time and ambient temperature
+ *
+ * @param bounds - Top strip in layout units
+ */
+export function createHeaderWidget(bounds: DashboardRect): DashboardWidget {
+  return {
+    id: 'header',
+    bounds,
+    key: ({ temperature, time }) => `${time}|${i18n.formatUnit('temperature', temperature)}`,
+    draw: (ctx, { temperature, time }, rtl) => drawHeader(ctx, bounds, temperature, time, rtl)
+  };
+}
+
+// ============================================
+// GAUGES
+// ============================================
+
+/**
+ * Segmented arc gauge with ticks, large readout, label and caption (speedometer)
+ * @private
+ */
+function createArcGauge(config: GaugeWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  const format = config.format ?? 'number';
+
+  const state = (values: DashboardValues) => {
+    const value = values[config.field];
+    const min = resolveScale(config.min ?? 0, format);
+    const max = resolveScale(config.max, format);
+    const display = toDisplay(value, format);
+    const fraction = (display - min) / (max - min);
+    let lit = 0;
+    for (let i = 0; i < ARC_SEGMENTS; i++) {
+      if (fraction > (i + 1) / ARC_SEGMENTS - 0.05) lit++;
+    }
+    return {
+      min,
+      max,
+      lit,
+      readout: Math.round(display).toString(),
+      caption: captionText(config, values),
+      color: thresholdColor(value, config.thresholds, config.color ?? ACCENT)
+    };
+  };
+
+  return {
+    id: config.id,
+    bounds,
+    key: (values) => {
+      const { lit, readout, caption, color } = state(values);
+      return `${lit}|${readout}|${caption}|${color}`;
+    },
+    draw: (ctx, values) => {
+      const { min, max, lit, readout, caption, color } = state(values);
+      inDesignSpace(ctx, bounds, 980, 980, () => {
+        drawArcGauge(ctx, { min, max, lit, readout, caption, color, unit: unitText(format), label: config.label });
+      });
+    }
+  };
+}
+
+/**
+ * Circular progress ring with the value in the middle (fuel gauge)
+ * @private
+ */
+function createRingGauge(config: GaugeWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  const format = config.format ?? 'number';
+
+  const state = (values: DashboardValues) => {
+    const value = values[config.field];
+    return {
+      fraction: scaleFraction(value, config.min, config.max, format),
+      readout: formatValue(value, format),
+      caption: captionText(config, values),
+      color: thresholdColor(value, config.thresholds, config.color ?? ACCENT)
+    };
+  };
+
+  return {
+    id: config.id,
+    bounds,
+    key: (values) => {
+      const { fraction, readout, caption, color } = state(values);
+      return `${Math.round(fraction * RING_STEPS)}|${readout}|${caption}|${color}`;
+    },
+    draw: (ctx, values) => {
+      const { fraction, readout, caption, color } = state(values);
+      inDesignSpace(ctx, bounds, 440, 480, () => {
+        drawRingGauge(ctx, { fraction, readout, caption, color, label: config.label });
+      });
+    }
+  };
+}
+
+/**
+ * @private
+ */
+function drawArcGauge(
+  ctx: CanvasRenderingContext2D,
+  gauge: { min: number; max: number; lit: number; readout: string; caption: string; color: string; unit: string; label?: string }
+): void {
+  const mainRadius = 400;
+
+  // === OUTER GLOW RING ===
+  ctx.strokeStyle = 'rgba(190, 32, 46, 0.3)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(0, 0, mainRadius + 60, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.strokeStyle = 'rgba(190, 32, 46, 0.15)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(0, 0, mainRadius + 80, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // === INDICATOR ARC (Segmented with glow) ===
+  const segmentAngle = (Math.PI * 1.6) / ARC_SEGMENTS;
+  const startAngle = Math.PI * 0.7;
+
+  for (let i = 0; i < ARC_SEGMENTS; i++) {
+    const angle = startAngle + i * segmentAngle;
+
+    if (i < gauge.lit) {
+      // Active segment with glow
+      ctx.shadowColor = gauge.color;
+      ctx.shadowBlur = 20;
+      ctx.fillStyle = gauge.color;
+    } else {
+      // Inactive segment
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = 'rgba(108, 108, 108, 0.3)';
+    }
+
+    ctx.beginPath();
+    ctx.arc(0, 0, mainRadius, angle, angle + segmentAngle * 0.9);
+    ctx.arc(0, 0, mainRadius - 60, angle + segmentAngle * 0.9, angle, true);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  ctx.shadowBlur = 0;
+
+  // === TICK MARKS ===
+  ctx.strokeStyle = MUTED;
+  ctx.lineWidth = 2;
+  ctx.font = canvasFont('24px');
+  ctx.fillStyle = MUTED;
+  ctx.textAlign = 'center';
+  for (let i = 0; i <= 8; i++) {
+    const angle = startAngle + (i / 8) * (Math.PI * 1.6);
+
+    ctx.beginPath();
+    ctx.moveTo(Math.cos(angle) * (mainRadius - 70), Math.sin(angle) * (mainRadius - 70));
+    ctx.lineTo(Math.cos(angle) * (mainRadius - 90), Math.sin(angle) * (mainRadius - 90));
+    ctx.stroke();
+
+    const label = gauge.min + (i * (gauge.max - gauge.min)) / 8;
+    ctx.fillText(
+      Number(label.toFixed(1)).toString(),
+      Math.cos(angle) * (mainRadius - 120),
+      Math.sin(angle) * (mainRadius - 120) + 8
+    );
+  }
+
+  // === CENTER READOUT WITH HOLOGRAPHIC EFFECT ===
+  ctx.shadowColor = gauge.color;
+  ctx.shadowBlur = 40;
+  ctx.font = canvasFont('bold 320px');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(gauge.readout, 0, 100);
+  ctx.shadowBlur = 0;
+
+  // Unit with accent
+  ctx.font = canvasFont('bold 56px');
+  ctx.fillStyle = gauge.color;
+  ctx.fillText(gauge.unit, 0, 180);
+
+  // Hexagon frame around the readout
+  ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
+  ctx.lineWidth = 3;
+  drawHexagon(ctx, 0, 0, 280);
+
+  // Inner hexagon
+  ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
+  ctx.lineWidth = 2;
+  drawHexagon(ctx, 0, 0, 240);
+
+  if (gauge.label) {
+    ctx.font = canvasFont('bold 28px');
+    ctx.fillStyle = gauge.color;
+    ctx.fillText(i18n.t(gauge.label), 0, -280);
+  }
+
+  ctx.font = canvasFont('32px');
+  ctx.fillStyle = MUTED;
+  ctx.fillText(gauge.caption, 0, 240);
+}
+
+/**
+ * @private
+ */
+function drawRingGauge(
+  ctx: CanvasRenderingContext2D,
+  gauge: { fraction: number; readout: string; caption: string; color: string; label?: string }
+): void {
+  // Ring sits above center to leave room for the caption
+  const centerY = -30;
+  const ringRadius = 140;
+
+  // Background ring
+  ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
+  ctx.lineWidth = 20;
+  ctx.beginPath();
+  ctx.arc(0, centerY, ringRadius, 0, Math.PI * 2);
+  ctx.stroke();
+
+  // Level ring with glow
+  ctx.shadowColor = gauge.color;
+  ctx.shadowBlur = 15;
+  ctx.strokeStyle = gauge.color;
+  ctx.beginPath();
+  ctx.arc(0, centerY, ringRadius, -Math.PI / 2, (-Math.PI / 2) + (gauge.fraction * Math.PI * 2));
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+
+  // Value
+  ctx.font = canvasFont('bold 72px');
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.fillText(gauge.readout, 0, centerY + 20);
+
+  if (gauge.label) {
+    ctx.font = canvasFont('bold 28px');
+    ctx.fillStyle = MUTED;
+    ctx.fillText(i18n.t(gauge.label), 0, centerY + 60);
+  }
+
+  // Corner brackets (holographic frame)
+  ctx.strokeStyle = 'rgba(190, 32, 46, 0.6)';
+  ctx.lineWidth = 3;
+  drawCornerBrackets(ctx, -180, centerY - 180, 360, 360, 30);
+
+  // Data readout line
+  ctx.font = '20px monospace';
+  ctx.fillStyle = MUTED;
+  ctx.fillText(gauge.caption, 0, centerY + 230);
+}
+
+// ============================================
+// BAR / SPARKLINE
+// ============================================
+
+/**
+ * Horizontal bar filling its slot: label and value above the track
+ * @private
+ */
+function createBar(config: BarWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  const format = config.format ?? 'number';
+
+  const state = (values: DashboardValues) => {
+    const value = values[config.field];
+    return {
+      fraction: scaleFraction(value, config.min, config.max, format),
+      readout: formatValue(value, format),
+      color: thresholdColor(value, config.thresholds, config.color ?? ACCENT)
+    };
+  };
+
+  return {
+    id: config.id,
+    bounds,
+    key: (values) => {
+      const { fraction, readout, color } = state(values);
+      return `${Math.round(fraction * BAR_STEPS)}|${readout}|${color}`;
+    },
+    draw: (ctx, values, rtl) => {
+      const { fraction, readout, color } = state(values);
+      const area = inset(bounds, 40, 20);
+      const trackY = area.y + area.height / 2 + 10;
+      const trackHeight = 24;
+
+      drawLabelRow(ctx, area, i18n.t(config.label), readout, area.y + area.height / 2 - 20, rtl);
+
+      // Track
+      ctx.fillStyle = 'rgba(108, 108, 108, 0.3)';
+      ctx.fillRect(area.x, trackY, area.width, trackHeight);
+
+      // Fill from the reading-start side, with glow
+      const fillWidth = area.width * fraction;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 15;
+      ctx.fillStyle = color;
+      ctx.fillRect(rtl ? area.x + area.width - fillWidth : area.x, trackY, fillWidth, trackHeight);
+      ctx.shadowBlur = 0;
+    }
+  };
+}
+
+/**
+ * Line chart of recent samples filling its slot
+ * @private
+ */
+function createSparkline(config: SparklineWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  const format = config.format ?? 'number';
+  const interval = config.interval ?? 1;
+  const points = config.points ?? 60;
+  const history: number[] = [];
+  let sampleCount = 0;
+  let sinceSample = Infinity;
+
+  const state = (values: DashboardValues) => {
+    const value = values[config.field];
+    return {
+      readout: formatValue(value, format),
+      color: thresholdColor(value, config.thresholds, config.color ?? ACCENT)
+    };
+  };
+
+  return {
+    id: config.id,
+    bounds,
+    update: (values, delta) => {
+      sinceSample += delta;
+      if (sinceSample < interval) return;
+      sinceSample = 0;
+      history.push(values[config.field]);
+      if (history.length > points) history.shift();
+      sampleCount++;
+    },
+    key: (values) => {
+      const { readout, color } = state(values);
+      return `${sampleCount}|${readout}|${color}`;
+    },
+    draw: (ctx, values, rtl) => {
+      const { readout, color } = state(values);
+      const area = inset(bounds, 40, 20);
+      const chartTop = area.y + 50;
+      const chartHeight = area.height - 50;
+
+      drawLabelRow(ctx, area, i18n.t(config.label), readout, area.y + 28, rtl);
+
+      // Baseline and midline
+      ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(area.x, chartTop + chartHeight);
+      ctx.lineTo(area.x + area.width, chartTop + chartHeight);
+      ctx.moveTo(area.x, chartTop + chartHeight / 2);
+      ctx.lineTo(area.x + area.width, chartTop + chartHeight / 2);
+      ctx.stroke();
+
+      if (history.length < 2) return;
+
+      const samples = history.map((sample) => toDisplay(sample, format));
+      let min = config.min !== undefined ? resolveScale(config.min, format) : Math.min(...samples);
+      let max = config.max !== undefined ? resolveScale(config.max, format) : Math.max(...samples);
+      if (max - min < 1e-6) {
+        min -= 1;
+        max += 1;
+      }
+
+      // Oldest sample on the reading-start side
+      const step = area.width / (points - 1);
+      const startX = area.x + area.width - (samples.length - 1) * step;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 10;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      samples.forEach((sample, i) => {
+        const offset = startX + i * step - area.x;
+        const x = rtl ? area.x + area.width - offset : area.x + offset;
+        const t = Math.min(Math.max((sample - min) / (max - min), 0), 1);
+        const y = chartTop + chartHeight - t * chartHeight;
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+      ctx.shadowBlur = 0;
+    }
+  };
+}
+
+/**
+ * Label at the reading-start side, value at the other end
+ * @private
+ */
+function drawLabelRow(
+  ctx: CanvasRenderingContext2D,
+  area: DashboardRect,
+  label: string,
+  value: string,
+  baseline: number,
+  rtl: boolean
+): void {
+  const start = rtl ? area.x + area.width : area.x;
+  const end = rtl ? area.x : area.x + area.width;
+
+  ctx.font = canvasFont('bold 26px');
+  ctx.fillStyle = MUTED;
+  ctx.textAlign = rtl ? 'right' : 'left';
+  ctx.fillText(label, start, baseline);
+
+  ctx.font = 'bold 32px monospace';
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = rtl ? 'left' : 'right';
+  ctx.fillText(value, end, baseline);
+}
+
+// ============================================
+// STATUS LIST
+// ============================================
+
+/**
+ * Framed label / value list (diagnostics panel)
+ * @private
+ */
+function createStatusList(config: StatusWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  const panelWidth = 280;
+  const panelHeight = 130 + config.items.length * 40;
+  const accent = config.color ?? ACCENT;
+
+  const rows = (values: DashboardValues) =>
+    config.items.map((item) => ({ label: i18n.t(item.label), ...statusValue(item, values, accent) }));
+
+  return {
+    id: config.id,
+    bounds,
+    key: (values) => rows(values).map(({ text, color }) => `${text}:${color}`).join('|'),
+    draw: (ctx, values, rtl) => {
+      inDesignSpace(ctx, bounds, panelWidth + 20, panelHeight + 20, () => {
+        const top = -panelHeight / 2;
+
+        // Panel border
+        ctx.strokeStyle = 'rgba(190, 32, 46, 0.4)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-panelWidth / 2, top, panelWidth, panelHeight);
+
+        // Inner border
+        ctx.strokeStyle = 'rgba(108, 108, 108, 0.3)';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(-panelWidth / 2 + 10, top + 10, panelWidth - 20, panelHeight - 20);
+
+        if (config.title) {
+          ctx.font = canvasFont('bold 28px');
+          ctx.fillStyle = accent;
+          ctx.textAlign = 'center';
+          ctx.fillText(i18n.t(config.title), 0, top + 40);
+        }
+
+        // Divider line
+        ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(-120, top + 70);
+        ctx.lineTo(120, top + 70);
+        ctx.stroke();
+
+        // Label column / value column, mirrored for right-to-left
+        ctx.font = '22px monospace';
+        ctx.textAlign = rtl ? 'right' : 'left';
+        const labelX = rtl ? 110 : -110;
+        const valueX = rtl ? -10 : 10;
+
+        rows(values).forEach(({ label, text, color }, i) => {
+          const y = top + 110 + i * 40;
+          ctx.fillStyle = MUTED;
+          ctx.fillText(label, labelX, y);
+          ctx.fillStyle = color;
+          ctx.fillText(text, valueX, y);
+        });
+      });
+    }
+  };
+}
+
+/**
+ * Text and color of one status row
+ * @private
+ */
+function statusValue(item: StatusItemConfig, values: DashboardValues, accent: string): { text: string; color: string } {
+  if (item.text !== undefined) {
+    return { text: i18n.t(item.text), color: item.color ?? accent };
+  }
+
+  const value = item.field !== undefined ? values[item.field] : item.value!;
+
+  if (typeof value === 'boolean') {
+    const state = item.states![value ? 'true' : 'false'];
+    return { text: i18n.t(state.text), color: state.color ?? item.color ?? accent };
+  }
+  if (typeof value === 'string') {
+    return { text: value, color: item.color ?? '#ffffff' };
+  }
+  return {
+    text: formatValue(value, item.format ?? 'number', item.decimals ?? 0),
+    color: thresholdColor(value, item.thresholds, item.color ?? '#ffffff')
+  };
+}
+
+// ============================================
+// ALERT BANNER / HEADER
+// ============================================
+
+/**
+ * Banner for the current alert; draws nothing without one
+ * @private
+ */
+function createAlertBanner(config: AlertWidgetConfig, bounds: DashboardRect): DashboardWidget {
+  return {
+    id: config.id,
+    bounds,
+    key: ({ alert }) => {
+      if (!alert) return '';
+      const { title, message } = i18n.localizeAlert(alert);
+      return `${alert.severity}|${title}|${message}`;
+    },
+    draw: (ctx, { alert }, rtl) => {
+      if (!alert) return;
+      inDesignSpace(ctx, bounds, 1988, 190, () => drawAlertBanner(ctx, alert, rtl));
+    }
+  };
+}
+
+/**
+ * @private
+ */
+function drawAlertBanner(ctx: CanvasRenderingContext2D, alert: TelematicsAlert, rtl: boolean): void {
+  const color = ALERT_COLORS[alert.severity];
+  const { title, message } = i18n.localizeAlert(alert);
+  const width = 1928;
+  const height = 140;
+  const top = -height / 2;
+  // Warning triangle sits on the reading-start side
+  const iconX = rtl ? width / 2 - 90 : -width / 2 + 90;
+
+  // Banner background
+  ctx.fillStyle = 'rgba(15, 20, 25, 0.92)';
+  ctx.fillRect(-width / 2, top, width, height);
+
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 25;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(-width / 2, top, width, height);
+  ctx.shadowBlur = 0;
+
+  // Warning triangle
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(iconX, top + 30);
+  ctx.lineTo(iconX + 40, top + 110);
+  ctx.lineTo(iconX - 40, top + 110);
+  ctx.closePath();
+  ctx.fill();
+  ctx.font = canvasFont('bold 56px');
+  ctx.fillStyle = '#0f1419';
+  ctx.textAlign = 'center';
+  ctx.fillText('!', iconX, top + 102);
+
+  // Title + message
+  ctx.font = canvasFont('bold 52px');
+  ctx.fillStyle = color;
+  ctx.fillText(title.toUpperCase(), 0, top + 62);
+  ctx.font = canvasFont('32px');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(message, 0, top + 110);
+}
+
+/**
+ * @private
+ */
+function drawHeader(
+  ctx: CanvasRenderingContext2D,
+  bounds: DashboardRect,
+  temperature: number,
+  time: string,
+  rtl: boolean
+): void {
+  const left = bounds.x;
+  const right = bounds.x + bounds.width;
+  const centerX = bounds.x + bounds.width / 2;
+  const bottom = bounds.y + 200;
+
+  // Top header bar
+  ctx.fillStyle = 'rgba(190, 32, 46, 0.1)';
+  ctx.fillRect(left, bounds.y, bounds.width, 200);
+
+  // Header border
+  ctx.strokeStyle = 'rgba(190, 32, 46, 0.5)';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(left, bottom);
+  ctx.lineTo(right, bottom);
+  ctx.stroke();
+
+  // Branding with glow
+  ctx.textAlign = 'center';
+  ctx.shadowColor = ACCENT;
+  ctx.shadowBlur = 20;
+  ctx.font = canvasFont('bold 56px');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText('TRANSLINK', centerX, bounds.y + 90);
+  ctx.shadowBlur = 0;
+
+  ctx.font = canvasFont('bold 36px');
+  ctx.fillStyle = ACCENT;
+  ctx.fillText(i18n.t('dashboard.system'), centerX, bounds.y + 140);
+
+  // Time display (left, right in RTL)
+  ctx.textAlign = rtl ? 'right' : 'left';
+  ctx.font = 'bold 32px monospace';
+  ctx.fillStyle = MUTED;
+  ctx.fillText(i18n.t('dashboard.time'), rtl ? right - 100 : left + 100, bounds.y + 90);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(time, rtl ? right - 100 : left + 100, bounds.y + 140);
+
+  // Temperature (right, left in RTL)
+  ctx.textAlign = rtl ? 'left' : 'right';
+  ctx.fillStyle = MUTED;
+  ctx.fillText(i18n.t('dashboard.ambient'), rtl ? left + 100 : right - 100, bounds.y + 90);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(i18n.formatUnit('temperature', temperature), rtl ? left + 100 : right - 100, bounds.y + 140);
+
+  // Corner accents
+  ctx.strokeStyle = ACCENT;
+  ctx.lineWidth = 3;
+
+  ctx.beginPath();
+  ctx.moveTo(left + 50, bounds.y + 80);
+  ctx.lineTo(left + 50, bounds.y + 50);
+  ctx.lineTo(left + 80, bounds.y + 50);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(right - 50, bounds.y + 80);
+  ctx.lineTo(right - 50, bounds.y + 50);
+  ctx.lineTo(right - 80, bounds.y + 50);
+  ctx.stroke();
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Draw at a fixed design size, scaled to fit and centered in `bounds`
+ * (origin at the design center)
+ * @private
+ */
+function inDesignSpace(
+  ctx: CanvasRenderingContext2D,
+  bounds: DashboardRect,
+  designWidth: number,
+  designHeight: number,
+  draw: () => void
+): void {
+  const scale = Math.min(bounds.width / designWidth, bounds.height / designHeight);
+  ctx.save();
+  ctx.translate(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+  ctx.scale(scale, scale);
+  draw();
+  ctx.restore();
+}
+
+/**
+ * @private
+ */
+function inset(rect: DashboardRect, dx: number, dy: number): DashboardRect {
+  return { x: rect.x + dx, y: rect.y + dy, width: rect.width - dx * 2, height: rect.height - dy * 2 };
+}
+
+/**
+ * Value in display units (converted units, or 0-100 for percent)
+ * @private
+ */
+function toDisplay(value: number, format: ValueFormat): number {
+  if (format === 'percent') return value * 100;
+  if (format === 'number') return value;
+  return i18n.convert(format, value);
+}
+
+/**
+ * Scale end in display units
+ * @private
+ */
+function resolveScale(value: ScaleValue, format: ValueFormat): number {
+  return typeof value === 'number' ? toDisplay(value, format) : value[i18n.getUnits()];
+}
+
+/**
+ * Position of a value on its scale, 0-1
+ * @private
+ */
+function scaleFraction(value: number, min: ScaleValue | undefined, max: ScaleValue, format: ValueFormat): number {
+  const low = resolveScale(min ?? 0, format);
+  const high = resolveScale(max, format);
+  return Math.min(Math.max((toDisplay(value, format) - low) / (high - low), 0), 1);
+}
+
+/**
+ * @private
+ */
+function formatValue(value: number, format: ValueFormat, decimals: number = 0): string {
+  if (format === 'percent') return `${(value * 100).toFixed(decimals)}%`;
+  if (format === 'number') return value.toFixed(decimals);
+  return i18n.formatUnit(format, value, decimals);
+}
+
+/**
+ * Unit line under a large readout
+ * @private
+ */
+function unitText(format: ValueFormat): string {
+  if (format === 'percent') return '%';
+  if (format === 'number') return '';
+  return i18n.unitLabel(format);
+}
+
+/**
+ * @private
+ */
+function captionText(config: GaugeWidgetConfig, values: DashboardValues): string {
+  if (!config.caption) return '';
+  const { label, field, format = 'number' } = config.caption;
+  return i18n.t(label, { value: formatValue(values[field], format) });
+}
+
+/**
+ * @private
+ */
+function thresholdColor(value: number, thresholds: DashboardThreshold[] | undefined, fallback: string): string {
+  const match = thresholds?.find((threshold) =>
+    (threshold.above === undefined || value > threshold.above) &&
+    (threshold.below === undefined || value < threshold.below)
+  );
+  return match?.color ?? fallback;
+}
+
+/**
+ * Canvas font with the current locale's font stack (Ethiopic / Arabic glyphs)
+ * @private
+ */
+function canvasFont(style: string): string {
+  return `${style} ${i18n.getLocaleInfo().canvasFont}`;
+}
+
+/**
+ * @private
+ */
+function drawCornerBrackets(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  size: number
+): void {
+  const corners: [number, number, number, number][] = [
+    [x, y, 1, 1],
+    [x + width, y, -1, 1],
+    [x, y + height, 1, -1],
+    [x + width, y + height, -1, -1]
+  ];
+  corners.forEach(([cx, cy, dx, dy]) => {
+    ctx.beginPath();
+    ctx.moveTo(cx, cy + dy * size);
+    ctx.lineTo(cx, cy);
+    ctx.lineTo(cx + dx * size, cy);
+    ctx.stroke();
+  });
+}
+
+/**
+ * Draw hexagon shape
+ * @private
+ */
+function drawHexagon(
+  ctx: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  radius: number
+): void {
+  ctx.beginPath();
+  for (let i = 0; i < 6; i++) {
+    const angle = (Math.PI / 3) * i - Math.PI / 2;
+    const x = centerX + radius * Math.cos(angle);
+    const y = centerY + radius * Math.sin(angle);
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
+  ctx.closePath();
+  ctx.stroke();
+}
@@ -0,0 +1,308 @@
+/**
+ * Hotspot Manager
+ *
+ * Raycast picking for the hotspots defined in src/config/hotspots.json:
+ * - Hover: emissive highlight, bounding-box outline and pointer cursor
+ * - Click (without dragging): selects the hotspot (open its detail panel)
+ *
+ * Hotspots attach to objects by exact name (`target`) or by name fragments
+ * (`targetIncludes`) for GLB parts. Objects with `userData.hotspotIgnore`
+ * (and their children) are transparent to picking.
+ *
+ * @example
+ * ```typescript
+ * const hotspots = createHotspotManager(camera, renderer.domElement, {
+ *   roots: () => [truckGroup]
+ * });
+ * hotspots.onSelect((hotspot) => setSelectedHotspot(hotspot));
+ *
+ * // In animation loop
+ * hotspots.update();
+ * ```
+ */
+
+import * as THREE from 'three';
+import hotspotConfigJson from '../config/hotspots.json';
+import type { HotspotConfig, HotspotDefinition, HotspotListener } from './types';
+
+const hotspotConfig = hotspotConfigJson as unknown as HotspotConfig;
+
+// Pointer travel (px) above which a press counts as a drag, not a click
+const CLICK_TOLERANCE = 5;
+
+export interface HotspotManagerOptions {
+  /** Objects to pick against (read every pick) */
+  roots: () => THREE.Object3D[];
+  /** Hotspot config (default: src/config/hotspots.json) */
+  config?: HotspotConfig;
+}
+
+interface HoverState {
+  hotspot: HotspotDefinition;
+  object: THREE.Object3D;
+  /** Original materials of highlighted meshes */
+  originals: Map<THREE.Mesh, THREE.Material | THREE.Material[]>;
+  outline: THREE.BoxHelper;
+}
+
+export class HotspotManager {
+  private camera: THREE.Camera;
+  private domElement: HTMLElement;
+  private options: HotspotManagerOptions;
+  private config: HotspotConfig;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private pointerDirty = false;
+  private pointerInside = false;
+  private pressedAt: { x: number; y: number } | null = null;
+  private hover: HoverState | null = null;
+  private highlightCache = new WeakMap<THREE.Material, THREE.Material>();
+  private hoverListeners = new Set<HotspotListener>();
+  private selectListeners = new Set<HotspotListener>();
+  private boundPointerMove: (event: PointerEvent) => void;
+  private boundPointerDown: (event: PointerEvent) => void;
+  private boundPointerUp: (event: PointerEvent) => void;
+  private boundPointerLeave: () => void;
+
+  constructor(camera: THREE.Camera, domElement: HTMLElement, options: HotspotManagerOptions) {
+    this.camera = camera;
+    this.domElement = domElement;
+    this.options = options;
+    this.config = options.config ?? hotspotConfig;
+
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundPointerLeave = this.handlePointerLeave.bind(this);
+
+    domElement.addEventListener('pointermove', this.boundPointerMove);
+    domElement.addEventListener('pointerdown', this.boundPointerDown);
+    domElement.addEventListener('pointerup', this.boundPointerUp);
+    domElement.addEventListener('pointerleave', this.boundPointerLeave);
+  }
+
+  /**
+   * Subscribe to hover changes
+   * @returns Unsubscribe function
+   */
+  onHover(listener: HotspotListener): () => void {
+    this.hoverListeners.add(listener);
+    return () => {
+      this.hoverListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to clicks on hotspots
+   * @returns Unsubscribe function
+   */
+  onSelect(listener: HotspotListener): () => void {
+    this.selectListeners.add(listener);
+    return () => {
+      this.selectListeners.delete(listener);
+    };
+  }
+
+  getHotspots(): HotspotDefinition[] {
+    return this.config.hotspots;
+  }
+
+  /**
+   * Update the outline and re-pick under the pointer (call every frame -
+   * picks at most once per frame, and only when the pointer moved)
+   */
+  update(): void {
+    // Follow the truck bounce
+    this.hover?.outline.update();
+
+    if (!this.pointerDirty) return;
+    this.pointerDirty = false;
+
+    const hit = this.pointerInside ? this.pick() : null;
+    if (hit?.object === this.hover?.object) return;
+
+    this.clearHover();
+    if (hit) {
+      this.setHover(hit.hotspot, hit.object);
+    }
+    this.hoverListeners.forEach((listener) => listener(hit?.hotspot ?? null));
+  }
+
+  dispose(): void {
+    this.clearHover();
+    this.domElement.removeEventListener('pointermove', this.boundPointerMove);
+    this.domElement.removeEventListener('pointerdown', this.boundPointerDown);
+    this.domElement.removeEventListener('pointerup', this.boundPointerUp);
+    this.domElement.removeEventListener('pointerleave', this.boundPointerLeave);
+    this.hoverListeners.clear();
+    this.selectListeners.clear();
+  }
+
+  /**
+   * Raycast the roots and resolve the hit to a hotspot
+   * Exact `target` hotspots (the sensor parts inside the tank) win over
+   * `targetIncludes` truck parts in front of them
+   * @private
+   */
+  private pick(): { hotspot: HotspotDefinition; object: THREE.Object3D } | null {
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const intersections = this.raycaster.intersectObjects(this.options.roots(), true);
+    let fallback: { hotspot: HotspotDefinition; object: THREE.Object3D } | null = null;
+
+    for (const intersection of intersections) {
+      if (!(intersection.object instanceof THREE.Mesh) || !intersection.object.visible) continue;
+
+      const match = this.resolve(intersection.object);
+      if (!match || match === 'ignore') continue;
+      if (match.hotspot.target !== undefined) return match;
+      fallback ??= match;
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Walk up from a mesh to the first ancestor a hotspot targets
+   * @private
+   */
+  private resolve(mesh: THREE.Object3D): { hotspot: HotspotDefinition; object: THREE.Object3D } | 'ignore' | null {
+    let object: THREE.Object3D | null = mesh;
+    let match: { hotspot: HotspotDefinition; object: THREE.Object3D } | null = null;
+
+    while (object) {
+      if (object.userData.hotspotIgnore) return 'ignore';
+
+      if (!match) {
+        const name = object.name.toLowerCase();
+        const hotspot = this.config.hotspots.find((h) =>
+          (h.target !== undefined && h.target === object!.name) ||
+          (name !== '' && h.targetIncludes?.some((fragment) => name.includes(fragment.toLowerCase())))
+        );
+        if (hotspot) match = { hotspot, object };
+      }
+
+      object = object.parent;
+    }
+
+    return match;
+  }
+
+  /**
+   * Swap in emissive copies of the target's materials
+   * (copies, because truck parts share one body material)
+   * @private
+   */
+  private setHover(hotspot: HotspotDefinition, object: THREE.Object3D): void {
+    const originals = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || child.userData.hotspotIgnore) return;
+      originals.set(child, child.material);
+      child.material = Array.isArray(child.material)
+        ? child.material.map((material) => this.getHighlightMaterial(material))
+        : this.getHighlightMaterial(child.material);
+    });
+
+    // Outline lives at the scene root (BoxHelper works in world space)
+    const outline = new THREE.BoxHelper(object, this.config.hoverColor);
+    outline.userData.hotspotIgnore = true;
+    let root = object;
+    while (root.parent) root = root.parent;
+    root.add(outline);
+
+    this.hover = { hotspot, object, originals, outline };
+    this.domElement.style.cursor = 'pointer';
+  }
+
+  private clearHover(): void {
+    if (!this.hover) return;
+
+    this.hover.originals.forEach((material, mesh) => {
+      mesh.material = material;
+    });
+    this.hover.outline.removeFromParent();
+    this.hover.outline.geometry.dispose();
+    (this.hover.outline.material as THREE.Material).dispose();
+    this.hover = null;
+    this.domElement.style.cursor = '';
+  }
+
+  /**
+   * Cached highlight copy of a material
+   * Materials without emissive (e.g. the canvas-textured display) are
+   * returned unchanged so live texture updates keep working
+   * @private
+   */
+  private getHighlightMaterial(material: THREE.Material): THREE.Material {
+    if (!(material instanceof THREE.MeshStandardMaterial)) return material;
+
+    let highlight = this.highlightCache.get(material);
+    if (!highlight) {
+      const copy = material.clone();
+      copy.emissive.set(this.config.hoverColor);
+      copy.emissiveIntensity = this.config.hoverIntensity;
+      highlight = copy;
+      this.highlightCache.set(material, highlight);
+    }
+
+    // Follow fades applied to the original after the copy was made
+    highlight.opacity = material.opacity;
+    highlight.transparent = material.transparent;
+    return highlight;
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.pointerInside = true;
+    this.pointerDirty = true;
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    this.pressedAt = { x: event.clientX, y: event.clientY };
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.pressedAt) return;
+
+    const moved = Math.hypot(event.clientX - this.pressedAt.x, event.clientY - this.pressedAt.y);
+    this.pressedAt = null;
+    if (moved > CLICK_TOLERANCE) return;
+
+    // Pick at the release point (touch has no hover)
+    this.handlePointerMove(event);
+    const hit = this.pick();
+    this.selectListeners.forEach((listener) => listener(hit?.hotspot ?? null));
+  }
+
+  private handlePointerLeave(): void {
+    this.pointerInside = false;
+    this.pointerDirty = true;
+    this.pressedAt = null;
+  }
+}
+
+/**
+ * Create a hotspot manager
+ *
+ * @param camera - Scene camera
+ * @param domElement - Renderer canvas
+ * @param options - Pick roots and config
+ */
+export function createHotspotManager(
+  camera: THREE.Camera,
+  domElement: HTMLElement,
+  options: HotspotManagerOptions
+): HotspotManager {
+  return new HotspotManager(camera, domElement, options);
+}
+
+/**
+ * Hotspots from src/config/hotspots.json (for DOM rendering)
+ */
+export function getHotspots(): HotspotDefinition[] {
+  return hotspotConfig.hotspots;
+}
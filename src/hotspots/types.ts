@@ -0,0 +1,58 @@
+/**
+ * Hotspot Type Definitions
+ *
+ * Type definitions for clickable 3D hotspots
+ * (see src/config/hotspots.json)
+ */
+
+/**
+ * Icon keys available to hotspots (mapped to lucide icons in HotspotPanel)
+ */
+export type HotspotIcon = 'cpu' | 'bar-chart' | 'layers' | 'monitor' | 'fuel' | 'truck' | 'radio';
+
+/**
+ * Exploded-view info card rendered from a hotspot (phase 2)
+ */
+export interface HotspotExplodedCard {
+  /** Card modifier class (positioning / animation delays) */
+  className: string;
+  /** Typewriter start delay in ms */
+  typewriterDelay: number;
+}
+
+/**
+ * Single hotspot definition
+ */
+export interface HotspotDefinition {
+  /** Unique hotspot identifier */
+  id: string;
+  /** Exact Object3D name to attach to - optional */
+  target?: string;
+  /** Case-insensitive name fragments, for GLB parts with unknown exact names - optional */
+  targetIncludes?: string[];
+  /** Small label above the title */
+  label: string;
+  title: string;
+  icon: HotspotIcon;
+  /** Detail copy */
+  copy: string;
+  tags: string[];
+  /** Also render as an exploded-view card - optional */
+  explodedCard?: HotspotExplodedCard;
+}
+
+/**
+ * Hotspot config JSON file
+ */
+export interface HotspotConfig {
+  /** Emissive hover highlight color (hex string) */
+  hoverColor: string;
+  /** Emissive hover intensity */
+  hoverIntensity: number;
+  hotspots: HotspotDefinition[];
+}
+
+/**
+ * Called when the hovered / selected hotspot changes (null = none)
+ */
+export type HotspotListener = (hotspot: HotspotDefinition | null) => void;
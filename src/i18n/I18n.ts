@@ -0,0 +1,296 @@
+/**
+ * I18n - Message catalogs, language detection and unit preferences
+ *
+ * - Catalogs in src/i18n/locales/*.json (nested keys, {param} placeholders)
+ * - Locale from ?lang=, then the saved choice, then the browser languages
+ * - Unit system (metric / imperial) from ?units=, the saved choice or the locale default
+ * - Sets <html lang dir> so CSS can mirror the layout for right-to-left scripts
+ *
+ * Config-driven copy (hotspots, timeline labels, scenario alerts) is English
+ * in its JSON file; look it up with `tOr` so catalogs only carry translations
+ * and custom configs without catalog entries still show their own text.
+ *
+ * @example
+ * ```typescript
+ * i18n.t('topBar.explore');                               // "EXPLORE"
+ * i18n.tOr(`hotspots.${id}.title`, hotspot.title);        // translated or config text
+ * i18n.formatUnit('volume', 120);                         // "120 L" / "32 GAL"
+ *
+ * const unsubscribe = i18n.subscribe(() => redrawCanvasText());
+ * ```
+ */
+
+import { convertUnit } from './units';
+import type { TelematicsAlert } from '../textures/types';
+import type {
+  I18nListener,
+  I18nState,
+  Locale,
+  LocaleInfo,
+  MessageCatalog,
+  MessageParams,
+  UnitKind,
+  UnitSystem
+} from './types';
+import en from './locales/en.json';
+import am from './locales/am.json';
+import ar from './locales/ar.json';
+import fr from './locales/fr.json';
+
+const LOCALE_STORAGE_KEY = 'translink:locale';
+const UNITS_STORAGE_KEY = 'translink:units';
+
+// Amharic (Ge'ez / Ethiopic script) is written left-to-right - only Arabic mirrors
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { id: 'en', name: 'English', dir: 'ltr', defaultUnits: 'metric', canvasFont: 'Arial, sans-serif' },
+  am: { id: 'am', name: 'አማርኛ', dir: 'ltr', defaultUnits: 'metric', canvasFont: "'Noto Sans Ethiopic', 'Nyala', 'Abyssinica SIL', Arial, sans-serif" },
+  ar: { id: 'ar', name: 'العربية', dir: 'rtl', defaultUnits: 'metric', canvasFont: "'Noto Sans Arabic', Tahoma, Arial, sans-serif" },
+  fr: { id: 'fr', name: 'Français', dir: 'ltr', defaultUnits: 'metric', canvasFont: 'Arial, sans-serif' }
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = {
+  en: en as unknown as MessageCatalog,
+  am: am as unknown as MessageCatalog,
+  ar: ar as unknown as MessageCatalog,
+  fr: fr as unknown as MessageCatalog
+};
+
+const isLocale = (value: string | null | undefined): value is Locale =>
+  !!value && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+const isUnitSystem = (value: string | null | undefined): value is UnitSystem =>
+  value === 'metric' || value === 'imperial';
+
+export class I18n {
+  private locale: Locale;
+  private units: UnitSystem;
+  private listeners = new Set<I18nListener>();
+
+  constructor(locale: Locale = detectLocale(), units?: UnitSystem) {
+    this.locale = locale;
+    this.units = units ?? detectUnits(locale);
+    this.applyToDocument();
+  }
+
+  getLocale(): Locale {
+    return this.locale;
+  }
+
+  getUnits(): UnitSystem {
+    return this.units;
+  }
+
+  getLocaleInfo(): LocaleInfo {
+    return LOCALES[this.locale];
+  }
+
+  getState(): I18nState {
+    return { locale: this.locale, units: this.units, dir: LOCALES[this.locale].dir };
+  }
+
+  /**
+   * Switch language (persisted for the next visit)
+   */
+  setLocale(locale: Locale): void {
+    if (locale === this.locale) return;
+
+    this.locale = locale;
+    persist(LOCALE_STORAGE_KEY, locale);
+    this.applyToDocument();
+    console.log(`🌐 Locale: ${locale}`);
+    this.notify();
+  }
+
+  /**
+   * Switch unit system (persisted for the next visit)
+   */
+  setUnits(units: UnitSystem): void {
+    if (units === this.units) return;
+
+    this.units = units;
+    persist(UNITS_STORAGE_KEY, units);
+    console.log(`📏 Units: ${units}`);
+    this.notify();
+  }
+
+  /**
+   * Subscribe to locale / unit changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: I18nListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Translate a catalog key (falls back to English, then to the key itself)
+   *
+   * @param key - Dot-separated catalog key
+   * @param params - Values for {param} placeholders
+   */
+  t(key: string, params?: MessageParams): string {
+    const message = lookup(CATALOGS[this.locale], key) ?? lookup(CATALOGS.en, key) ?? key;
+    return interpolate(message, params);
+  }
+
+  /**
+   * Translate config-driven copy, falling back to the config's own (English) text
+   *
+   * @param key - Dot-separated catalog key
+   * @param fallback - Text from the config file
+   * @param params - Values for {param} placeholders
+   */
+  tOr(key: string, fallback: string, params?: MessageParams): string {
+    return interpolate(lookup(CATALOGS[this.locale], key) ?? fallback, params);
+  }
+
+  /**
+   * Localized unit label, e.g. "KM/H" / "MPH"
+   */
+  unitLabel(kind: UnitKind): string {
+    return this.t(`units.${kind}.${this.units}`);
+  }
+
+  /**
+   * Convert a metric value to the current unit system
+   */
+  convert(kind: UnitKind, value: number): number {
+    return convertUnit(kind, value, this.units);
+  }
+
+  /**
+   * Convert and format a metric value with its unit label, e.g. "120 L" / "32 GAL"
+   *
+   * @param kind - Quantity
+   * @param value - Metric value (km/h, km, liters, °C, bar)
+   * @param decimals - Fraction digits (default: 0)
+   */
+  formatUnit(kind: UnitKind, value: number, decimals: number = 0): string {
+    const converted = this.convert(kind, value).toFixed(decimals);
+    const separator = kind === 'temperature' ? '' : ' ';
+    return `${converted}${separator}${this.unitLabel(kind)}`;
+  }
+
+  /**
+   * Title and message of a dashboard / HUD alert in the current locale and units
+   */
+  localizeAlert(alert: TelematicsAlert): { title: string; message: string } {
+    const params = alert.volume !== undefined
+      ? { volume: this.formatUnit('volume', alert.volume) }
+      : undefined;
+
+    if (!alert.key) {
+      return { title: alert.title, message: interpolate(alert.message, params) };
+    }
+    return {
+      title: this.tOr(`alerts.${alert.key}.title`, alert.title),
+      message: this.tOr(`alerts.${alert.key}.message`, alert.message, params)
+    };
+  }
+
+  /**
+   * Mirror <html lang dir> for CSS and assistive technology
+   * @private
+   */
+  private applyToDocument(): void {
+    if (typeof document === 'undefined') return;
+    document.documentElement.lang = this.locale;
+    document.documentElement.dir = LOCALES[this.locale].dir;
+  }
+
+  /**
+   * @private
+   */
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+/**
+ * Resolve a dot-separated key in a nested catalog
+ * @private
+ */
+function lookup(catalog: MessageCatalog, key: string): string | undefined {
+  let node: string | MessageCatalog | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object') return undefined;
+    node = node[part];
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Replace {param} placeholders (unknown placeholders are kept)
+ * @private
+ */
+function interpolate(message: string, params?: MessageParams): string {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * @private
+ */
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @private
+ */
+function persist(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Private mode / storage disabled - the choice just isn't remembered
+  }
+}
+
+/**
+ * Detect the locale: ?lang=, saved choice, browser languages, English
+ */
+export function detectLocale(): Locale {
+  if (typeof window === 'undefined') return 'en';
+
+  const fromURL = new URLSearchParams(window.location.search).get('lang');
+  if (isLocale(fromURL)) return fromURL;
+
+  const saved = readStorage(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const primary = language.split('-')[0].toLowerCase();
+    if (isLocale(primary)) return primary;
+  }
+
+  return 'en';
+}
+
+/**
+ * Detect the unit system: ?units=, saved choice, locale default
+ * (en-US browsers default to imperial)
+ */
+export function detectUnits(locale: Locale): UnitSystem {
+  if (typeof window === 'undefined') return LOCALES[locale].defaultUnits;
+
+  const fromURL = new URLSearchParams(window.location.search).get('units');
+  if (isUnitSystem(fromURL)) return fromURL;
+
+  const saved = readStorage(UNITS_STORAGE_KEY);
+  if (isUnitSystem(saved)) return saved;
+
+  if (locale === 'en' && /^en-(US|LR|MM)$/i.test(navigator.language)) return 'imperial';
+  return LOCALES[locale].defaultUnits;
+}
+
+// Export shared instance
+export const i18n = new I18n();
@@ -0,0 +1,65 @@
+/**
+ * i18n Type Definitions
+ *
+ * Type definitions for locales, message catalogs and unit systems
+ * (see src/i18n/locales/*.json)
+ */
+
+/**
+ * Supported locales
+ * - en: English (source language)
+ * - am: Amharic
+ * - ar: Arabic
+ * - fr: French
+ */
+export type Locale = 'en' | 'am' | 'ar' | 'fr';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Unit system for speed, distance, volume, temperature and pressure
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * Measured quantities with unit-dependent display
+ */
+export type UnitKind = 'speed' | 'distance' | 'volume' | 'temperature' | 'pressure';
+
+/**
+ * Static locale metadata
+ */
+export interface LocaleInfo {
+  id: Locale;
+  /** Language name in its own script (switcher label) */
+  name: string;
+  dir: TextDirection;
+  /** Unit system used until the visitor picks one */
+  defaultUnits: UnitSystem;
+  /** Canvas font stack with glyph coverage for the script */
+  canvasFont: string;
+}
+
+/**
+ * Nested message catalog (dot-separated keys, e.g. "topBar.explore")
+ * Values may contain {param} placeholders
+ */
+export interface MessageCatalog {
+  [key: string]: string | MessageCatalog;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Current language settings
+ */
+export interface I18nState {
+  locale: Locale;
+  units: UnitSystem;
+  dir: TextDirection;
+}
+
+/**
+ * Called when the locale or unit system changes
+ */
+export type I18nListener = (state: I18nState) => void;
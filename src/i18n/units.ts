@@ -0,0 +1,72 @@
+/**
+ * Unit Conversion
+ *
+ * Telematics values are metric (km/h, km, liters, °C, bar) everywhere in the
+ * app; these helpers convert them for display in the visitor's unit system.
+ * Imperial uses US gallons.
+ *
+ * @example
+ * ```typescript
+ * convertSpeed(100, 'imperial');   // 62.1 (mph)
+ * convertVolume(400, 'imperial');  // 105.7 (gal)
+ * ```
+ */
+
+import type { UnitKind, UnitSystem } from './types';
+
+export const KM_PER_MILE = 1.609344;
+export const LITERS_PER_GALLON = 3.785411784;
+export const PSI_PER_BAR = 14.5038;
+
+/**
+ * Speed from km/h to km/h or mph
+ */
+export function convertSpeed(kmh: number, units: UnitSystem): number {
+  return units === 'imperial' ? kmh / KM_PER_MILE : kmh;
+}
+
+/**
+ * Distance from km to km or miles
+ */
+export function convertDistance(km: number, units: UnitSystem): number {
+  return units === 'imperial' ? km / KM_PER_MILE : km;
+}
+
+/**
+ * Volume from liters to liters or US gallons
+ */
+export function convertVolume(liters: number, units: UnitSystem): number {
+  return units === 'imperial' ? liters / LITERS_PER_GALLON : liters;
+}
+
+/**
+ * Temperature from °C to °C or °F
+ */
+export function convertTemperature(celsius: number, units: UnitSystem): number {
+  return units === 'imperial' ? celsius * 9 / 5 + 32 : celsius;
+}
+
+/**
+ * Pressure from bar to bar or psi
+ */
+export function convertPressure(bar: number, units: UnitSystem): number {
+  return units === 'imperial' ? bar * PSI_PER_BAR : bar;
+}
+
+/**
+ * Convert a metric value of any unit kind
+ */
+export function convertUnit(kind: UnitKind, value: number, units: UnitSystem): number {
+  switch (kind) {
+    case 'speed':
+      return convertSpeed(value, units);
+    case 'distance':
+      return convertDistance(value, units);
+    case 'volume':
+      return convertVolume(value, units);
+    case 'temperature':
+      return convertTemperature(value, units);
+    case 'pressure':
+      return convertPressure(value, units);
+  }
+}
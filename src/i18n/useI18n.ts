@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { i18n } from './I18n';
+import type { I18nState } from './types';
+
+/**
+ * Hook to re-render on locale / unit changes
+ *
+ * Returns the shared i18n instance alongside the current state; call
+ * `i18n.t()` during render as usual.
+ *
+ * @example
+ * ```typescript
+ * const { t } = useI18n();
+ * return <span>{t('topBar.explore')}</span>;
+ * ```
+ */
+export function useI18n(): I18nState & {
+  t: typeof i18n.t;
+  tOr: typeof i18n.tOr;
+  formatUnit: typeof i18n.formatUnit;
+} {
+  const [state, setState] = useState<I18nState>(() => i18n.getState());
+
+  useEffect(() => {
+    // Catch a change made between the first render and this effect
+    setState((prev) => {
+      const current = i18n.getState();
+      return current.locale === prev.locale && current.units === prev.units ? prev : current;
+    });
+    return i18n.subscribe(setState);
+  }, []);
+
+  return {
+    ...state,
+    t: i18n.t.bind(i18n),
+    tOr: i18n.tOr.bind(i18n),
+    formatUnit: i18n.formatUnit.bind(i18n)
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Lead Retry Queue
+ *
+ * Persists failed Request Demo submissions in localStorage and retries them
+ * with exponential backoff - on page load, when the browser comes back
+ * online and on a periodic timer while items are pending.
+ *
+ * @example
+ * ```typescript
+ * const queue = createLeadQueue(adapter);
+ * const stop = queue.start();
+ *
+ * try {
+ *   await adapter.submit(submission);
+ * } catch (error) {
+ *   if (error instanceof LeadSubmissionError && error.context.retryable) {
+ *     queue.enqueue(submission);
+ *   }
+ * }
+ * ```
+ */
+
+import { LeadSubmissionError, errorHandler } from '../utils/errors';
+import type { LeadSubmission, LeadSubmissionAdapter, QueuedLead } from './types';
+
+export interface LeadQueueConfig {
+  /** localStorage key (default: 'translink:lead-queue') */
+  storageKey?: string;
+  /** Give up after this many attempts (default: 8) */
+  maxAttempts?: number;
+  /** First retry delay in ms, doubled per attempt (default: 5000) */
+  baseDelay?: number;
+  /** Maximum retry delay in ms (default: 10 minutes) */
+  maxDelay?: number;
+  /** Timer interval for due retries in ms (default: 15000) */
+  pollInterval?: number;
+}
+
+export class LeadQueue {
+  private adapter: LeadSubmissionAdapter;
+  private config: Required<LeadQueueConfig>;
+  private flushing = false;
+
+  constructor(adapter: LeadSubmissionAdapter, config: LeadQueueConfig = {}) {
+    this.adapter = adapter;
+    this.config = {
+      storageKey: config.storageKey ?? 'translink:lead-queue',
+      maxAttempts: config.maxAttempts ?? 8,
+      baseDelay: config.baseDelay ?? 5000,
+      maxDelay: config.maxDelay ?? 10 * 60 * 1000,
+      pollInterval: config.pollInterval ?? 15000
+    };
+  }
+
+  /**
+   * Queue a submission for retry
+   */
+  enqueue(submission: LeadSubmission): void {
+    const items = this.read();
+    if (items.some((item) => item.submission.id === submission.id)) return;
+
+    items.push({
+      submission,
+      attempts: 1,
+      nextAttemptAt: Date.now() + this.config.baseDelay
+    });
+    this.write(items);
+    console.log(`📥 Lead queued for retry (${items.length} pending)`);
+  }
+
+  /**
+   * Number of submissions waiting for retry
+   */
+  size(): number {
+    return this.read().length;
+  }
+
+  /**
+   * Retry every submission that is due
+   *
+   * @param force - Ignore backoff and retry everything now
+   * @returns Number of submissions delivered
+   */
+  async flush(force: boolean = false): Promise<number> {
+    if (this.flushing) return 0;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return 0;
+
+    this.flushing = true;
+    let delivered = 0;
+
+    try {
+      const now = Date.now();
+      const snapshot = this.read();
+      const remaining: QueuedLead[] = [];
+
+      for (const item of snapshot) {
+        if (!force && item.nextAttemptAt > now) {
+          remaining.push(item);
+          continue;
+        }
+
+        try {
+          await this.adapter.submit(item.submission);
+          delivered++;
+        } catch (error) {
+          const retryable = !(error instanceof LeadSubmissionError) || error.context.retryable;
+          const attempts = item.attempts + 1;
+
+          if (retryable && attempts < this.config.maxAttempts) {
+            const delay = Math.min(this.config.baseDelay * Math.pow(2, attempts - 1), this.config.maxDelay);
+            remaining.push({ ...item, attempts, nextAttemptAt: Date.now() + delay });
+          } else {
+            errorHandler.handle(error as Error);
+            console.error(`❌ Dropping queued lead ${item.submission.id} after ${attempts} attempts`);
+          }
+        }
+      }
+
+      // Keep anything enqueued while we were sending
+      const processedIds = new Set(snapshot.map((item) => item.submission.id));
+      const added = this.read().filter((item) => !processedIds.has(item.submission.id));
+      this.write([...remaining, ...added]);
+    } finally {
+      this.flushing = false;
+    }
+
+    if (delivered > 0) {
+      console.log(`✅ Delivered ${delivered} queued lead(s)`);
+    }
+    return delivered;
+  }
+
+  /**
+   * Start automatic retries (page load, `online` event, timer)
+   * @returns Stop function
+   */
+  start(): () => void {
+    const handleOnline = () => {
+      this.flush(true);
+    };
+
+    window.addEventListener('online', handleOnline);
+    const timer = window.setInterval(() => {
+      if (this.size() > 0) this.flush();
+    }, this.config.pollInterval);
+
+    if (this.size() > 0) {
+      this.flush(true);
+    }
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearInterval(timer);
+    };
+  }
+
+  private read(): QueuedLead[] {
+    try {
+      const raw = localStorage.getItem(this.config.storageKey);
+      const items = raw ? JSON.parse(raw) : [];
+      return Array.isArray(items) ? items : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  private write(items: QueuedLead[]): void {
+    try {
+      if (items.length === 0) {
+        localStorage.removeItem(this.config.storageKey);
+      } else {
+        localStorage.setItem(this.config.storageKey, JSON.stringify(items));
+      }
+    } catch (e) {
+      console.warn('⚠️ Could not persist lead queue:', e);
+    }
+  }
+}
+
+/**
+ * Create a lead retry queue
+ *
+ * @param adapter - Submission adapter used for retries
+ * @param config - Queue configuration
+ */
+export function createLeadQueue(adapter: LeadSubmissionAdapter, config?: LeadQueueConfig): LeadQueue {
+  return new LeadQueue(adapter, config);
+}
@@ -0,0 +1,154 @@
+/**
+ * Lead Submission Adapters
+ *
+ * - NetlifyFormsAdapter: posts to Netlify Forms (see hidden form in index.html)
+ * - JsonPostAdapter:     posts JSON to any CRM / webhook endpoint
+ * - MockLeadAdapter:     logs locally, optional simulated failures
+ *
+ * The adapter is picked by `createLeadAdapter()`. Builds post JSON to
+ * `VITE_LEADS_ENDPOINT` when it is set at build time, and use Netlify Forms
+ * otherwise. Leads carry personal data, so the endpoint never comes from the
+ * URL: dev builds default to the mock and accept `?leads=` (`mock`,
+ * `mock-flaky`, `netlify`) to try the others.
+ *
+ * @example
+ * ```typescript
+ * const adapter = createLeadAdapter();
+ * await adapter.submit(createLeadSubmission(formData));
+ * ```
+ */
+
+import { LeadSubmissionError } from '../utils/errors';
+import type { LeadSubmission, LeadSubmissionAdapter } from './types';
+
+/**
+ * Netlify form name - must match the hidden form in index.html
+ */
+export const NETLIFY_FORM_NAME = 'request-demo';
+
+/**
+ * Turn a fetch failure / response into a LeadSubmissionError
+ * Network errors, 408, 429 and 5xx are retryable
+ */
+async function sendRequest(adapter: string, url: string, init: RequestInit): Promise<void> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new LeadSubmissionError('Network error while submitting lead', {
+      adapter,
+      retryable: true,
+      originalError: error as Error
+    });
+  }
+
+  if (!response.ok) {
+    const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+    throw new LeadSubmissionError(`Lead submission rejected: HTTP ${response.status}`, {
+      adapter,
+      status: response.status,
+      retryable
+    });
+  }
+}
+
+export class NetlifyFormsAdapter implements LeadSubmissionAdapter {
+  readonly name = 'netlify';
+
+  constructor(private formName: string = NETLIFY_FORM_NAME, private endpoint: string = '/') {}
+
+  async submit(submission: LeadSubmission): Promise<void> {
+    const { data } = submission;
+    const body = new URLSearchParams({
+      'form-name': this.formName,
+      'lead-id': submission.id,
+      name: data.name,
+      company: data.company,
+      'fleet-size': data.fleetSize,
+      'tank-types': data.tankTypes.join(', '),
+      email: data.email,
+      phone: data.phone,
+      message: data.message,
+      source: submission.source
+    });
+
+    await sendRequest(this.name, this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    });
+  }
+}
+
+export class JsonPostAdapter implements LeadSubmissionAdapter {
+  readonly name = 'json';
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  async submit(submission: LeadSubmission): Promise<void> {
+    await sendRequest(this.name, this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(submission)
+    });
+  }
+}
+
+export class MockLeadAdapter implements LeadSubmissionAdapter {
+  readonly name = 'mock';
+  private submissions: LeadSubmission[] = [];
+
+  /**
+   * @param delay - Simulated latency in ms (default: 600)
+   * @param failureRate - Probability of a simulated retryable failure (default: 0)
+   */
+  constructor(private delay: number = 600, private failureRate: number = 0) {}
+
+  async submit(submission: LeadSubmission): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, this.delay));
+
+    if (Math.random() < this.failureRate) {
+      throw new LeadSubmissionError('Simulated lead submission failure', {
+        adapter: this.name,
+        retryable: true
+      });
+    }
+
+    this.submissions.push(submission);
+    console.log('📨 Mock lead submitted:', submission);
+  }
+
+  /**
+   * Leads received so far (for debugging)
+   */
+  getSubmissions(): LeadSubmission[] {
+    return [...this.submissions];
+  }
+}
+
+/**
+ * Create the submission adapter for this environment
+ *
+ * @param spec - Dev-only adapter override (default: `?leads=` URL parameter in dev builds)
+ * @param endpoint - JSON endpoint (default: `VITE_LEADS_ENDPOINT` from the build)
+ */
+export function createLeadAdapter(
+  spec: string | null = import.meta.env.DEV ? new URLSearchParams(window.location.search).get('leads') : null,
+  endpoint: string | undefined = import.meta.env.VITE_LEADS_ENDPOINT
+): LeadSubmissionAdapter {
+  if (spec === 'mock') {
+    return new MockLeadAdapter();
+  }
+  if (spec === 'mock-flaky') {
+    return new MockLeadAdapter(600, 0.5);
+  }
+  if (spec === 'netlify') {
+    return new NetlifyFormsAdapter();
+  }
+
+  if (import.meta.env.DEV) {
+    return new MockLeadAdapter();
+  }
+  return endpoint ? new JsonPostAdapter(endpoint) : new NetlifyFormsAdapter();
+}
@@ -0,0 +1,71 @@
+/**
+ * Lead Capture Type Definitions
+ *
+ * Type definitions for the Request Demo form and submission adapters
+ */
+
+/**
+ * Fleet size buckets offered in the form
+ */
+export type FleetSize = '1-10' | '11-50' | '51-200' | '200+';
+
+/**
+ * Tank types offered in the form
+ */
+export type TankType = 'diesel' | 'petrol' | 'adblue' | 'hydraulic' | 'stationary';
+
+/**
+ * Values entered in the Request Demo form
+ */
+export interface LeadFormData {
+  name: string;
+  company: string;
+  fleetSize: FleetSize | '';
+  tankTypes: TankType[];
+  email: string;
+  /** Phone number - optional */
+  phone: string;
+  /** Free-text message - optional */
+  message: string;
+}
+
+/**
+ * Field-level validation errors (only invalid fields are present)
+ */
+export type LeadValidationErrors = Partial<Record<keyof LeadFormData, string>>;
+
+/**
+ * Lead as sent to a submission adapter
+ */
+export interface LeadSubmission {
+  /** Client-generated id (used to de-duplicate retries) */
+  id: string;
+  data: LeadFormData;
+  /** ISO-8601 time the form was submitted */
+  submittedAt: string;
+  /** Page the lead was captured on */
+  source: string;
+}
+
+/**
+ * Pluggable submission backend
+ *
+ * Implementations throw LeadSubmissionError on failure and mark
+ * network / 5xx failures as retryable so they can be queued.
+ */
+export interface LeadSubmissionAdapter {
+  /** Adapter name (for logging) */
+  readonly name: string;
+  /** Deliver a lead */
+  submit(submission: LeadSubmission): Promise<void>;
+}
+
+/**
+ * Queued submission waiting for retry
+ */
+export interface QueuedLead {
+  submission: LeadSubmission;
+  attempts: number;
+  /** Epoch ms of the next retry */
+  nextAttemptAt: number;
+}
@@ -0,0 +1,121 @@
+/**
+ * Lead Form Validation
+ *
+ * Client-side validation and spam heuristics for the Request Demo form.
+ * Server-side checks (Netlify spam filtering / backend) still apply.
+ *
+ * @example
+ * ```typescript
+ * const errors = validateLead(formData);
+ * if (Object.keys(errors).length === 0 && !isLikelySpam(honeypot, openedAt)) {
+ *   await adapter.submit(createLeadSubmission(formData));
+ * }
+ * ```
+ */
+
+import type { FleetSize, LeadFormData, LeadSubmission, LeadValidationErrors, TankType } from './types';
+
+export const FLEET_SIZES: FleetSize[] = ['1-10', '11-50', '51-200', '200+'];
+
+export const TANK_TYPES: { value: TankType; label: string }[] = [
+  { value: 'diesel', label: 'Diesel' },
+  { value: 'petrol', label: 'Petrol' },
+  { value: 'adblue', label: 'AdBlue / DEF' },
+  { value: 'hydraulic', label: 'Hydraulic Oil' },
+  { value: 'stationary', label: 'Stationary / Generator' }
+];
+
+/** Minimum time a human needs to fill the form (ms) */
+export const MIN_FILL_TIME_MS = 3000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE_PATTERN = /^\+?[0-9\s\-().]{7,20}$/;
+
+/**
+ * Create an empty form state
+ */
+export function createEmptyLead(): LeadFormData {
+  return {
+    name: '',
+    company: '',
+    fleetSize: '',
+    tankTypes: [],
+    email: '',
+    phone: '',
+    message: ''
+  };
+}
+
+/**
+ * Validate form values
+ *
+ * @param data - Form values
+ * @returns Errors keyed by field (empty object when valid)
+ */
+export function validateLead(data: LeadFormData): LeadValidationErrors {
+  const errors: LeadValidationErrors = {};
+
+  if (data.name.trim().length < 2) {
+    errors.name = 'Please enter your name.';
+  }
+
+  if (data.company.trim().length < 2) {
+    errors.company = 'Please enter your company.';
+  }
+
+  if (!FLEET_SIZES.includes(data.fleetSize as FleetSize)) {
+    errors.fleetSize = 'Please select your fleet size.';
+  }
+
+  if (data.tankTypes.length === 0) {
+    errors.tankTypes = 'Select at least one tank type.';
+  }
+
+  if (!EMAIL_PATTERN.test(data.email.trim())) {
+    errors.email = 'Please enter a valid email address.';
+  }
+
+  if (data.phone.trim() && !PHONE_PATTERN.test(data.phone.trim())) {
+    errors.phone = 'Please enter a valid phone number.';
+  }
+
+  if (data.message.length > 1000) {
+    errors.message = 'Please keep your message under 1000 characters.';
+  }
+
+  return errors;
+}
+
+/**
+ * Spam heuristics: filled honeypot field or implausibly fast submission
+ *
+ * @param honeypot - Value of the hidden honeypot field
+ * @param openedAt - Epoch ms when the form was opened
+ * @param now - Current epoch ms (default: Date.now())
+ */
+export function isLikelySpam(honeypot: string, openedAt: number, now: number = Date.now()): boolean {
+  return honeypot.trim() !== '' || now - openedAt < MIN_FILL_TIME_MS;
+}
+
+/**
+ * Wrap validated form values for submission
+ */
+export function createLeadSubmission(data: LeadFormData): LeadSubmission {
+  const trimmed: LeadFormData = {
+    ...data,
+    name: data.name.trim(),
+    company: data.company.trim(),
+    email: data.email.trim(),
+    phone: data.phone.trim(),
+    message: data.message.trim()
+  };
+
+  return {
+    id: typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    data: trimmed,
+    submittedAt: new Date().toISOString(),
+    source: window.location.href
+  };
+}
@@ -0,0 +1,206 @@
+import type {
+  AssetTracker,
+  LoadingAsset,
+  LoadingAssetKind,
+  LoadingListener,
+  LoadingState,
+  TrackOptions
+} from './types';
+
+/**
+ * Default share of overall progress per asset kind
+ * The GLB dominates download time; decoders gate the GLB; audio and
+ * textures are small
+ */
+const DEFAULT_WEIGHTS: Record<LoadingAssetKind, number> = {
+  model: 6,
+  decoder: 2,
+  audio: 1,
+  texture: 0.5
+};
+
+const DEFAULT_STALL_TIMEOUT = 15000;
+
+/**
+ * LoadingManager - Aggregate download progress for the intro screen
+ *
+ * Loaders register each asset with `track()` and report bytes, completion
+ * or failure through the returned tracker. Overall progress is the weighted
+ * mean of per-asset progress; assets that don't report bytes count as 0
+ * until done.
+ *
+ * An asset that makes no progress for its stall timeout is marked `timeout`
+ * and stops blocking `complete`, so one stalled file can't hold the ENTER
+ * button back. It still switches to `loaded` if it finishes later.
+ *
+ * @example
+ * ```typescript
+ * const tracker = loadingManager.track('model', { kind: 'model', name: 'truck.glb' });
+ * loader.loadGLB(path, (p) => tracker.progress(p.loaded, p.total))
+ *   .then(() => tracker.done(), (error) => tracker.fail(error));
+ *
+ * loadingManager.subscribe(({ progress, complete }) => render(progress, complete));
+ * ```
+ */
+export class LoadingManager {
+  private assets = new Map<string, LoadingAsset>();
+  private trackers = new Map<string, AssetTracker>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<LoadingListener>();
+
+  /**
+   * Register an asset (idempotent - the same id returns the same tracker)
+   *
+   * @param id - Unique asset id
+   * @param options - Kind, display name, weight and stall timeout
+   * @returns Tracker for reporting progress
+   */
+  track(id: string, options: TrackOptions): AssetTracker {
+    const existing = this.trackers.get(id);
+    if (existing) return existing;
+
+    this.assets.set(id, {
+      id,
+      kind: options.kind,
+      name: options.name,
+      status: 'pending',
+      weight: options.weight ?? DEFAULT_WEIGHTS[options.kind],
+      loaded: 0,
+      total: 0
+    });
+
+    const stallTimeout = options.stallTimeout ?? DEFAULT_STALL_TIMEOUT;
+    this.armTimeout(id, stallTimeout);
+
+    const tracker: AssetTracker = {
+      progress: (loaded, total) => {
+        const asset = this.assets.get(id);
+        if (!asset || asset.status === 'loaded' || asset.status === 'failed') return;
+        this.update(id, { status: 'loading', loaded, total });
+        this.armTimeout(id, stallTimeout);
+      },
+      done: () => {
+        this.clearTimeout(id);
+        const asset = this.assets.get(id);
+        if (!asset) return;
+        this.update(id, { status: 'loaded', loaded: asset.total || asset.loaded });
+      },
+      fail: (error) => {
+        this.clearTimeout(id);
+        console.warn(`⚠️ Loading failed: ${options.name}`, error);
+        this.update(id, { status: 'failed' });
+      }
+    };
+
+    this.trackers.set(id, tracker);
+    this.notify();
+    return tracker;
+  }
+
+  /**
+   * Register an asset that only reports completion
+   *
+   * @param id - Unique asset id
+   * @param promise - Settles when the asset is ready or failed
+   * @param options - Kind, display name, weight and stall timeout
+   * @returns The same promise, for chaining
+   */
+  trackPromise<T>(id: string, promise: Promise<T>, options: TrackOptions): Promise<T> {
+    const tracker = this.track(id, options);
+    promise.then(() => tracker.done(), (error) => tracker.fail(error));
+    return promise;
+  }
+
+  /**
+   * Get the current aggregate state
+   */
+  getState(): LoadingState {
+    const assets = Array.from(this.assets.values());
+    const totalWeight = assets.reduce((sum, asset) => sum + asset.weight, 0);
+    const weighted = assets.reduce((sum, asset) => sum + asset.weight * this.getAssetProgress(asset), 0);
+
+    return {
+      progress: totalWeight > 0 ? (weighted / totalWeight) * 100 : 100,
+      complete: assets.every((asset) => asset.status !== 'pending' && asset.status !== 'loading'),
+      assets
+    };
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LoadingListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Progress of one asset (0-1); settled assets count as finished
+   * @private
+   */
+  private getAssetProgress(asset: LoadingAsset): number {
+    if (asset.status !== 'pending' && asset.status !== 'loading') return 1;
+    return asset.total > 0 ? Math.min(asset.loaded / asset.total, 1) : 0;
+  }
+
+  /**
+   * (Re)start an asset's stall timer
+   * @private
+   */
+  private armTimeout(id: string, stallTimeout: number): void {
+    this.clearTimeout(id);
+    this.timers.set(id, setTimeout(() => {
+      const asset = this.assets.get(id);
+      if (!asset || (asset.status !== 'pending' && asset.status !== 'loading')) return;
+      console.warn(`⏱️ Loading stalled: ${asset.name} (no progress for ${stallTimeout}ms)`);
+      this.update(id, { status: 'timeout' });
+    }, stallTimeout));
+  }
+
+  /**
+   * Stop an asset's stall timer
+   * @private
+   */
+  private clearTimeout(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Apply changes to an asset and notify listeners
+   * @private
+   */
+  private update(id: string, changes: Partial<LoadingAsset>): void {
+    const asset = this.assets.get(id);
+    if (!asset) return;
+    this.assets.set(id, { ...asset, ...changes });
+    this.notify();
+  }
+
+  /**
+   * Push the current state to listeners
+   * @private
+   */
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+/**
+ * Create a LoadingManager instance
+ */
+export function createLoadingManager(): LoadingManager {
+  return new LoadingManager();
+}
+
+/**
+ * Shared instance used by the loaders and the intro screen
+ */
+export const loadingManager = createLoadingManager();
@@ -0,0 +1,43 @@
+import { sharedAssetLoader, criticalAssets } from '../utils/sharedAssetLoader';
+import { loadingManager } from './LoadingManager';
+import type { AssetTracker } from './types';
+
+/**
+ * Register the 3D scene's assets with the intro screen's loading manager
+ *
+ * Decoders and textures are tracked here from the shared AssetLoader (the
+ * loads are shared with the preload, not repeated). The truck model is only
+ * requested once the scene exists, so its tracker is returned for
+ * TruckModel's progress callbacks. Audio registers itself in AudioSystem.
+ *
+ * @param modelName - Display name for the truck model
+ * @returns Tracker for the truck model
+ *
+ * @example
+ * ```typescript
+ * const modelTracker = trackIntroAssets('truck.glb');
+ * <TruckModel onProgress={(_, p) => modelTracker.progress(p.loaded, p.total)} onLoad={() => modelTracker.done()} />
+ * ```
+ */
+export function trackIntroAssets(modelName: string): AssetTracker {
+  loadingManager.trackPromise('decoder:draco', sharedAssetLoader.whenDecodersReady(), {
+    kind: 'decoder',
+    name: 'Draco'
+  });
+
+  criticalAssets
+    .filter((path) => !path.endsWith('.glb'))
+    .forEach((path) => {
+      loadingManager.trackPromise(`texture:${path}`, sharedAssetLoader.loadTexture(path), {
+        kind: 'texture',
+        name: path.split('/').pop() ?? path
+      });
+    });
+
+  // Generous stall timeout - the model request waits for the scene and decoders
+  return loadingManager.track('model:truck', {
+    kind: 'model',
+    name: modelName,
+    stallTimeout: 30000
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Loading Type Definitions
+ *
+ * Type definitions for the intro screen's aggregate loading progress
+ * (see src/loading/LoadingManager.ts)
+ */
+
+/**
+ * Asset categories - used for default weights and intro screen labels
+ */
+export type LoadingAssetKind = 'model' | 'decoder' | 'audio' | 'texture';
+
+/**
+ * Asset lifecycle
+ * - pending: registered, nothing received yet
+ * - loading: bytes arriving
+ * - loaded: ready
+ * - failed: errored (the experience continues without it)
+ * - timeout: no progress within the stall timeout (stops blocking entry)
+ */
+export type LoadingAssetStatus = 'pending' | 'loading' | 'loaded' | 'failed' | 'timeout';
+
+/**
+ * Options when registering an asset
+ */
+export interface TrackOptions {
+  kind: LoadingAssetKind;
+  /** Short display name (e.g. file name) */
+  name: string;
+  /** Share of overall progress (default per kind, see DEFAULT_WEIGHTS) */
+  weight?: number;
+  /** Give up after this long without progress (ms, default 15000) */
+  stallTimeout?: number;
+}
+
+/**
+ * Per-asset state reported to the intro screen
+ */
+export interface LoadingAsset {
+  id: string;
+  kind: LoadingAssetKind;
+  name: string;
+  status: LoadingAssetStatus;
+  weight: number;
+  /** Bytes received (0 when the loader doesn't report bytes) */
+  loaded: number;
+  /** Expected bytes (0 when unknown) */
+  total: number;
+}
+
+/**
+ * Aggregate state
+ */
+export interface LoadingState {
+  /** Weighted overall progress (0-100) */
+  progress: number;
+  /** Every asset is loaded, failed or timed out */
+  complete: boolean;
+  assets: LoadingAsset[];
+}
+
+/**
+ * Handle for reporting one asset's progress
+ */
+export interface AssetTracker {
+  /** Report bytes received so far (resets the stall timeout) */
+  progress(loaded: number, total: number): void;
+  done(): void;
+  fail(error?: unknown): void;
+}
+
+export type LoadingListener = (state: LoadingState) => void;
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { loadingManager } from './LoadingManager';
+import type { LoadingState } from './types';
+
+/**
+ * Hook to re-render on loading progress
+ *
+ * @example
+ * ```typescript
+ * const { progress, complete } = useLoadingState();
+ * return complete ? <EnterButton /> : <ProgressBar value={progress} />;
+ * ```
+ */
+export function useLoadingState(): LoadingState {
+  const [state, setState] = useState<LoadingState>(() => loadingManager.getState());
+
+  useEffect(() => {
+    // Catch progress reported between the first render and this effect
+    setState(loadingManager.getState());
+    return loadingManager.subscribe(setState);
+  }, []);
+
+  return state;
+}
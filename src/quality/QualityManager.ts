@@ -0,0 +1,311 @@
+/**
+ * Quality Manager
+ *
+ * Adaptive quality governor. The render loop feeds it frame times; it keeps
+ * rolling statistics and moves between tiers (low / medium / high / ultra):
+ * - Down one tier when the average or the 90th percentile frame time is too slow
+ * - Up one tier after sustained headroom
+ * - Hysteresis: a cooldown after every change, and a tier the governor had
+ *   to leave is not retried for a while (the wait doubles each time)
+ *
+ * The user can pin a tier (persisted in localStorage), which stops the governor.
+ *
+ * @example
+ * ```typescript
+ * const quality = createQualityManager({ initialTier: 'high' });
+ * quality.subscribe(({ settings }) => renderer.setPixelRatio(settings.maxPixelRatio));
+ *
+ * // In the animation loop
+ * quality.sample(delta);
+ * ```
+ */
+
+import type {
+  FrameTimeStats,
+  QualityListener,
+  QualitySettings,
+  QualityState,
+  QualityTier
+} from './types';
+
+/**
+ * Tiers from lowest to highest
+ */
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  ultra: {
+    maxPixelRatio: 2,
+    shadows: true,
+    shadowMapSize: 2048,
+    particleCount: 400,
+    edges: true,
+    telematicsScale: 1,
+    audioEngine: 'sample'
+  },
+  high: {
+    maxPixelRatio: 1.5,
+    shadows: true,
+    shadowMapSize: 2048,
+    particleCount: 300,
+    edges: true,
+    telematicsScale: 1,
+    audioEngine: 'sample'
+  },
+  medium: {
+    maxPixelRatio: 1.25,
+    shadows: true,
+    shadowMapSize: 1024,
+    particleCount: 150,
+    edges: true,
+    telematicsScale: 0.75,
+    audioEngine: 'procedural'
+  },
+  low: {
+    maxPixelRatio: 1,
+    shadows: false,
+    shadowMapSize: 512,
+    particleCount: 60,
+    edges: false,
+    telematicsScale: 0.5,
+    audioEngine: 'procedural'
+  }
+};
+
+export interface QualityManagerConfig {
+  /** Tier used until the governor has measured anything (default: 'high') */
+  initialTier?: QualityTier;
+  /** Frames in the rolling window (default: 120) */
+  windowSize?: number;
+  /** Step down when the average frame time exceeds this in ms (default: 1000/45) */
+  downgradeFrameTime?: number;
+  /** Step down when the 90th percentile exceeds this in ms (default: 1000/30) */
+  spikeFrameTime?: number;
+  /** Headroom when the 90th percentile is below this in ms (default: 1000/58) */
+  upgradeFrameTime?: number;
+  /** Headroom must last this long before stepping up in ms (default: 10000) */
+  upgradeHold?: number;
+  /** No decisions for this long after a change in ms (default: 3000) */
+  cooldown?: number;
+  /** First wait before retrying a tier the governor left in ms, doubled each time (default: 60000) */
+  retryBackoff?: number;
+  /** Frames longer than this are pauses, not rendering, in ms (default: 250) */
+  maxFrameTime?: number;
+  /** localStorage key for the user override (default: 'translink:quality') */
+  storageKey?: string;
+}
+
+/** Re-evaluate the window every N frames */
+const EVALUATE_EVERY = 30;
+
+export class QualityManager {
+  private config: Required<QualityManagerConfig>;
+  private tier: QualityTier;
+  private auto = true;
+  private paused = false;
+  private frameTimes: Float32Array;
+  private frameCount = 0;
+  private frameIndex = 0;
+  private frameTime: FrameTimeStats | null = null;
+  private lastChangeAt = 0;
+  private headroomSince: number | null = null;
+  /** Tiers the governor had to leave: retry time and current backoff */
+  private blocked = new Map<QualityTier, { until: number; backoff: number }>();
+  private listeners = new Set<QualityListener>();
+
+  constructor(config: QualityManagerConfig = {}) {
+    this.config = {
+      initialTier: config.initialTier ?? 'high',
+      windowSize: config.windowSize ?? 120,
+      downgradeFrameTime: config.downgradeFrameTime ?? 1000 / 45,
+      spikeFrameTime: config.spikeFrameTime ?? 1000 / 30,
+      upgradeFrameTime: config.upgradeFrameTime ?? 1000 / 58,
+      upgradeHold: config.upgradeHold ?? 10000,
+      cooldown: config.cooldown ?? 3000,
+      retryBackoff: config.retryBackoff ?? 60000,
+      maxFrameTime: config.maxFrameTime ?? 250,
+      storageKey: config.storageKey ?? 'translink:quality'
+    };
+    this.frameTimes = new Float32Array(this.config.windowSize);
+    this.tier = this.config.initialTier;
+
+    const override = this.readOverride();
+    if (override) {
+      this.tier = override;
+      this.auto = false;
+    }
+  }
+
+  /**
+   * Feed one frame time
+   *
+   * @param delta - Frame time in seconds (THREE.Clock delta)
+   */
+  sample(delta: number): void {
+    if (!this.auto || this.paused) return;
+
+    const ms = delta * 1000;
+    if (ms <= 0 || ms > this.config.maxFrameTime) return;
+
+    this.frameTimes[this.frameIndex] = ms;
+    this.frameIndex = (this.frameIndex + 1) % this.config.windowSize;
+    this.frameCount = Math.min(this.frameCount + 1, this.config.windowSize);
+
+    if (this.frameCount < this.config.windowSize || this.frameIndex % EVALUATE_EVERY !== 0) return;
+
+    this.frameTime = this.computeStats();
+    const now = performance.now();
+    if (now - this.lastChangeAt < this.config.cooldown) return;
+
+    const { average, p90 } = this.frameTime;
+
+    if (average > this.config.downgradeFrameTime || p90 > this.config.spikeFrameTime) {
+      this.stepDown(now);
+    } else if (p90 < this.config.upgradeFrameTime) {
+      this.headroomSince ??= now;
+      if (now - this.headroomSince >= this.config.upgradeHold) {
+        this.stepUp(now);
+      }
+    } else {
+      this.headroomSince = null;
+    }
+  }
+
+  /**
+   * Pin a tier, or hand control back to the governor with 'auto'
+   */
+  setOverride(tier: QualityTier | 'auto'): void {
+    if (tier === 'auto') {
+      this.auto = true;
+      this.blocked.clear();
+      this.writeOverride(null);
+      this.resetWindow();
+      this.notify();
+      return;
+    }
+
+    this.auto = false;
+    this.writeOverride(tier);
+    this.setTier(tier);
+  }
+
+  /**
+   * Stop sampling (e.g. while a loading screen covers the canvas)
+   */
+  setPaused(paused: boolean): void {
+    if (paused === this.paused) return;
+    this.paused = paused;
+    this.resetWindow();
+  }
+
+  /**
+   * Current tier, mode, settings and frame-time statistics
+   */
+  getState(): QualityState {
+    return {
+      tier: this.tier,
+      auto: this.auto,
+      settings: QUALITY_SETTINGS[this.tier],
+      frameTime: this.frameTime
+    };
+  }
+
+  /**
+   * Subscribe to tier / mode changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: QualityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop one tier and keep the governor away from the one it left
+   * @private
+   */
+  private stepDown(now: number): void {
+    const index = QUALITY_TIERS.indexOf(this.tier);
+    if (index === 0) return;
+
+    const previous = this.blocked.get(this.tier);
+    const backoff = previous ? previous.backoff * 2 : this.config.retryBackoff;
+    this.blocked.set(this.tier, { until: now + backoff, backoff });
+
+    console.log(`📉 Quality ${this.tier} → ${QUALITY_TIERS[index - 1]} (avg ${this.frameTime?.average.toFixed(1)}ms, p90 ${this.frameTime?.p90.toFixed(1)}ms)`);
+    this.setTier(QUALITY_TIERS[index - 1]);
+  }
+
+  /**
+   * Climb one tier unless that tier is still blocked
+   * @private
+   */
+  private stepUp(now: number): void {
+    const index = QUALITY_TIERS.indexOf(this.tier);
+    if (index === QUALITY_TIERS.length - 1) return;
+
+    const next = QUALITY_TIERS[index + 1];
+    const blocked = this.blocked.get(next);
+    if (blocked && blocked.until > now) return;
+
+    console.log(`📈 Quality ${this.tier} → ${next} (p90 ${this.frameTime?.p90.toFixed(1)}ms)`);
+    this.setTier(next);
+  }
+
+  private setTier(tier: QualityTier): void {
+    const changed = tier !== this.tier;
+    this.tier = tier;
+    this.lastChangeAt = performance.now();
+    this.resetWindow();
+    if (changed || !this.auto) this.notify();
+  }
+
+  private resetWindow(): void {
+    this.frameCount = 0;
+    this.frameIndex = 0;
+    this.headroomSince = null;
+  }
+
+  private computeStats(): FrameTimeStats {
+    const sorted = Array.from(this.frameTimes).sort((a, b) => a - b);
+    const average = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const p90 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.9))];
+    return { average, p90, samples: sorted.length };
+  }
+
+  private readOverride(): QualityTier | null {
+    try {
+      const stored = localStorage.getItem(this.config.storageKey);
+      return stored && (QUALITY_TIERS as string[]).includes(stored) ? stored as QualityTier : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private writeOverride(tier: QualityTier | null): void {
+    try {
+      if (tier) {
+        localStorage.setItem(this.config.storageKey, tier);
+      } else {
+        localStorage.removeItem(this.config.storageKey);
+      }
+    } catch (e) {
+      // Private mode - the override lasts for this page load only
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+/**
+ * Create a quality manager
+ *
+ * @param config - Initial tier, thresholds and hysteresis
+ */
+export function createQualityManager(config?: QualityManagerConfig): QualityManager {
+  return new QualityManager(config);
+}
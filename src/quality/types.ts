@@ -0,0 +1,58 @@
+/**
+ * Quality Type Definitions
+ *
+ * Type definitions for the adaptive quality governor
+ */
+
+import type { AudioEngineMode } from '../audio/types';
+
+/**
+ * Quality tiers, lowest to highest
+ */
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+/**
+ * Runtime-adjustable rendering settings for one tier
+ */
+export interface QualitySettings {
+  /** Upper bound for renderer pixel ratio (device ratio is never exceeded) */
+  maxPixelRatio: number;
+  /** Key light casts shadows */
+  shadows: boolean;
+  /** Key light shadow map size (px) */
+  shadowMapSize: number;
+  /** Floating dust particles */
+  particleCount: number;
+  /** Truck edge lines */
+  edges: boolean;
+  /** Telematics display canvas scale (1 = 2048x1024) */
+  telematicsScale: number;
+  /** Engine sound: recorded loops or procedural synthesis (no downloads) */
+  audioEngine: AudioEngineMode;
+}
+
+/**
+ * Rolling frame-time statistics (ms)
+ */
+export interface FrameTimeStats {
+  average: number;
+  p90: number;
+  /** Frames in the window */
+  samples: number;
+}
+
+/**
+ * Current governor state
+ */
+export interface QualityState {
+  tier: QualityTier;
+  /** True while the governor picks the tier; false when the user pinned one */
+  auto: boolean;
+  settings: QualitySettings;
+  frameTime: FrameTimeStats | null;
+}
+
+/**
+ * Listener notified when the tier or mode changes
+ */
+export type QualityListener = (state: QualityState) => void;
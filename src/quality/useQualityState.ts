@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { QualityManager } from './QualityManager';
+import type { QualityState } from './types';
+
+/**
+ * Hook to re-render when the quality tier or mode changes
+ *
+ * @example
+ * ```typescript
+ * const quality = useQualityState(qualityManager);
+ * return <ParticleSystem count={quality.settings.particleCount} />;
+ * ```
+ */
+export function useQualityState(manager: QualityManager): QualityState {
+  const [state, setState] = useState<QualityState>(() => manager.getState());
+
+  useEffect(() => {
+    // Catch changes made between the first render and this effect
+    setState(manager.getState());
+    return manager.subscribe(setState);
+  }, [manager]);
+
+  return state;
+}
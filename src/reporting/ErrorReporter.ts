@@ -0,0 +1,339 @@
+/**
+ * Error Reporter
+ *
+ * Delivery stage of the error pipeline. ErrorHandler and ErrorTracker
+ * both end here. Each report is:
+ * - Scrubbed of personal data (see scrub.ts)
+ * - Fingerprinted and deduplicated (repeats fold into one report with a count)
+ * - Rate limited (token bucket; excess is counted as dropped)
+ * - Batched and sent through the transport, with exponential backoff on failure
+ * - Flushed with `sendBeacon` when the page is hidden or unloads
+ *
+ * @example
+ * ```typescript
+ * errorReporter.setTransport(new HttpJsonTransport('https://collector.example.com/errors'));
+ * errorReporter.report({
+ *   name: 'AssetLoadError',
+ *   message: 'Failed to load truck.glb',
+ *   severity: 'high',
+ *   context: { assetName: 'truck.glb' },
+ *   timestamp: Date.now()
+ * });
+ * ```
+ */
+
+import { ErrorTransportError } from '../utils/errors';
+import { scrubString, scrubValue } from './scrub';
+import { createErrorTransport } from './transports';
+import type {
+  ErrorReport,
+  ErrorReportBatch,
+  ErrorReportInput,
+  ErrorSeverity,
+  ErrorTransport
+} from './types';
+
+export interface ErrorReporterConfig {
+  /** Reports below this severity are not sent (default: 'medium') */
+  minSeverity?: ErrorSeverity;
+  /** Reports per batch (default: 10) */
+  batchSize?: number;
+  /** Delay before a partial batch is sent in ms (default: 5000) */
+  flushInterval?: number;
+  /** Reports kept while the transport is failing (default: 50) */
+  maxQueueSize?: number;
+  /** Reports allowed per minute (default: 20) */
+  maxReportsPerMinute?: number;
+  /** Repeats of a fingerprint within this window are only counted, in ms (default: 60000) */
+  dedupeWindow?: number;
+  /** First retry delay in ms, doubled per failure (default: 2000) */
+  baseDelay?: number;
+  /** Maximum retry delay in ms (default: 5 minutes) */
+  maxDelay?: number;
+}
+
+const SEVERITY_RANK: Record<ErrorSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3
+};
+
+/**
+ * FNV-1a hash as 8 hex chars
+ * @private
+ */
+function hash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fingerprint ignoring numbers (ids, sizes, line offsets in messages)
+ * @private
+ */
+function fingerprint(input: ErrorReportInput): string {
+  const message = input.message.replace(/\d+/g, '#');
+  const topFrame = input.stack?.split('\n').find((line) => line.trim().startsWith('at ')) ?? '';
+  return hash(`${input.name}|${message}|${topFrame.trim()}`);
+}
+
+export class ErrorReporter {
+  private transport: ErrorTransport | null;
+  private config: Required<ErrorReporterConfig>;
+  private sessionId = Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+  private queue: ErrorReport[] = [];
+  /** Fingerprint -> epoch ms it was last queued */
+  private lastQueued = new Map<string, number>();
+  /** Repeats seen inside the dedupe window after the report left the queue */
+  private suppressed = new Map<string, number>();
+  /** Dropped since the last delivered batch (reported in the next one) */
+  private dropped = 0;
+  private totalDropped = 0;
+  private sent = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private failures = 0;
+  private retryAt = 0;
+  private sending = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(transport: ErrorTransport | null, config: ErrorReporterConfig = {}) {
+    this.transport = transport;
+    this.config = {
+      minSeverity: config.minSeverity ?? 'medium',
+      batchSize: config.batchSize ?? 10,
+      flushInterval: config.flushInterval ?? 5000,
+      maxQueueSize: config.maxQueueSize ?? 50,
+      maxReportsPerMinute: config.maxReportsPerMinute ?? 20,
+      dedupeWindow: config.dedupeWindow ?? 60000,
+      baseDelay: config.baseDelay ?? 2000,
+      maxDelay: config.maxDelay ?? 5 * 60 * 1000
+    };
+    this.tokens = this.config.maxReportsPerMinute;
+
+    if (typeof window !== 'undefined') {
+      this.setupLifecycleHandlers();
+    }
+  }
+
+  /**
+   * Beacon the queue when the page is hidden or unloads; retry when back online
+   */
+  private setupLifecycleHandlers(): void {
+    window.addEventListener('pagehide', () => this.flushWithBeacon());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    });
+    window.addEventListener('online', () => {
+      this.retryAt = 0;
+      this.flush();
+    });
+  }
+
+  /**
+   * Queue an error for delivery
+   */
+  report(input: ErrorReportInput): void {
+    if (SEVERITY_RANK[input.severity] < SEVERITY_RANK[this.config.minSeverity]) return;
+
+    const id = fingerprint(input);
+    const now = input.timestamp;
+
+    // Repeat of a report still waiting to be sent
+    const pending = this.queue.find((report) => report.fingerprint === id);
+    if (pending) {
+      pending.count++;
+      pending.lastSeen = now;
+      return;
+    }
+
+    // Repeat of a report sent moments ago
+    const lastQueued = this.lastQueued.get(id);
+    if (lastQueued !== undefined && now - lastQueued < this.config.dedupeWindow) {
+      this.suppressed.set(id, (this.suppressed.get(id) ?? 0) + 1);
+      return;
+    }
+
+    if (!this.takeToken()) {
+      this.drop(1);
+      return;
+    }
+
+    const repeats = this.suppressed.get(id) ?? 0;
+    this.suppressed.delete(id);
+    this.lastQueued.set(id, now);
+
+    this.queue.push({
+      fingerprint: id,
+      name: input.name,
+      message: scrubString(input.message),
+      stack: input.stack ? scrubString(input.stack) : undefined,
+      severity: input.severity,
+      context: scrubValue(input.context) as Record<string, unknown>,
+      firstSeen: now,
+      lastSeen: now,
+      count: 1 + repeats
+    });
+
+    if (this.queue.length > this.config.maxQueueSize) {
+      this.queue.shift();
+      this.drop(1);
+    }
+
+    if (this.queue.length >= this.config.batchSize) {
+      this.flush();
+    } else {
+      this.schedule(this.config.flushInterval);
+    }
+  }
+
+  /**
+   * Send queued reports now (respects backoff after failures)
+   */
+  async flush(): Promise<void> {
+    if (!this.transport || this.sending || this.queue.length === 0) return;
+    if (Date.now() < this.retryAt) {
+      this.schedule(this.retryAt - Date.now());
+      return;
+    }
+
+    this.sending = true;
+    const reports = this.queue.splice(0, this.config.batchSize);
+    const batch = this.createBatch(reports);
+
+    try {
+      await this.transport.send(batch);
+      this.sent += reports.length;
+      this.dropped -= batch.dropped;
+      this.failures = 0;
+      this.retryAt = 0;
+    } catch (error) {
+      const retryable = !(error instanceof ErrorTransportError) || error.context.retryable;
+
+      if (retryable) {
+        // Put the batch back in front of anything reported meanwhile
+        this.queue.unshift(...reports);
+        const overflow = this.queue.length - this.config.maxQueueSize;
+        if (overflow > 0) {
+          this.queue.splice(this.config.maxQueueSize, overflow);
+          this.drop(overflow);
+        }
+        this.failures++;
+        this.retryAt = Date.now() + Math.min(
+          this.config.baseDelay * Math.pow(2, this.failures - 1),
+          this.config.maxDelay
+        );
+      } else {
+        this.drop(reports.length);
+      }
+
+      // Not through errorHandler - a failing transport must not report itself
+      console.warn(`⚠️ Error report delivery failed (${retryable ? 'will retry' : 'dropped'}):`, error);
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.queue.length > 0) {
+      this.schedule(this.retryAt > 0 ? this.retryAt - Date.now() : 0);
+    }
+  }
+
+  /**
+   * Hand the whole queue to the transport's beacon while the page goes away
+   */
+  flushWithBeacon(): void {
+    if (!this.transport?.sendBeacon || this.queue.length === 0) return;
+
+    const batch = this.createBatch(this.queue);
+    if (this.transport.sendBeacon(batch)) {
+      this.sent += this.queue.length;
+      this.dropped -= batch.dropped;
+      this.queue = [];
+    }
+  }
+
+  /**
+   * Swap the delivery backend (null keeps reports local)
+   */
+  setTransport(transport: ErrorTransport | null): void {
+    this.transport = transport;
+    this.failures = 0;
+    this.retryAt = 0;
+    if (this.queue.length > 0) this.schedule(0);
+  }
+
+  /**
+   * Delivery statistics
+   */
+  getStats(): { queued: number; sent: number; dropped: number; transport: string | null } {
+    return {
+      queued: this.queue.length,
+      sent: this.sent,
+      dropped: this.totalDropped,
+      transport: this.transport?.name ?? null
+    };
+  }
+
+  private drop(count: number): void {
+    this.dropped += count;
+    this.totalDropped += count;
+  }
+
+  private createBatch(reports: ErrorReport[]): ErrorReportBatch {
+    return {
+      sessionId: this.sessionId,
+      url: typeof window !== 'undefined' ? scrubString(window.location.href) : '',
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      sentAt: new Date().toISOString(),
+      reports: reports.map((report) => ({ ...report })),
+      dropped: this.dropped
+    };
+  }
+
+  /**
+   * Token bucket refilled continuously at maxReportsPerMinute
+   */
+  private takeToken(): boolean {
+    const now = Date.now();
+    const perMs = this.config.maxReportsPerMinute / 60000;
+    this.tokens = Math.min(this.config.maxReportsPerMinute, this.tokens + (now - this.lastRefill) * perMs);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer !== null || !this.transport) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, Math.max(0, delay));
+  }
+}
+
+/**
+ * Create an error reporter
+ *
+ * @param transport - Delivery backend (null keeps reports local)
+ * @param config - Batching, rate limit and backoff configuration
+ */
+export function createErrorReporter(
+  transport: ErrorTransport | null,
+  config?: ErrorReporterConfig
+): ErrorReporter {
+  return new ErrorReporter(transport, config);
+}
+
+/**
+ * Shared reporter, transport from the build config (see transports.ts)
+ */
+export const errorReporter = createErrorReporter(
+  typeof window !== 'undefined' ? createErrorTransport() : null
+);
@@ -0,0 +1,96 @@
+/**
+ * PII Scrubbing
+ *
+ * Removes personal data from error reports before they leave the browser:
+ * - Values under sensitive keys (lead form fields, credentials)
+ * - Email addresses, phone numbers and JWTs inside strings
+ * - Sensitive URL query parameters
+ *
+ * @example
+ * ```typescript
+ * scrubString('Invalid email jane@fleet.co'); // 'Invalid email [email]'
+ * scrubValue({ email: 'jane@fleet.co', attempts: 2 }); // { email: '[redacted]', attempts: 2 }
+ * ```
+ */
+
+const REDACTED = '[redacted]';
+
+/**
+ * Context keys whose values are always dropped
+ * (Request Demo form fields and credentials)
+ */
+const SENSITIVE_KEYS = /^(name|company|email|phone|message|password|secret|token|authorization|cookie|api[-_]?key|access[-_]?token)$/i;
+
+/**
+ * Query parameters whose values are dropped from URLs
+ */
+const SENSITIVE_PARAMS = /([?&](?:email|phone|token|key|auth|access_token|api_key|password)=)[^&#\s]*/gi;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+
+/**
+ * Phone numbers need a leading + or phone-style grouping, so dates, epoch
+ * timestamps, versions and numeric IDs survive:
+ * - International: +251 911 234 567, +33 6 12 34 56 78, +14155550123
+ * - Area code in parentheses: (555) 123-4567
+ * - Three or more groups with one separator: 555-123-4567, 0911 234 567
+ */
+const PHONE_PATTERN = /\+\d[\d\s().-]{5,}\d|\(\d{2,4}\)\s?\d{3,4}[\s.-]\d{3,4}\b|\b\d{2,4}([\s.-])\d{2,4}(?:\1\d{2,4}){1,3}\b/g;
+
+/** Minimum digits for an international (+) match to count as a phone number */
+const PHONE_MIN_DIGITS = 7;
+
+/** Minimum digits for a grouped match (keeps 2026-10-19 and 10.20.30.40) */
+const GROUPED_PHONE_MIN_DIGITS = 9;
+
+/** Nesting depth kept when scrubbing objects */
+const MAX_DEPTH = 5;
+
+/** Longest string kept (stack traces excluded) */
+const MAX_STRING_LENGTH = 1000;
+
+/**
+ * Scrub personal data from a string
+ */
+export function scrubString(value: string): string {
+  return value
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(JWT_PATTERN, '[token]')
+    .replace(SENSITIVE_PARAMS, `$1${REDACTED}`)
+    .replace(PHONE_PATTERN, (match) => {
+      const minDigits = match.startsWith('+') ? PHONE_MIN_DIGITS : GROUPED_PHONE_MIN_DIGITS;
+      return match.replace(/\D/g, '').length >= minDigits ? '[phone]' : match;
+    });
+}
+
+/**
+ * Scrub personal data from any JSON-like value
+ *
+ * Errors become `{ name, message }`, functions are dropped and long
+ * strings are truncated so reports stay small.
+ */
+export function scrubValue(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    const scrubbed = scrubString(value);
+    return scrubbed.length > MAX_STRING_LENGTH ? `${scrubbed.slice(0, MAX_STRING_LENGTH)}…` : scrubbed;
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' ? undefined : value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: scrubString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = SENSITIVE_KEYS.test(key) ? REDACTED : scrubValue(item, depth + 1);
+  }
+  return result;
+}
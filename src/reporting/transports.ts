@@ -0,0 +1,111 @@
+/**
+ * Error Report Transports
+ *
+ * - HttpJsonTransport: posts JSON batches to any collector endpoint
+ *                      (see scripts/error-sink-server.js for a local one)
+ * - ConsoleTransport:  logs batches to the console
+ *
+ * `createErrorTransport()` posts to the build-time `VITE_ERRORS_ENDPOINT` in
+ * production builds and keeps reports local when it is unset. Dev builds log to
+ * the console; `?errors=` switches them to `json` (the configured endpoint),
+ * `console` or `off`. The URL never supplies the endpoint itself.
+ *
+ * @example
+ * ```typescript
+ * // .env.local: VITE_ERRORS_ENDPOINT=http://localhost:8788/errors
+ * const reporter = createErrorReporter(createErrorTransport('json'));
+ * ```
+ */
+
+import { ErrorTransportError } from '../utils/errors';
+import type { ErrorReportBatch, ErrorTransport } from './types';
+
+export class HttpJsonTransport implements ErrorTransport {
+  readonly name = 'http-json';
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  async send(batch: ErrorReportBatch): Promise<void> {
+    let response: Response;
+
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(batch),
+        keepalive: true
+      });
+    } catch (error) {
+      throw new ErrorTransportError('Network error while sending error reports', {
+        transport: this.name,
+        retryable: true,
+        originalError: error as Error
+      });
+    }
+
+    if (!response.ok) {
+      const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+      throw new ErrorTransportError(`Error reports rejected: HTTP ${response.status}`, {
+        transport: this.name,
+        status: response.status,
+        retryable
+      });
+    }
+  }
+
+  /**
+   * Beacons cannot carry custom headers; text/plain keeps the request
+   * CORS-simple so cross-origin collectors accept it without a preflight
+   */
+  sendBeacon(batch: ErrorReportBatch): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    const body = new Blob([JSON.stringify(batch)], { type: 'text/plain' });
+    return navigator.sendBeacon(this.url, body);
+  }
+}
+
+export class ConsoleTransport implements ErrorTransport {
+  readonly name = 'console';
+
+  async send(batch: ErrorReportBatch): Promise<void> {
+    console.groupCollapsed(`📮 Error reports (${batch.reports.length}, ${batch.dropped} dropped)`);
+    batch.reports.forEach((report) => {
+      console.log(`[${report.severity.toUpperCase()}] ${report.name}: ${report.message} ×${report.count}`, report);
+    });
+    console.groupEnd();
+  }
+
+  sendBeacon(batch: ErrorReportBatch): boolean {
+    this.send(batch);
+    return true;
+  }
+}
+
+/**
+ * Create the error transport for this environment
+ *
+ * @param spec - Transport spec (default: `?errors=` URL parameter, dev builds only)
+ * @param endpoint - Collector URL (default: VITE_ERRORS_ENDPOINT)
+ * @returns Transport, or null to keep reports local (also when no endpoint is configured)
+ */
+export function createErrorTransport(
+  spec: string | null = import.meta.env.DEV ? new URLSearchParams(window.location.search).get('errors') : null,
+  endpoint: string | undefined = import.meta.env.VITE_ERRORS_ENDPOINT
+): ErrorTransport | null {
+  if (spec === 'json') {
+    return endpoint ? new HttpJsonTransport(endpoint) : null;
+  }
+  if (spec === 'console') {
+    return new ConsoleTransport();
+  }
+  if (spec === 'off') {
+    return null;
+  }
+
+  if (import.meta.env.DEV) {
+    return new ConsoleTransport();
+  }
+  return endpoint ? new HttpJsonTransport(endpoint) : null;
+}
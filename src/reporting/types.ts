@@ -0,0 +1,76 @@
+/**
+ * Error Reporting Type Definitions
+ *
+ * Type definitions for the error reporting pipeline and its transports
+ */
+
+/**
+ * Severity levels shared with ErrorTracker
+ */
+export type ErrorSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Error as handed to the reporter (before scrubbing / deduplication)
+ */
+export interface ErrorReportInput {
+  name: string;
+  message: string;
+  stack?: string;
+  severity: ErrorSeverity;
+  context: Record<string, unknown>;
+  /** Epoch ms the error occurred */
+  timestamp: number;
+}
+
+/**
+ * Scrubbed, deduplicated error as sent to a transport
+ */
+export interface ErrorReport {
+  /** Stable hash of name, normalised message and top stack frame */
+  fingerprint: string;
+  name: string;
+  message: string;
+  stack?: string;
+  severity: ErrorSeverity;
+  context: Record<string, unknown>;
+  /** Epoch ms of the first occurrence */
+  firstSeen: number;
+  /** Epoch ms of the latest occurrence */
+  lastSeen: number;
+  /** Occurrences folded into this report */
+  count: number;
+}
+
+/**
+ * One delivery to a transport
+ */
+export interface ErrorReportBatch {
+  /** Random id for this page load */
+  sessionId: string;
+  /** Page URL (scrubbed) */
+  url: string;
+  userAgent: string;
+  /** ISO-8601 time the batch was sent */
+  sentAt: string;
+  reports: ErrorReport[];
+  /** Reports dropped by the rate limit or queue cap since the last batch */
+  dropped: number;
+}
+
+/**
+ * Pluggable delivery backend
+ *
+ * Implementations throw ErrorTransportError on failure and mark
+ * network / 5xx failures as retryable.
+ */
+export interface ErrorTransport {
+  /** Transport name (for logging) */
+  readonly name: string;
+  /** Deliver a batch */
+  send(batch: ErrorReportBatch): Promise<void>;
+  /**
+   * Fire-and-forget delivery while the page unloads
+   * @returns false if the browser refused to queue the batch
+   */
+  sendBeacon?(batch: ErrorReportBatch): boolean;
+}
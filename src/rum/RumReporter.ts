@@ -0,0 +1,253 @@
+/**
+ * RUM Reporter
+ *
+ * Sends real-user performance data collected by `performanceMonitor` for a
+ * sample of sessions:
+ * - One sampling decision per browser-tab session (kept in sessionStorage)
+ * - Batches every `flushInterval` while there is new data
+ * - Final batch with `sendBeacon` when the page is hidden or unloads
+ * - Device / GPU info from `getWebGLCapabilities()` on every batch
+ *
+ * @example
+ * ```typescript
+ * rumReporter.setTag('renderMode', 'low');
+ * rumReporter.start();
+ * ```
+ */
+
+import { performanceMonitor } from '../utils/monitoring';
+import { getWebGLCapabilities } from '../utils/webglContextHandler';
+import { getGPURenderer } from '../utils/renderMode';
+import { createRumTransport } from './transports';
+import type { RumBatch, RumDeviceInfo, RumTransport } from './types';
+
+export interface RumReporterConfig {
+  /** Fraction of sessions reported, 0-1 (default: `?rumSample=` or 0.2) */
+  sampleRate?: number;
+  /** Interval between batches in ms (default: 30000) */
+  flushInterval?: number;
+  /** sessionStorage key (default: 'translink:rum-session') */
+  storageKey?: string;
+}
+
+interface RumSession {
+  id: string;
+  sampled: boolean;
+}
+
+/**
+ * Sample rate from `?rumSample=`, if valid
+ * @private
+ */
+function getSampleRateFromURL(): number | null {
+  if (typeof window === 'undefined') return null;
+  const value = parseFloat(new URLSearchParams(window.location.search).get('rumSample') ?? '');
+  return Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : null;
+}
+
+export class RumReporter {
+  private transport: RumTransport | null;
+  private config: Required<RumReporterConfig>;
+  private session: RumSession | null = null;
+  private device: RumDeviceInfo | null = null;
+  private tags: Record<string, string> = {};
+  private sequence = 0;
+  private metricCursor = 0;
+  private assetCursor = 0;
+  private lastFrameCount = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(transport: RumTransport | null, config: RumReporterConfig = {}) {
+    this.transport = transport;
+    this.config = {
+      sampleRate: config.sampleRate ?? getSampleRateFromURL() ?? 0.2,
+      flushInterval: config.flushInterval ?? 30000,
+      storageKey: config.storageKey ?? 'translink:rum-session'
+    };
+  }
+
+  /**
+   * Start periodic and unload-time reporting (no-op for unsampled sessions)
+   * @returns Stop function
+   */
+  start(): () => void {
+    if (!this.transport || !this.getSession().sampled) {
+      return () => {};
+    }
+
+    const handleHidden = () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    };
+    const handlePageHide = () => this.flushWithBeacon();
+
+    document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', handlePageHide);
+    this.timer = setInterval(() => this.flush(), this.config.flushInterval);
+
+    console.log(`📈 RUM enabled (${this.transport.name}, sample rate ${this.config.sampleRate})`);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleHidden);
+      window.removeEventListener('pagehide', handlePageHide);
+      if (this.timer !== null) {
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * Attach a tag (render mode, locale, ...) to every following batch
+   */
+  setTag(key: string, value: string): void {
+    this.tags[key] = value;
+  }
+
+  /**
+   * Send new data now
+   */
+  async flush(): Promise<void> {
+    const batch = this.takeBatch();
+    if (!batch || !this.transport) return;
+
+    try {
+      await this.transport.send(batch);
+    } catch (error) {
+      // RUM is best effort - keep the data for the next batch
+      this.rewind(batch);
+      console.warn('⚠️ RUM batch delivery failed:', error);
+    }
+  }
+
+  /**
+   * Send new data with the transport's beacon while the page goes away
+   */
+  flushWithBeacon(): void {
+    if (!this.transport?.sendBeacon) return;
+
+    const batch = this.takeBatch();
+    if (batch && !this.transport.sendBeacon(batch)) {
+      this.rewind(batch);
+    }
+  }
+
+  /**
+   * Whether this session is reported
+   */
+  isSampled(): boolean {
+    return this.getSession().sampled;
+  }
+
+  /**
+   * Build the next batch, or null if nothing changed since the last one
+   */
+  private takeBatch(): RumBatch | null {
+    if (!this.getSession().sampled) return null;
+
+    const allMetrics = performanceMonitor.getMetrics();
+    const allAssets = performanceMonitor.getAssetMetrics();
+
+    // performanceMonitor.clear() resets its arrays
+    if (this.metricCursor > allMetrics.length) this.metricCursor = 0;
+    if (this.assetCursor > allAssets.length) this.assetCursor = 0;
+
+    const metrics = allMetrics.slice(this.metricCursor);
+    const assets = allAssets.slice(this.assetCursor);
+    const phases = performanceMonitor.getPhaseStats();
+    const frameCount = phases.reduce((sum, phase) => sum + phase.frames, 0);
+
+    if (metrics.length === 0 && assets.length === 0 && frameCount === this.lastFrameCount) {
+      return null;
+    }
+
+    this.metricCursor = allMetrics.length;
+    this.assetCursor = allAssets.length;
+    this.lastFrameCount = frameCount;
+    this.sequence++;
+
+    return {
+      sessionId: this.getSession().id,
+      sequence: this.sequence,
+      sampleRate: this.config.sampleRate,
+      sentAt: new Date().toISOString(),
+      page: window.location.pathname,
+      tags: { ...this.tags },
+      device: this.getDevice(),
+      metrics,
+      assets,
+      phases,
+      longTasks: performanceMonitor.getLongTaskStats()
+    };
+  }
+
+  /**
+   * Make a failed batch's deltas part of the next batch again
+   */
+  private rewind(batch: RumBatch): void {
+    this.metricCursor = Math.max(0, this.metricCursor - batch.metrics.length);
+    this.assetCursor = Math.max(0, this.assetCursor - batch.assets.length);
+    this.lastFrameCount = 0;
+  }
+
+  private getSession(): RumSession {
+    if (this.session) return this.session;
+
+    try {
+      const stored = sessionStorage.getItem(this.config.storageKey);
+      if (stored) {
+        this.session = JSON.parse(stored) as RumSession;
+        return this.session;
+      }
+    } catch (e) {
+      // Storage unavailable - decide for this page load only
+    }
+
+    this.session = {
+      id: Date.now().toString(36) + Math.random().toString(36).substring(2, 8),
+      sampled: Math.random() < this.config.sampleRate
+    };
+
+    try {
+      sessionStorage.setItem(this.config.storageKey, JSON.stringify(this.session));
+    } catch (e) {
+      // Ignore
+    }
+    return this.session;
+  }
+
+  /**
+   * Device info, probed once (creates a throwaway WebGL context)
+   */
+  private getDevice(): RumDeviceInfo {
+    if (this.device) return this.device;
+
+    const webgl = getWebGLCapabilities();
+    this.device = {
+      userAgent: navigator.userAgent,
+      hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+      deviceMemory: (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? null,
+      devicePixelRatio: window.devicePixelRatio,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      gpuRenderer: webgl.supported ? getGPURenderer() : null,
+      webgl
+    };
+    return this.device;
+  }
+}
+
+/**
+ * Create a RUM reporter
+ *
+ * @param transport - Delivery backend (null keeps metrics local)
+ * @param config - Sampling and batching configuration
+ */
+export function createRumReporter(transport: RumTransport | null, config?: RumReporterConfig): RumReporter {
+  return new RumReporter(transport, config);
+}
+
+/**
+ * Shared reporter, transport from the build config (see transports.ts)
+ */
+export const rumReporter = createRumReporter(
+  typeof window !== 'undefined' ? createRumTransport() : null
+);
@@ -0,0 +1,98 @@
+/**
+ * RUM Transports
+ *
+ * - HttpRumTransport:    posts JSON batches to a collector endpoint
+ *                        (see scripts/rum-collector.js for a local one)
+ * - ConsoleRumTransport: logs batches to the console
+ *
+ * `createRumTransport()` posts to the build-time `VITE_RUM_ENDPOINT` in
+ * production builds and keeps metrics local when it is unset. Dev builds log to
+ * the console; `?rum=` switches them to `json` (the configured endpoint),
+ * `console` or `off`. The URL never supplies the endpoint itself.
+ *
+ * @example
+ * ```typescript
+ * // .env.local: VITE_RUM_ENDPOINT=http://localhost:8789/rum
+ * const reporter = createRumReporter(createRumTransport('json'));
+ * ```
+ */
+
+import type { RumBatch, RumTransport } from './types';
+
+export class HttpRumTransport implements RumTransport {
+  readonly name = 'http-json';
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  async send(batch: RumBatch): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(batch),
+      keepalive: true
+    });
+
+    if (!response.ok) {
+      throw new Error(`RUM batch rejected: HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * text/plain keeps the beacon CORS-simple (no preflight)
+   */
+  sendBeacon(batch: RumBatch): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    const body = new Blob([JSON.stringify(batch)], { type: 'text/plain' });
+    return navigator.sendBeacon(this.url, body);
+  }
+}
+
+export class ConsoleRumTransport implements RumTransport {
+  readonly name = 'console';
+
+  async send(batch: RumBatch): Promise<void> {
+    console.groupCollapsed(`📈 RUM batch #${batch.sequence} (${batch.metrics.length} metrics, ${batch.assets.length} assets)`);
+    console.table(batch.metrics.map(({ name, value, unit }) => ({ name, value: Number(value.toFixed(2)), unit })));
+    console.table(batch.phases.map(({ phase, averageFps, seconds }) => ({
+      phase,
+      fps: Number(averageFps.toFixed(1)),
+      seconds: Number(seconds.toFixed(1))
+    })));
+    console.log('Long tasks:', batch.longTasks, 'Device:', batch.device);
+    console.groupEnd();
+  }
+
+  sendBeacon(batch: RumBatch): boolean {
+    this.send(batch);
+    return true;
+  }
+}
+
+/**
+ * Create the RUM transport for this environment
+ *
+ * @param spec - Transport spec (default: `?rum=` URL parameter, dev builds only)
+ * @param endpoint - Collector URL (default: VITE_RUM_ENDPOINT)
+ * @returns Transport, or null to keep metrics local (also when no endpoint is configured)
+ */
+export function createRumTransport(
+  spec: string | null = import.meta.env.DEV ? new URLSearchParams(window.location.search).get('rum') : null,
+  endpoint: string | undefined = import.meta.env.VITE_RUM_ENDPOINT
+): RumTransport | null {
+  if (spec === 'json') {
+    return endpoint ? new HttpRumTransport(endpoint) : null;
+  }
+  if (spec === 'console') {
+    return new ConsoleRumTransport();
+  }
+  if (spec === 'off') {
+    return null;
+  }
+
+  if (import.meta.env.DEV) {
+    return new ConsoleRumTransport();
+  }
+  return endpoint ? new HttpRumTransport(endpoint) : null;
+}
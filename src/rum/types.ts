@@ -0,0 +1,76 @@
+/**
+ * Real-User Monitoring Type Definitions
+ *
+ * Type definitions for RUM batches and their transports
+ */
+
+import type {
+  AssetLoadMetric,
+  LongTaskStats,
+  PerformanceMetric,
+  PhaseFrameStats
+} from '../utils/monitoring';
+
+/**
+ * Device and GPU description sent with every batch
+ */
+export interface RumDeviceInfo {
+  userAgent: string;
+  hardwareConcurrency: number | null;
+  /** Approximate RAM in GB (Chromium only) */
+  deviceMemory: number | null;
+  devicePixelRatio: number;
+  viewport: { width: number; height: number };
+  /** Unmasked GPU renderer string, if exposed */
+  gpuRenderer: string | null;
+  webgl: {
+    supported: boolean;
+    version: 'webgl' | 'webgl2' | null;
+    maxTextureSize: number | null;
+    maxCubeMapTextureSize: number | null;
+    maxRenderbufferSize: number | null;
+    maxVertexAttributes: number | null;
+  };
+}
+
+/**
+ * One delivery to a RUM transport
+ *
+ * `metrics` and `assets` only hold entries recorded since the previous
+ * batch; `phases` and `longTasks` are session totals, so the last batch of a
+ * session has the final values.
+ */
+export interface RumBatch {
+  /** Random id for this browser-tab session */
+  sessionId: string;
+  /** 1-based batch number within the session */
+  sequence: number;
+  /** Fraction of sessions sampled */
+  sampleRate: number;
+  /** ISO-8601 time the batch was sent */
+  sentAt: string;
+  /** Page path (no query string) */
+  page: string;
+  /** Free-form tags (render mode, locale, ...) */
+  tags: Record<string, string>;
+  device: RumDeviceInfo;
+  metrics: PerformanceMetric[];
+  assets: AssetLoadMetric[];
+  phases: PhaseFrameStats[];
+  longTasks: LongTaskStats;
+}
+
+/**
+ * Pluggable delivery backend
+ */
+export interface RumTransport {
+  /** Transport name (for logging) */
+  readonly name: string;
+  /** Deliver a batch, rejecting on failure */
+  send(batch: RumBatch): Promise<void>;
+  /**
+   * Fire-and-forget delivery while the page unloads
+   * @returns false if the browser refused to queue the batch
+   */
+  sendBeacon?(batch: RumBatch): boolean;
+}
@@ -0,0 +1,312 @@
+/**
+ * Scenario Engine
+ *
+ * Plays a scripted JSON timeline of fuel events (theft drain, refuel,
+ * sensor fault) on top of the live telematics stream, so sales can show
+ * theft detection on demand. Scenarios live in src/config/scenarios.json;
+ * custom ones can be loaded from any JSON URL with `?scenario=`.
+ *
+ * - `?scenario=theft`                    → built-in scenario by id
+ * - `?scenario=/scenarios/customer.json` → custom scenario file
+ *
+ * @example
+ * ```typescript
+ * const engine = await loadScenario(getScenarioSpecFromURL());
+ * engine?.onEvent((event) => showAlert(event.alert));
+ *
+ * // In animation loop
+ * const frame = engine.apply(telematicsSource.getLatest(), time);
+ * telematicsDashboard.setData(frame.data);
+ * ```
+ */
+
+import scenarioLibraryJson from '../config/scenarios.json';
+import { ConfigurationError } from '../utils/errors';
+import type {
+  SensorHealthCode,
+  TelematicsAlert,
+  TelematicsData,
+  TelematicsEventFlag
+} from '../textures/types';
+import type {
+  ScenarioConfig,
+  ScenarioEvent,
+  ScenarioEventListener,
+  ScenarioEventType,
+  ScenarioFrame,
+  ScenarioLibrary,
+  SensorFaultMode
+} from './types';
+
+const scenarioLibrary = scenarioLibraryJson as unknown as ScenarioLibrary;
+
+const EVENT_TYPES = ['drain', 'refuel', 'sensorFault'];
+const FAULT_MODES = ['stuck', 'noise', 'dropout'];
+const SEVERITIES = ['info', 'warning', 'critical'];
+const SEVERITY_RANK: Record<TelematicsAlert['severity'], number> = { info: 0, warning: 1, critical: 2 };
+const FAULT_HEALTH_CODES: Record<SensorFaultMode, SensorHealthCode> = {
+  stuck: 'probeStuck',
+  noise: 'probeNoise',
+  dropout: 'probeDropout'
+};
+const EVENT_FLAGS: Partial<Record<ScenarioEventType, TelematicsEventFlag>> = {
+  drain: 'fuelDrain',
+  refuel: 'refuel'
+};
+
+export class ScenarioEngine {
+  private scenario: ScenarioConfig;
+  private alertHold: number;
+  private duration: number;
+  private listeners = new Set<ScenarioEventListener>();
+  private fired = new Set<ScenarioEvent>();
+  private startTime: number | null = null;
+  private lastElapsed = 0;
+  private stuckLevel: number | null = null;
+
+  constructor(scenario: ScenarioConfig, alertHold: number = scenarioLibrary.alertHold) {
+    ScenarioEngine.validate(scenario);
+    this.scenario = scenario;
+    this.alertHold = alertHold;
+    this.duration = scenario.duration ?? Math.max(
+      0,
+      ...scenario.events.map((event) => event.at + event.duration + alertHold)
+    );
+  }
+
+  /**
+   * Validate a scenario (throws ConfigurationError)
+   *
+   * @param scenario - Parsed scenario JSON
+   * @param configPath - Source file / URL for error reporting
+   */
+  static validate(scenario: ScenarioConfig, configPath?: string): void {
+    const fail = (message: string, details: Record<string, any> = {}): never => {
+      throw new ConfigurationError(`Invalid scenario: ${message}`, {
+        configType: 'scenario',
+        configPath,
+        ...details
+      });
+    };
+
+    if (!scenario || typeof scenario.id !== 'string' || !Array.isArray(scenario.events)) {
+      fail('id and events are required');
+    }
+
+    scenario.events.forEach((event, index) => {
+      if (!EVENT_TYPES.includes(event.type)) {
+        fail(`event ${index} has unknown type "${event.type}"`, { scenarioId: scenario.id, index });
+      }
+      if (!(event.at >= 0) || !(event.duration > 0)) {
+        fail(`event ${index} needs at >= 0 and duration > 0`, { scenarioId: scenario.id, index });
+      }
+      if (event.type !== 'sensorFault' && !(event.amountPercent! > 0 && event.amountPercent! <= 100)) {
+        fail(`event ${index} needs amountPercent between 0 and 100`, { scenarioId: scenario.id, index });
+      }
+      if (event.fault !== undefined && !FAULT_MODES.includes(event.fault)) {
+        fail(`event ${index} has unknown fault "${event.fault}"`, { scenarioId: scenario.id, index });
+      }
+      if (!event.alert || !SEVERITIES.includes(event.alert.severity) || !event.alert.title) {
+        fail(`event ${index} needs an alert with severity and title`, { scenarioId: scenario.id, index });
+      }
+    });
+
+    if (scenario.loop && !(scenario.duration! > 0)) {
+      fail('looping scenarios need a duration', { scenarioId: scenario.id });
+    }
+  }
+
+  getScenario(): ScenarioConfig {
+    return this.scenario;
+  }
+
+  /**
+   * Subscribe to event starts
+   * @returns Unsubscribe function
+   */
+  onEvent(listener: ScenarioEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Restart the scenario on the next apply()
+   */
+  reset(): void {
+    this.startTime = null;
+    this.lastElapsed = 0;
+    this.fired.clear();
+    this.stuckLevel = null;
+  }
+
+  /**
+   * Apply the scenario to the latest telematics data
+   *
+   * @param data - Latest data from the telematics source
+   * @param time - Elapsed clock time in seconds (scenario starts on first call)
+   */
+  apply(data: TelematicsData, time: number): ScenarioFrame {
+    if (this.startTime === null) {
+      this.startTime = time;
+    }
+
+    let elapsed = time - this.startTime;
+    if (this.scenario.loop && this.duration > 0) {
+      elapsed %= this.duration;
+    }
+
+    // Looped back to the start - replay every event
+    if (elapsed < this.lastElapsed) {
+      this.fired.clear();
+      this.stuckLevel = null;
+    }
+    this.lastElapsed = elapsed;
+
+    // Real tank level: drains / refuels accumulate over their duration
+    let offset = 0;
+    this.scenario.events.forEach((event) => {
+      if (event.type === 'sensorFault') return;
+      const progress = Math.min(Math.max((elapsed - event.at) / event.duration, 0), 1);
+      const sign = event.type === 'drain' ? -1 : 1;
+      offset += sign * (event.amountPercent! / 100) * progress;
+    });
+    const actualFuelLevel = Math.min(Math.max(data.fuelLevel + offset, 0), 1);
+
+    const activeEvents = this.scenario.events.filter(
+      (event) => elapsed >= event.at && elapsed < event.at + event.duration
+    );
+
+    // Reported level: what the (possibly faulty) sensor sends
+    let reportedLevel = actualFuelLevel;
+    const fault = activeEvents.find((event) => event.type === 'sensorFault');
+    if (fault) {
+      switch (fault.fault ?? 'stuck') {
+        case 'stuck':
+          this.stuckLevel ??= actualFuelLevel;
+          reportedLevel = this.stuckLevel;
+          break;
+        case 'noise':
+          reportedLevel = Math.min(Math.max(actualFuelLevel + (Math.random() - 0.5) * 0.3, 0), 1);
+          break;
+        case 'dropout':
+          reportedLevel = 0;
+          break;
+      }
+    } else {
+      this.stuckLevel = null;
+    }
+
+    // Fire listeners once per event start
+    this.scenario.events.forEach((event) => {
+      if (elapsed >= event.at && !this.fired.has(event)) {
+        this.fired.add(event);
+        console.log(`🎬 Scenario "${this.scenario.id}": ${event.type} at ${event.at}s`);
+        this.listeners.forEach((listener) => listener(event, this.scenario));
+      }
+    });
+
+    const range = data.range !== undefined && data.fuelLevel > 0
+      ? Math.round(data.range * (reportedLevel / data.fuelLevel))
+      : data.range;
+
+    // Health codes and event flags a real gateway would report alongside
+    const sensorHealth = fault
+      ? [...(data.sensorHealth ?? []), FAULT_HEALTH_CODES[fault.fault ?? 'stuck']]
+      : data.sensorHealth;
+    const events = [...(data.events ?? [])];
+    activeEvents.forEach((event) => {
+      const flag = EVENT_FLAGS[event.type];
+      if (flag && !events.includes(flag)) events.push(flag);
+    });
+
+    return {
+      data: {
+        ...data,
+        fuelLevel: reportedLevel,
+        range,
+        sensorFault: fault !== undefined || data.sensorFault,
+        sensorHealth,
+        events,
+        alert: this.getActiveAlert(elapsed) ?? data.alert
+      },
+      actualFuelLevel,
+      activeEvents
+    };
+  }
+
+  /**
+   * Most severe alert whose event is running or ended less than alertHold ago
+   */
+  private getActiveAlert(elapsed: number): TelematicsAlert | null {
+    let alert: TelematicsAlert | null = null;
+
+    this.scenario.events.forEach((event) => {
+      const visible = elapsed >= event.at && elapsed < event.at + event.duration + this.alertHold;
+      if (visible && (!alert || SEVERITY_RANK[event.alert.severity] >= SEVERITY_RANK[alert.severity])) {
+        alert = event.alert;
+      }
+    });
+
+    return alert;
+  }
+}
+
+/**
+ * Read the scenario spec from the `?scenario=` URL parameter
+ */
+export function getScenarioSpecFromURL(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('scenario');
+}
+
+/**
+ * Built-in scenarios (src/config/scenarios.json)
+ */
+export function getBuiltInScenarios(): ScenarioConfig[] {
+  return scenarioLibrary.scenarios;
+}
+
+/**
+ * Create a scenario engine from a spec
+ *
+ * @param spec - Built-in scenario id or URL of a scenario JSON file
+ * @returns Scenario engine, or null when no scenario is requested
+ * @throws ConfigurationError for unknown ids or invalid JSON
+ */
+export async function loadScenario(spec: string | null | undefined): Promise<ScenarioEngine | null> {
+  const value = spec?.trim();
+  if (!value) return null;
+
+  if (value.endsWith('.json')) {
+    let scenario: ScenarioConfig;
+    try {
+      const response = await fetch(value);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      scenario = await response.json();
+    } catch (error) {
+      throw new ConfigurationError(`Failed to load scenario from ${value}`, {
+        configType: 'scenario',
+        configPath: value,
+        originalError: error as Error
+      });
+    }
+
+    ScenarioEngine.validate(scenario, value);
+    return new ScenarioEngine(scenario);
+  }
+
+  const scenario = scenarioLibrary.scenarios.find((s) => s.id === value);
+  if (!scenario) {
+    throw new ConfigurationError(`Unknown scenario "${value}"`, {
+      configType: 'scenario',
+      configPath: 'src/config/scenarios.json',
+      available: scenarioLibrary.scenarios.map((s) => s.id)
+    });
+  }
+
+  return new ScenarioEngine(scenario);
+}
@@ -0,0 +1,84 @@
+/**
+ * Scenario Type Definitions
+ *
+ * Type definitions for scripted fuel-event demos
+ * (see src/config/scenarios.json)
+ */
+
+import type { TelematicsAlert, TelematicsData } from '../textures/types';
+
+/**
+ * Scripted event kinds
+ * - drain:       fuel theft (level drops while parked / driving)
+ * - refuel:      fuel added at a station
+ * - sensorFault: the probe reading becomes unreliable
+ */
+export type ScenarioEventType = 'drain' | 'refuel' | 'sensorFault';
+
+/**
+ * How a faulty sensor misreports the fuel level
+ * - stuck:   reading freezes at the level when the fault started
+ * - noise:   reading jumps randomly around the real level
+ * - dropout: no reading at all (reported as 0%)
+ */
+export type SensorFaultMode = 'stuck' | 'noise' | 'dropout';
+
+/**
+ * Single event on a scenario timeline
+ */
+export interface ScenarioEvent {
+  type: ScenarioEventType;
+  /** Start time in seconds from scenario start */
+  at: number;
+  /** Event duration in seconds */
+  duration: number;
+  /** Fuel removed (drain) or added (refuel) over the duration, in percent of the tank */
+  amountPercent?: number;
+  /** Fault behaviour for sensorFault events (default: 'stuck') */
+  fault?: SensorFaultMode;
+  /** Dashboard / HUD alert raised when the event starts */
+  alert: TelematicsAlert;
+}
+
+/**
+ * Scripted demo timeline
+ */
+export interface ScenarioConfig {
+  /** Unique scenario identifier (used by ?scenario=) */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Sales notes - optional */
+  description?: string;
+  /** Total length in seconds (default: end of the last event + alertHold) */
+  duration?: number;
+  /** Restart from the beginning after `duration` (default: false) */
+  loop?: boolean;
+  events: ScenarioEvent[];
+}
+
+/**
+ * Scenario library JSON file
+ */
+export interface ScenarioLibrary {
+  /** Seconds an alert stays visible after its event ends */
+  alertHold: number;
+  scenarios: ScenarioConfig[];
+}
+
+/**
+ * Telematics values after the scenario has been applied
+ */
+export interface ScenarioFrame {
+  /** Data as reported by the (possibly faulty) sensor - feed this to the dashboard */
+  data: TelematicsData;
+  /** Real fuel level in the tank (0.0-1.0) - feed this to the 3D fuel volume */
+  actualFuelLevel: number;
+  /** Events currently running */
+  activeEvents: ScenarioEvent[];
+}
+
+/**
+ * Called once when an event starts
+ */
+export type ScenarioEventListener = (event: ScenarioEvent, scenario: ScenarioConfig) => void;
@@ -0,0 +1,120 @@
+/**
+ * Replay Telematics Source
+ *
+ * Plays back a recorded trip (JSON file with timed frames) so the showroom
+ * demo can show real truck data without a live connection.
+ *
+ * @example
+ * ```typescript
+ * const source = new ReplayTelematicsSource({ url: '/telematics/sample-trip.json' });
+ * source.subscribe((data) => console.log(data.speed, data.fuelLevel));
+ * source.connect();
+ * ```
+ */
+
+import { BaseTelematicsSource } from './TelematicsSource';
+import { ErrorHandler, TelematicsSourceError } from '../utils/errors';
+import { migrateTelematicsMessage, validateTelematicsMessage } from './schema';
+import type { ReplaySourceOptions, TelematicsRecording, TelematicsReplayFrame } from './types';
+
+export class ReplayTelematicsSource extends BaseTelematicsSource {
+  readonly type = 'replay' as const;
+  private options: Required<ReplaySourceOptions>;
+  private frames: TelematicsReplayFrame[] = [];
+  private frameIndex = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private abortController: AbortController | null = null;
+
+  constructor(options: ReplaySourceOptions) {
+    super();
+    this.options = {
+      url: options.url,
+      loop: options.loop ?? true,
+      playbackRate: options.playbackRate ?? 1
+    };
+  }
+
+  connect(): void {
+    if (this.abortController || this.timer) return;
+
+    this.setStatus('connecting');
+    this.abortController = new AbortController();
+
+    this.loadRecording(this.abortController.signal)
+      .then((frames) => {
+        this.frames = frames;
+        this.frameIndex = 0;
+        console.log(`📼 Telematics replay loaded: ${frames.length} frames from ${this.options.url}`);
+        this.setStatus('open');
+        this.playNextFrame();
+      })
+      .catch((error) => {
+        if ((error as Error).name === 'AbortError') return;
+        this.setStatus('error');
+        ErrorHandler.getInstance().handle(
+          new TelematicsSourceError('Failed to load telematics recording', {
+            sourceType: 'replay',
+            url: this.options.url,
+            originalError: error as Error
+          })
+        );
+      })
+      .finally(() => {
+        this.abortController = null;
+      });
+  }
+
+  disconnect(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.setStatus('closed');
+  }
+
+  private async loadRecording(signal: AbortSignal): Promise<TelematicsReplayFrame[]> {
+    const response = await fetch(this.options.url, { signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const recording = await response.json() as TelematicsRecording;
+    if (!Array.isArray(recording.frames) || recording.frames.length === 0) {
+      throw new Error('Recording contains no frames');
+    }
+
+    // Reject a bad recording up front rather than frame by frame during playback
+    const frames = recording.frames.map(({ t, ...message }, index) => {
+      const migrated = migrateTelematicsMessage(message);
+      validateTelematicsMessage(migrated, `${this.options.url} (frame ${index})`);
+      return { ...migrated, t };
+    });
+
+    return frames.sort((a, b) => a.t - b.t);
+  }
+
+  private playNextFrame(): void {
+    const frame = this.frames[this.frameIndex];
+    this.handleMessage(frame, this.options.url);
+
+    let nextIndex = this.frameIndex + 1;
+    if (nextIndex >= this.frames.length) {
+      if (!this.options.loop) {
+        this.timer = null;
+        this.setStatus('closed');
+        return;
+      }
+      nextIndex = 0;
+    }
+
+    // Restarting the loop reuses the first frame interval of the recording
+    const gap = nextIndex === 0
+      ? (this.frames[1]?.t ?? 1000) - this.frames[0].t
+      : this.frames[nextIndex].t - frame.t;
+
+    this.frameIndex = nextIndex;
+    this.timer = setTimeout(() => this.playNextFrame(), Math.max(gap, 16) / this.options.playbackRate);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events Telematics Source
+ *
+ * Receives JSON sensor messages from an EventSource stream. Messages are
+ * read from the default `message` event and the named `telematics` event.
+ *
+ * @example
+ * ```typescript
+ * const source = new SSETelematicsSource({ url: 'http://localhost:8787/events' });
+ * source.subscribe((data) => console.log(data.speed, data.fuelLevel));
+ * source.connect();
+ * ```
+ */
+
+import { NetworkTelematicsSource } from './TelematicsSource';
+
+export class SSETelematicsSource extends NetworkTelematicsSource {
+  readonly type = 'sse' as const;
+  private eventSource: EventSource | null = null;
+
+  private onPayload = (event: MessageEvent) => {
+    this.handlePayload(event.data);
+  };
+
+  protected open(): void {
+    const eventSource = new EventSource(this.options.url);
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      console.log(`📡 Telematics SSE stream connected: ${this.options.url}`);
+      this.handleOpen();
+    };
+
+    eventSource.onmessage = this.onPayload;
+    eventSource.addEventListener('telematics', this.onPayload as EventListener);
+
+    // EventSource retries on its own while CONNECTING; only take over once it gives up
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CLOSED && this.eventSource === eventSource) {
+        this.handleClose();
+      }
+    };
+  }
+
+  protected close(): void {
+    if (!this.eventSource) return;
+
+    const eventSource = this.eventSource;
+    this.eventSource = null;
+    eventSource.onopen = null;
+    eventSource.onmessage = null;
+    eventSource.onerror = null;
+    eventSource.removeEventListener('telematics', this.onPayload as EventListener);
+    eventSource.close();
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Simulated Telematics Source
+ *
+ * Generates the synthetic cruise values used when no live feed is
+ * configured: speed oscillating around 96 KM/H and a slow linear fuel drain,
+ * with engine, GPS and probe values to match (schema version 2).
+ */
+
+import { DEFAULT_TANK_CAPACITY_LITERS, TELEMATICS_SCHEMA_VERSION } from './schema';
+import { BaseTelematicsSource } from './TelematicsSource';
+
+export interface SimulatedSourceOptions {
+  /** Update interval in ms (default: 500) */
+  interval?: number;
+  /** Base cruise speed in KM/H (default: 96) */
+  baseSpeed?: number;
+  /** Starting fuel level in percent (default: 65) */
+  startFuelPercent?: number;
+  /** Lowest fuel level in percent (default: 15) */
+  minFuelPercent?: number;
+}
+
+/** Start of the simulated trip: Addis Ababa, heading south-east toward Adama */
+const START_POSITION = { lat: 8.9806, lon: 38.7578 };
+const HEADING_DEG = 120;
+const START_ODOMETER_KM = 184230;
+const START_ENGINE_HOURS = 6120;
+/** Approximate - ignores the longitude shrink, which is small near the equator */
+const KM_PER_DEGREE = 111.32;
+
+export class SimulatedTelematicsSource extends BaseTelematicsSource {
+  readonly type = 'simulated' as const;
+  private options: Required<SimulatedSourceOptions>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startTime = 0;
+
+  constructor(options: SimulatedSourceOptions = {}) {
+    super();
+    this.options = {
+      interval: options.interval ?? 500,
+      baseSpeed: options.baseSpeed ?? 96,
+      startFuelPercent: options.startFuelPercent ?? 65,
+      minFuelPercent: options.minFuelPercent ?? 15
+    };
+  }
+
+  connect(): void {
+    if (this.timer) return;
+
+    this.startTime = performance.now();
+    this.setStatus('open');
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.options.interval);
+  }
+
+  disconnect(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.setStatus('closed');
+  }
+
+  private tick(): void {
+    const time = (performance.now() - this.startTime) / 1000;
+    const speedKmh = this.options.baseSpeed + Math.sin(time * 0.5) * 10;
+    // Distance at the base speed is close enough for a demo odometer
+    const distanceKm = (this.options.baseSpeed * time) / 3600;
+    const heading = (HEADING_DEG * Math.PI) / 180;
+
+    this.handleMessage({
+      schemaVersion: TELEMATICS_SCHEMA_VERSION,
+      speedKmh,
+      fuelLevelPercent: Math.max(this.options.minFuelPercent, this.options.startFuelPercent - time * 0.2),
+      position: {
+        lat: START_POSITION.lat + (Math.cos(heading) * distanceKm) / KM_PER_DEGREE,
+        lon: START_POSITION.lon + (Math.sin(heading) * distanceKm) / KM_PER_DEGREE
+      },
+      headingDeg: HEADING_DEG,
+      odometerKm: START_ODOMETER_KM + distanceKm,
+      engineHours: START_ENGINE_HOURS + time / 3600,
+      rpm: Math.round(speedKmh * 15),
+      coolantTempC: 88 + Math.sin(time * 0.05) * 2,
+      tankCapacityL: DEFAULT_TANK_CAPACITY_LITERS,
+      probeTempC: 18,
+      sensorHealth: [],
+      events: ['ignitionOn']
+    });
+  }
+}
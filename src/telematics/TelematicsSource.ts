@@ -0,0 +1,257 @@
+/**
+ * Base Telematics Source
+ *
+ * Shared listener, status and message decoding logic for every
+ * TelematicsSource implementation. Sub-classes only deal with transport
+ * and call `handleMessage()` with each raw sensor message; messages are
+ * migrated and validated against the telemetry schema (see schema.ts)
+ * before they are decoded.
+ */
+
+import type { TelematicsData } from '../textures/types';
+import { ErrorHandler, TelematicsSourceError } from '../utils/errors';
+import {
+  migrateTelematicsMessage,
+  normalizeHeading,
+  percentToLevel,
+  PROBE_HEALTH_CODES,
+  validateTelematicsMessage
+} from './schema';
+import type {
+  AnyTelematicsMessage,
+  NetworkSourceOptions,
+  TelematicsListener,
+  TelematicsMessage,
+  TelematicsSource,
+  TelematicsSourceStatus,
+  TelematicsStatusListener
+} from './types';
+
+/**
+ * Convert a raw sensor message into display data
+ * Fields missing from the message are taken from `previous`
+ *
+ * @param message - Validated sensor message in the current schema version
+ * @param previous - Last known display data (optional)
+ * @returns Display data or null when the message carries no usable values
+ */
+export function decodeTelematicsMessage(
+  message: TelematicsMessage,
+  previous: TelematicsData | null = null
+): TelematicsData | null {
+  const speed = toNumber(message.speedKmh) ?? previous?.speed;
+  const fuelPercent = toNumber(message.fuelLevelPercent);
+  const fuelLevel = fuelPercent !== undefined ? percentToLevel(fuelPercent) : previous?.fuelLevel;
+
+  if (speed === undefined || fuelLevel === undefined) {
+    return null;
+  }
+
+  const batteryPercent = toNumber(message.batteryPercent);
+  const temperature = toNumber(message.ambientTempC);
+  const range = toNumber(message.rangeKm);
+  const heading = toNumber(message.headingDeg);
+  const sensorHealth = message.sensorHealth ?? previous?.sensorHealth;
+
+  return {
+    speed: clamp(speed, 0, 160),
+    fuelLevel: clamp(fuelLevel, 0, 1),
+    batteryLevel: batteryPercent !== undefined ? clamp(percentToLevel(batteryPercent), 0, 1) : previous?.batteryLevel,
+    temperature: temperature !== undefined ? Math.round(temperature) : previous?.temperature,
+    time: formatTime(message.timestamp) ?? previous?.time,
+    ecoMode: typeof message.ecoMode === 'boolean' ? message.ecoMode : previous?.ecoMode,
+    range: range !== undefined ? Math.round(range) : previous?.range,
+    sensorFault: sensorHealth?.some((code) => PROBE_HEALTH_CODES.includes(code)),
+    position: message.position
+      ? { latitude: message.position.lat, longitude: message.position.lon }
+      : previous?.position,
+    heading: heading !== undefined ? normalizeHeading(heading) : previous?.heading,
+    odometer: toNumber(message.odometerKm) ?? previous?.odometer,
+    engineHours: toNumber(message.engineHours) ?? previous?.engineHours,
+    rpm: toNumber(message.rpm) ?? previous?.rpm,
+    coolantTemperature: toNumber(message.coolantTempC) ?? previous?.coolantTemperature,
+    tankCapacity: toNumber(message.tankCapacityL) ?? previous?.tankCapacity,
+    probeTemperature: toNumber(message.probeTempC) ?? previous?.probeTemperature,
+    sensorHealth,
+    events: message.events ?? previous?.events
+  };
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function formatTime(timestamp: string | number | undefined): string | undefined {
+  if (timestamp === undefined) return undefined;
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return undefined;
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+export abstract class BaseTelematicsSource implements TelematicsSource {
+  abstract readonly type: TelematicsSource['type'];
+
+  private listeners: Set<TelematicsListener> = new Set();
+  private statusListeners: Set<TelematicsStatusListener> = new Set();
+  private latest: TelematicsData | null = null;
+  private status: TelematicsSourceStatus = 'idle';
+  /** Validation errors already reported, so a bad feed is not reported every message */
+  private reportedErrors = new Set<string>();
+
+  abstract connect(): void;
+  abstract disconnect(): void;
+
+  subscribe(listener: TelematicsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: TelematicsStatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getLatest(): TelematicsData | null {
+    return this.latest;
+  }
+
+  getStatus(): TelematicsSourceStatus {
+    return this.status;
+  }
+
+  /**
+   * Migrate, validate and decode a raw message and notify listeners
+   * Invalid messages are dropped and reported once per distinct error.
+   * @param raw - Parsed message in any supported schema version
+   * @param origin - Feed URL (for error context)
+   * @returns True if the message produced a display update
+   */
+  protected handleMessage(raw: AnyTelematicsMessage, origin?: string): boolean {
+    const message = migrateTelematicsMessage(raw);
+    try {
+      validateTelematicsMessage(message, origin);
+    } catch (error) {
+      const { message: reason } = error as Error;
+      if (!this.reportedErrors.has(reason)) {
+        this.reportedErrors.add(reason);
+        ErrorHandler.getInstance().handle(error as Error);
+      }
+      return false;
+    }
+
+    const data = decodeTelematicsMessage(message, this.latest);
+    if (!data) {
+      return false;
+    }
+
+    this.latest = data;
+    this.listeners.forEach((listener) => listener(data, message));
+    return true;
+  }
+
+  protected setStatus(status: TelematicsSourceStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+}
+
+/**
+ * Base class for network sources with exponential-backoff reconnects
+ */
+export abstract class NetworkTelematicsSource extends BaseTelematicsSource {
+  protected readonly options: Required<NetworkSourceOptions>;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private stopped = true;
+
+  constructor(options: NetworkSourceOptions) {
+    super();
+    this.options = {
+      url: options.url,
+      reconnect: options.reconnect ?? true,
+      reconnectDelay: options.reconnectDelay ?? 1000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 30000
+    };
+  }
+
+  /** Open the underlying transport */
+  protected abstract open(): void;
+  /** Close the underlying transport */
+  protected abstract close(): void;
+
+  connect(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.setStatus('connecting');
+    this.open();
+  }
+
+  disconnect(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.close();
+    this.setStatus('closed');
+  }
+
+  /** Call when the transport is open */
+  protected handleOpen(): void {
+    this.reconnectAttempts = 0;
+    this.setStatus('open');
+  }
+
+  /** Call when the transport dropped - schedules a reconnect if enabled */
+  protected handleClose(): void {
+    this.close();
+    if (this.stopped) return;
+
+    if (!this.options.reconnect) {
+      this.setStatus('closed');
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.reconnectDelay * Math.pow(2, this.reconnectAttempts),
+      this.options.maxReconnectDelay
+    );
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+
+    console.warn(`📡 Telematics ${this.type} feed lost, reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  /** Parse a JSON payload and forward it to handleMessage */
+  protected handlePayload(payload: string): void {
+    try {
+      const message = JSON.parse(payload) as AnyTelematicsMessage;
+      this.handleMessage(message, this.options.url);
+    } catch (error) {
+      ErrorHandler.getInstance().handle(
+        new TelematicsSourceError('Invalid telematics payload', {
+          sourceType: this.type,
+          url: this.options.url,
+          payload: payload.slice(0, 200),
+          originalError: error as Error
+        })
+      );
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * WebSocket Telematics Source
+ *
+ * Receives JSON sensor messages (one per frame) from a WebSocket gateway
+ * and reconnects with exponential backoff when the socket drops.
+ *
+ * @example
+ * ```typescript
+ * const source = new WebSocketTelematicsSource({ url: 'ws://localhost:8787/telematics' });
+ * source.subscribe((data) => console.log(data.speed, data.fuelLevel));
+ * source.connect();
+ * ```
+ */
+
+import { NetworkTelematicsSource } from './TelematicsSource';
+
+export class WebSocketTelematicsSource extends NetworkTelematicsSource {
+  readonly type = 'websocket' as const;
+  private socket: WebSocket | null = null;
+
+  protected open(): void {
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`📡 Telematics WebSocket connected: ${this.options.url}`);
+      this.handleOpen();
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data === 'string') {
+        this.handlePayload(event.data);
+      }
+    };
+
+    // onerror is always followed by onclose - reconnect is handled there
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.handleClose();
+      }
+    };
+  }
+
+  protected close(): void {
+    if (!this.socket) return;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+
+    if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+      socket.close();
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Telematics Source Factory
+ *
+ * Picks a TelematicsSource from a feed spec. The spec comes from the
+ * `?telematics=` URL parameter so the showroom can be pointed at a feed
+ * without rebuilding:
+ *
+ * - `ws://host:port/path` / `wss://...` → WebSocket
+ * - `sse:https://host/events`           → Server-Sent Events
+ * - `replay:/telematics/trip.json`      → recorded-JSON replay
+ * - missing or `simulated`              → built-in simulation
+ *
+ * @example
+ * ```typescript
+ * const source = createTelematicsSource(getTelematicsSpecFromURL());
+ * source.connect();
+ * ```
+ */
+
+import { ReplayTelematicsSource } from './ReplayTelematicsSource';
+import { SSETelematicsSource } from './SSETelematicsSource';
+import { SimulatedTelematicsSource } from './SimulatedTelematicsSource';
+import { WebSocketTelematicsSource } from './WebSocketTelematicsSource';
+import type { TelematicsSource } from './types';
+
+/**
+ * Read the feed spec from the `?telematics=` URL parameter
+ */
+export function getTelematicsSpecFromURL(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('telematics');
+}
+
+/**
+ * Create a telematics source from a feed spec
+ *
+ * @param spec - Feed spec (see module docs)
+ * @returns Unconnected telematics source
+ */
+export function createTelematicsSource(spec: string | null | undefined): TelematicsSource {
+  const value = spec?.trim();
+
+  if (!value || value === 'simulated') {
+    return new SimulatedTelematicsSource();
+  }
+
+  if (value.startsWith('ws://') || value.startsWith('wss://')) {
+    return new WebSocketTelematicsSource({ url: value });
+  }
+
+  if (value.startsWith('sse:')) {
+    return new SSETelematicsSource({ url: value.slice('sse:'.length) });
+  }
+
+  if (value.startsWith('replay:')) {
+    return new ReplayTelematicsSource({ url: value.slice('replay:'.length) });
+  }
+
+  console.warn(`⚠️ Unknown telematics feed "${value}", using simulated data`);
+  return new SimulatedTelematicsSource();
+}
@@ -0,0 +1,204 @@
+/**
+ * Telemetry Schema
+ *
+ * Versioned contract for the messages every telematics source receives.
+ * Sources migrate each message to the current version, validate it and
+ * decode it into TelematicsData (see decodeTelematicsMessage), so widgets
+ * never see a field they do not know.
+ *
+ * Versions:
+ * - 1: speed, fuel, battery, ambient temperature (`temperatureC`), ECO mode, range
+ * - 2: adds GPS position, heading, odometer, engine hours, RPM, coolant and
+ *   probe temperature, tank capacity, sensor health codes and event flags;
+ *   renames `temperatureC` to `ambientTempC`
+ *
+ * All values are metric (KM/H, KM, liters, °C); see src/i18n/units.ts for display conversion.
+ *
+ * @example
+ * ```typescript
+ * const message = migrateTelematicsMessage(JSON.parse(payload));
+ * validateTelematicsMessage(message);
+ * const data = decodeTelematicsMessage(message, previous);
+ * ```
+ */
+
+import type { SensorHealthCode, TelematicsEventFlag } from '../textures/types';
+import { ConfigurationError } from '../utils/errors';
+import type { AnyTelematicsMessage, TelematicsMessage, TelematicsMessageV1 } from './types';
+
+export const TELEMATICS_SCHEMA_VERSION = 2;
+
+export const SENSOR_HEALTH_CODES: SensorHealthCode[] = [
+  'probeFault',
+  'probeStuck',
+  'probeNoise',
+  'probeDropout',
+  'gpsNoFix',
+  'canTimeout',
+  'lowVoltage',
+  'tamper'
+];
+
+/** Codes meaning the fuel reading cannot be trusted (TelematicsData.sensorFault) */
+export const PROBE_HEALTH_CODES: SensorHealthCode[] = ['probeFault', 'probeStuck', 'probeNoise', 'probeDropout'];
+
+export const TELEMATICS_EVENT_FLAGS: TelematicsEventFlag[] = [
+  'ignitionOn',
+  'idling',
+  'overspeed',
+  'harshBraking',
+  'harshAcceleration',
+  'refuel',
+  'fuelDrain'
+];
+
+/** Tank capacity assumed when the gateway does not report one (liters) */
+export const DEFAULT_TANK_CAPACITY_LITERS = 400;
+
+type NumericMessageField = {
+  [K in keyof TelematicsMessage]-?: TelematicsMessage[K] extends number | undefined ? K : never;
+}[keyof TelematicsMessage];
+
+/**
+ * Accepted range per numeric field (inclusive)
+ */
+const NUMERIC_RANGES: Record<Exclude<NumericMessageField, 'schemaVersion'>, [number, number]> = {
+  speedKmh: [0, 300],
+  fuelLevelPercent: [0, 100],
+  batteryPercent: [0, 100],
+  ambientTempC: [-60, 70],
+  rangeKm: [0, 10000],
+  headingDeg: [0, 360],
+  odometerKm: [0, 10000000],
+  engineHours: [0, 1000000],
+  rpm: [0, 10000],
+  coolantTempC: [-60, 150],
+  tankCapacityL: [1, 5000],
+  probeTempC: [-60, 100]
+};
+
+/**
+ * Bring a message of any supported version up to the current schema
+ *
+ * Messages without `schemaVersion` are version 1. Messages from a newer
+ * version are returned unchanged for validateTelematicsMessage to reject.
+ *
+ * @param message - Parsed message
+ * @returns Message in the current schema version
+ */
+export function migrateTelematicsMessage(message: AnyTelematicsMessage): TelematicsMessage {
+  if (!message || typeof message !== 'object' || (message.schemaVersion ?? 1) !== 1) {
+    return message as TelematicsMessage;
+  }
+
+  const { temperatureC, ...fields } = message as TelematicsMessageV1;
+  const migrated: TelematicsMessage = { ...fields, schemaVersion: TELEMATICS_SCHEMA_VERSION };
+  if (temperatureC !== undefined) {
+    migrated.ambientTempC = temperatureC;
+  }
+  return migrated;
+}
+
+/**
+ * Validate a message against the current schema
+ *
+ * @param message - Migrated message
+ * @param configPath - Where the message came from, e.g. a recording URL (for error context)
+ * @throws ConfigurationError naming the first invalid field
+ */
+export function validateTelematicsMessage(message: TelematicsMessage, configPath?: string): void {
+  const fail = (reason: string, details: Record<string, any> = {}): never => {
+    throw new ConfigurationError(`Invalid telemetry message: ${reason}`, {
+      configType: 'telemetry',
+      configPath,
+      ...details
+    });
+  };
+
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    fail('expected a JSON object');
+  }
+
+  if (message.schemaVersion !== TELEMATICS_SCHEMA_VERSION) {
+    fail(`unsupported schema version ${message.schemaVersion} (current: ${TELEMATICS_SCHEMA_VERSION})`, {
+      schemaVersion: message.schemaVersion
+    });
+  }
+
+  if (message.vehicleId !== undefined && typeof message.vehicleId !== 'string') {
+    fail('vehicleId must be a string', { value: message.vehicleId });
+  }
+
+  if (message.timestamp !== undefined) {
+    const valid = (typeof message.timestamp === 'string' || typeof message.timestamp === 'number') &&
+      !isNaN(new Date(message.timestamp).getTime());
+    if (!valid) fail('timestamp must be ISO-8601 or epoch milliseconds', { value: message.timestamp });
+  }
+
+  (Object.keys(NUMERIC_RANGES) as (keyof typeof NUMERIC_RANGES)[]).forEach((field) => {
+    const value = message[field];
+    if (value === undefined) return;
+    const [min, max] = NUMERIC_RANGES[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      fail(`${field} must be a number from ${min} to ${max}`, { field, value });
+    }
+  });
+
+  if (message.ecoMode !== undefined && typeof message.ecoMode !== 'boolean') {
+    fail('ecoMode must be a boolean', { value: message.ecoMode });
+  }
+
+  if (message.position !== undefined) {
+    const { lat, lon } = message.position ?? {};
+    if (!(typeof lat === 'number' && lat >= -90 && lat <= 90) || !(typeof lon === 'number' && lon >= -180 && lon <= 180)) {
+      fail('position needs lat (-90 to 90) and lon (-180 to 180)', { value: message.position });
+    }
+  }
+
+  checkCodes(message.sensorHealth, SENSOR_HEALTH_CODES, 'sensorHealth', fail);
+  checkCodes(message.events, TELEMATICS_EVENT_FLAGS, 'events', fail);
+}
+
+/**
+ * Percent (0-100) to level (0-1)
+ */
+export function percentToLevel(percent: number): number {
+  return percent / 100;
+}
+
+/**
+ * Fuel in the tank in liters
+ *
+ * @param fuelLevel - Level (0-1)
+ * @param tankCapacity - Tank capacity in liters (default: DEFAULT_TANK_CAPACITY_LITERS)
+ */
+export function fuelVolumeLiters(fuelLevel: number, tankCapacity: number = DEFAULT_TANK_CAPACITY_LITERS): number {
+  return fuelLevel * tankCapacity;
+}
+
+/**
+ * Heading in degrees wrapped to 0-360 (exclusive)
+ */
+export function normalizeHeading(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * @private
+ */
+function checkCodes(
+  codes: unknown,
+  known: string[],
+  field: 'sensorHealth' | 'events',
+  fail: (reason: string, details?: Record<string, any>) => never
+): void {
+  if (codes === undefined) return;
+  if (!Array.isArray(codes)) {
+    fail(`${field} must be an array`, { field, value: codes });
+  }
+  (codes as unknown[]).forEach((code) => {
+    if (typeof code !== 'string' || !known.includes(code)) {
+      fail(`unknown ${field} code "${String(code)}"`, { field, value: code, known });
+    }
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * Telematics Feed Type Definitions
+ *
+ * Type definitions for live telematics data sources
+ */
+
+import type {
+  SensorHealthCode,
+  TelematicsData,
+  TelematicsEventFlag
+} from '../textures/types';
+
+/**
+ * Raw sensor message as sent by the fleet gateway (and the mock server),
+ * schema version 2 (see src/telematics/schema.ts)
+ *
+ * Every field is optional - sources merge partial messages into the
+ * last known state so a gateway may send only what changed.
+ */
+export interface TelematicsMessage {
+  /** Schema version (2; messages without one are version 1) */
+  schemaVersion?: number;
+  /** Vehicle identifier */
+  vehicleId?: string;
+  /** ISO-8601 timestamp or epoch milliseconds */
+  timestamp?: string | number;
+  /** Speed in KM/H */
+  speedKmh?: number;
+  /** Fuel level in percent (0-100) */
+  fuelLevelPercent?: number;
+  /** Battery level in percent (0-100) */
+  batteryPercent?: number;
+  /** Ambient temperature in Celsius */
+  ambientTempC?: number;
+  /** ECO mode enabled */
+  ecoMode?: boolean;
+  /** Estimated range in KM */
+  rangeKm?: number;
+  /** GPS position in degrees */
+  position?: { lat: number; lon: number };
+  /** Heading in degrees clockwise from north */
+  headingDeg?: number;
+  /** Odometer in KM */
+  odometerKm?: number;
+  /** Engine hours */
+  engineHours?: number;
+  /** Engine speed in RPM */
+  rpm?: number;
+  /** Engine coolant temperature in Celsius */
+  coolantTempC?: number;
+  /** Tank capacity in liters */
+  tankCapacityL?: number;
+  /** Fuel probe temperature in Celsius */
+  probeTempC?: number;
+  /** Active sensor health codes - replaces the previous list */
+  sensorHealth?: SensorHealthCode[];
+  /** Active event flags - replaces the previous list */
+  events?: TelematicsEventFlag[];
+}
+
+/**
+ * Schema version 1 message (before version 2 added the engine, GPS and
+ * health fields and renamed `temperatureC` to `ambientTempC`)
+ */
+export interface TelematicsMessageV1 {
+  schemaVersion?: 1;
+  vehicleId?: string;
+  timestamp?: string | number;
+  speedKmh?: number;
+  fuelLevelPercent?: number;
+  batteryPercent?: number;
+  /** Ambient temperature in Celsius */
+  temperatureC?: number;
+  ecoMode?: boolean;
+  rangeKm?: number;
+}
+
+/**
+ * Message in any supported schema version
+ */
+export type AnyTelematicsMessage = TelematicsMessage | TelematicsMessageV1;
+
+/**
+ * Connection state of a telematics source
+ */
+export type TelematicsSourceStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
+/**
+ * Listener invoked with every decoded telematics update (message migrated to the current schema)
+ */
+export type TelematicsListener = (data: TelematicsData, message: TelematicsMessage) => void;
+
+/**
+ * Listener invoked when the connection state changes
+ */
+export type TelematicsStatusListener = (status: TelematicsSourceStatus) => void;
+
+/**
+ * Pluggable telematics data source
+ *
+ * Implementations: WebSocket, Server-Sent Events, recorded-JSON replay
+ * and the built-in simulation used when no feed is configured.
+ */
+export interface TelematicsSource {
+  /** Source type identifier */
+  readonly type: 'websocket' | 'sse' | 'replay' | 'simulated';
+  /** Start receiving data */
+  connect(): void;
+  /** Stop receiving data and release resources */
+  disconnect(): void;
+  /** Subscribe to data updates - returns unsubscribe function */
+  subscribe(listener: TelematicsListener): () => void;
+  /** Subscribe to connection state changes - returns unsubscribe function */
+  onStatusChange(listener: TelematicsStatusListener): () => void;
+  /** Latest decoded data (null until the first message arrives) */
+  getLatest(): TelematicsData | null;
+  /** Current connection state */
+  getStatus(): TelematicsSourceStatus;
+}
+
+/**
+ * Options shared by network-backed sources
+ */
+export interface NetworkSourceOptions {
+  /** Endpoint URL */
+  url: string;
+  /** Reconnect automatically after the connection drops (default: true) */
+  reconnect?: boolean;
+  /** Initial reconnect delay in ms, doubled on every attempt (default: 1000) */
+  reconnectDelay?: number;
+  /** Maximum reconnect delay in ms (default: 30000) */
+  maxReconnectDelay?: number;
+}
+
+/**
+ * Single frame of a recorded trip (any schema version)
+ */
+export type TelematicsReplayFrame = AnyTelematicsMessage & {
+  /** Offset from the start of the recording in ms */
+  t: number;
+};
+
+/**
+ * Recorded trip file (see public/telematics/sample-trip.json)
+ */
+export interface TelematicsRecording {
+  vehicleId?: string;
+  description?: string;
+  frames: TelematicsReplayFrame[];
+}
+
+/**
+ * Options for the replay source
+ */
+export interface ReplaySourceOptions {
+  /** URL of the recorded trip JSON */
+  url: string;
+  /** Restart from the first frame when the recording ends (default: true) */
+  loop?: boolean;
+  /** Playback speed multiplier (default: 1) */
+  playbackRate?: number;
+}
@@ -0,0 +1,48 @@
+import * as THREE from 'three';
+
+/**
+ * Ground Gradient Texture Generator
+ *
+ * Creates the radial studio-floor gradient used under the truck:
+ * - Slightly darker center derived from base ground color #e8e4dc
+ * - Fades out to the lighter background color for a seamless horizon
+ * - Repeat wrapping for large ground planes
+ *
+ * Kept as a generator (instead of inline in App) so the texture can be
+ * rebuilt after a WebGL context restore.
+ *
+ * @param size - Canvas size in pixels (default: 512)
+ * @returns THREE.CanvasTexture ready for use on the ground mesh
+ *
+ * @example
+ * ```typescript
+ * const groundTexture = createGroundTexture();
+ * const material = new THREE.MeshStandardMaterial({ map: groundTexture });
+ * ```
+ */
+export function createGroundTexture(size: number = 512): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+
+  if (ctx) {
+    const center = size / 2;
+
+    // Radial gradient derived from base ground color #e8e4dc
+    const gradient = ctx.createRadialGradient(center, center, 0, center, center, center);
+    gradient.addColorStop(0, '#e0dcd4');    // Slightly darker center (base ground -3%)
+    gradient.addColorStop(0.3, '#e8e4dc');  // Original ground color
+    gradient.addColorStop(0.6, '#ece9e2');  // Mid-transition (+3%)
+    gradient.addColorStop(1, '#f0ede8');    // Matches lighter background (+5%)
+
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+
+  return texture;
+}
@@ -0,0 +1,283 @@
+/**
+ * Telematics Dashboard
+ *
+ * Persistent renderer for the truck's telematics display. One canvas and one
+ * CanvasTexture live as long as the display:
+ * - Speed, fuel and battery ease toward each new reading
+ * - Widgets come from a dashboard layout (src/dashboard); only widgets whose
+ *   drawn content changed are repainted
+ * - `texture.needsUpdate` is set only after a repaint, at most `maxRedrawRate` times a second
+ * - A locale or units change repaints everything
+ *
+ * @example
+ * ```typescript
+ * const dashboard = createTelematicsDashboard({ scale: 0.75 });
+ * material.map = dashboard.texture;
+ *
+ * // In animation loop
+ * dashboard.setData(telematicsSource.getLatest());
+ * dashboard.update(delta);
+ * ```
+ */
+
+import * as THREE from 'three';
+import {
+  createDashboardWidgets,
+  DASHBOARD_HEIGHT,
+  DASHBOARD_WIDTH,
+  getDefaultDashboardLayout
+} from '../dashboard/layout';
+import type { DashboardLayout } from '../dashboard/types';
+import { i18n } from '../i18n/I18n';
+import { drawDashboardBackground, resolveDashboardValues } from './TelematicsTexture';
+import type { DashboardRect, DashboardValues, DashboardWidget, TelematicsData } from './types';
+
+export interface TelematicsDashboardConfig {
+  /** Canvas resolution scale (default: 1 = 2048x1024) */
+  scale?: number;
+  /** Gauge easing time constant in seconds (default: 0.25) */
+  smoothing?: number;
+  /** Maximum repaints (texture uploads) per second (default: 30) */
+  maxRedrawRate?: number;
+  /** Widget layout (default: src/config/dashboardLayout.json) */
+  layout?: DashboardLayout;
+}
+
+/** Values that glide between readings; the rest switch immediately */
+const EASED_FIELDS = ['speed', 'fuelLevel', 'batteryLevel'] as const;
+
+/** Eased values closer than this to the reading snap to it */
+const EASE_SNAP = 0.001;
+
+export class TelematicsDashboard {
+  readonly texture: THREE.CanvasTexture;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null;
+  /** Static backdrop at canvas resolution, copied back under repainted widgets */
+  private background: HTMLCanvasElement;
+  private config: Required<Omit<TelematicsDashboardConfig, 'layout'>>;
+  /** Widgets in paint order */
+  private widgets: DashboardWidget[];
+  private target: DashboardValues | null = null;
+  private values: DashboardValues | null = null;
+  private drawnKeys = new Map<string, string>();
+  /** Locale and units the canvas was drawn in */
+  private drawnContext = '';
+  private sinceRedraw = Infinity;
+
+  constructor(config: TelematicsDashboardConfig = {}) {
+    this.config = {
+      scale: config.scale ?? 1,
+      smoothing: config.smoothing ?? 0.25,
+      maxRedrawRate: config.maxRedrawRate ?? 30
+    };
+    this.widgets = createDashboardWidgets(config.layout ?? getDefaultDashboardLayout());
+    this.canvas = document.createElement('canvas');
+    this.background = document.createElement('canvas');
+    this.ctx = this.canvas.getContext('2d');
+    this.texture = new THREE.CanvasTexture(this.canvas);
+    this.resize();
+  }
+
+  /**
+   * Set the latest reading (cheap - call as often as data arrives)
+   */
+  setData(data: TelematicsData): void {
+    this.target = resolveDashboardValues(data);
+
+    // First reading is shown as is, not eased in from zero
+    if (!this.values) {
+      this.values = { ...this.target };
+    }
+  }
+
+  /**
+   * Change the canvas resolution (quality tier), keeping the texture object
+   */
+  setScale(scale: number): void {
+    if (scale === this.config.scale) return;
+    this.config.scale = scale;
+    this.resize();
+    // The GPU copy was allocated at the old size - re-create it on next use
+    this.texture.dispose();
+  }
+
+  /**
+   * Replace the widget layout (sparkline history starts over)
+   */
+  setLayout(layout: DashboardLayout): void {
+    this.widgets = createDashboardWidgets(layout);
+    this.invalidate();
+  }
+
+  /**
+   * Repaint everything on the next update (e.g. after WebGL context restore)
+   */
+  invalidate(): void {
+    this.drawnKeys.clear();
+    this.drawnContext = '';
+    this.sinceRedraw = Infinity;
+  }
+
+  /**
+   * Advance gauge easing and repaint changed widgets
+   *
+   * @param delta - Frame time in seconds
+   * @returns True if the texture was flagged for upload
+   */
+  update(delta: number): boolean {
+    if (!this.ctx || !this.target || !this.values) return false;
+
+    this.ease(this.values, this.target, delta);
+    const values = this.values;
+    this.widgets.forEach((widget) => widget.update?.(values, delta));
+
+    this.sinceRedraw += delta;
+    if (this.sinceRedraw < 1 / this.config.maxRedrawRate) return false;
+
+    const context = `${i18n.getLocale()}|${i18n.getUnits()}`;
+    const repainted = context !== this.drawnContext
+      ? this.repaintAll(this.ctx, this.values, context)
+      : this.repaintDirty(this.ctx, this.values);
+
+    if (repainted) {
+      this.texture.needsUpdate = true;
+      this.sinceRedraw = 0;
+    }
+    return repainted;
+  }
+
+  /**
+   * Release the texture and canvas memory
+   */
+  dispose(): void {
+    this.texture.dispose();
+    this.canvas.width = this.canvas.height = 0;
+    this.background.width = this.background.height = 0;
+  }
+
+  /**
+   * Move eased fields toward the reading, copy the others
+   * @private
+   */
+  private ease(values: DashboardValues, target: DashboardValues, delta: number): void {
+    const { speed, fuelLevel, batteryLevel } = values;
+    Object.assign(values, target);
+    values.speed = speed;
+    values.fuelLevel = fuelLevel;
+    values.batteryLevel = batteryLevel;
+
+    const t = 1 - Math.exp(-delta / this.config.smoothing);
+    EASED_FIELDS.forEach((field) => {
+      const diff = target[field] - values[field];
+      values[field] = Math.abs(diff) < EASE_SNAP ? target[field] : values[field] + diff * t;
+    });
+  }
+
+  /**
+   * Size both canvases for the current scale and redraw the backdrop
+   * @private
+   */
+  private resize(): void {
+    const width = Math.round(DASHBOARD_WIDTH * this.config.scale);
+    const height = Math.round(DASHBOARD_HEIGHT * this.config.scale);
+
+    // Resizing a canvas also resets its context state
+    this.canvas.width = this.background.width = width;
+    this.canvas.height = this.background.height = height;
+
+    const backgroundCtx = this.background.getContext('2d');
+    if (backgroundCtx) {
+      backgroundCtx.scale(width / DASHBOARD_WIDTH, height / DASHBOARD_HEIGHT);
+      drawDashboardBackground(backgroundCtx);
+    }
+    this.ctx?.setTransform(width / DASHBOARD_WIDTH, 0, 0, height / DASHBOARD_HEIGHT, 0, 0);
+
+    this.invalidate();
+  }
+
+  /**
+   * Repaint the whole canvas (first frame, new locale / units, resize)
+   * @private
+   */
+  private repaintAll(ctx: CanvasRenderingContext2D, values: DashboardValues, context: string): boolean {
+    const rtl = i18n.getLocaleInfo().dir === 'rtl';
+    ctx.direction = rtl ? 'rtl' : 'ltr';
+    ctx.drawImage(this.background, 0, 0, DASHBOARD_WIDTH, DASHBOARD_HEIGHT);
+
+    this.widgets.forEach((widget) => {
+      this.drawWidget(ctx, widget, values, rtl);
+      this.drawnKeys.set(widget.id, widget.key(values));
+    });
+
+    this.drawnContext = context;
+    return true;
+  }
+
+  /**
+   * Repaint widgets whose key changed
+   *
+   * Each dirty widget's bounds are cleared to the backdrop and every widget
+   * overlapping them is drawn again, clipped, in paint order - so layered
+   * widgets (the alert banner over the sparklines) keep their stacking.
+   * @private
+   */
+  private repaintDirty(ctx: CanvasRenderingContext2D, values: DashboardValues): boolean {
+    const dirty = this.widgets
+      .map((widget) => ({ widget, key: widget.key(values) }))
+      .filter(({ widget, key }) => this.drawnKeys.get(widget.id) !== key);
+
+    if (dirty.length === 0) return false;
+
+    const rtl = i18n.getLocaleInfo().dir === 'rtl';
+    const scaleX = this.canvas.width / DASHBOARD_WIDTH;
+    const scaleY = this.canvas.height / DASHBOARD_HEIGHT;
+
+    dirty.forEach(({ widget, key }) => {
+      const { x, y, width, height } = widget.bounds;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(x, y, width, height);
+      ctx.clip();
+      ctx.drawImage(this.background, x * scaleX, y * scaleY, width * scaleX, height * scaleY, x, y, width, height);
+
+      this.widgets.forEach((other) => {
+        if (intersects(other.bounds, widget.bounds)) {
+          this.drawWidget(ctx, other, values, rtl);
+        }
+      });
+      ctx.restore();
+
+      this.drawnKeys.set(widget.id, key);
+    });
+
+    return true;
+  }
+
+  /**
+   * Draw one widget without leaking canvas state (shadows, alignment) to the next
+   * @private
+   */
+  private drawWidget(ctx: CanvasRenderingContext2D, widget: DashboardWidget, values: DashboardValues, rtl: boolean): void {
+    ctx.save();
+    widget.draw(ctx, values, rtl);
+    ctx.restore();
+  }
+}
+
+/**
+ * @private
+ */
+function intersects(a: DashboardRect, b: DashboardRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Create a telematics dashboard renderer
+ *
+ * @param config - Canvas scale, easing, repaint rate and layout
+ */
+export function createTelematicsDashboard(config?: TelematicsDashboardConfig): TelematicsDashboard {
+  return new TelematicsDashboard(config);
+}
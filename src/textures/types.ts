@@ -6,15 +6,19 @@
 
 /**
  * Telematics data for dashboard display
+ *
+ * The decoded form of a telemetry message (see src/telematics/schema.ts) that
+ * every data source produces and every dashboard widget reads. Values are
+ * metric; widgets convert them for display (see src/i18n/units.ts).
  */
 export interface TelematicsData {
-  /** Current speed in KM/H (0-160) */
+  /** Current speed in KM/H (0-160) - converted for display (see src/i18n/units.ts) */
   speed: number;
   /** Fuel level (0.0-1.0) */
   fuelLevel: number;
   /** Battery level (0.0-1.0) - optional */
   batteryLevel?: number;
-  /** Temperature in Celsius - optional */
+  /** Ambient temperature in Celsius - optional */
   temperature?: number;
   /** Current time (HH:MM format) - optional */
   time?: string;
@@ -22,6 +26,122 @@ export interface TelematicsData {
   ecoMode?: boolean;
   /** Estimated range in KM - optional */
   range?: number;
+  /** Fuel sensor reports a fault - optional (derived from probe codes in `sensorHealth`) */
+  sensorFault?: boolean;
+  /** GPS position - optional */
+  position?: GeoPosition;
+  /** Heading in degrees clockwise from north (0-360) - optional */
+  heading?: number;
+  /** Odometer in KM - optional */
+  odometer?: number;
+  /** Engine hours - optional */
+  engineHours?: number;
+  /** Engine speed in RPM - optional */
+  rpm?: number;
+  /** Engine coolant temperature in Celsius - optional */
+  coolantTemperature?: number;
+  /** Tank capacity in liters (fuelLevel 1.0) - optional */
+  tankCapacity?: number;
+  /** Fuel probe temperature in Celsius - optional */
+  probeTemperature?: number;
+  /** Active sensor health codes (empty = all healthy) - optional */
+  sensorHealth?: SensorHealthCode[];
+  /** Active event flags - optional */
+  events?: TelematicsEventFlag[];
+  /** Alert banner shown on the dashboard - optional */
+  alert?: TelematicsAlert | null;
+}
+
+/**
+ * WGS84 position in degrees
+ */
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Sensor health codes reported by the gateway
+ * - probeFault / probeStuck / probeNoise / probeDropout: fuel probe unreliable
+ * - gpsNoFix: no GPS fix, position is stale
+ * - canTimeout: no CAN bus data (speed, RPM, engine values are stale)
+ * - lowVoltage: gateway supply voltage low
+ * - tamper: enclosure or cable tamper detected
+ */
+export type SensorHealthCode =
+  | 'probeFault'
+  | 'probeStuck'
+  | 'probeNoise'
+  | 'probeDropout'
+  | 'gpsNoFix'
+  | 'canTimeout'
+  | 'lowVoltage'
+  | 'tamper';
+
+/**
+ * Event flags reported by the gateway (set while the condition lasts)
+ */
+export type TelematicsEventFlag =
+  | 'ignitionOn'
+  | 'idling'
+  | 'overspeed'
+  | 'harshBraking'
+  | 'harshAcceleration'
+  | 'refuel'
+  | 'fuelDrain';
+
+/**
+ * Dashboard alert (fuel theft, refuel, sensor fault, ...)
+ */
+export interface TelematicsAlert {
+  severity: 'info' | 'warning' | 'critical';
+  /** Short headline, e.g. "FUEL THEFT DETECTED" */
+  title: string;
+  /** One-line detail text ({volume} is replaced with `volume` in the visitor's units) */
+  message: string;
+  /** Catalog key for translated title / message (alerts.<key>) - optional */
+  key?: string;
+  /** Fuel volume in liters for the {volume} placeholder - optional */
+  volume?: number;
+}
+
+/**
+ * Dashboard values as drawn (defaults filled in, gauges eased toward the latest data)
+ */
+export type DashboardValues = Required<Omit<TelematicsData, 'alert' | 'position'>> & {
+  alert: TelematicsAlert | null;
+  position: GeoPosition | null;
+  /** Fuel in the tank in liters (fuelLevel x tankCapacity) */
+  fuelVolume: number;
+  /** GPS has a position and no gpsNoFix code */
+  gpsFix: boolean;
+  /** ignitionOn event flag is set */
+  ignition: boolean;
+};
+
+/**
+ * Rectangle on the dashboard in layout units (2048x1024)
+ */
+export interface DashboardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One independently redrawn region of the telematics dashboard
+ */
+export interface DashboardWidget {
+  id: string;
+  /** Everything the widget draws, glow included */
+  bounds: DashboardRect;
+  /** Summary of what reaches the pixels - the widget is redrawn when it changes */
+  key: (values: DashboardValues) => string;
+  /** Draw in layout units; the caller clips to `bounds` and restores the background */
+  draw: (ctx: CanvasRenderingContext2D, values: DashboardValues, rtl: boolean) => void;
+  /** Called every update with the eased values - for widgets that keep history */
+  update?: (values: DashboardValues, delta: number) => void;
 }
 
 /**
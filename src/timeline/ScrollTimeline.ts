@@ -0,0 +1,281 @@
+/**
+ * ScrollTimeline - Data-driven scroll storyboard
+ *
+ * Reads phases, scroll ranges, camera presets, easing curves and
+ * visible DOM sections from src/config/scrollTimeline.json so the
+ * storyboard can be reordered without touching the render loop.
+ *
+ * @example
+ * ```typescript
+ * const sample = scrollTimeline.sampleCamera(t, { secondSequence: false });
+ * camera.position.lerp(sample.position, 0.08);
+ * camera.lookAt(sample.lookAt);
+ *
+ * const name = scrollTimeline.getSectionName(scrollProgress);
+ * ```
+ */
+
+import * as THREE from 'three';
+import { ConfigurationError } from '../utils/errors';
+import { i18n } from '../i18n/I18n';
+import timelineConfig from '../config/scrollTimeline.json';
+import type {
+  CameraPreset,
+  CameraSampleOptions,
+  ScrollTimelineConfig,
+  TimelineEasing,
+  TimelineMilestone,
+  TimelinePhase
+} from './types';
+
+const EASINGS: Record<TimelineEasing, (t: number) => number> = {
+  linear: (t) => t,
+  smoothstep: (t) => t * t * (3 - 2 * t),
+  easeInCubic: (t) => t * t * t,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+export interface CameraSample {
+  position: THREE.Vector3;
+  lookAt: THREE.Vector3;
+  phase: TimelinePhase;
+}
+
+export class ScrollTimeline {
+  private config: ScrollTimelineConfig;
+  private phases: TimelinePhase[];
+  private cameras: Map<string, { position: THREE.Vector3; lookAt: THREE.Vector3 }> = new Map();
+  private sample: CameraSample;
+
+  constructor(config: ScrollTimelineConfig, configPath: string = 'src/config/scrollTimeline.json') {
+    ScrollTimeline.validate(config, configPath);
+
+    this.config = config;
+    this.phases = [...config.phases].sort((a, b) => a.range[0] - b.range[0]);
+
+    Object.entries(config.cameras).forEach(([name, preset]) => {
+      this.cameras.set(name, {
+        position: new THREE.Vector3(...preset.position),
+        lookAt: new THREE.Vector3(...preset.lookAt)
+      });
+    });
+
+    this.sample = {
+      position: new THREE.Vector3(),
+      lookAt: new THREE.Vector3(),
+      phase: this.phases[0]
+    };
+  }
+
+  /**
+   * Validate a timeline configuration
+   * @throws ConfigurationError when the configuration is inconsistent
+   */
+  static validate(config: ScrollTimelineConfig, configPath?: string): void {
+    const fail = (message: string, details: Record<string, any> = {}): never => {
+      throw new ConfigurationError(`Invalid scroll timeline: ${message}`, {
+        configType: 'timeline',
+        configPath,
+        ...details
+      });
+    };
+
+    if (!config || !Array.isArray(config.phases) || config.phases.length === 0) {
+      fail('at least one phase is required');
+    }
+
+    const isPreset = (preset: CameraPreset | undefined) =>
+      !!preset &&
+      Array.isArray(preset.position) && preset.position.length === 3 &&
+      Array.isArray(preset.lookAt) && preset.lookAt.length === 3;
+
+    Object.entries(config.cameras || {}).forEach(([name, preset]) => {
+      if (!isPreset(preset)) {
+        fail(`camera "${name}" needs position and lookAt as [x, y, z]`, { camera: name });
+      }
+    });
+
+    const ids = new Set<string>();
+    config.phases.forEach((phase) => {
+      if (ids.has(phase.id)) {
+        fail(`duplicate phase id "${phase.id}"`, { phaseId: phase.id });
+      }
+      ids.add(phase.id);
+
+      const [start, end] = phase.range || [];
+      if (!(start >= 0 && end <= 1 && start < end)) {
+        fail(`phase "${phase.id}" has an invalid range`, { phaseId: phase.id, range: phase.range });
+      }
+
+      [phase.from, phase.to, phase.secondSequenceFrom].forEach((camera) => {
+        if (camera !== undefined && !config.cameras[camera]) {
+          fail(`phase "${phase.id}" references unknown camera "${camera}"`, { phaseId: phase.id, camera });
+        }
+      });
+
+      if (phase.easing && !EASINGS[phase.easing]) {
+        fail(`phase "${phase.id}" uses unknown easing "${phase.easing}"`, { phaseId: phase.id, easing: phase.easing });
+      }
+    });
+
+    const sorted = [...config.phases].sort((a, b) => a.range[0] - b.range[0]);
+    if (sorted[0].range[0] !== 0 || sorted[sorted.length - 1].range[1] !== 1) {
+      fail('phases must cover the scroll range 0 to 1');
+    }
+    for (let i = 1; i < sorted.length; i++) {
+      if (Math.abs(sorted[i].range[0] - sorted[i - 1].range[1]) > 1e-6) {
+        fail(`phases "${sorted[i - 1].id}" and "${sorted[i].id}" leave a gap or overlap`);
+      }
+    }
+
+    if (!config.extendedIntro || !config.cameras[config.extendedIntro.camera]) {
+      fail('extendedIntro must reference a known camera');
+    }
+  }
+
+  /**
+   * Get phase containing a sequence-local scroll value
+   * @param t - Sequence-local scroll (0.0-1.0)
+   */
+  getPhaseAt(t: number): TimelinePhase {
+    const clamped = Math.min(Math.max(t, 0), 1);
+    return this.phases.find((phase) => clamped < phase.range[1]) ?? this.phases[this.phases.length - 1];
+  }
+
+  /**
+   * Sample the camera target for a sequence-local scroll value
+   * Vectors are reused between calls - copy them if you need to keep them
+   *
+   * @param t - Sequence-local scroll (0.0-1.0)
+   * @param options - Sampling options
+   */
+  sampleCamera(t: number, options: CameraSampleOptions = {}): CameraSample {
+    const clamped = Math.min(Math.max(t, 0), 1);
+    const phase = this.getPhaseAt(clamped);
+
+    const fromName = options.secondSequence && phase.secondSequenceFrom
+      ? phase.secondSequenceFrom
+      : phase.from;
+    const from = this.cameras.get(fromName)!;
+    const to = this.cameras.get(phase.to)!;
+
+    const [start, end] = phase.range;
+    const localT = Math.min((clamped - start) / (end - start), 1);
+    const ease = EASINGS[phase.easing ?? 'smoothstep'];
+    const amount = (phase.amount ?? 1) * ease(localT);
+
+    this.sample.position.lerpVectors(from.position, to.position, amount);
+    this.sample.lookAt.lerpVectors(from.lookAt, to.lookAt, amount);
+    this.sample.phase = phase;
+
+    return this.sample;
+  }
+
+  /**
+   * Get a named camera preset
+   */
+  getCamera(name: string): { position: THREE.Vector3; lookAt: THREE.Vector3 } | undefined {
+    return this.cameras.get(name);
+  }
+
+  /**
+   * Camera held while the extended intro drive-in plays
+   */
+  getExtendedIntroCamera(): { position: THREE.Vector3; lookAt: THREE.Vector3 } {
+    return this.cameras.get(this.config.extendedIntro.camera)!;
+  }
+
+  /**
+   * Extended intro configuration
+   */
+  getExtendedIntro(): ScrollTimelineConfig['extendedIntro'] {
+    return this.config.extendedIntro;
+  }
+
+  /**
+   * Map raw page scroll to the sequence-local scroll value
+   * First half of the page plays sequence 1, second half replays it as sequence 2
+   *
+   * @param rawScroll - Raw page scroll (0.0-1.0)
+   */
+  toSequenceScroll(rawScroll: number): { t: number; secondSequence: boolean } {
+    const triggerAt = this.config.extendedIntro.triggerAt;
+    if (rawScroll < triggerAt) {
+      return { t: rawScroll / triggerAt, secondSequence: false };
+    }
+    return { t: (rawScroll - triggerAt) / (1 - triggerAt), secondSequence: true };
+  }
+
+  /**
+   * Get HUD section name for a raw scroll percentage (in the current locale)
+   * @param scrollProgress - Raw page scroll percentage (0-100)
+   */
+  getSectionName(scrollProgress: number): string {
+    const { triggerAt, label, sequenceSuffix } = this.config.extendedIntro;
+    const triggerPercent = triggerAt * 100;
+
+    if (scrollProgress === triggerPercent) {
+      return i18n.tOr('timeline.extendedIntro', label);
+    }
+
+    const { t, secondSequence } = this.toSequenceScroll(scrollProgress / 100);
+    const suffix = secondSequence ? i18n.tOr('timeline.sequenceSuffix', sequenceSuffix) : '';
+    const phase = this.getPhaseAt(t);
+    return `${i18n.tOr(`timeline.phases.${phase.id}`, phase.label)}${suffix}`;
+  }
+
+  /**
+   * Check whether a DOM section should be visible
+   *
+   * @param sectionId - Section identifier from the timeline config
+   * @param activePhase - Current overlay phase index
+   * @param scrollProgress - Raw page scroll percentage (0-100)
+   */
+  isSectionVisible(sectionId: string, activePhase: number, scrollProgress: number): boolean {
+    return this.phases.some((phase) =>
+      phase.phase === activePhase &&
+      (phase.sections ?? []).some((section) =>
+        section.id === sectionId &&
+        (section.minScroll === undefined || scrollProgress >= section.minScroll) &&
+        (section.maxScroll === undefined || scrollProgress <= section.maxScroll)
+      )
+    );
+  }
+
+  /**
+   * Media for the non-3D fallback experience
+   */
+  getFallbackMedia(): ScrollTimelineConfig['fallback'] {
+    return this.config.fallback;
+  }
+
+  /**
+   * HUD progress milestones
+   */
+  getMilestones(): TimelineMilestone[] {
+    return this.config.milestones;
+  }
+
+  /**
+   * All phases in scroll order
+   */
+  getPhases(): TimelinePhase[] {
+    return [...this.phases];
+  }
+}
+
+/**
+ * Create a scroll timeline from a configuration object
+ *
+ * @param config - Timeline configuration (default: scrollTimeline.json)
+ * @returns Validated ScrollTimeline
+ */
+export function createScrollTimeline(
+  config: ScrollTimelineConfig = timelineConfig as unknown as ScrollTimelineConfig
+): ScrollTimeline {
+  return new ScrollTimeline(config);
+}
+
+// Export shared instance built from scrollTimeline.json
+export const scrollTimeline = createScrollTimeline();
@@ -0,0 +1,121 @@
+/**
+ * Scroll Timeline Type Definitions
+ *
+ * Type definitions for the data-driven scroll storyboard
+ * (see src/config/scrollTimeline.json)
+ */
+
+export type Vector3Tuple = [number, number, number];
+
+/**
+ * Supported easing curves for camera interpolation
+ */
+export type TimelineEasing = 'linear' | 'smoothstep' | 'easeInCubic' | 'easeOutCubic' | 'easeInOutCubic';
+
+/**
+ * Named camera preset (position + look-at target)
+ */
+export interface CameraPreset {
+  position: Vector3Tuple;
+  lookAt: Vector3Tuple;
+}
+
+/**
+ * DOM section shown while a phase is active
+ */
+export interface TimelineSection {
+  /** Section identifier used by the overlay markup */
+  id: string;
+  /** Only show at or above this raw page scroll percentage (0-100) - optional */
+  minScroll?: number;
+  /** Only show at or below this raw page scroll percentage (0-100) - optional */
+  maxScroll?: number;
+}
+
+/**
+ * Single storyboard phase
+ */
+export interface TimelinePhase {
+  /** Unique phase identifier */
+  id: string;
+  /** Label shown in the HUD section name */
+  label: string;
+  /** Overlay phase index (drives activePhase in App) */
+  phase: number;
+  /** Sequence-local scroll range [start, end] (0.0-1.0) */
+  range: [number, number];
+  /** Camera preset at the start of the range */
+  from: string;
+  /** Camera preset at the end of the range */
+  to: string;
+  /** Camera preset used instead of `from` in the second sequence - optional */
+  secondSequenceFrom?: string;
+  /** Easing curve (default: 'smoothstep') */
+  easing?: TimelineEasing;
+  /** Fraction of the from → to distance covered by the end of the range (default: 1) */
+  amount?: number;
+  /** DOM sections visible during this phase */
+  sections?: TimelineSection[];
+  /** Pre-rendered still shown in fallback mode (no WebGL) - optional */
+  still?: string;
+  /** Cut the fuel volume open (X-ray cross-section) during this phase - optional */
+  fuelCrossSection?: boolean;
+}
+
+/**
+ * Extended intro (truck drive-in) played at the sequence break
+ */
+export interface ExtendedIntroConfig {
+  /** Raw page scroll (0.0-1.0) that starts the second sequence */
+  triggerAt: number;
+  /** Camera preset held during the drive-in */
+  camera: string;
+  /** Drive-in duration in seconds */
+  duration: number;
+  /** HUD label shown at the trigger point */
+  label: string;
+  /** Suffix appended to phase labels in the second sequence */
+  sequenceSuffix: string;
+}
+
+/**
+ * Media used by the non-3D fallback experience
+ */
+export interface FallbackMediaConfig {
+  /** Video scrubbed by scroll when a phase has no still */
+  video: string;
+  /** Poster image shown before the video can play - optional */
+  poster?: string;
+}
+
+/**
+ * HUD progress milestone
+ */
+export interface TimelineMilestone {
+  /** Catalog key for translated labels (timeline.milestones.<id>) - optional */
+  id?: string;
+  position: number;
+  label: string;
+  sublabel: string;
+  range: [number, number];
+}
+
+/**
+ * Complete timeline configuration (scrollTimeline.json)
+ */
+export interface ScrollTimelineConfig {
+  version: number;
+  cameras: Record<string, CameraPreset>;
+  phases: TimelinePhase[];
+  extendedIntro: ExtendedIntroConfig;
+  milestones: TimelineMilestone[];
+  fallback: FallbackMediaConfig;
+}
+
+/**
+ * Options for camera sampling
+ */
+export interface CameraSampleOptions {
+  /** Sample the second sequence (uses `secondSequenceFrom` where defined) */
+  secondSequence?: boolean;
+}
@@ -6,15 +6,27 @@
  * - Progress tracking for all assets
  * - Preloading for critical assets
  * - Consistent loading interface
+ * - KTX2/Basis textures with WebP fallback
+ * - Progressive level-of-detail model streaming
+ * 
+ * With `useKTX2` enabled, loads wait until `configureTextureSupport(renderer)`
+ * has checked the GPU. Assets listed in the KTX2 manifest (written by
+ * scripts/compress-*.js) are then loaded as KTX2; everything else - and any
+ * KTX2 load that fails - uses the WebP path that was requested.
  * 
  * @example
  * ```typescript
  * const loader = new AssetLoader({
  *   basePath: '/',
  *   useDraco: true,
- *   dracoDecoderPath: '/draco/'
+ *   dracoDecoderPath: '/draco/',
+ *   useKTX2: true,
+ *   ktx2TranscoderPath: '/basis/'
  * });
  * 
+ * // Once the renderer exists
+ * await loader.configureTextureSupport(renderer);
+ * 
  * const model = await loader.loadGLB('/model/truck.glb', (progress) => {
  *   console.log(`Loading: ${progress.percentage}%`);
  * });
@@ -23,7 +35,10 @@
 
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import type { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import type { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { LazyDecoderLoader, createPreloadedDracoLoader } from './LazyDecoderLoader';
 
 export interface AssetLoaderConfig {
   basePath: string;
@@ -31,6 +46,49 @@ export interface AssetLoaderConfig {
   dracoDecoderPath: string;
   enableProgressTracking: boolean;
   placeholderModel?: string;
+  /** Prefer KTX2 variants when the GPU supports them (requires configureTextureSupport) */
+  useKTX2?: boolean;
+  /** Directory holding basis_transcoder.js/.wasm */
+  ktx2TranscoderPath?: string;
+  /** JSON manifest mapping asset paths to their KTX2 variants */
+  ktx2ManifestPath?: string;
+  /** Give up waiting for configureTextureSupport after this long and use WebP (ms) */
+  ktx2DetectTimeout?: number;
+  /** JSON manifest listing each model's simplified LOD variants */
+  lodManifestPath?: string;
+}
+
+/**
+ * One level delivered by loadGLBProgressive
+ */
+export interface LODLevel {
+  model: THREE.Group;
+  /** 0 = coarsest */
+  level: number;
+  levelCount: number;
+  /** True for the full-detail model (no further swaps follow) */
+  isFinal: boolean;
+  path: string;
+}
+
+/**
+ * Texture format chosen for this device
+ */
+export type TextureFormat = 'ktx2' | 'webp';
+
+/**
+ * KTX2 manifest written by scripts/ktx2-manifest.js
+ */
+interface KTX2Manifest {
+  variants: Record<string, string>;
+}
+
+/**
+ * LOD manifest written by scripts/compress-models.js
+ * Maps a model path to its simplified variants, coarsest first
+ */
+interface LODManifest {
+  models: Record<string, string[]>;
 }
 
 export interface LoadProgress {
@@ -44,8 +102,16 @@ export class AssetLoader {
   private config: AssetLoaderConfig;
   private gltfLoader: GLTFLoader;
   private dracoLoader: DRACOLoader | null = null;
+  private dracoReady: Promise<void> = Promise.resolve();
   private textureLoader: THREE.TextureLoader;
+  private ktx2Loader: KTX2Loader | null = null;
+  private ktx2Variants: Record<string, string> = {};
+  private textureFormat: Promise<TextureFormat>;
+  private resolveTextureFormat: ((format: TextureFormat) => void) | null = null;
   private loadedAssets: Map<string, any> = new Map();
+  private pendingLoads: Map<string, Promise<any>> = new Map();
+  private progressListeners: Map<string, Set<(progress: LoadProgress) => void>> = new Map();
+  private lodManifest: Promise<Record<string, string[]>> | null = null;
 
   constructor(config: AssetLoaderConfig) {
     this.config = config;
@@ -53,26 +119,174 @@ export class AssetLoader {
     // Initialize texture loader
     this.textureLoader = new THREE.TextureLoader();
     
-    // Initialize GLTF loader
+    // Initialize GLTF loader (meshopt for the LOD variants)
     this.gltfLoader = new GLTFLoader();
+    this.gltfLoader.setMeshoptDecoder(MeshoptDecoder);
+    
+    if (config.useKTX2) {
+      // Decoders come from LazyDecoderLoader in configureTextureSupport()
+      this.textureFormat = new Promise((resolve) => {
+        this.resolveTextureFormat = resolve;
+      });
+      
+      // Don't hold loads forever if no renderer ever shows up (e.g. fallback mode)
+      setTimeout(() => {
+        if (this.resolveTextureFormat) {
+          console.warn('⚠️ No renderer configured for KTX2 detection, using WebP textures');
+          this.finishTextureSupport('webp');
+        }
+      }, config.ktx2DetectTimeout ?? 10000);
+    } else {
+      this.initDracoLoader();
+      this.textureFormat = Promise.resolve('webp');
+    }
+  }
+
+  /**
+   * Create this loader's own Draco decoder (when not using LazyDecoderLoader's)
+   * @private
+   */
+  private initDracoLoader(): void {
+    if (!this.config.useDraco || this.dracoLoader) return;
+    
+    const { loader, ready } = createPreloadedDracoLoader(this.config.dracoDecoderPath, 4);
+    this.dracoLoader = loader;
+    this.dracoReady = ready;
+    this.gltfLoader.setDRACOLoader(this.dracoLoader);
+  }
+
+  /**
+   * Settle the texture format and release waiting loads
+   * @private
+   */
+  private finishTextureSupport(format: TextureFormat): void {
+    if (format === 'webp') {
+      this.initDracoLoader();
+    }
+    this.resolveTextureFormat?.(format);
+    this.resolveTextureFormat = null;
+  }
+
+  /**
+   * Pick KTX2 or WebP textures for this renderer
+   * 
+   * Initializes the shared decoders (Draco + KTX2 transcoder), checks GPU
+   * support and fetches the KTX2 manifest. Any failure falls back to WebP.
+   * Only needed when `useKTX2` is enabled; loads wait for it.
+   * 
+   * @param renderer - Renderer the assets will be drawn with
+   * @returns The format that will be used
+   */
+  async configureTextureSupport(renderer: THREE.WebGLRenderer): Promise<TextureFormat> {
+    if (!this.resolveTextureFormat) {
+      return this.textureFormat;
+    }
     
-    // Initialize Draco loader if enabled
-    if (config.useDraco) {
-      this.dracoLoader = new DRACOLoader();
-      this.dracoLoader.setDecoderPath(config.dracoDecoderPath);
-      this.dracoLoader.setWorkerLimit(4);
-      this.gltfLoader.setDRACOLoader(this.dracoLoader);
+    try {
+      const decoders = LazyDecoderLoader.getInstance({
+        dracoPath: this.config.dracoDecoderPath,
+        ktx2Path: this.config.ktx2TranscoderPath ?? '/basis/',
+        workerLimit: 4
+      });
+      await decoders.initializeDecoders();
+      
+      if (this.config.useDraco) {
+        this.gltfLoader.setDRACOLoader(decoders.getDracoLoader());
+        this.dracoReady = decoders.whenDracoReady();
+      }
+      
+      if (!decoders.detectKTX2Support(renderer)) {
+        this.finishTextureSupport('webp');
+        return 'webp';
+      }
+      
+      this.ktx2Loader = decoders.getKTX2Loader();
+      this.gltfLoader.setKTX2Loader(this.ktx2Loader!);
+      this.ktx2Variants = await this.fetchKTX2Manifest();
+      
+      console.log(`🗜️ ${Object.keys(this.ktx2Variants).length} KTX2 asset variant(s) available`);
+      this.finishTextureSupport('ktx2');
+      return 'ktx2';
+    } catch (error) {
+      console.warn('⚠️ KTX2 setup failed, using WebP textures:', error);
+      this.finishTextureSupport('webp');
+      return 'webp';
+    }
+  }
+
+  /**
+   * Wait until the texture format is settled and the Draco decoder is loaded
+   * (used for the intro screen's loading progress)
+   * 
+   * @returns Promise resolving when models can be decoded
+   */
+  async whenDecodersReady(): Promise<void> {
+    await this.textureFormat;
+    await this.dracoReady;
+  }
+
+  /**
+   * Load the KTX2 variant manifest (empty if none was built)
+   * @private
+   */
+  private async fetchKTX2Manifest(): Promise<Record<string, string>> {
+    const manifest = await this.fetchManifest<KTX2Manifest>(this.config.ktx2ManifestPath ?? '/ktx2-manifest.json');
+    return manifest?.variants ?? {};
+  }
+
+  /**
+   * Get a model's LOD variants, coarsest first (empty if none were built)
+   * The manifest is fetched once and shared
+   * @private
+   */
+  private async getLODPaths(path: string): Promise<string[]> {
+    if (!this.lodManifest) {
+      this.lodManifest = this.fetchManifest<LODManifest>(this.config.lodManifestPath ?? '/lod-manifest.json')
+        .then((manifest) => manifest?.models ?? {});
     }
+    
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    return (await this.lodManifest)[normalizedPath] ?? [];
+  }
+
+  /**
+   * Fetch a build manifest, or null if it wasn't generated
+   * @private
+   */
+  private async fetchManifest<T>(path: string): Promise<T | null> {
+    try {
+      const response = await fetch(this.getAssetPath(path));
+      if (!response.ok) return null;
+      
+      return (await response.json()) as T;
+    } catch {
+      // Dev server answers missing files with index.html - treat as no manifest
+      return null;
+    }
+  }
+
+  /**
+   * Get the KTX2 variant of an asset, if one was built and the GPU supports it
+   * @private
+   */
+  private async resolveKTX2Variant(path: string): Promise<string | null> {
+    const format = await this.textureFormat;
+    if (format !== 'ktx2') return null;
+    
+    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+    return this.ktx2Variants[normalizedPath] ?? null;
   }
 
   /**
    * Load a GLB model
    * 
+   * Uses the KTX2-texture variant when available, falling back to `path`.
+   * 
    * @param path - Relative path to GLB file
    * @param onProgress - Optional progress callback
    * @returns Promise resolving to loaded model
    */
-  loadGLB(
+  async loadGLB(
     path: string,
     onProgress?: (progress: LoadProgress) => void
   ): Promise<THREE.Group> {
@@ -81,35 +295,152 @@ export class AssetLoader {
     // Check cache
     if (this.loadedAssets.has(fullPath)) {
       console.log(`📦 Using cached model: ${path}`);
-      return Promise.resolve(this.loadedAssets.get(fullPath).clone());
+      return this.loadedAssets.get(fullPath).clone();
+    }
+    
+    if (onProgress) {
+      if (!this.progressListeners.has(fullPath)) {
+        this.progressListeners.set(fullPath, new Set());
+      }
+      this.progressListeners.get(fullPath)!.add(onProgress);
+    }
+    
+    // Share an in-flight load (e.g. preload and component asking at once)
+    if (this.pendingLoads.has(fullPath)) {
+      const scene: THREE.Group = await this.pendingLoads.get(fullPath);
+      return scene.clone();
     }
     
+    const load = (async () => {
+      const ktx2Path = await this.resolveKTX2Variant(path);
+      if (ktx2Path) {
+        try {
+          return await this.loadGLBFile(ktx2Path, fullPath);
+        } catch (error) {
+          console.warn(`⚠️ KTX2 model failed, falling back to ${path}:`, error);
+        }
+      }
+      
+      return this.loadGLBFile(path, fullPath);
+    })();
+    
+    this.pendingLoads.set(fullPath, load);
+    try {
+      return await load;
+    } finally {
+      this.pendingLoads.delete(fullPath);
+      this.progressListeners.delete(fullPath);
+    }
+  }
+
+  /**
+   * Load a GLB model coarse-to-fine
+   * 
+   * Streams the simplified LOD variants listed in the LOD manifest before the
+   * full model. The coarsest level loads alone so it shows up fast; the rest
+   * load in parallel and `onLevel` fires for each one that is finer than the
+   * last delivered (a level overtaken by a finer one is skipped). Without
+   * LOD variants this is a single `onLevel` call with the full model.
+   * 
+   * Progress is reported for the first level only - that's the one the
+   * loading screen waits for. Coarse levels are dropped from the cache once
+   * the full model has arrived; the caller owns (and disposes) them.
+   * 
+   * @param path - Relative path to the full-detail GLB
+   * @param onLevel - Called with each level to display
+   * @param onProgress - Optional progress callback for the first level
+   * @returns Promise resolving to the full-detail model
+   * 
+   * @example
+   * ```typescript
+   * await loader.loadGLBProgressive('/model/truck.glb', ({ model, isFinal }) => {
+   *   swapModel(model, isFinal);
+   * });
+   * ```
+   */
+  async loadGLBProgressive(
+    path: string,
+    onLevel: (level: LODLevel) => void,
+    onProgress?: (progress: LoadProgress) => void
+  ): Promise<THREE.Group> {
+    const paths = [...(await this.getLODPaths(path)), path];
+    const levelCount = paths.length;
+    let shownLevel = -1;
+    
+    const loadLevel = async (levelPath: string, level: number): Promise<THREE.Group | null> => {
+      const isFinal = level === levelCount - 1;
+      const load = () => this.loadGLB(levelPath, level === 0 ? onProgress : undefined);
+      
+      let model: THREE.Group;
+      try {
+        // Only the full model is worth retrying - coarse levels are optional
+        model = isFinal ? await loadAssetWithRetry(load, levelPath, 3) : await load();
+      } catch (error) {
+        if (isFinal) throw error;
+        console.warn(`⚠️ Skipping LOD ${level} (${levelPath}):`, error);
+        return null;
+      }
+      
+      if (level <= shownLevel) {
+        console.log(`🔻 LOD ${level} arrived after a finer level, skipping`);
+        return null;
+      }
+      
+      shownLevel = level;
+      console.log(`🔺 Showing LOD ${level + 1}/${levelCount}: ${levelPath}`);
+      onLevel({ model, level, levelCount, isFinal, path: levelPath });
+      return model;
+    };
+    
+    if (levelCount > 1) {
+      await loadLevel(paths[0], 0);
+    }
+    
+    const remaining = paths.slice(levelCount > 1 ? 1 : 0);
+    const offset = levelCount - remaining.length;
+    const results = await Promise.all(remaining.map((levelPath, i) => loadLevel(levelPath, offset + i)));
+    
+    // Coarse levels are now owned by the caller (and disposed on swap)
+    paths.slice(0, -1).forEach((levelPath) => this.loadedAssets.delete(this.getAssetPath(levelPath)));
+    
+    return results[results.length - 1]!;
+  }
+
+  /**
+   * Fetch and parse a GLB file, caching the scene under `cacheKey`
+   * Progress goes to every listener registered for `cacheKey`
+   * @private
+   */
+  private loadGLBFile(filePath: string, cacheKey: string): Promise<THREE.Group> {
+    const fullPath = this.getAssetPath(filePath);
+    
     console.log(`📥 Loading GLB: ${fullPath}`);
     
     return new Promise((resolve, reject) => {
       this.gltfLoader.load(
         fullPath,
         (gltf) => {
-          console.log(`✅ GLB loaded: ${path}`);
+          console.log(`✅ GLB loaded: ${filePath}`);
           
           // Cache the model
-          this.loadedAssets.set(fullPath, gltf.scene);
+          this.loadedAssets.set(cacheKey, gltf.scene);
           
           resolve(gltf.scene);
         },
         (xhr) => {
-          if (this.config.enableProgressTracking && xhr.lengthComputable && onProgress) {
+          const listeners = this.progressListeners.get(cacheKey);
+          if (this.config.enableProgressTracking && xhr.lengthComputable && listeners) {
             const progress: LoadProgress = {
               loaded: xhr.loaded,
               total: xhr.total,
               percentage: (xhr.loaded / xhr.total) * 100,
-              asset: path
+              asset: filePath
             };
-            onProgress(progress);
+            listeners.forEach((listener) => listener(progress));
           }
         },
         (error) => {
-          console.error(`❌ Failed to load GLB: ${path}`, error);
+          console.error(`❌ Failed to load GLB: ${filePath}`, error);
           reject(error);
         }
       );
@@ -119,34 +450,73 @@ export class AssetLoader {
   /**
    * Load a texture
    * 
+   * Uses the KTX2 variant when available, falling back to `path`.
+   * 
    * @param path - Relative path to texture file
    * @returns Promise resolving to loaded texture
    */
-  loadTexture(path: string): Promise<THREE.Texture> {
+  async loadTexture(path: string): Promise<THREE.Texture> {
     const fullPath = this.getAssetPath(path);
     
     // Check cache
     if (this.loadedAssets.has(fullPath)) {
       console.log(`🖼️ Using cached texture: ${path}`);
-      return Promise.resolve(this.loadedAssets.get(fullPath));
+      return this.loadedAssets.get(fullPath);
+    }
+    
+    // Share an in-flight load (e.g. preload and component asking at once)
+    if (this.pendingLoads.has(fullPath)) {
+      return this.pendingLoads.get(fullPath)!;
     }
     
+    const load = (async () => {
+      const ktx2Path = await this.resolveKTX2Variant(path);
+      if (ktx2Path && this.ktx2Loader) {
+        try {
+          return await this.loadTextureFile(this.ktx2Loader, ktx2Path, fullPath);
+        } catch (error) {
+          console.warn(`⚠️ KTX2 texture failed, falling back to ${path}:`, error);
+        }
+      }
+      
+      return this.loadTextureFile(this.textureLoader, path, fullPath);
+    })();
+    
+    this.pendingLoads.set(fullPath, load);
+    try {
+      return await load;
+    } finally {
+      this.pendingLoads.delete(fullPath);
+    }
+  }
+
+  /**
+   * Fetch a texture with the given loader, caching it under `cacheKey`
+   * @private
+   */
+  private loadTextureFile(
+    loader: THREE.Loader<THREE.Texture>,
+    filePath: string,
+    cacheKey: string
+  ): Promise<THREE.Texture> {
+    const fullPath = this.getAssetPath(filePath);
+    
     console.log(`📥 Loading texture: ${fullPath}`);
     
     return new Promise((resolve, reject) => {
-      this.textureLoader.load(
+      loader.load(
         fullPath,
         (texture) => {
-          console.log(`✅ Texture loaded: ${path}`);
+          console.log(`✅ Texture loaded: ${filePath}`);
           
           // Cache the texture
-          this.loadedAssets.set(fullPath, texture);
+          this.loadedAssets.set(cacheKey, texture);
           
           resolve(texture);
         },
         undefined,
         (error) => {
-          console.error(`❌ Failed to load texture: ${path}`, error);
+          console.error(`❌ Failed to load texture: ${filePath}`, error);
           reject(error);
         }
       );
@@ -162,9 +532,11 @@ export class AssetLoader {
   async preloadAssets(paths: string[]): Promise<void> {
     console.log(`🔄 Preloading ${paths.length} assets...`);
     
-    const promises = paths.map(path => {
+    const promises = paths.map(async path => {
       if (path.endsWith('.glb') || path.endsWith('.gltf')) {
-        return this.loadGLB(path);
+        // Only the coarsest LOD - the full model would compete with it for bandwidth
+        const [coarsest] = await this.getLODPaths(path);
+        return this.loadGLB(coarsest ?? path);
       } else {
         return this.loadTexture(path);
       }
@@ -261,7 +633,11 @@ export function createAssetLoader(overrides?: Partial<AssetLoaderConfig>): Asset
     basePath: '/',
     useDraco: true,
     dracoDecoderPath: '/draco/',
-    enableProgressTracking: true
+    enableProgressTracking: true,
+    useKTX2: false,
+    ktx2TranscoderPath: '/basis/',
+    ktx2ManifestPath: '/ktx2-manifest.json',
+    lodManifestPath: '/lod-manifest.json'
   };
   
   return new AssetLoader({ ...defaultConfig, ...overrides });
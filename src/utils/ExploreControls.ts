@@ -0,0 +1,242 @@
+/**
+ * Explore Controls
+ *
+ * Free orbit / zoom / pan around the truck outside the scroll narrative.
+ * Wraps OrbitControls with:
+ * - Damping and distance limits
+ * - Camera kept above the ground plane
+ * - Double-click to focus a sensor part (head, probe, cage)
+ * - Smooth look-at hand-back to the scroll camera when leaving
+ *
+ * @example
+ * ```typescript
+ * const explore = createExploreControls(camera, renderer.domElement, {
+ *   focusTargets: () => [sensorHead, probeTube, cage]
+ * });
+ *
+ * // In animation loop
+ * if (explore.isActive()) {
+ *   explore.update(delta);
+ * } else {
+ *   camera.position.lerp(scrollPosition, 0.08);
+ *   camera.lookAt(explore.blendReturn(scrollLookAt, delta));
+ * }
+ * ```
+ */
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+export interface ExploreControlsOptions {
+  /** Objects that can be focused with a double-click (read on every double-click) */
+  focusTargets?: () => THREE.Object3D[];
+  /** Closest zoom distance (default: 2) */
+  minDistance?: number;
+  /** Farthest zoom distance (default: 40) */
+  maxDistance?: number;
+  /** Lowest camera height above the ground (default: 0.3) */
+  minCameraHeight?: number;
+  /** OrbitControls damping factor (default: 0.08) */
+  dampingFactor?: number;
+  /** Camera distance from a focused part (default: 2.5) */
+  focusDistance?: number;
+  /** Focus animation duration in seconds (default: 0.8) */
+  focusDuration?: number;
+  /** Look-at hand-back duration when leaving, in seconds (default: 1.2) */
+  returnDuration?: number;
+}
+
+interface CameraTween {
+  fromTarget: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  fromPosition: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  elapsed: number;
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export class ExploreControls {
+  private camera: THREE.PerspectiveCamera;
+  private domElement: HTMLElement;
+  private controls: OrbitControls;
+  private options: Required<ExploreControlsOptions>;
+  private raycaster = new THREE.Raycaster();
+  private pointer = new THREE.Vector2();
+  private focusTween: CameraTween | null = null;
+  private returning: { fromLook: THREE.Vector3; elapsed: number } | null = null;
+  private returnLook = new THREE.Vector3();
+  private active = false;
+  private boundDoubleClick: (event: MouseEvent) => void;
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement, options: ExploreControlsOptions = {}) {
+    this.camera = camera;
+    this.domElement = domElement;
+    this.options = {
+      focusTargets: options.focusTargets ?? (() => []),
+      minDistance: options.minDistance ?? 2,
+      maxDistance: options.maxDistance ?? 40,
+      minCameraHeight: options.minCameraHeight ?? 0.3,
+      dampingFactor: options.dampingFactor ?? 0.08,
+      focusDistance: options.focusDistance ?? 2.5,
+      focusDuration: options.focusDuration ?? 0.8,
+      returnDuration: options.returnDuration ?? 1.2
+    };
+
+    this.controls = new OrbitControls(camera, domElement);
+    this.controls.enabled = false;
+    // OrbitControls blocks touch scrolling - only do that while exploring
+    domElement.style.touchAction = '';
+    this.controls.enableDamping = true;
+    this.controls.dampingFactor = this.options.dampingFactor;
+    this.controls.minDistance = this.options.minDistance;
+    this.controls.maxDistance = this.options.maxDistance;
+    // Never orbit below the horizon of the target
+    this.controls.maxPolarAngle = Math.PI / 2 - 0.05;
+
+    this.boundDoubleClick = this.handleDoubleClick.bind(this);
+    domElement.addEventListener('dblclick', this.boundDoubleClick);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Hand the camera to orbit controls
+   * @param lookAt - Current look-at target (becomes the orbit pivot)
+   */
+  enter(lookAt: THREE.Vector3): void {
+    if (this.active) return;
+
+    this.active = true;
+    this.returning = null;
+    this.focusTween = null;
+    this.controls.target.copy(lookAt);
+    this.controls.enabled = true;
+    this.domElement.style.touchAction = 'none';
+    this.controls.update();
+    console.log('🧭 Explore mode on');
+  }
+
+  /**
+   * Give the camera back to the scroll narrative
+   * The look-at target blends back over `returnDuration` (see blendReturn)
+   */
+  exit(): void {
+    if (!this.active) return;
+
+    this.active = false;
+    this.focusTween = null;
+    this.controls.enabled = false;
+    this.domElement.style.touchAction = '';
+    this.returning = { fromLook: this.controls.target.clone(), elapsed: 0 };
+    console.log('🧭 Explore mode off');
+  }
+
+  /**
+   * Update controls (call every frame while active)
+   */
+  update(delta: number): void {
+    if (!this.active) return;
+
+    if (this.focusTween) {
+      const tween = this.focusTween;
+      tween.elapsed += delta;
+      const t = smoothstep(Math.min(tween.elapsed / this.options.focusDuration, 1));
+      this.controls.target.lerpVectors(tween.fromTarget, tween.toTarget, t);
+      this.camera.position.lerpVectors(tween.fromPosition, tween.toPosition, t);
+      if (t >= 1) this.focusTween = null;
+    }
+
+    this.controls.update();
+
+    // Keep the camera above the ground plane (panning can push the target down)
+    if (this.camera.position.y < this.options.minCameraHeight) {
+      this.camera.position.y = this.options.minCameraHeight;
+      this.camera.lookAt(this.controls.target);
+    }
+  }
+
+  /**
+   * Look-at target to use after exit() - blends from the orbit pivot to the
+   * scroll camera's target, then returns `lookAt` unchanged
+   */
+  blendReturn(lookAt: THREE.Vector3, delta: number): THREE.Vector3 {
+    if (!this.returning) return lookAt;
+
+    this.returning.elapsed += delta;
+    const t = smoothstep(Math.min(this.returning.elapsed / this.options.returnDuration, 1));
+    this.returnLook.lerpVectors(this.returning.fromLook, lookAt, t);
+    if (t >= 1) this.returning = null;
+
+    return this.returnLook;
+  }
+
+  /**
+   * Animate the orbit pivot to an object, keeping the current view direction
+   */
+  focusOn(object: THREE.Object3D): void {
+    const toTarget = new THREE.Box3().setFromObject(object).getCenter(new THREE.Vector3());
+    const direction = this.camera.position.clone().sub(this.controls.target).normalize();
+    const toPosition = toTarget.clone().addScaledVector(direction, this.options.focusDistance);
+    toPosition.y = Math.max(toPosition.y, this.options.minCameraHeight);
+
+    this.focusTween = {
+      fromTarget: this.controls.target.clone(),
+      toTarget,
+      fromPosition: this.camera.position.clone(),
+      toPosition,
+      elapsed: 0
+    };
+    console.log(`🎯 Focusing ${object.name || object.type}`);
+  }
+
+  dispose(): void {
+    this.domElement.removeEventListener('dblclick', this.boundDoubleClick);
+    this.controls.dispose();
+  }
+
+  /**
+   * Double-click: focus the focus target under the pointer (ignores the truck body)
+   * @private
+   */
+  private handleDoubleClick(event: MouseEvent): void {
+    if (!this.active) return;
+
+    const targets = this.options.focusTargets();
+    if (targets.length === 0) return;
+
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+
+    const hit = this.raycaster.intersectObjects(targets, true)[0];
+    if (!hit) return;
+
+    // Resolve the hit mesh to the focus target that contains it
+    let object: THREE.Object3D | null = hit.object;
+    while (object && !targets.includes(object)) {
+      object = object.parent;
+    }
+    if (object) this.focusOn(object);
+  }
+}
+
+/**
+ * Create explore (orbit) controls for a camera
+ *
+ * @param camera - Scene camera
+ * @param domElement - Renderer canvas
+ * @param options - Limits and focus targets
+ */
+export function createExploreControls(
+  camera: THREE.PerspectiveCamera,
+  domElement: HTMLElement,
+  options?: ExploreControlsOptions
+): ExploreControls {
+  return new ExploreControls(camera, domElement, options);
+}
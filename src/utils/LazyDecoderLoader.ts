@@ -7,20 +7,44 @@
  * - Loaded asynchronously without blocking main thread
  * - Served from local bundle (not CDN)
  * 
+ * The KTX2 (Basis Universal) loader is only created when `ktx2Path` is set
+ * and is code-split out of the main bundle. Call `detectKTX2Support(renderer)`
+ * before loading KTX2 textures - it picks the GPU format to transcode to and
+ * reports whether KTX2 is worth using on this device.
+ * 
  * @example
  * ```typescript
  * const decoderLoader = LazyDecoderLoader.getInstance({
  *   dracoPath: '/draco/',
+ *   ktx2Path: '/basis/',
  *   workerLimit: 4
  * });
  * 
  * await decoderLoader.initializeDecoders();
  * const dracoLoader = decoderLoader.getDracoLoader();
+ * if (decoderLoader.detectKTX2Support(renderer)) {
+ *   gltfLoader.setKTX2Loader(decoderLoader.getKTX2Loader());
+ * }
  * ```
  */
 
+import * as THREE from 'three';
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
 import type { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { DecoderInitializationError } from './errors';
+
+/**
+ * WebGL extensions for GPU-compressed formats a Basis texture can be transcoded to
+ * Without any of them KTX2Loader falls back to uncompressed RGBA, which saves no VRAM
+ */
+const COMPRESSED_TEXTURE_EXTENSIONS = [
+  'WEBGL_compressed_texture_astc',
+  'EXT_texture_compression_bptc',
+  'WEBGL_compressed_texture_etc',
+  'WEBGL_compressed_texture_etc1',
+  'WEBGL_compressed_texture_s3tc',
+  'WEBGL_compressed_texture_pvrtc'
+];
 
 export interface DecoderConfig {
   dracoPath: string;
@@ -28,10 +52,42 @@ export interface DecoderConfig {
   workerLimit: number;
 }
 
+/**
+ * Create a Draco loader and start fetching its decoder right away
+ * 
+ * DRACOLoader otherwise fetches the decoder on the first decode and offers no
+ * way to await it; routing its requests through a LoadingManager does.
+ * 
+ * @param decoderPath - Directory holding the Draco decoder files
+ * @param workerLimit - Maximum decoder workers
+ * @returns The loader and a promise that settles once the decoder is loaded
+ */
+export function createPreloadedDracoLoader(
+  decoderPath: string,
+  workerLimit: number
+): { loader: DRACOLoader; ready: Promise<void> } {
+  const manager = new THREE.LoadingManager();
+  const ready = new Promise<void>((resolve, reject) => {
+    manager.onLoad = () => resolve();
+    manager.onError = (url) => reject(new DecoderInitializationError(`Draco decoder file failed to load: ${url}`, {
+      decoderType: 'draco',
+      decoderPath
+    }));
+  });
+  
+  const loader = new DRACOLoader(manager);
+  loader.setDecoderPath(decoderPath);
+  loader.setWorkerLimit(workerLimit);
+  loader.preload();
+  
+  return { loader, ready };
+}
+
 export class LazyDecoderLoader {
   private static instance: LazyDecoderLoader | null = null;
   
   private dracoLoader: DRACOLoader | null = null;
+  private dracoReady: Promise<void> | null = null;
   private ktx2Loader: KTX2Loader | null = null;
   private initPromise: Promise<void> | null = null;
   private config: DecoderConfig;
@@ -94,36 +150,56 @@ export class LazyDecoderLoader {
    * @private
    */
   private async performInitialization(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    // Initialize Draco decoder
+    try {
+      // Preload decoder (async, non-blocking)
+      const { loader, ready } = createPreloadedDracoLoader(this.config.dracoPath, this.config.workerLimit);
+      this.dracoLoader = loader;
+      this.dracoReady = ready;
+    } catch (error) {
+      throw new DecoderInitializationError('Draco decoder failed to initialize', {
+        decoderType: 'draco',
+        decoderPath: this.config.dracoPath,
+        originalError: error
+      });
+    }
+    
+    // KTX2 loader (split into its own chunk - only fetched when configured)
+    if (this.config.ktx2Path) {
       try {
-        // Initialize Draco decoder
-        this.dracoLoader = new DRACOLoader();
-        this.dracoLoader.setDecoderPath(this.config.dracoPath);
-        this.dracoLoader.setWorkerLimit(this.config.workerLimit);
-        
-        // Preload decoder (async, non-blocking)
-        this.dracoLoader.preload();
-        
-        // KTX2 loader initialization would go here if needed
-        // Currently not used, but structure is ready
-        if (this.config.ktx2Path) {
-          // const { KTX2Loader } = await import('three/examples/jsm/loaders/KTX2Loader.js');
-          // this.ktx2Loader = new KTX2Loader();
-          // this.ktx2Loader.setTranscoderPath(this.config.ktx2Path);
-        }
-        
-        // Use requestIdleCallback if available, otherwise setTimeout
-        if ('requestIdleCallback' in window) {
-          requestIdleCallback(() => resolve(), { timeout: 1000 });
-        } else {
-          setTimeout(() => resolve(), 0);
-        }
+        const { KTX2Loader } = await import('three/examples/jsm/loaders/KTX2Loader.js');
+        this.ktx2Loader = new KTX2Loader();
+        this.ktx2Loader.setTranscoderPath(this.config.ktx2Path);
+        this.ktx2Loader.setWorkerLimit(this.config.workerLimit);
       } catch (error) {
-        reject(error);
+        throw new DecoderInitializationError('KTX2 loader failed to initialize', {
+          decoderType: 'ktx2',
+          decoderPath: this.config.ktx2Path,
+          originalError: error
+        });
+      }
+    }
+    
+    // Use requestIdleCallback if available, otherwise setTimeout
+    await new Promise<void>((resolve) => {
+      if ('requestIdleCallback' in window) {
+        requestIdleCallback(() => resolve(), { timeout: 1000 });
+      } else {
+        setTimeout(() => resolve(), 0);
       }
     });
   }
 
+  /**
+   * Wait until the Draco decoder files have been fetched
+   * Initializes decoders if needed; rejects with DecoderInitializationError
+   * 
+   * @returns Promise resolving when Draco can decode without further downloads
+   */
+  whenDracoReady(): Promise<void> {
+    return this.initializeDecoders().then(() => this.dracoReady!);
+  }
+
   /**
    * Get Draco loader instance
    * Throws error if not initialized
@@ -150,6 +226,33 @@ export class LazyDecoderLoader {
     return this.ktx2Loader;
   }
 
+  /**
+   * Prepare the KTX2 loader for a renderer and check whether KTX2 pays off
+   * 
+   * Returns false (use WebP textures instead) when the KTX2 loader is not
+   * configured, WebAssembly is unavailable for the Basis transcoder, or the
+   * GPU supports no compressed format to transcode to.
+   * 
+   * @param renderer - Renderer the textures will be uploaded to
+   * @returns true if KTX2 textures should be loaded
+   */
+  detectKTX2Support(renderer: THREE.WebGLRenderer): boolean {
+    if (!this.ktx2Loader || typeof WebAssembly !== 'object') {
+      return false;
+    }
+
+    this.ktx2Loader.detectSupport(renderer);
+
+    const format = COMPRESSED_TEXTURE_EXTENSIONS.find((extension) => renderer.extensions.has(extension));
+    if (!format) {
+      console.log('🗜️ No GPU-compressed texture format available, using WebP textures');
+      return false;
+    }
+
+    console.log(`🗜️ KTX2 textures enabled (${format})`);
+    return true;
+  }
+
   /**
    * Check if decoders are initialized
    * @returns true if initialized
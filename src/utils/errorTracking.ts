@@ -2,9 +2,13 @@
  * Error Tracking Utility
  * 
  * Centralized error logging and tracking for the 3D application.
- * Captures errors with context and can integrate with external services.
+ * Captures errors with context and forwards them to the error reporter
+ * (src/reporting/ErrorReporter.ts), which batches and delivers them.
  */
 
+import { errorReporter } from '../reporting/ErrorReporter';
+import { errorHandler } from './errors';
+
 interface ErrorContext {
   component?: string;
   action?: string;
@@ -15,6 +19,7 @@ interface ErrorContext {
 }
 
 interface TrackedError {
+  name: string;
   message: string;
   stack?: string;
   context: ErrorContext;
@@ -77,6 +82,7 @@ class ErrorTracker {
     if (!this.enabled) return;
 
     const trackedError: TrackedError = {
+      name: error.name,
       message: error.message,
       stack: error.stack,
       context: {
@@ -103,11 +109,7 @@ class ErrorTracker {
       });
     }
 
-    // In production, you could send to an error tracking service
-    // Example: Sentry, LogRocket, etc.
-    if (process.env.NODE_ENV === 'production' && severity === 'critical') {
-      this.sendToErrorService(trackedError);
-    }
+    this.sendToErrorService(trackedError);
   }
 
   /**
@@ -127,20 +129,18 @@ class ErrorTracker {
   }
 
   /**
-   * Send error to external error tracking service
-   * (Placeholder for integration with services like Sentry)
+   * Hand the error to the reporter (scrubbing, dedupe, rate limit and
+   * batching happen there; the transport comes from the build config)
    */
   private sendToErrorService(error: TrackedError): void {
-    // Example integration point
-    // if (window.Sentry) {
-    //   window.Sentry.captureException(new Error(error.message), {
-    //     extra: error.context,
-    //     level: error.severity
-    //   });
-    // }
-    
-    // For now, just log that we would send it
-    console.log('Would send to error service:', error);
+    errorReporter.report({
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      severity: error.severity,
+      context: error.context,
+      timestamp: error.timestamp
+    });
   }
 
   /**
@@ -212,5 +212,8 @@ class ErrorTracker {
 // Export singleton instance
 export const errorTracker = new ErrorTracker();
 
+// Handled errors (errorHandler.handle) share the same pipeline
+errorHandler.setSink(errorTracker);
+
 // Export types
 export type { ErrorContext, TrackedError };
@@ -11,6 +11,8 @@
  * - Error type identification
  */
 
+import type { ErrorSeverity } from '../reporting/types';
+
 /**
  * Base error class with context
  */
@@ -164,7 +166,7 @@ export class ConfigurationError extends ContextError {
   constructor(
     message: string,
     context: {
-      configType: 'transforms' | 'build' | 'scene' | 'other';
+      configType: 'transforms' | 'build' | 'scene' | 'timeline' | 'scenario' | 'dashboard' | 'telemetry' | 'audio' | 'other';
       configPath?: string;
       [key: string]: any;
     }
@@ -173,14 +175,80 @@ export class ConfigurationError extends ContextError {
   }
 }
 
+/**
+ * Telematics source error
+ * Thrown when a live telematics feed fails to connect or delivers invalid data
+ */
+export class TelematicsSourceError extends ContextError {
+  constructor(
+    message: string,
+    context: {
+      sourceType: 'websocket' | 'sse' | 'replay' | 'simulated';
+      url?: string;
+      [key: string]: any;
+    }
+  ) {
+    super(message, context);
+  }
+}
+
+/**
+ * Lead submission error
+ * Thrown when a Request Demo submission cannot be delivered
+ */
+export class LeadSubmissionError extends ContextError {
+  constructor(
+    message: string,
+    context: {
+      adapter: string;
+      status?: number;
+      retryable: boolean;
+      [key: string]: any;
+    }
+  ) {
+    super(message, context);
+  }
+}
+
+/**
+ * Error transport error
+ * Thrown when an error report batch cannot be delivered
+ */
+export class ErrorTransportError extends ContextError {
+  constructor(
+    message: string,
+    context: {
+      transport: string;
+      status?: number;
+      retryable: boolean;
+      [key: string]: any;
+    }
+  ) {
+    super(message, context);
+  }
+}
+
+/**
+ * Receives handled errors for reporting
+ */
+export interface ErrorSink {
+  trackError(error: Error, context: Record<string, any>, severity: ErrorSeverity): void;
+}
+
 /**
  * Error handler utility
  * Provides consistent error logging and reporting
+ *
+ * Handled errors are forwarded to the sink, which src/utils/errorTracking.ts
+ * sets to errorTracker so both share one reporting pipeline (see
+ * src/reporting/ErrorReporter.ts). Injecting it keeps this module free of
+ * reporter imports, which themselves import these error classes.
  */
 export class ErrorHandler {
   private static instance: ErrorHandler;
   private errorLog: ContextError[] = [];
   private maxLogSize: number = 100;
+  private sink: ErrorSink | null = null;
 
   private constructor() {}
 
@@ -191,10 +259,21 @@ export class ErrorHandler {
     return ErrorHandler.instance;
   }
 
+  /**
+   * Set where handled errors are reported (null to stop reporting)
+   */
+  setSink(sink: ErrorSink | null): void {
+    this.sink = sink;
+  }
+
   /**
    * Handle an error with logging and optional callback
    */
-  handle(error: Error | ContextError, callback?: (error: Error | ContextError) => void): void {
+  handle(
+    error: Error | ContextError,
+    callback?: (error: Error | ContextError) => void,
+    severity: ErrorSeverity = getErrorSeverity(error)
+  ): void {
     // Log to console
     console.error('🚨 Error occurred:', error);
 
@@ -216,6 +295,13 @@ export class ErrorHandler {
       console.error('📚 Stack trace:', error.stack);
     }
 
+    // Report
+    this.sink?.trackError(
+      error,
+      error instanceof ContextError ? { ...error.context } : {},
+      severity
+    );
+
     // Execute callback if provided
     if (callback) {
       callback(error);
@@ -293,6 +379,18 @@ export function isRecoverableError(error: Error): boolean {
   return false;
 }
 
+/**
+ * Utility function to pick a reporting severity for an error
+ * Unrecoverable WebGL loss is critical, other unrecoverable errors high
+ */
+export function getErrorSeverity(error: Error): ErrorSeverity {
+  if (error instanceof WebGLContextError && error.context.canRecover === false) {
+    return 'critical';
+  }
+
+  return isRecoverableError(error) ? 'medium' : 'high';
+}
+
 /**
  * Utility function to get user-friendly error message
  */
@@ -305,6 +403,9 @@ export function getUserFriendlyMessage(error: Error): string {
     if (error.context.contextType === 'not-supported') {
       return 'Your browser does not support WebGL. Please use a modern browser.';
     }
+    if (error.context.canRecover === false) {
+      return 'The graphics context could not be restored. Please reload the page.';
+    }
     return 'Graphics context was lost. Attempting to recover...';
   }
 
@@ -5,8 +5,11 @@
  * - Asset load times
  * - Scene initialization time
  * - First render time
- * - Frame rate
+ * - Frame rate (averaged per scroll phase)
+ * - Long tasks
  * - Memory usage
+ *
+ * Sampled sessions are sent to a RUM endpoint by src/rum/RumReporter.ts.
  */
 
 interface PerformanceMetric {
@@ -23,10 +26,28 @@ interface AssetLoadMetric {
   cached: boolean;
 }
 
+interface PhaseFrameStats {
+  phase: string;
+  frames: number;
+  seconds: number;
+  averageFps: number;
+}
+
+interface LongTaskStats {
+  count: number;
+  totalDuration: number;
+  maxDuration: number;
+}
+
+// Frames slower than this are pauses (hidden tab, context loss), not rendering
+const MAX_FRAME_DELTA = 1;
+
 class PerformanceMonitor {
   private metrics: PerformanceMetric[] = [];
   private assetMetrics: AssetLoadMetric[] = [];
   private marks: Map<string, number> = new Map();
+  private phaseFrames: Map<string, { frames: number; seconds: number }> = new Map();
+  private longTasks: LongTaskStats = { count: 0, totalDuration: 0, maxDuration: 0 };
   private enabled: boolean;
 
   constructor() {
@@ -111,6 +132,44 @@ class PerformanceMonitor {
     }
   }
 
+  /**
+   * Track an asset load, reading size and cache state from Resource Timing
+   *
+   * Matches the first resource whose URL contains `path` without its
+   * extension, so compressed variants (e.g. `.ktx2.glb`) are found too.
+   */
+  trackResourceLoad(path: string, loadTime: number): void {
+    if (!this.enabled) return;
+
+    const stem = path.replace(/\.[^./]+$/, '');
+    const entry = performance.getEntriesByType('resource')
+      .find((resource) => resource.name.includes(stem)) as PerformanceResourceTiming | undefined;
+
+    // transferSize is 0 for cache / service worker hits
+    const size = entry ? entry.encodedBodySize : 0;
+    const cached = entry ? entry.transferSize === 0 && entry.decodedBodySize > 0 : false;
+
+    this.trackAssetLoad(path, loadTime, size, cached);
+  }
+
+  /**
+   * Count a rendered frame towards its phase's average FPS
+   *
+   * @param phase - Scroll phase id (or 'explore' / 'extendedIntro')
+   * @param delta - Frame time in seconds
+   */
+  trackFrame(phase: string, delta: number): void {
+    if (!this.enabled || delta <= 0 || delta > MAX_FRAME_DELTA) return;
+
+    const stats = this.phaseFrames.get(phase);
+    if (stats) {
+      stats.frames++;
+      stats.seconds += delta;
+    } else {
+      this.phaseFrames.set(phase, { frames: 1, seconds: delta });
+    }
+  }
+
   /**
    * Log page load metrics from Navigation Timing API
    */
@@ -206,6 +265,20 @@ class PerformanceMonitor {
       } catch (e) {
         // CLS not supported
       }
+
+      // Long tasks (main thread blocked > 50ms), including those before load
+      try {
+        const longTaskObserver = new PerformanceObserver((list) => {
+          list.getEntries().forEach((entry) => {
+            this.longTasks.count++;
+            this.longTasks.totalDuration += entry.duration;
+            this.longTasks.maxDuration = Math.max(this.longTasks.maxDuration, entry.duration);
+          });
+        });
+        longTaskObserver.observe({ type: 'longtask', buffered: true });
+      } catch (e) {
+        // Long tasks not supported
+      }
     }
   }
 
@@ -223,6 +296,25 @@ class PerformanceMonitor {
     return [...this.assetMetrics];
   }
 
+  /**
+   * Get average FPS per phase
+   */
+  getPhaseStats(): PhaseFrameStats[] {
+    return Array.from(this.phaseFrames.entries()).map(([phase, stats]) => ({
+      phase,
+      frames: stats.frames,
+      seconds: stats.seconds,
+      averageFps: stats.seconds > 0 ? stats.frames / stats.seconds : 0
+    }));
+  }
+
+  /**
+   * Get long task totals
+   */
+  getLongTaskStats(): LongTaskStats {
+    return { ...this.longTasks };
+  }
+
   /**
    * Get performance summary
    */
@@ -255,6 +347,8 @@ class PerformanceMonitor {
     return JSON.stringify({
       metrics: this.metrics,
       assetMetrics: this.assetMetrics,
+      phases: this.getPhaseStats(),
+      longTasks: this.getLongTaskStats(),
       summary: this.getSummary(),
       timestamp: Date.now(),
       userAgent: navigator.userAgent
@@ -268,6 +362,8 @@ class PerformanceMonitor {
     this.metrics = [];
     this.assetMetrics = [];
     this.marks.clear();
+    this.phaseFrames.clear();
+    this.longTasks = { count: 0, totalDuration: 0, maxDuration: 0 };
   }
 
   /**
@@ -282,4 +378,4 @@ class PerformanceMonitor {
 export const performanceMonitor = new PerformanceMonitor();
 
 // Export types
-export type { PerformanceMetric, AssetLoadMetric };
+export type { PerformanceMetric, AssetLoadMetric, PhaseFrameStats, LongTaskStats };
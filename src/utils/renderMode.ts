@@ -0,0 +1,120 @@
+/**
+ * Render Mode Detection
+ *
+ * Chooses how the experience is rendered from the WebGL capability probe:
+ * - full:     3D scene with antialiasing and soft shadows
+ * - low:      3D scene tuned for weak / software GPUs
+ * - fallback: no WebGL - pre-rendered stills / video driven by scroll
+ *
+ * Pixel ratio, shadow map size, particles and edges are adjusted at runtime by
+ * the quality governor (src/quality); the render mode picks its starting tier.
+ *
+ * The probe can be overridden with `?mode=full|low|fallback` for testing.
+ *
+ * @example
+ * ```typescript
+ * const { mode, reason } = detectRenderMode();
+ * if (mode === 'fallback') {
+ *   // Render <FallbackExperience /> instead of the 3D canvas
+ * }
+ * ```
+ */
+
+import { getWebGLCapabilities } from './webglContextHandler';
+
+export type RenderMode = 'full' | 'low' | 'fallback';
+
+export interface RenderModeInfo {
+  mode: RenderMode;
+  /** Why this mode was chosen (for logging / diagnostics) */
+  reason: string;
+  /** GPU renderer string if exposed by the browser */
+  gpuRenderer: string | null;
+}
+
+/**
+ * Renderer settings per 3D render mode, fixed for the renderer's lifetime
+ */
+export interface RenderModeSettings {
+  antialias: boolean;
+  softShadows: boolean;
+}
+
+export const RENDER_MODE_SETTINGS: Record<Exclude<RenderMode, 'fallback'>, RenderModeSettings> = {
+  full: {
+    antialias: true,
+    softShadows: true
+  },
+  low: {
+    antialias: false,
+    softShadows: false
+  }
+};
+
+// Renderers that run on the CPU - usable, but far too slow for the full scene
+const SOFTWARE_RENDERER_PATTERN = /swiftshader|llvmpipe|softpipe|software|microsoft basic render/i;
+
+// Minimum texture size for the full tier (the telematics canvas is 2048x1024)
+const MIN_FULL_TEXTURE_SIZE = 4096;
+
+/**
+ * Read the unmasked GPU renderer string, if available
+ */
+export function getGPURenderer(): string | null {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = (canvas.getContext('webgl2') || canvas.getContext('webgl')) as WebGLRenderingContext | null;
+    if (!gl) return null;
+
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    const renderer = debugInfo
+      ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)
+      : gl.getParameter(gl.RENDERER);
+
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return typeof renderer === 'string' ? renderer : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Read the `?mode=` override from the URL
+ */
+function getModeOverride(): RenderMode | null {
+  if (typeof window === 'undefined') return null;
+  const mode = new URLSearchParams(window.location.search).get('mode');
+  return mode === 'full' || mode === 'low' || mode === 'fallback' ? mode : null;
+}
+
+/**
+ * Detect the render mode for this device
+ *
+ * @returns Chosen mode with the reason and GPU string
+ */
+export function detectRenderMode(): RenderModeInfo {
+  const override = getModeOverride();
+  const capabilities = getWebGLCapabilities();
+  const gpuRenderer = capabilities.supported ? getGPURenderer() : null;
+
+  let info: RenderModeInfo;
+
+  if (override) {
+    info = { mode: override, reason: 'URL override', gpuRenderer };
+  } else if (!capabilities.supported) {
+    info = { mode: 'fallback', reason: 'WebGL not supported', gpuRenderer };
+  } else if (gpuRenderer && SOFTWARE_RENDERER_PATTERN.test(gpuRenderer)) {
+    info = { mode: 'low', reason: `Software renderer (${gpuRenderer})`, gpuRenderer };
+  } else if (capabilities.version === 'webgl') {
+    info = { mode: 'low', reason: 'WebGL 1 only', gpuRenderer };
+  } else if ((capabilities.maxTextureSize ?? 0) < MIN_FULL_TEXTURE_SIZE) {
+    info = { mode: 'low', reason: `Max texture size ${capabilities.maxTextureSize}`, gpuRenderer };
+  } else if (navigator.hardwareConcurrency && navigator.hardwareConcurrency <= 2) {
+    info = { mode: 'low', reason: `${navigator.hardwareConcurrency} CPU cores`, gpuRenderer };
+  } else {
+    info = { mode: 'full', reason: 'Capable GPU', gpuRenderer };
+  }
+
+  console.log(`🖥️ Render mode: ${info.mode} (${info.reason})`);
+  return info;
+}
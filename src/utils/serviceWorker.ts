@@ -0,0 +1,65 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers the build-generated /sw.js (see vite-plugins/serviceWorkerPlugin.ts)
+ * so the experience keeps running offline after the first visit.
+ *
+ * Updates: a new build installs in the background and is activated right
+ * away. Assets are cache-first, so the page already running keeps working
+ * and the next load picks up the new build.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Ask a waiting worker to take over
+ * @private
+ */
+function activateWhenInstalled(worker: ServiceWorker): void {
+  const activate = () => {
+    // Only an update waits; the first install activates on its own
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      console.log('🛰️ New build cached - activating service worker');
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    }
+  };
+
+  activate();
+  worker.addEventListener('statechange', activate);
+}
+
+/**
+ * Register the offline service worker (skipped on localhost)
+ *
+ * @example
+ * ```typescript
+ * registerServiceWorker();
+ * ```
+ */
+export function registerServiceWorker(): void {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  // The dev server has no sw.js; local previews should always hit the network
+  const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(window.location.hostname);
+  if (isLocal) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+      if (registration.waiting) {
+        activateWhenInstalled(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        if (registration.installing) {
+          activateWhenInstalled(registration.installing);
+        }
+      });
+
+      console.log('✅ Service worker registered');
+    } catch (error) {
+      console.warn('⚠️ Service worker registration failed:', error);
+    }
+  });
+}
@@ -13,11 +13,13 @@ export const sharedAssetLoader: AssetLoader = createAssetLoader({
   basePath: '/',
   useDraco: true,
   dracoDecoderPath: '/draco/',
-  enableProgressTracking: true
+  enableProgressTracking: true,
+  useKTX2: true,
+  ktx2TranscoderPath: '/basis/'
 });
 
 // Preload critical assets on module load
-const criticalAssets = [
+export const criticalAssets = [
   '/model/compressed/Main_truck_updated_compressed.glb',
   '/optimized/logo.webp',
   '/optimized/logo-front-truck.webp',
@@ -25,6 +27,7 @@ const criticalAssets = [
 ];
 
 // Start preloading in background (non-blocking)
+// Loads start once App calls configureTextureSupport(renderer) and picks KTX2 or WebP
 sharedAssetLoader.preloadAssets(criticalAssets).catch(error => {
   console.warn('⚠️ Failed to preload some critical assets:', error);
 });
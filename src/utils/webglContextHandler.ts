@@ -35,6 +35,11 @@ export class WebGLContextHandler {
   private isContextLost: boolean = false;
   private restoreTimeout: number | null = null;
 
+  // Bound listeners (kept so dispose() removes the same function references)
+  private boundContextLost = this.handleContextLost.bind(this);
+  private boundContextRestored = this.handleContextRestored.bind(this);
+  private boundContextCreationError = this.handleContextCreationError.bind(this);
+
   constructor(
     renderer: THREE.WebGLRenderer,
     config: WebGLContextHandlerConfig = {}
@@ -57,9 +62,9 @@ export class WebGLContextHandler {
    * Set up WebGL context event listeners
    */
   private setupEventListeners(): void {
-    this.canvas.addEventListener('webglcontextlost', this.handleContextLost.bind(this), false);
-    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored.bind(this), false);
-    this.canvas.addEventListener('webglcontextcreationerror', this.handleContextCreationError.bind(this), false);
+    this.canvas.addEventListener('webglcontextlost', this.boundContextLost, false);
+    this.canvas.addEventListener('webglcontextrestored', this.boundContextRestored, false);
+    this.canvas.addEventListener('webglcontextcreationerror', this.boundContextCreationError, false);
 
     console.log('✅ WebGL context loss handlers registered');
   }
@@ -92,7 +97,10 @@ export class WebGLContextHandler {
   /**
    * Handle context restored event
    */
-  private handleContextRestored(event: Event): void {
+  private handleContextRestored(_event: Event): void {
+    // Manual check and native event can both report the same restore
+    if (!this.isContextLost) return;
+
     console.log('✅ WebGL context restored');
 
     this.isContextLost = false;
@@ -103,17 +111,17 @@ export class WebGLContextHandler {
       this.restoreTimeout = null;
     }
 
+    // Reinitialize renderer state before the app rebuilds its resources
+    this.reinitializeRenderer();
+
     // Notify callback
     this.config.onContextRestored();
-
-    // Reinitialize renderer state
-    this.reinitializeRenderer();
   }
 
   /**
    * Handle context creation error
    */
-  private handleContextCreationError(event: Event): void {
+  private handleContextCreationError(_event: Event): void {
     console.error('❌ WebGL context creation failed');
 
     const error = new WebGLContextError('Failed to create WebGL context', {
@@ -158,9 +166,11 @@ export class WebGLContextHandler {
    */
   private reinitializeRenderer(): void {
     try {
-      // Force renderer to reinitialize
-      this.renderer.setSize(this.canvas.width, this.canvas.height);
-      this.renderer.setPixelRatio(window.devicePixelRatio);
+      // Force renderer to reinitialize, keeping the pixel ratio chosen by the app
+      // (canvas.width is in device pixels, so use the renderer's CSS size)
+      const size = this.renderer.getSize(new THREE.Vector2());
+      this.renderer.setPixelRatio(this.renderer.getPixelRatio());
+      this.renderer.setSize(size.x, size.y);
 
       console.log('✅ Renderer reinitialized after context restoration');
     } catch (error) {
@@ -212,12 +222,13 @@ export class WebGLContextHandler {
    * Clean up event listeners
    */
   dispose(): void {
-    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost.bind(this));
-    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored.bind(this));
-    this.canvas.removeEventListener('webglcontextcreationerror', this.handleContextCreationError.bind(this));
+    this.canvas.removeEventListener('webglcontextlost', this.boundContextLost, false);
+    this.canvas.removeEventListener('webglcontextrestored', this.boundContextRestored, false);
+    this.canvas.removeEventListener('webglcontextcreationerror', this.boundContextCreationError, false);
 
     if (this.restoreTimeout) {
       clearTimeout(this.restoreTimeout);
+      this.restoreTimeout = null;
     }
 
     console.log('🧹 WebGL context handlers disposed');
@@ -238,6 +249,35 @@ export function createWebGLContextHandler(
   return new WebGLContextHandler(renderer, config);
 }
 
+/**
+ * Flag every material and texture in a scene for re-upload
+ * Call after a context restore so GLB materials, canvas textures and
+ * shader programs are sent to the new context on the next render
+ *
+ * @param scene - Scene (or any object tree) to walk
+ * @returns Number of materials flagged
+ */
+export function markSceneForReupload(scene: THREE.Object3D): number {
+  const materials = new Set<THREE.Material>();
+
+  scene.traverse((object) => {
+    const material = (object as THREE.Mesh).material;
+    if (!material) return;
+    (Array.isArray(material) ? material : [material]).forEach((mat) => materials.add(mat));
+  });
+
+  materials.forEach((material) => {
+    Object.values(material).forEach((value) => {
+      if (value instanceof THREE.Texture && value.image) {
+        value.needsUpdate = true;
+      }
+    });
+    material.needsUpdate = true;
+  });
+
+  return materials.size;
+}
+
 /**
  * Check if WebGL is supported
  * 
@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+/**
+ * Build-time configuration (set in the deploy environment, e.g. Netlify's
+ * site settings, or a local .env file)
+ */
+interface ImportMetaEnv {
+  /** Lead submission JSON endpoint; Netlify Forms when unset */
+  readonly VITE_LEADS_ENDPOINT?: string;
+  /** Error report collector; reports stay local when unset */
+  readonly VITE_ERRORS_ENDPOINT?: string;
+  /** RUM collector; metrics stay local when unset */
+  readonly VITE_RUM_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
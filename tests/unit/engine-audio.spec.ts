@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import { checkProceduralEngine, type OfflineContextConstructor } from '../../src/audio/engineCheck';
+
+/**
+ * Procedural Engine Audio Tests
+ *
+ * Renders the synthesized engine offline with node-web-audio-api, so no
+ * browser page is involved. Checks levels and frequency content
+ * (see src/audio/engineCheck.ts). Skipped where the native module cannot
+ * load (it needs Node 22+ and ALSA's libasound).
+ */
+
+test.describe('Procedural engine', () => {
+  test('levels and frequency content', async () => {
+    let OfflineContext: OfflineContextConstructor;
+    try {
+      ({ OfflineAudioContext: OfflineContext } = await import('node-web-audio-api'));
+    } catch (error) {
+      test.skip(true, `node-web-audio-api unavailable: ${(error as Error).message}`);
+      return;
+    }
+
+    const results = await checkProceduralEngine(OfflineContext);
+
+    for (const { name, passed, detail } of results) {
+      expect(passed, `${name}: ${detail}`).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { test, expect } from '@playwright/test';
+import { createEmptyLead, isLikelySpam, MIN_FILL_TIME_MS, validateLead } from '../../src/leads/validation';
+import { LeadQueue } from '../../src/leads/LeadQueue';
+import type { LeadFormData, LeadSubmission, LeadSubmissionAdapter, QueuedLead } from '../../src/leads/types';
+import { LeadSubmissionError } from '../../src/utils/errors';
+
+/**
+ * Lead Validation and Retry Queue Tests
+ *
+ * The queue runs against an in-memory localStorage and a fake clock.
+ */
+
+const STORAGE_KEY = 'translink:lead-queue';
+
+const validLead: LeadFormData = {
+  name: 'Jane Doe',
+  company: 'Fleet Co',
+  fleetSize: '11-50',
+  tankTypes: ['diesel'],
+  email: 'jane@fleet.co',
+  phone: '',
+  message: ''
+};
+
+test.describe('validateLead', () => {
+  test('accepts a complete form with no phone', () => {
+    expect(validateLead(validLead)).toEqual({});
+  });
+
+  test('reports every missing field of an empty form', () => {
+    expect(Object.keys(validateLead(createEmptyLead())).sort()).toEqual(
+      ['company', 'email', 'fleetSize', 'name', 'tankTypes']
+    );
+  });
+
+  test('rejects malformed values', () => {
+    ([
+      { name: ' J ' },
+      { fleetSize: '1000+' as LeadFormData['fleetSize'] },
+      { email: 'jane@fleet' },
+      { email: 'jane @fleet.co' },
+      { phone: 'call me' },
+      { phone: '12345' },
+      { message: 'x'.repeat(1001) }
+    ] as Partial<LeadFormData>[]).forEach((fields) => {
+      const [field] = Object.keys(fields);
+      expect(Object.keys(validateLead({ ...validLead, ...fields })), field).toEqual([field]);
+    });
+  });
+
+  test('accepts international phone numbers', () => {
+    ['+251 911 234 567', '(555) 123-4567', '0911.234.567'].forEach((phone) => {
+      expect(validateLead({ ...validLead, phone }), phone).toEqual({});
+    });
+  });
+});
+
+test.describe('isLikelySpam', () => {
+  test('flags a filled honeypot or a submission faster than a human', () => {
+    expect(isLikelySpam('', 0, MIN_FILL_TIME_MS)).toBe(false);
+    expect(isLikelySpam('https://spam.example', 0, 60000)).toBe(true);
+    expect(isLikelySpam('', 0, MIN_FILL_TIME_MS - 1)).toBe(true);
+  });
+});
+
+test.describe('LeadQueue', () => {
+  let now = 0;
+  let store: Map<string, string>;
+  const realNow = Date.now;
+
+  test.beforeEach(() => {
+    now = 1760882607512;
+    Date.now = () => now;
+    store = new Map();
+    (globalThis as { localStorage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> }).localStorage = {
+      getItem: (key) => store.get(key) ?? null,
+      setItem: (key, value) => void store.set(key, value),
+      removeItem: (key) => void store.delete(key)
+    };
+  });
+
+  test.afterEach(() => {
+    Date.now = realNow;
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  });
+
+  /**
+   * Adapter that fails with the queued errors, then succeeds
+   */
+  function createAdapter(failures: Error[] = []): LeadSubmissionAdapter & { sent: string[] } {
+    return {
+      name: 'fake',
+      sent: [],
+      async submit(submission: LeadSubmission) {
+        const failure = failures.shift();
+        if (failure) throw failure;
+        this.sent.push(submission.id);
+      }
+    };
+  }
+
+  const submission = (id: string): LeadSubmission => ({
+    id,
+    data: validLead,
+    submittedAt: new Date(now).toISOString(),
+    source: 'https://example.com/'
+  });
+
+  const retryable = () => new LeadSubmissionError('503', { adapter: 'fake', status: 503, retryable: true });
+  const stored = (): QueuedLead[] => JSON.parse(store.get(STORAGE_KEY) ?? '[]');
+
+  test('persists a submission once and retries it when due', async () => {
+    const adapter = createAdapter();
+    const queue = new LeadQueue(adapter, { baseDelay: 5000 });
+
+    queue.enqueue(submission('a'));
+    queue.enqueue(submission('a'));
+    expect(queue.size()).toBe(1);
+    expect(stored()[0]).toMatchObject({ attempts: 1, nextAttemptAt: now + 5000 });
+
+    expect(await queue.flush()).toBe(0);
+    expect(adapter.sent).toEqual([]);
+
+    now += 5000;
+    expect(await queue.flush()).toBe(1);
+    expect(adapter.sent).toEqual(['a']);
+    expect(store.has(STORAGE_KEY)).toBe(false);
+  });
+
+  test('doubles the delay after each retryable failure, up to maxDelay', async () => {
+    const queue = new LeadQueue(createAdapter([retryable(), retryable(), retryable()]), {
+      baseDelay: 5000,
+      maxDelay: 15000
+    });
+    queue.enqueue(submission('a'));
+
+    await queue.flush(true);
+    expect(stored()[0]).toMatchObject({ attempts: 2, nextAttemptAt: now + 10000 });
+
+    await queue.flush(true);
+    expect(stored()[0]).toMatchObject({ attempts: 3, nextAttemptAt: now + 15000 });
+
+    await queue.flush(true);
+    expect(stored()[0]).toMatchObject({ attempts: 4, nextAttemptAt: now + 15000 });
+  });
+
+  test('drops a submission after maxAttempts or a permanent failure', async () => {
+    const permanent = new LeadSubmissionError('422', { adapter: 'fake', status: 422, retryable: false });
+    const adapter = createAdapter([retryable(), permanent, retryable()]);
+    const queue = new LeadQueue(adapter, { maxAttempts: 3 });
+
+    queue.enqueue(submission('a'));
+    queue.enqueue(submission('b'));
+
+    await queue.flush(true);
+    expect(stored().map((item) => item.submission.id)).toEqual(['a']);
+
+    await queue.flush(true);
+    expect(queue.size()).toBe(0);
+    expect(adapter.sent).toEqual([]);
+  });
+
+  test('treats unknown errors as retryable', async () => {
+    const queue = new LeadQueue(createAdapter([new TypeError('Failed to fetch')]));
+    queue.enqueue(submission('a'));
+
+    await queue.flush(true);
+
+    expect(stored()[0]).toMatchObject({ attempts: 2 });
+  });
+
+  test('keeps submissions enqueued while a flush is sending', async () => {
+    let queue: LeadQueue;
+    const adapter: LeadSubmissionAdapter = {
+      name: 'slow',
+      async submit() {
+        queue.enqueue(submission('late'));
+      }
+    };
+    queue = new LeadQueue(adapter);
+    queue.enqueue(submission('a'));
+
+    expect(await queue.flush(true)).toBe(1);
+
+    expect(stored().map((item) => item.submission.id)).toEqual(['late']);
+  });
+});
@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import { LoadingManager } from '../../src/loading/LoadingManager';
+
+/**
+ * Loading Manager Tests
+ *
+ * Weighted progress across assets and stall timeouts (short real timers).
+ */
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test.describe('progress', () => {
+  test('is the weighted mean of per-asset progress', () => {
+    const manager = new LoadingManager();
+    const model = manager.track('model', { kind: 'model', name: 'truck.glb' });
+    const audio = manager.track('audio', { kind: 'audio', name: 'engine.mp3' });
+
+    model.progress(50, 100);
+    // (6 × 0.5 + 1 × 0) / 7
+    expect(manager.getState().progress).toBeCloseTo(300 / 7);
+
+    audio.done();
+    expect(manager.getState().progress).toBeCloseTo(400 / 7);
+    expect(manager.getState().complete).toBe(false);
+
+    model.done();
+    expect(manager.getState()).toMatchObject({ progress: 100, complete: true });
+  });
+
+  test('counts assets without byte totals as 0 until settled, failures as settled', () => {
+    const manager = new LoadingManager();
+    const decoder = manager.track('draco', { kind: 'decoder', name: 'draco', weight: 1 });
+    const texture = manager.track('logo', { kind: 'texture', name: 'logo.webp', weight: 1 });
+
+    decoder.progress(2048, 0);
+    expect(manager.getState().progress).toBe(0);
+
+    texture.fail(new Error('404'));
+    decoder.done();
+    expect(manager.getState()).toMatchObject({ progress: 100, complete: true });
+    expect(manager.getState().assets.map((asset) => asset.status)).toEqual(['loaded', 'failed']);
+  });
+
+  test('caps progress at the reported total and ignores reports after settling', () => {
+    const manager = new LoadingManager();
+    const model = manager.track('model', { kind: 'model', name: 'truck.glb' });
+
+    model.progress(150, 100);
+    expect(manager.getState().progress).toBe(100);
+    expect(manager.getState().complete).toBe(false);
+
+    model.fail();
+    model.progress(10, 100);
+    expect(manager.getState().assets[0].status).toBe('failed');
+  });
+
+  test('returns the same tracker for a repeated id', () => {
+    const manager = new LoadingManager();
+    const first = manager.track('model', { kind: 'model', name: 'truck.glb' });
+
+    expect(manager.track('model', { kind: 'audio', name: 'other' })).toBe(first);
+    expect(manager.getState().assets).toHaveLength(1);
+  });
+
+  test('reports 100% with nothing tracked', () => {
+    expect(new LoadingManager().getState()).toMatchObject({ progress: 100, complete: true });
+  });
+});
+
+test.describe('stall timeout', () => {
+  test('stops a silent asset from blocking completion', async () => {
+    const manager = new LoadingManager();
+    const model = manager.track('model', { kind: 'model', name: 'truck.glb', stallTimeout: 50 });
+    model.progress(10, 100);
+
+    await wait(100);
+
+    expect(manager.getState().assets[0].status).toBe('timeout');
+    expect(manager.getState().complete).toBe(true);
+
+    // A late finish still counts
+    model.done();
+    expect(manager.getState().assets[0].status).toBe('loaded');
+  });
+
+  test('restarts the timer on every progress report', async () => {
+    const manager = new LoadingManager();
+    const model = manager.track('model', { kind: 'model', name: 'truck.glb', stallTimeout: 200 });
+
+    for (let loaded = 10; loaded <= 50; loaded += 10) {
+      await wait(60);
+      model.progress(loaded, 100);
+    }
+
+    expect(manager.getState().assets[0].status).toBe('loading');
+    model.done();
+  });
+
+  test('never times out a settled asset', async () => {
+    const manager = new LoadingManager();
+    const tracked = manager.trackPromise('audio', Promise.resolve(), { kind: 'audio', name: 'engine.mp3', stallTimeout: 20 });
+
+    await tracked;
+    await wait(50);
+
+    expect(manager.getState().assets[0].status).toBe('loaded');
+  });
+});
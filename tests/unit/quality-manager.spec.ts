@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+import { QualityManager, type QualityManagerConfig } from '../../src/quality/QualityManager';
+import type { QualityTier } from '../../src/quality/types';
+
+/**
+ * Quality Governor Tests
+ *
+ * Drives QualityManager with synthetic frame times on a fake clock: each
+ * frame advances performance.now() by its own duration.
+ */
+
+const SLOW = 40; // ms - average over the 45 FPS budget
+const FAST = 10; // ms - headroom below the 58 FPS mark
+
+let clock = 0;
+const realNow = performance.now;
+
+test.beforeEach(() => {
+  clock = 100000;
+  performance.now = () => clock;
+});
+
+test.afterEach(() => {
+  performance.now = realNow;
+});
+
+/**
+ * Governor with a 30-frame window and short, test-sized hysteresis
+ */
+function createGovernor(initialTier: QualityTier, config: QualityManagerConfig = {}): QualityManager {
+  return new QualityManager({
+    initialTier,
+    windowSize: 30,
+    cooldown: 1000,
+    upgradeHold: 2000,
+    retryBackoff: 10000,
+    ...config
+  });
+}
+
+/**
+ * Feed frames of one duration until `duration` ms have passed
+ */
+function run(quality: QualityManager, frameMs: number, duration: number): void {
+  const end = clock + duration;
+  while (clock < end) {
+    clock += frameMs;
+    quality.sample(frameMs / 1000);
+  }
+}
+
+test.describe('step down', () => {
+  test('drops one tier per window of slow frames', () => {
+    const quality = createGovernor('high');
+    const tiers: QualityTier[] = [];
+    quality.subscribe(({ tier }) => tiers.push(tier));
+
+    run(quality, SLOW, 30 * SLOW);
+    expect(quality.getState().tier).toBe('medium');
+
+    run(quality, SLOW, 30 * SLOW);
+    expect(quality.getState().tier).toBe('low');
+
+    run(quality, SLOW, 10000);
+    expect(quality.getState().tier).toBe('low');
+    expect(tiers).toEqual(['medium', 'low']);
+  });
+
+  test('drops on p90 spikes even when the average is fine', () => {
+    const quality = createGovernor('high');
+
+    // 27 smooth frames and 3 hitches: average 14ms, p90 50ms
+    for (let i = 0; i < 30; i++) {
+      const ms = i % 10 === 9 ? 50 : FAST;
+      clock += ms;
+      quality.sample(ms / 1000);
+    }
+
+    expect(quality.getState().frameTime).toMatchObject({ p90: 50 });
+    expect(quality.getState().tier).toBe('medium');
+  });
+
+  test('waits out the cooldown after a change', () => {
+    const quality = createGovernor('ultra', { cooldown: 5000 });
+
+    run(quality, SLOW, 30 * SLOW);
+    expect(quality.getState().tier).toBe('high');
+
+    run(quality, SLOW, 4000);
+    expect(quality.getState().tier).toBe('high');
+
+    run(quality, SLOW, 2400);
+    expect(quality.getState().tier).toBe('medium');
+  });
+
+  test('ignores pauses longer than maxFrameTime', () => {
+    const quality = createGovernor('high');
+
+    run(quality, 500, 60000);
+
+    expect(quality.getState().tier).toBe('high');
+    expect(quality.getState().frameTime).toBeNull();
+  });
+});
+
+test.describe('step up', () => {
+  test('climbs one tier after sustained headroom', () => {
+    const quality = createGovernor('low');
+
+    run(quality, FAST, 1500);
+    expect(quality.getState().tier).toBe('low');
+
+    run(quality, FAST, 1500);
+    expect(quality.getState().tier).toBe('medium');
+  });
+
+  test('restarts the hold when headroom is interrupted', () => {
+    const quality = createGovernor('low');
+
+    run(quality, FAST, 1500);
+    run(quality, 20, 30 * 20); // between the up and down thresholds
+    run(quality, FAST, 1500);
+
+    expect(quality.getState().tier).toBe('low');
+  });
+});
+
+test.describe('blocked retry', () => {
+  test('keeps away from a tier it left until the backoff expires', () => {
+    const quality = createGovernor('high');
+
+    run(quality, SLOW, 30 * SLOW);
+    expect(quality.getState().tier).toBe('medium');
+
+    // Headroom long past upgradeHold, but high is blocked for 10s
+    run(quality, FAST, 8000);
+    expect(quality.getState().tier).toBe('medium');
+
+    run(quality, FAST, 3000);
+    expect(quality.getState().tier).toBe('high');
+  });
+
+  test('doubles the backoff each time the tier fails again', () => {
+    const quality = createGovernor('high');
+
+    run(quality, SLOW, 30 * SLOW);
+    run(quality, FAST, 11000);
+    expect(quality.getState().tier).toBe('high');
+
+    // Second failure: high is now blocked for 20s
+    run(quality, SLOW, 30 * SLOW);
+    expect(quality.getState().tier).toBe('medium');
+
+    run(quality, FAST, 18000);
+    expect(quality.getState().tier).toBe('medium');
+
+    run(quality, FAST, 3000);
+    expect(quality.getState().tier).toBe('high');
+  });
+
+  test('handing control back with auto clears the blocks', () => {
+    const quality = createGovernor('high');
+
+    run(quality, SLOW, 30 * SLOW);
+    quality.setOverride('medium');
+    run(quality, SLOW, 2000);
+    expect(quality.getState()).toMatchObject({ tier: 'medium', auto: false });
+
+    quality.setOverride('auto');
+    run(quality, FAST, 3000);
+    expect(quality.getState()).toMatchObject({ tier: 'high', auto: true });
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { scrubString, scrubValue } from '../../src/reporting/scrub';
+
+/**
+ * PII Scrubbing Tests
+ *
+ * Personal data must not leave the browser, but the numbers that make
+ * reports useful (timestamps, dates, versions, IDs) must survive.
+ */
+
+test.describe('scrubString', () => {
+  test('redacts phone numbers', () => {
+    [
+      '+251 911 234 567',
+      '+33 6 12 34 56 78',
+      '+14155550123',
+      '(555) 123-4567',
+      '555-123-4567',
+      '0911 234 567'
+    ].forEach((phone) => {
+      expect(scrubString(`Call ${phone} today`), phone).toBe('Call [phone] today');
+    });
+  });
+
+  test('keeps dates, timestamps, versions and IDs', () => {
+    [
+      '2026-10-19',
+      '2026-10-19T14:03:27.512Z',
+      '2026-10-19 14:03:27',
+      '19/10/2026',
+      '1760882607512',
+      'v0.160.0',
+      '10.20.30.40',
+      'lead-1760882607512-4821',
+      'order 123456789'
+    ].forEach((value) => {
+      expect(scrubString(`at ${value} end`), value).toBe(`at ${value} end`);
+    });
+  });
+
+  test('redacts emails and sensitive query parameters', () => {
+    expect(scrubString('Invalid email jane@fleet.co')).toBe('Invalid email [email]');
+    expect(scrubString('/api?token=abc123&page=2')).toBe('/api?token=[redacted]&page=2');
+  });
+});
+
+test.describe('scrubValue', () => {
+  test('redacts sensitive keys and keeps timestamps in context', () => {
+    expect(scrubValue({ email: 'jane@fleet.co', timestamp: 1760882607512, at: '2026-10-19T14:03:27.512Z' })).toEqual({
+      email: '[redacted]',
+      timestamp: 1760882607512,
+      at: '2026-10-19T14:03:27.512Z'
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+import {
+  migrateTelematicsMessage,
+  validateTelematicsMessage,
+  TELEMATICS_SCHEMA_VERSION
+} from '../../src/telematics/schema';
+import type { TelematicsMessage } from '../../src/telematics/types';
+import { ConfigurationError } from '../../src/utils/errors';
+
+/**
+ * Telemetry Schema Tests
+ *
+ * Version 1 messages are migrated to the current schema; anything a widget
+ * could not trust is rejected with a ConfigurationError naming the field.
+ */
+
+/**
+ * Validate and return the error thrown, if any
+ */
+function rejection(message: unknown): ConfigurationError | null {
+  try {
+    validateTelematicsMessage(message as TelematicsMessage, 'fixture.json');
+    return null;
+  } catch (error) {
+    return error as ConfigurationError;
+  }
+}
+
+test.describe('migrateTelematicsMessage', () => {
+  test('treats a message without schemaVersion as version 1', () => {
+    expect(migrateTelematicsMessage({ speedKmh: 80, temperatureC: 21 })).toEqual({
+      speedKmh: 80,
+      ambientTempC: 21,
+      schemaVersion: TELEMATICS_SCHEMA_VERSION
+    });
+  });
+
+  test('renames temperatureC only when it is present', () => {
+    const migrated = migrateTelematicsMessage({ schemaVersion: 1, fuelLevelPercent: 40 });
+    expect(migrated).toEqual({ fuelLevelPercent: 40, schemaVersion: TELEMATICS_SCHEMA_VERSION });
+    expect('ambientTempC' in migrated).toBe(false);
+    expect('temperatureC' in migrated).toBe(false);
+  });
+
+  test('keeps a zero temperature', () => {
+    expect(migrateTelematicsMessage({ temperatureC: 0 }).ambientTempC).toBe(0);
+  });
+
+  test('returns current and newer versions unchanged', () => {
+    const current = { schemaVersion: 2, ambientTempC: 18, rpm: 1400 };
+    const newer = { schemaVersion: 3, ambientTempC: 18 };
+    expect(migrateTelematicsMessage(current)).toBe(current);
+    expect(migrateTelematicsMessage(newer as TelematicsMessage)).toBe(newer);
+  });
+
+  test('returns non-objects unchanged for validation to reject', () => {
+    expect(migrateTelematicsMessage(null as unknown as TelematicsMessage)).toBeNull();
+    expect(rejection(migrateTelematicsMessage('speed' as unknown as TelematicsMessage))?.message)
+      .toContain('expected a JSON object');
+  });
+
+  test('migrated version 1 messages validate', () => {
+    const migrated = migrateTelematicsMessage({
+      vehicleId: 'TRK-01',
+      timestamp: '2026-10-19T14:03:27.512Z',
+      speedKmh: 72,
+      fuelLevelPercent: 55,
+      batteryPercent: 90,
+      temperatureC: -5,
+      ecoMode: true,
+      rangeKm: 640
+    });
+    expect(rejection(migrated)).toBeNull();
+  });
+});
+
+test.describe('validateTelematicsMessage', () => {
+  const valid: TelematicsMessage = {
+    schemaVersion: 2,
+    vehicleId: 'TRK-01',
+    timestamp: 1760882607512,
+    speedKmh: 0,
+    fuelLevelPercent: 100,
+    headingDeg: 360,
+    position: { lat: -90, lon: 180 },
+    sensorHealth: ['probeStuck', 'gpsNoFix'],
+    events: []
+  };
+
+  test('accepts a full message with values on the range ends', () => {
+    expect(rejection(valid)).toBeNull();
+  });
+
+  test('rejects other schema versions', () => {
+    [undefined, 1, 3].forEach((schemaVersion) => {
+      const error = rejection({ ...valid, schemaVersion });
+      expect(error, String(schemaVersion)).toBeInstanceOf(ConfigurationError);
+      expect(error?.message).toContain(`unsupported schema version ${schemaVersion}`);
+    });
+  });
+
+  test('rejects arrays', () => {
+    expect(rejection([valid])?.message).toContain('expected a JSON object');
+  });
+
+  test('rejects numeric fields out of range or not finite', () => {
+    [
+      { speedKmh: -1 },
+      { fuelLevelPercent: 100.5 },
+      { headingDeg: 361 },
+      { tankCapacityL: 0 },
+      { rpm: Number.NaN },
+      { odometerKm: Number.POSITIVE_INFINITY },
+      { ambientTempC: '21' }
+    ].forEach((fields) => {
+      const [field] = Object.keys(fields);
+      const error = rejection({ ...valid, ...fields });
+      expect(error?.message, field).toContain(`${field} must be a number`);
+      expect(error?.context).toMatchObject({ configType: 'telemetry', configPath: 'fixture.json', field });
+    });
+  });
+
+  test('rejects invalid identifiers, timestamps and flags', () => {
+    expect(rejection({ ...valid, vehicleId: 42 })?.message).toContain('vehicleId must be a string');
+    expect(rejection({ ...valid, timestamp: 'yesterday' })?.message).toContain('timestamp must be ISO-8601');
+    expect(rejection({ ...valid, timestamp: true })?.message).toContain('timestamp must be ISO-8601');
+    expect(rejection({ ...valid, ecoMode: 'on' })?.message).toContain('ecoMode must be a boolean');
+  });
+
+  test('rejects positions outside the globe or incomplete', () => {
+    [{ lat: 91, lon: 0 }, { lat: 0, lon: -181 }, { lat: 0 }, null].forEach((position) => {
+      expect(rejection({ ...valid, position })?.message, JSON.stringify(position)).toContain('position needs lat');
+    });
+  });
+
+  test('rejects unknown or malformed health codes and events', () => {
+    expect(rejection({ ...valid, sensorHealth: ['probeMelted'] })?.message).toContain('unknown sensorHealth code "probeMelted"');
+    expect(rejection({ ...valid, sensorHealth: 'probeFault' })?.message).toContain('sensorHealth must be an array');
+    expect(rejection({ ...valid, events: ['refuel', 7] })?.message).toContain('unknown events code "7"');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Translink Service Worker
+ *
+ * Template consumed by serviceWorkerPlugin. The plugin prepends:
+ * - BUILD_ID: buildId from dist/asset-manifest.json
+ * - PRECACHE_MANIFEST: [{ url, checksum, size, verify }]
+ *
+ * Strategy:
+ * - install: download every precache entry, verify its SHA-256 against the
+ *   manifest and store it in a cache named after the build. Any mismatch
+ *   fails the install so a half-downloaded build never replaces a good one.
+ * - activate: drop caches from previous builds
+ * - fetch: cache-first for precached assets (Range requests from media
+ *   elements are cut from the cached file), cached index.html for
+ *   navigations, stale-while-revalidate for Google Fonts
+ */
+
+/* global BUILD_ID, PRECACHE_MANIFEST */
+
+const CACHE_PREFIX = 'translink-precache-';
+const PRECACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+const FONT_CACHE_NAME = 'translink-fonts';
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+const APP_SHELL_URL = '/index.html';
+const MAX_ATTEMPTS = 3;
+const CONCURRENCY = 4;
+
+const precacheUrls = new Set(PRECACHE_MANIFEST.map((entry) => entry.url));
+
+/**
+ * SHA-256 of a buffer as lowercase hex (matches the manifest checksums)
+ */
+async function sha256(buffer) {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Download one entry, verify it and store it, retrying flaky downloads
+ */
+async function precacheEntry(cache, entry) {
+  let lastError;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(entry.url, { cache: 'reload' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const buffer = await response.arrayBuffer();
+      if (entry.verify) {
+        const checksum = await sha256(buffer);
+        if (checksum !== entry.checksum) {
+          throw new Error(`checksum mismatch (expected ${entry.checksum}, got ${checksum})`);
+        }
+      }
+
+      await cache.put(entry.url, new Response(buffer, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+      }));
+      return;
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ [SW] ${entry.url} attempt ${attempt}/${MAX_ATTEMPTS} failed:`, error);
+    }
+  }
+
+  throw new Error(`Failed to precache ${entry.url}: ${lastError && lastError.message}`);
+}
+
+/**
+ * Precache the whole manifest, CONCURRENCY downloads at a time
+ */
+async function precacheAll() {
+  const cache = await caches.open(PRECACHE_NAME);
+
+  // Entries already stored by an interrupted install are kept
+  const cached = new Set((await cache.keys()).map((request) => new URL(request.url).pathname));
+  const queue = PRECACHE_MANIFEST.filter((entry) => !cached.has(entry.url));
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      await precacheEntry(cache, queue.shift());
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  console.log(`✅ [SW] Precached ${PRECACHE_MANIFEST.length} assets for build ${BUILD_ID}`);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheAll());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(
+      names
+        .filter((name) => name.startsWith(CACHE_PREFIX) && name !== PRECACHE_NAME)
+        .map((name) => caches.delete(name))
+    );
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+/**
+ * Answer a Range request from a cached full response
+ * Unparsable ranges get the whole file (200), out-of-bounds ones 416
+ */
+async function rangeResponse(request, cached) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('Range').trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return cached;
+  }
+
+  const body = await cached.arrayBuffer();
+  const size = body.byteLength;
+  const start = match[1] === '' ? Math.max(size - Number(match[2]), 0) : Number(match[1]);
+  const end = match[1] === '' || match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+
+  if (start >= size || start > end) {
+    return new Response(null, {
+      status: 416,
+      statusText: 'Range Not Satisfiable',
+      headers: { 'Content-Range': `bytes */${size}` }
+    });
+  }
+
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes'
+    }
+  });
+}
+
+/**
+ * Cache-first lookup in the current build's precache
+ */
+async function fromPrecache(request, url) {
+  const cache = await caches.open(PRECACHE_NAME);
+  const cached = await cache.match(url);
+  if (cached && request.headers.has('Range')) {
+    return rangeResponse(request, cached);
+  }
+  return cached || fetch(request);
+}
+
+/**
+ * Serve the app shell for navigations, preferring the network only when the
+ * shell is not cached yet
+ */
+async function navigate(request) {
+  const cache = await caches.open(PRECACHE_NAME);
+  const cached = await cache.match(APP_SHELL_URL);
+  return cached || fetch(request);
+}
+
+/**
+ * Stale-while-revalidate for web fonts
+ */
+async function fromFontCache(event) {
+  const cache = await caches.open(FONT_CACHE_NAME);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') {
+        cache.put(event.request, response.clone());
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(fromFontCache(event));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (precacheUrls.has(url.pathname)) {
+    event.respondWith(fromPrecache(request, url.pathname));
+  }
+});
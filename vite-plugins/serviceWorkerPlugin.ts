@@ -0,0 +1,130 @@
+/**
+ * Vite Service Worker Plugin
+ *
+ * Generates an offline-capable service worker from the asset manifest:
+ * - Reads dist/asset-manifest.json (see assetManifestPlugin)
+ * - Selects the app shell, GLB models, Draco/Basis decoders, audio and the
+ *   fallback video
+ * - Embeds their SHA-256 checksums for integrity checks at install time
+ * - Versions the precache by the manifest buildId
+ *
+ * Output: dist/sw.js
+ *
+ * Must be listed after assetManifestPlugin so the manifest exists when
+ * this plugin's closeBundle runs.
+ */
+
+import { Plugin } from 'vite';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { AssetManifest } from './assetManifestPlugin';
+
+export interface PrecacheEntry {
+  url: string;
+  checksum: string;
+  size: number;
+  /** Skip checksum verification (HTML may be post-processed by the host) */
+  verify: boolean;
+}
+
+export interface ServiceWorkerPluginOptions {
+  /** Output file name inside outDir (default: 'sw.js') */
+  fileName?: string;
+  /** Manifest paths to precache (default: DEFAULT_PRECACHE_PATTERNS) */
+  include?: RegExp[];
+  /** Manifest paths never precached, checked after include */
+  exclude?: RegExp[];
+}
+
+/**
+ * Everything the experience needs to run with no network:
+ * app shell, models, decoders, audio, UI images, telemetry fixtures and the
+ * fallback video (src/config/scrollTimeline.json)
+ */
+const DEFAULT_PRECACHE_PATTERNS: RegExp[] = [
+  /^index\.html$/,
+  /^assets\//,
+  /^model\/.+\.glb$/,
+  /^(ktx2|lod)-manifest\.json$/,
+  /^draco\//,
+  /^basis\//,
+  /^audio\/.+\.mp3$/,
+  /^Video\//,
+  /^optimized\//,
+  /^telematics\//,
+  /^logo\.png$/
+];
+
+const DEFAULT_EXCLUDE_PATTERNS: RegExp[] = [
+  /^asset-manifest\.json$/,
+  /\.(gz|br)$/
+];
+
+const TEMPLATE_PATH = join(__dirname, 'service-worker.js');
+
+export function serviceWorkerPlugin(options: ServiceWorkerPluginOptions = {}): Plugin {
+  const {
+    fileName = 'sw.js',
+    include = DEFAULT_PRECACHE_PATTERNS,
+    exclude = DEFAULT_EXCLUDE_PATTERNS
+  } = options;
+  let outDir: string;
+
+  return {
+    name: 'service-worker-plugin',
+    apply: 'build',
+
+    configResolved(config) {
+      outDir = config.build.outDir;
+    },
+
+    closeBundle: {
+      order: 'post',
+      sequential: true,
+      handler() {
+        console.log('🛰️  Generating service worker...');
+
+        const distPath = join(process.cwd(), outDir);
+        const manifestPath = join(distPath, 'asset-manifest.json');
+
+        try {
+          if (!existsSync(manifestPath)) {
+            console.warn('⚠️  asset-manifest.json not found - skipping service worker');
+            return;
+          }
+
+          const manifest: AssetManifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+
+          const precache: PrecacheEntry[] = manifest.assets
+            .filter((asset) => include.some((pattern) => pattern.test(asset.path)))
+            .filter((asset) => !exclude.some((pattern) => pattern.test(asset.path)))
+            .map((asset) => ({
+              url: `/${asset.path}`,
+              checksum: asset.checksum,
+              size: asset.size,
+              verify: asset.type !== 'html'
+            }))
+            .sort((a, b) => a.url.localeCompare(b.url));
+
+          const template = readFileSync(TEMPLATE_PATH, 'utf-8');
+          const header = [
+            `const BUILD_ID = ${JSON.stringify(manifest.buildId)};`,
+            `const PRECACHE_MANIFEST = ${JSON.stringify(precache)};`,
+            ''
+          ].join('\n');
+
+          writeFileSync(join(distPath, fileName), header + template);
+
+          const totalSize = precache.reduce((sum, entry) => sum + entry.size, 0);
+          console.log('✅ Service worker generated');
+          console.log(`   Build ID: ${manifest.buildId}`);
+          console.log(`   Precached assets: ${precache.length}`);
+          console.log(`   Precache size: ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
+
+        } catch (error) {
+          console.error('❌ Failed to generate service worker:', error);
+        }
+      }
+    }
+  };
+}
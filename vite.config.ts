@@ -1,11 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { assetManifestPlugin } from './vite-plugins/assetManifestPlugin';
+import { serviceWorkerPlugin } from './vite-plugins/serviceWorkerPlugin';
 
 export default defineConfig({
   plugins: [
     react(),
-    assetManifestPlugin()
+    assetManifestPlugin(),
+    serviceWorkerPlugin()
   ],
   server: {
     port: 3000,